@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { organizationService, hasPermission, getPermissionDeniedMessage } from '@/lib/organizations';
+import {
+  channelConnectionService,
+  isConnectableChannel,
+  ChannelConnectionError,
+  CHANNEL_CREDENTIAL_SCHEMAS,
+} from '@/lib/channel-connections';
+import { isCredentialEncryptionConfigured } from '@/lib/credential-encryption';
+
+// Connect the organization's account on a channel, replacing any current one.
+// The credentials are checked against the channel before they are stored.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ channel: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { channel } = await params;
+    if (!isConnectableChannel(channel)) {
+      return NextResponse.json({ error: `Unknown channel: ${channel}` }, { status: 404 });
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (!hasPermission(membership.role, 'manage_channels')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_channels') },
+        { status: 403 }
+      );
+    }
+
+    if (!isCredentialEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'Credential encryption is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const parsed = CHANNEL_CREDENTIAL_SCHEMAS[channel].safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid credentials', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const connection = await channelConnectionService.connect(
+      membership.organizationId,
+      channel,
+      parsed.data,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      connection,
+    });
+
+  } catch (error) {
+    if (error instanceof ChannelConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error connecting channel:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to connect channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ channel: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { channel } = await params;
+    if (!isConnectableChannel(channel)) {
+      return NextResponse.json({ error: `Unknown channel: ${channel}` }, { status: 404 });
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (!hasPermission(membership.role, 'manage_channels')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_channels') },
+        { status: 403 }
+      );
+    }
+
+    const disconnected = await channelConnectionService.disconnect(membership.organizationId, channel);
+    if (!disconnected) {
+      return NextResponse.json({ error: 'Channel is not connected' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Channel disconnected',
+    });
+
+  } catch (error) {
+    console.error('Error disconnecting channel:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to disconnect channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { organizationService, hasPermission, getPermissionDeniedMessage } from '@/lib/organizations';
+import { channelConnectionService, isConnectableChannel } from '@/lib/channel-connections';
+
+// Re-check the stored credentials. A rejected check is recorded on the
+// connection rather than reported as a failed request.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ channel: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { channel } = await params;
+    if (!isConnectableChannel(channel)) {
+      return NextResponse.json({ error: `Unknown channel: ${channel}` }, { status: 404 });
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (!hasPermission(membership.role, 'manage_channels')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_channels') },
+        { status: 403 }
+      );
+    }
+
+    const connection = await channelConnectionService.test(membership.organizationId, channel);
+    if (!connection) {
+      return NextResponse.json({ error: 'Channel is not connected' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: connection.status === 'connected',
+      connection,
+    });
+
+  } catch (error) {
+    console.error('Error testing channel connection:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to test channel connection',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { organizationService, hasPermission } from '@/lib/organizations';
+import { channelConnectionService } from '@/lib/channel-connections';
+import { isCredentialEncryptionConfigured } from '@/lib/credential-encryption';
+import { ebayOAuth } from '@/lib/ebay-oauth';
+
+// The active organization's sales channel accounts - never their credentials
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    const connections = await channelConnectionService.getConnections(membership.organizationId);
+
+    return NextResponse.json({
+      success: true,
+      connections,
+      canManage: hasPermission(membership.role, 'manage_channels'),
+      encryptionConfigured: isCredentialEncryptionConfigured(),
+      // eBay accounts connect through eBay's consent page rather than a pasted token
+      ebayOAuthConfigured: ebayOAuth.isConfigured(),
+    });
+
+  } catch (error) {
+    console.error('Error fetching channel connections:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch channel connections',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
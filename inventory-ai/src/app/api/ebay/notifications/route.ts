@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ebayOrderSyncService, type EbayNotification } from "@/lib/ebay-orders"
+
+// eBay validates the endpoint by sending a challenge code that must be hashed
+// together with our verification token and the endpoint URL
+export async function GET(request: NextRequest) {
+  const challengeCode = request.nextUrl.searchParams.get("challenge_code")
+  if (!challengeCode) {
+    return NextResponse.json({ error: "challenge_code is required" }, { status: 400 })
+  }
+
+  const challengeResponse = ebayOrderSyncService.getChallengeResponse(challengeCode)
+  if (!challengeResponse) {
+    console.warn("eBay notification verification token or endpoint not configured")
+    return NextResponse.json({ error: "eBay notifications are not configured" }, { status: 503 })
+  }
+
+  return NextResponse.json({ challengeResponse })
+}
+
+// eBay calls this without a session - pushes are authenticated by their
+// X-EBAY-SIGNATURE header. Orders are still re-read from the Fulfillment API
+// before anything is marked sold.
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes eBay sent, so read the body as text
+  const rawBody = await request.text()
+
+  try {
+    if (!await ebayOrderSyncService.verifyNotification(rawBody, request.headers.get("x-ebay-signature"))) {
+      // eBay's documented answer to a notification that fails verification
+      return NextResponse.json({ error: "Invalid notification signature" }, { status: 412 })
+    }
+
+    let payload: EbayNotification
+    try {
+      payload = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json({ error: "Invalid notification payload" }, { status: 400 })
+    }
+
+    const result = await ebayOrderSyncService.handleNotification(payload)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error("Error handling eBay notification:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to process notification",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
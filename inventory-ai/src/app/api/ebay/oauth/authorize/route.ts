@@ -0,0 +1,78 @@
+import { randomBytes } from "crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { auth } from "@/lib/auth"
+import { organizationService, hasPermission, getPermissionDeniedMessage } from "@/lib/organizations"
+import { ebayOAuth } from "@/lib/ebay-oauth"
+import {
+  EbayListingSettingsSchema,
+  EBAY_AUTHORIZATION_COOKIE,
+  type EbayAuthorizationRequest,
+} from "@/lib/channel-connections"
+import { encryptCredentials, isCredentialEncryptionConfigured } from "@/lib/credential-encryption"
+
+// Long enough to sign in to eBay and grant access
+const AUTHORIZATION_TTL_SECONDS = 10 * 60
+
+// Start connecting a seller account: answers with eBay's consent page URL.
+// The listing settings wait in an encrypted cookie until eBay sends the
+// seller back to /api/ebay/oauth/callback.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id)
+    if (!hasPermission(membership.role, "manage_channels")) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, "manage_channels") },
+        { status: 403 }
+      )
+    }
+
+    if (!ebayOAuth.isConfigured() || !isCredentialEncryptionConfigured()) {
+      return NextResponse.json({ error: "eBay sign-in is not configured" }, { status: 503 })
+    }
+
+    const parsed = EbayListingSettingsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid listing settings", details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      )
+    }
+
+    const authorization: EbayAuthorizationRequest = {
+      state: randomBytes(24).toString("base64url"),
+      organizationId: membership.organizationId,
+      userId: session.user.id,
+      settings: parsed.data,
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      url: ebayOAuth.getAuthorizationUrl(authorization.state),
+    })
+    response.cookies.set(EBAY_AUTHORIZATION_COOKIE, encryptCredentials(authorization), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      // Lax still sends it on eBay's top-level redirect back to us
+      sameSite: "lax",
+      path: "/api/ebay/oauth",
+      maxAge: AUTHORIZATION_TTL_SECONDS,
+    })
+    return response
+
+  } catch (error) {
+    console.error("Error starting eBay authorization:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to start eBay authorization",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
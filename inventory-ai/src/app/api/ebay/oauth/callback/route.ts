@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { organizationService, hasPermission } from "@/lib/organizations"
+import { ebayOAuth, EbayOAuthError } from "@/lib/ebay-oauth"
+import {
+  channelConnectionService,
+  toEbayOAuthCredentials,
+  ChannelConnectionError,
+  EBAY_AUTHORIZATION_COOKIE,
+  type EbayAuthorizationRequest,
+} from "@/lib/channel-connections"
+import { decryptCredentials } from "@/lib/credential-encryption"
+
+// Where eBay sends the seller back after the consent page - the RuName's
+// accept and decline URLs both point here. Every outcome ends on /channels.
+export async function GET(request: NextRequest) {
+  const finish = (outcome: { connected: true } | { error: string }) => {
+    const url = new URL("/channels", request.url)
+    if ("error" in outcome) {
+      url.searchParams.set("error", outcome.error)
+    } else {
+      url.searchParams.set("connected", "ebay")
+    }
+
+    const response = NextResponse.redirect(url)
+    response.cookies.delete({ name: EBAY_AUTHORIZATION_COOKIE, path: "/api/ebay/oauth" })
+    return response
+  }
+
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return finish({ error: "Sign in to connect eBay" })
+    }
+
+    const cookie = request.cookies.get(EBAY_AUTHORIZATION_COOKIE)?.value
+    let authorization: EbayAuthorizationRequest
+    try {
+      authorization = decryptCredentials<EbayAuthorizationRequest>(cookie || "")
+    } catch {
+      return finish({ error: "The eBay sign-in expired - start again" })
+    }
+
+    const { searchParams } = request.nextUrl
+    // A mismatched state means this redirect was not started by this browser
+    if (searchParams.get("state") !== authorization.state || authorization.userId !== session.user.id) {
+      return finish({ error: "The eBay sign-in could not be verified - start again" })
+    }
+
+    const code = searchParams.get("code")
+    if (!code) {
+      return finish({ error: "eBay access was not granted" })
+    }
+
+    // Connect the organization the consent was started for, if the user may still
+    const memberships = await organizationService.getMemberships(session.user.id)
+    const membership = memberships.find(current => current.organizationId === authorization.organizationId)
+    if (!membership || !hasPermission(membership.role, "manage_channels")) {
+      return finish({ error: "You can no longer connect sales channels for this organization" })
+    }
+
+    const tokens = await ebayOAuth.exchangeCode(code)
+    await channelConnectionService.connect(
+      authorization.organizationId,
+      "ebay",
+      toEbayOAuthCredentials(authorization.settings, tokens),
+      session.user.id
+    )
+
+    return finish({ connected: true })
+
+  } catch (error) {
+    if (error instanceof ChannelConnectionError || error instanceof EbayOAuthError) {
+      return finish({ error: error.message })
+    }
+    console.error("Error completing eBay authorization:", error)
+    return finish({ error: "Failed to connect eBay" })
+  }
+}
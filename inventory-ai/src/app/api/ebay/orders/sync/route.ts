@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { ebayOrderSyncService } from "@/lib/ebay-orders"
+import { channelConnectionService } from "@/lib/channel-connections"
+import { requireProductPermission, ProductAccessError } from "@/lib/product-access"
+
+export async function POST() {
+  try {
+    const { membership } = await requireProductPermission("publish_listings")
+
+    const seller = await channelConnectionService.getEbay(membership.organizationId)
+    if (!seller) {
+      return NextResponse.json({ error: "eBay is not connected" }, { status: 503 })
+    }
+
+    const result = await ebayOrderSyncService.pollOrders(seller)
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      ...result
+    })
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error polling eBay orders:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to poll eBay orders",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { LocalStorageDriver, storage } from "@/lib/storage"
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+}
+
+// Serves private files from local storage behind URLs signed by the storage
+// driver. Object storage serves its own signed URLs, so this is local-only.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  if (!(storage instanceof LocalStorageDriver)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { key: segments } = await params
+  const key = segments.join("/")
+  const expires = Number(request.nextUrl.searchParams.get("expires"))
+  const signature = request.nextUrl.searchParams.get("signature") || ""
+
+  if (!storage.verifySignedUrl(key, expires, signature)) {
+    return NextResponse.json({ error: "Invalid or expired link" }, { status: 403 })
+  }
+
+  try {
+    const file = await storage.read(key)
+    const extension = key.split(".").pop()?.toLowerCase() || ""
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[extension] || "application/octet-stream",
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error reading stored file:", error)
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+}
@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GeminiService } from '@/lib/gemini';
+import { auth } from '@/lib/auth';
+import {
+  GeminiService,
+  type CompetitorResearch,
+  type GeminiAnalysis,
+  type MarketData,
+  type PlatformListing,
+  type ProductIdentification,
+  type SeoContent,
+} from '@/lib/gemini';
+import { aiProviders } from '@/lib/ai-providers';
 import { ebayApi } from '@/lib/ebay-api';
-import { shopifyInventory, ShopifyInventoryService } from '@/lib/shopify-inventory';
+import type { InventoryProductData, ShopifyProduct } from '@/lib/shopify-inventory';
+import { mapListingCondition } from '@/lib/product-data';
+import { organizationService } from '@/lib/organizations';
+import { channelConnectionService } from '@/lib/channel-connections';
+import { usageService, getBudgetExceededError } from '@/lib/usage';
 import { z } from 'zod';
 
 // Request validation schema
@@ -17,224 +31,294 @@ const AnalysisRequestSchema = z.object({
   createShopifyProduct: z.boolean().default(false),
 });
 
+// A step that failed reports why in place of its result
+interface FailedStep {
+  error: string;
+}
+
+interface EbayAnalysis {
+  searchResults: Awaited<ReturnType<typeof ebayApi.searchItems>>;
+  competitivePricing: Awaited<ReturnType<typeof ebayApi.getCompetitivePricing>>;
+  suggestedCategories: Awaited<ReturnType<typeof ebayApi.suggestCategories>>;
+}
+
+interface ComprehensiveAnalysis {
+  timestamp: string;
+  analysisType: 'comprehensive';
+  data: {
+    imageAnalysis?: ProductIdentification | FailedStep;
+    marketResearch?: MarketData | FailedStep;
+    ebayAnalysis?: EbayAnalysis | FailedStep;
+    geminiAnalysis?: GeminiAnalysis | FailedStep;
+    shopifyInventoryData?: InventoryProductData;
+    shopifyProduct?: ShopifyProduct | FailedStep;
+    ebaySync?: { success: true; message: string } | { success: false; error: string };
+    platformListings?: Record<'ebay' | 'facebook' | 'shopify', PlatformListing> | FailedStep;
+    seoContent?: SeoContent | FailedStep;
+    competitorResearch?: CompetitorResearch | FailedStep;
+  };
+  summary?: {
+    analysisComplete: boolean;
+    componentsAnalyzed: number;
+    recommendedPrice: number;
+    shippingWeight?: GeminiAnalysis['shippingWeight'];
+    platformCategories?: GeminiAnalysis['platformCategories'];
+    seoKeywords?: GeminiAnalysis['seoKeywords'];
+    shopifyReady: boolean;
+    ebayReady: boolean;
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await request.json();
     const validatedData = AnalysisRequestSchema.parse(body);
 
-    const geminiService = new GeminiService();
-    const results: any = {
-      timestamp: new Date().toISOString(),
-      analysisType: 'comprehensive',
-      data: {},
-    };
+    const userId = session.user.id;
+
+    // Charge every AI and scraping call below to the signed-in user
+    return await usageService.run({ userId }, async () => {
+      const geminiService = new GeminiService();
+      const results: ComprehensiveAnalysis = {
+        timestamp: new Date().toISOString(),
+        analysisType: 'comprehensive',
+        data: {},
+      };
+
+      // Step 1: Image Analysis (if image provided)
+      let imageAnalysis: ProductIdentification | undefined;
+      if (validatedData.imageUrl) {
+        console.log('🔍 Identifying product from image...');
+        try {
+          imageAnalysis = await aiProviders.identifyProduct(validatedData.imageUrl);
+          results.data.imageAnalysis = imageAnalysis;
+        } catch (error) {
+          console.error('Image analysis failed:', error);
+          results.data.imageAnalysis = { error: 'Failed to analyze image' };
+        }
+      }
+
+      // Step 2: Market Research with Grounded Search
+      console.log('📊 Conducting market research...');
+      const productName = validatedData.productTitle || 
+                         imageAnalysis?.title ||
+                         'Unknown Product';
+      const brand = validatedData.brand || 
+                    imageAnalysis?.brand || 
+                    'Unknown Brand';
 
-    // Step 1: Image Analysis (if image provided)
-    if (validatedData.imageUrl) {
-      console.log('🔍 Analyzing product image with Gemini...');
       try {
-        results.data.imageAnalysis = await geminiService.analyzeProductImage(validatedData.imageUrl);
+        results.data.marketResearch = await geminiService.searchMarketData(productName, brand);
       } catch (error) {
-        console.error('Image analysis failed:', error);
-        results.data.imageAnalysis = { error: 'Failed to analyze image' };
+        console.error('Market research failed:', error);
+        results.data.marketResearch = { error: 'Failed to conduct market research' };
       }
-    }
 
-    // Step 2: Market Research with Grounded Search
-    console.log('📊 Conducting market research...');
-    const productName = validatedData.productTitle || 
-                       results.data.imageAnalysis?.productIdentification?.title || 
-                       'Unknown Product';
-    const brand = validatedData.brand || 
-                  results.data.imageAnalysis?.productIdentification?.brand || 
-                  'Unknown Brand';
+      // Step 3: eBay Competitive Analysis (if enabled)
+      let ebayAnalysis: EbayAnalysis | undefined;
+      if (validatedData.includeEbayData) {
+        console.log('🛒 Analyzing eBay competitive data...');
+        try {
+          const ebaySearchResults = await ebayApi.searchItems(`${productName} ${brand}`, {
+            limit: 20,
+            sort: 'price',
+          });
 
-    try {
-      results.data.marketResearch = await geminiService.searchMarketData(productName, brand);
-    } catch (error) {
-      console.error('Market research failed:', error);
-      results.data.marketResearch = { error: 'Failed to conduct market research' };
-    }
+          const competitivePricing = await ebayApi.getCompetitivePricing(productName, {
+            brand: brand,
+            condition: validatedData.condition,
+          });
 
-    // Step 3: eBay Competitive Analysis (if enabled)
-    if (validatedData.includeEbayData) {
-      console.log('🛒 Analyzing eBay competitive data...');
-      try {
-        const ebaySearchResults = await ebayApi.searchItems(`${productName} ${brand}`, {
-          limit: 20,
-          sort: 'price',
-        });
+          ebayAnalysis = {
+            searchResults: ebaySearchResults,
+            competitivePricing: competitivePricing,
+            suggestedCategories: await ebayApi.suggestCategories(productName, brand),
+          };
+          results.data.ebayAnalysis = ebayAnalysis;
+        } catch (error) {
+          console.error('eBay analysis failed:', error);
+          results.data.ebayAnalysis = { error: 'Failed to analyze eBay data' };
+        }
+      }
 
-        const competitivePricing = await ebayApi.getCompetitivePricing(productName, {
-          brand: brand,
-          condition: validatedData.condition,
-        });
+      // Step 4: Comprehensive Gemini Analysis with all data
+      console.log('🧠 Generating comprehensive AI analysis...');
+      const productData = {
+        title: validatedData.productTitle || imageAnalysis?.title,
+        description: validatedData.productDescription,
+        category: validatedData.category,
+        brand: brand,
+        condition: validatedData.condition,
+        aiIdentification: results.data.imageAnalysis,
+      };
 
-        results.data.ebayAnalysis = {
-          searchResults: ebaySearchResults,
-          competitivePricing: competitivePricing,
-          suggestedCategories: await ebayApi.suggestCategories(productName, brand),
-        };
+      let geminiAnalysis: GeminiAnalysis | undefined;
+      try {
+        geminiAnalysis = await geminiService.analyzeProduct(
+          productData,
+          {
+            marketResearch: results.data.marketResearch,
+            ebayData: results.data.ebayAnalysis,
+          }
+        );
+        results.data.geminiAnalysis = geminiAnalysis;
       } catch (error) {
-        console.error('eBay analysis failed:', error);
-        results.data.ebayAnalysis = { error: 'Failed to analyze eBay data' };
+        console.error('Gemini analysis failed:', error);
+        results.data.geminiAnalysis = { error: 'Failed to generate comprehensive analysis' };
       }
-    }
-
-    // Step 4: Comprehensive Gemini Analysis with all data
-    console.log('🧠 Generating comprehensive AI analysis...');
-    const productData = {
-      title: validatedData.productTitle || results.data.imageAnalysis?.productIdentification?.title,
-      description: validatedData.productDescription,
-      category: validatedData.category,
-      brand: brand,
-      condition: validatedData.condition,
-      aiIdentification: results.data.imageAnalysis,
-    };
-
-    try {
-      results.data.geminiAnalysis = await geminiService.analyzeProduct(
-        productData,
-        {
-          marketResearch: results.data.marketResearch,
-          ebayData: results.data.ebayAnalysis,
-        }
-      );
-    } catch (error) {
-      console.error('Gemini analysis failed:', error);
-      results.data.geminiAnalysis = { error: 'Failed to generate comprehensive analysis' };
-    }
 
-    // Step 5: Generate Shopify-Ready Inventory Data
-    console.log('🏪 Preparing Shopify inventory data...');
-    if (results.data.geminiAnalysis && !results.data.geminiAnalysis.error) {
-      const analysis = results.data.geminiAnalysis;
+      // Step 5: Generate Shopify-Ready Inventory Data
+      console.log('🏪 Preparing Shopify inventory data...');
+      if (geminiAnalysis) {
+        const analysis = geminiAnalysis;
       
-      results.data.shopifyInventoryData = {
-        title: analysis.title,
-        description: analysis.description,
-        brand: analysis.platformCategories?.shopify?.vendor || brand,
-        model: validatedData.model,
-        sku: `INV-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        price: results.data.ebayAnalysis?.competitivePricing?.averagePrice || 0,
-        weight: analysis.shippingWeight?.pounds || 1,
-        weightUnit: 'lb' as const,
-        dimensions: analysis.dimensions ? {
-          length: analysis.dimensions.length,
-          width: analysis.dimensions.width,
-          height: analysis.dimensions.height,
-          unit: 'in' as const,
-        } : undefined,
-        trackQuantity: true,
-        continueSellingWhenOutOfStock: false,
-        requiresShipping: true,
-        condition: validatedData.condition || 'used',
-        productType: analysis.platformCategories?.shopify?.productType || 'General',
-        vendor: analysis.platformCategories?.shopify?.vendor || brand,
-        tags: [
-          ...analysis.tags,
-          ...analysis.seoKeywords?.primary || [],
-          ...analysis.seoKeywords?.secondary || [],
-        ],
-        seoTitle: analysis.seoTitle,
-        seoDescription: analysis.seoDescription,
-        images: validatedData.imageUrl ? [{
-          src: validatedData.imageUrl,
-          alt: analysis.title,
-          position: 1,
-        }] : [],
-        metafields: analysis.shopifyMetafields || [],
-        locations: [{
-          locationId: 1, // Default location
-          quantity: 1,
-        }],
-      };
+        const shopifyInventoryData: InventoryProductData = {
+          title: analysis.title,
+          description: analysis.description,
+          brand: analysis.platformCategories?.shopify?.vendor || brand,
+          model: validatedData.model,
+          sku: `INV-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          price: ebayAnalysis?.competitivePricing?.averagePrice || 0,
+          weight: analysis.shippingWeight?.pounds || 1,
+          weightUnit: 'lb' as const,
+          dimensions: analysis.dimensions ? {
+            length: analysis.dimensions.length,
+            width: analysis.dimensions.width,
+            height: analysis.dimensions.height,
+            unit: 'in' as const,
+          } : undefined,
+          trackQuantity: true,
+          continueSellingWhenOutOfStock: false,
+          requiresShipping: true,
+          condition: mapListingCondition(validatedData.condition),
+          productType: analysis.platformCategories?.shopify?.productType || 'General',
+          vendor: analysis.platformCategories?.shopify?.vendor || brand,
+          tags: [
+            ...analysis.tags,
+            ...analysis.seoKeywords?.primary || [],
+            ...analysis.seoKeywords?.secondary || [],
+          ],
+          seoTitle: analysis.seoTitle,
+          seoDescription: analysis.seoDescription,
+          images: validatedData.imageUrl ? [{
+            src: validatedData.imageUrl,
+            alt: analysis.title,
+            position: 1,
+          }] : [],
+          metafields: analysis.shopifyMetafields || [],
+          locations: [{
+            locationId: 1, // Default location
+            quantity: 1,
+          }],
+        };
+        results.data.shopifyInventoryData = shopifyInventoryData;
 
-      // Step 6: Create Shopify Product (if requested)
-      if (validatedData.createShopifyProduct) {
-        console.log('🚀 Creating Shopify product...');
-        try {
-          const shopifyProduct = await shopifyInventory.createProduct(results.data.shopifyInventoryData);
-          results.data.shopifyProduct = shopifyProduct;
+        // Step 6: Create Shopify Product (if requested)
+        if (validatedData.createShopifyProduct) {
+          console.log('🚀 Creating Shopify product...');
+          try {
+            // Create it in the store of the organization the user is working in
+            const { organizationId } = await organizationService.getActiveMembership(userId);
+            const store = await channelConnectionService.getShopify(organizationId);
+            if (!store) {
+              throw new Error('Shopify is not connected');
+            }
+
+            const shopifyProduct = await store.shopify.createProduct(shopifyInventoryData);
+            results.data.shopifyProduct = shopifyProduct;
           
-          // Sync to eBay if eBay integration is enabled
-          if (validatedData.includeEbayData) {
-            console.log('🔄 Syncing to eBay...');
-            try {
-              await shopifyInventory.syncInventoryToEbay(shopifyProduct.id!, ebayApi);
-              results.data.ebaySync = { success: true, message: 'Product synced to eBay successfully' };
-            } catch (error) {
-              console.error('eBay sync failed:', error);
-              results.data.ebaySync = { success: false, error: 'Failed to sync to eBay' };
+            // Sync to eBay if eBay integration is enabled
+            if (validatedData.includeEbayData) {
+              console.log('🔄 Syncing to eBay...');
+              try {
+                const seller = await channelConnectionService.getEbay(organizationId);
+                if (!seller) {
+                  throw new Error('eBay is not connected');
+                }
+                await store.shopify.syncInventoryToEbay(shopifyProduct.id!, seller.api);
+                results.data.ebaySync = { success: true, message: 'Product synced to eBay successfully' };
+              } catch (error) {
+                console.error('eBay sync failed:', error);
+                results.data.ebaySync = { success: false, error: 'Failed to sync to eBay' };
+              }
             }
+          } catch (error) {
+            console.error('Shopify product creation failed:', error);
+            results.data.shopifyProduct = { error: 'Failed to create Shopify product' };
           }
+        }
+      }
+
+      // Step 7: Generate Platform-Specific Listings
+      console.log('📝 Generating platform-specific content...');
+      if (geminiAnalysis) {
+        try {
+          // eBay listing
+          results.data.platformListings = {
+            ebay: await geminiService.generatePlatformListing(productData, 'ebay'),
+            facebook: await geminiService.generatePlatformListing(productData, 'facebook'),
+            shopify: await geminiService.generatePlatformListing(productData, 'shopify'),
+          };
         } catch (error) {
-          console.error('Shopify product creation failed:', error);
-          results.data.shopifyProduct = { error: 'Failed to create Shopify product' };
+          console.error('Platform listing generation failed:', error);
+          results.data.platformListings = { error: 'Failed to generate platform listings' };
         }
       }
-    }
 
-    // Step 7: Generate Platform-Specific Listings
-    console.log('📝 Generating platform-specific content...');
-    if (results.data.geminiAnalysis && !results.data.geminiAnalysis.error) {
+      // Step 8: SEO Content Generation
+      console.log('🎯 Generating SEO content...');
       try {
-        // eBay listing
-        results.data.platformListings = {
-          ebay: await geminiService.generatePlatformListing(productData, 'ebay'),
-          facebook: await geminiService.generatePlatformListing(productData, 'facebook'),
-          shopify: await geminiService.generatePlatformListing(productData, 'shopify'),
-        };
+        results.data.seoContent = await geminiService.generateSEOContent({
+          title: productName,
+          brand: brand,
+          category: validatedData.category,
+          seoKeywords: geminiAnalysis?.seoKeywords,
+        });
       } catch (error) {
-        console.error('Platform listing generation failed:', error);
-        results.data.platformListings = { error: 'Failed to generate platform listings' };
+        console.error('SEO content generation failed:', error);
+        results.data.seoContent = { error: 'Failed to generate SEO content' };
       }
-    }
-
-    // Step 8: SEO Content Generation
-    console.log('🎯 Generating SEO content...');
-    try {
-      results.data.seoContent = await geminiService.generateSEOContent({
-        title: productName,
-        brand: brand,
-        category: validatedData.category,
-        seoKeywords: results.data.geminiAnalysis?.seoKeywords,
-      });
-    } catch (error) {
-      console.error('SEO content generation failed:', error);
-      results.data.seoContent = { error: 'Failed to generate SEO content' };
-    }
 
-    // Step 9: Competitor Research
-    console.log('🕵️ Conducting competitor research...');
-    try {
-      results.data.competitorResearch = await geminiService.researchCompetitors({
-        title: productName,
-        brand: brand,
-        category: validatedData.category,
-      }, ['ebay', 'amazon', 'facebook']);
-    } catch (error) {
-      console.error('Competitor research failed:', error);
-      results.data.competitorResearch = { error: 'Failed to conduct competitor research' };
-    }
+      // Step 9: Competitor Research
+      console.log('🕵️ Conducting competitor research...');
+      try {
+        results.data.competitorResearch = await geminiService.researchCompetitors({
+          title: productName,
+          brand: brand,
+          category: validatedData.category,
+        }, ['ebay', 'amazon', 'facebook']);
+      } catch (error) {
+        console.error('Competitor research failed:', error);
+        results.data.competitorResearch = { error: 'Failed to conduct competitor research' };
+      }
 
-    // Summary
-    results.summary = {
-      analysisComplete: true,
-      componentsAnalyzed: Object.keys(results.data).length,
-      recommendedPrice: results.data.ebayAnalysis?.competitivePricing?.averagePrice || 0,
-      shippingWeight: results.data.geminiAnalysis?.shippingWeight,
-      platformCategories: results.data.geminiAnalysis?.platformCategories,
-      seoKeywords: results.data.geminiAnalysis?.seoKeywords,
-      shopifyReady: !!results.data.shopifyInventoryData,
-      ebayReady: !!results.data.ebayAnalysis,
-    };
+      // Summary
+      results.summary = {
+        analysisComplete: true,
+        componentsAnalyzed: Object.keys(results.data).length,
+        recommendedPrice: ebayAnalysis?.competitivePricing?.averagePrice || 0,
+        shippingWeight: geminiAnalysis?.shippingWeight,
+        platformCategories: geminiAnalysis?.platformCategories,
+        seoKeywords: geminiAnalysis?.seoKeywords,
+        shopifyReady: !!results.data.shopifyInventoryData,
+        ebayReady: !!results.data.ebayAnalysis,
+      };
 
-    console.log('✅ Comprehensive analysis completed successfully');
-    return NextResponse.json(results);
+      console.log('✅ Comprehensive analysis completed successfully');
+      return NextResponse.json(results);
+    });
 
   } catch (error) {
     console.error('Comprehensive analysis failed:', error);
+    const budgetError = getBudgetExceededError(error);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError.message }, { status: 402 });
+    }
     return NextResponse.json(
       { 
         error: 'Failed to complete comprehensive analysis',
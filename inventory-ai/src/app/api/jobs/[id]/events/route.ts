@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { jobQueue, serializeJob } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+
+// Long streams are closed and EventSource reconnects, resuming after the
+// Last-Event-ID it was sent - keeps proxies from cutting idle connections
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+/**
+ * Server-Sent Events stream of a job's progress:
+ * - `progress`: one event from the job's log, with the log position as its id
+ * - `job`: the job's state whenever it changes
+ * - `done`: the finished job, after which the stream closes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let organizationId: string;
+  try {
+    const { membership } = await requireProductPermission('view_products');
+    organizationId = membership.organizationId;
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const { id } = await params;
+
+  const job = await jobQueue.getJob(id, organizationId);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const resumeAfter = Number(request.headers.get('last-event-id')) || 0;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown, eventId?: number) => {
+        const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+        controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const startedAt = Date.now();
+      let sentEventId = resumeAfter;
+      let lastUpdatedAt = '';
+      let current = job;
+
+      try {
+        while (!request.signal.aborted) {
+          const view = serializeJob(current);
+
+          for (const event of view.events.filter(event => event.id > sentEventId)) {
+            send('progress', event, event.id);
+            sentEventId = event.id;
+          }
+
+          if (view.updatedAt !== lastUpdatedAt) {
+            lastUpdatedAt = view.updatedAt;
+            send('job', view);
+          }
+
+          if (view.status === 'completed' || view.status === 'failed') {
+            send('done', view);
+            break;
+          }
+
+          if (Date.now() - startedAt > MAX_STREAM_MS) break;
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+          const next = await jobQueue.getJob(id, organizationId);
+          if (!next) break;
+          current = next;
+        }
+      } catch (error) {
+        // Writes fail once the client has gone - nothing to report then
+        if (!request.signal.aborted) {
+          console.error('Error streaming job progress:', error);
+          send('stream_error', { error: 'Failed to stream job progress' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
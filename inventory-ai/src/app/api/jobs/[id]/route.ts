@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { jobQueue, serializeJob } from '@/lib/jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { membership } = await requireProductPermission('view_products');
+
+    const { id } = await params;
+    const job = await jobQueue.getJob(id, membership.organizationId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: serializeJob(job),
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { jobQueue, serializeJob } from '@/lib/jobs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { membership } = await requireProductPermission('view_products');
+
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId') || undefined;
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, 100);
+
+    const jobs = await jobQueue.getJobs(membership.organizationId, { productId, limit });
+
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map(serializeJob),
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
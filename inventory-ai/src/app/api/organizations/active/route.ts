@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { organizationService, ROLE_PERMISSIONS } from '@/lib/organizations';
+
+const SwitchOrganizationSchema = z.object({
+  organizationId: z.string().min(1),
+});
+
+// Switch the organization the user is working in
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = SwitchOrganizationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const membership = await organizationService.setActiveOrganization(session.user.id, parsed.data.organizationId);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Organization not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      active: {
+        organization: membership.organization,
+        role: membership.role,
+        permissions: ROLE_PERMISSIONS[membership.role],
+      },
+    });
+
+  } catch (error) {
+    console.error('Error switching organization:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to switch organization',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { organizationService, hasPermission, getPermissionDeniedMessage } from '@/lib/organizations';
+
+// Revoke a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (!hasPermission(membership.role, 'manage_members')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_members') },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await organizationService.revokeInvitation(membership.organizationId, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation revoked successfully',
+    });
+
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke invitation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { organizationService, OrganizationError, ROLE_PERMISSIONS } from '@/lib/organizations';
+
+const AcceptInvitationSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Join an organization from an invitation link. The signed-in user's email
+// must be the one invited.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = AcceptInvitationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const membership = await organizationService.acceptInvitation(parsed.data.token, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      active: {
+        organization: membership.organization,
+        role: membership.role,
+        permissions: ROLE_PERMISSIONS[membership.role],
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to accept invitation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
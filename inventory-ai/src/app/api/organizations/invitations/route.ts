@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import {
+  organizationService,
+  hasPermission,
+  getPermissionDeniedMessage,
+  getInvitationUrl,
+  OrganizationError,
+  ORGANIZATION_ROLES,
+} from '@/lib/organizations';
+
+const InvitationSchema = z.object({
+  email: z.email(),
+  role: z.enum(ORGANIZATION_ROLES),
+});
+
+// Invite someone to the active organization. There is no mail service, so
+// the response carries the link to send them.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (!hasPermission(membership.role, 'manage_members')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_members') },
+        { status: 403 }
+      );
+    }
+
+    const parsed = InvitationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid invitation', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const { token, ...invitation } = await organizationService.createInvitation(
+      membership.organizationId,
+      session.user.id,
+      parsed.data.email,
+      parsed.data.role
+    );
+
+    return NextResponse.json({
+      success: true,
+      invitation: { ...invitation, url: getInvitationUrl({ token }) },
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating invitation:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create invitation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
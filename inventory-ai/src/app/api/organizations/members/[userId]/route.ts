@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import {
+  organizationService,
+  hasPermission,
+  getPermissionDeniedMessage,
+  OrganizationError,
+  ORGANIZATION_ROLES,
+} from '@/lib/organizations';
+
+const UpdateMemberSchema = z.object({
+  role: z.enum(ORGANIZATION_ROLES),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId } = await params;
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (!hasPermission(membership.role, 'manage_members')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_members') },
+        { status: 403 }
+      );
+    }
+
+    const parsed = UpdateMemberSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid role', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    await organizationService.updateMemberRole(membership.organizationId, userId, parsed.data.role);
+
+    return NextResponse.json({
+      success: true,
+      members: await organizationService.getMembers(membership.organizationId),
+    });
+
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating organization member:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update organization member',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a member - anyone may remove themselves to leave the organization
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId } = await params;
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    if (userId !== session.user.id && !hasPermission(membership.role, 'manage_members')) {
+      return NextResponse.json(
+        { error: getPermissionDeniedMessage(membership.role, 'manage_members') },
+        { status: 403 }
+      );
+    }
+
+    await organizationService.removeMember(membership.organizationId, userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed successfully',
+    });
+
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error removing organization member:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to remove organization member',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
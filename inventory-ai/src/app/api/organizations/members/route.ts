@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { organizationService, hasPermission, getInvitationUrl } from '@/lib/organizations';
+
+// Members of the active organization, and its pending invitations for those
+// who manage members
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await organizationService.getActiveMembership(session.user.id);
+    const members = await organizationService.getMembers(membership.organizationId);
+    const invitations = hasPermission(membership.role, 'manage_members')
+      ? await organizationService.getPendingInvitations(membership.organizationId)
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      members,
+      invitations: invitations.map(({ token, ...invitation }) => ({
+        ...invitation,
+        url: getInvitationUrl({ token }),
+      })),
+    });
+
+  } catch (error) {
+    console.error('Error fetching organization members:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch organization members',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { organizationService, ROLE_PERMISSIONS } from '@/lib/organizations';
+
+const CreateOrganizationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// The organization the user is working in, their role and permissions there,
+// and every organization they belong to
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const active = await organizationService.getActiveMembership(session.user.id);
+    const memberships = await organizationService.getMemberships(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      active: {
+        organization: active.organization,
+        role: active.role,
+        permissions: ROLE_PERMISSIONS[active.role],
+      },
+      organizations: memberships.map(membership => ({
+        ...membership.organization,
+        role: membership.role,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch organizations',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a new organization - the user owns it and switches to it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = CreateOrganizationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid organization', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const membership = await organizationService.createOrganization(session.user.id, parsed.data.name);
+
+    return NextResponse.json({
+      success: true,
+      organization: membership.organization,
+      role: membership.role,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create organization',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from "next/server"
-import { auth } from "@/lib/auth"
+import { requireProductPermission, ProductAccessError } from "@/lib/product-access"
+import { pricingService } from "@/lib/pricing"
+import { calculateProfit } from "@/lib/profit"
+import { SALES_CHANNELS } from "@/lib/channel-listings"
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth()
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+    const { membership } = await requireProductPermission("view_products")
 
-    const { marketData, condition, category, brand } = await request.json()
+    const { marketData, condition, category, brand, costBasis } = await request.json()
 
     if (!marketData || !Array.isArray(marketData) || marketData.length === 0) {
       return NextResponse.json({ error: "Market data is required" }, { status: 400 })
@@ -19,39 +19,12 @@ export async function POST(request: NextRequest) {
     const minMarketPrice = Math.min(...marketData.map(data => data.minPrice))
     const maxMarketPrice = Math.max(...marketData.map(data => data.maxPrice))
 
-    // Condition multipliers
-    const conditionMultipliers = {
-      'new': 1.0,
-      'like-new': 0.85,
-      'very-good': 0.75,
-      'good': 0.65,
-      'acceptable': 0.50
-    }
-
-    // Category adjustments (some categories hold value better)
-    const categoryMultipliers = {
-      'electronics': 0.9, // Electronics depreciate quickly
-      'clothing': 0.6,    // Clothing has lower resale value
-      'home': 0.8,        // Home goods moderate depreciation
-      'books': 0.4,       // Books have low resale value
-      'toys': 0.7,        // Toys moderate depreciation
-      'sports': 0.8,      // Sports equipment holds value well
-      'collectibles': 1.1, // Collectibles can appreciate
-      'jewelry': 0.9,     // Jewelry holds value well
-      'default': 0.75
-    }
-
-    // Brand premium (simplified - in production, use a comprehensive brand database)
-    const premiumBrands = ['apple', 'nike', 'adidas', 'sony', 'samsung', 'canon', 'nikon']
-    const brandMultiplier = brand && premiumBrands.some(b => 
-      brand.toLowerCase().includes(b)
-    ) ? 1.1 : 1.0
+    // Condition, category and brand adjustments come from the organization's pricing rules
+    const rules = await pricingService.getRules(membership.organizationId)
+    const conditionMultiplier = pricingService.getConditionMultiplier(rules, condition)
+    const storeAdjustment = pricingService.getStoreAdjustment(rules, { category, brand })
 
-    // Calculate suggested price
-    const conditionMultiplier = conditionMultipliers[condition as keyof typeof conditionMultipliers] || 0.75
-    const categoryMultiplier = categoryMultipliers[category as keyof typeof categoryMultipliers] || categoryMultipliers.default
-    
-    let suggestedPrice = avgMarketPrice * conditionMultiplier * categoryMultiplier * brandMultiplier
+    let suggestedPrice = avgMarketPrice * conditionMultiplier * storeAdjustment.multiplier
 
     // Apply pricing strategy (competitive pricing)
     // Price slightly below average to be competitive
@@ -74,17 +47,22 @@ export async function POST(request: NextRequest) {
     
     confidence = Math.min(95, Math.max(30, confidence))
 
-    // Generate pricing recommendations
+    // Generate pricing recommendations, rounded and held at the floor - the
+    // minimum price or, with a known cost, what keeps the target margin
+    const cost = typeof costBasis === "number" && costBasis >= 0 ? costBasis : null
+    const { price: priceFloor, reason: priceFloorReason } = pricingService.getPriceFloor(rules, cost)
     const recommendations = {
-      suggested: Math.round(suggestedPrice * 100) / 100,
-      competitive: Math.round(suggestedPrice * 0.9 * 100) / 100,
-      premium: Math.round(suggestedPrice * 1.15 * 100) / 100,
-      quick_sale: Math.round(suggestedPrice * 0.8 * 100) / 100
+      suggested: pricingService.finalizePrice(suggestedPrice, rules, priceFloor).price,
+      competitive: pricingService.finalizePrice(suggestedPrice * 0.9, rules, priceFloor).price,
+      premium: pricingService.finalizePrice(suggestedPrice * 1.15, rules, priceFloor).price,
+      quick_sale: pricingService.finalizePrice(suggestedPrice * 0.8, rules, priceFloor).price
     }
 
-    // Calculate potential profit margins (assuming 30% cost basis)
-    const estimatedCost = suggestedPrice * 0.3
-    const profitMargin = ((suggestedPrice - estimatedCost) / suggestedPrice * 100)
+    // Net profit after each channel's fees at the suggested price
+    const profit = SALES_CHANNELS.map(channel =>
+      calculateProfit(channel, recommendations.suggested, cost, rules.channelFees)
+    )
+    const margins = profit.map(channel => channel.margin).filter((margin): margin is number => margin !== null)
 
     return NextResponse.json({
       success: true,
@@ -104,21 +82,32 @@ export async function POST(request: NextRequest) {
           },
           category: {
             value: category,
-            impact: categoryMultiplier
+            impact: storeAdjustment.brand === null ? storeAdjustment.category : 1
           },
           brand: {
             value: brand || 'unknown',
-            impact: brandMultiplier
+            impact: storeAdjustment.brand ?? 1
+          },
+          rules: {
+            rounding: rules.rounding,
+            minimumPrice: rules.minimumPrice,
+            priceFloor,
+            priceFloorReason
           }
         },
         analysis: {
           marketSamples: totalSamples,
           dataSources: marketData.length,
-          estimatedProfitMargin: Math.round(profitMargin)
-        }
+          // Lowest across channels; null without a cost basis
+          estimatedProfitMargin: margins.length ? Math.round(Math.min(...margins) * 100) : null
+        },
+        profit
       }
     })
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Pricing calculation error:", error)
     return NextResponse.json(
       { error: "Failed to calculate pricing" },
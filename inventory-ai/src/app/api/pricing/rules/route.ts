@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { CONDITION_GRADES } from '@/lib/comp-pricing';
+import { pricingService, ROUNDING_RULES } from '@/lib/pricing';
+import { SALES_CHANNELS } from '@/lib/channel-listings';
+import { DEFAULT_CHANNEL_FEES } from '@/lib/profit';
+
+const Multiplier = z.number().positive().max(10);
+
+const ChannelFeeSchema = z.object({
+  percent: z.number().min(0).max(0.5),
+  fixed: z.number().min(0),
+  shippingLabel: z.number().min(0),
+});
+
+const PricingRulesSchema = z.object({
+  conditionMultipliers: z.record(z.enum(CONDITION_GRADES), Multiplier),
+  categoryMultipliers: z.record(z.string().trim().min(1), Multiplier).default({}),
+  brandOverrides: z.record(z.string().trim().min(1), Multiplier).default({}),
+  minimumPrice: z.number().min(0).default(0),
+  rounding: z.enum(ROUNDING_RULES).default('none'),
+  targetMargin: z.number().min(0).max(0.95).nullable().default(null),
+  channelFees: z.record(z.enum(SALES_CHANNELS), ChannelFeeSchema).default(DEFAULT_CHANNEL_FEES),
+});
+
+export async function GET() {
+  try {
+    const { membership } = await requireProductPermission('view_products');
+
+    const rules = await pricingService.getRules(membership.organizationId);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching pricing rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch pricing rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId, membership } = await requireProductPermission('set_prices');
+
+    const parsed = PricingRulesSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid pricing rules', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const rules = await pricingService.saveRules(membership.organizationId, userId, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating pricing rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update pricing rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Back to the defaults
+export async function DELETE() {
+  try {
+    const { membership } = await requireProductPermission('set_prices');
+
+    const rules = await pricingService.resetRules(membership.organizationId);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error resetting pricing rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reset pricing rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,30 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { enhancedAIService } from "@/lib/enhanced-ai";
+import { usageService, getBudgetExceededError } from "@/lib/usage";
+import { getOwnedProductOrThrow, ProductAccessError } from "@/lib/product-access";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id: productId } = await params;
+    const { product } = await getOwnedProductOrThrow(productId, "analyze_products");
 
-    // Get product from database
-    const product = await prisma.product.findUnique({
-      where: { id: productId },
-    });
-
-    if (!product) {
-      return NextResponse.json({ error: "Product not found" }, { status: 404 });
-    }
-
-    if (!product.imageUrl) {
+    const imageUrl = product.imageUrl;
+    if (!imageUrl) {
       return NextResponse.json(
         { error: "Product image required for analysis" },
         { status: 400 }
@@ -32,16 +21,18 @@ export async function POST(
     }
 
     // Perform enhanced AI analysis
-    const analysis = await enhancedAIService.analyzeProduct(
-      product.imageUrl,
-      productId,
-      product.userId,
-      {
-        userTitle: product.title,
-        userDescription: product.description || undefined,
-        userCategory: product.category || undefined,
-        condition: product.condition,
-      }
+    const analysis = await usageService.run({ userId: product.userId, productId }, () =>
+      enhancedAIService.analyzeProduct(
+        imageUrl,
+        productId,
+        product.userId,
+        {
+          userTitle: product.title,
+          userDescription: product.description || undefined,
+          userCategory: product.category || undefined,
+          condition: product.condition,
+        }
+      )
     );
 
     // Update product with analysis results
@@ -64,7 +55,14 @@ export async function POST(
 
     return NextResponse.json(analysis);
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Error in AI analysis:", error);
+    const budgetError = getBudgetExceededError(error);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError.message }, { status: 402 });
+    }
     return NextResponse.json(
       { error: "Failed to analyze product" },
       { status: 500 }
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { channelListingService, isSalesChannel } from '@/lib/channel-listings';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; channel: string }> }
+) {
+  try {
+    const { id, channel } = await params;
+
+    if (!isSalesChannel(channel)) {
+      return NextResponse.json(
+        { error: `Unknown sales channel: ${channel}` },
+        { status: 404 }
+      );
+    }
+
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const channelListing = await channelListingService.getListing(id, channel);
+
+    if (!channelListing) {
+      return NextResponse.json(
+        { error: `Product is not listed on ${channel}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      channelListing,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching channel listing:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch channel listing',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Confirm a listing that had to be taken down by hand is gone
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; channel: string }> }
+) {
+  try {
+    const { id, channel } = await params;
+
+    if (!isSalesChannel(channel)) {
+      return NextResponse.json(
+        { error: `Unknown sales channel: ${channel}` },
+        { status: 404 }
+      );
+    }
+
+    await getOwnedProductOrThrow(id, 'publish_listings', { select: { id: true } });
+
+    const listing = await channelListingService.getListing(id, channel);
+
+    if (!listing) {
+      return NextResponse.json(
+        { error: `Product is not listed on ${channel}` },
+        { status: 404 }
+      );
+    }
+
+    if (listing.status !== 'pending_removal') {
+      return NextResponse.json(
+        { error: `The ${channel} listing is not waiting to be removed by hand` },
+        { status: 409 }
+      );
+    }
+
+    const channelListing = await channelListingService.markEnded(id, channel);
+
+    return NextResponse.json({
+      success: true,
+      channelListing,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error confirming channel listing removal:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to confirm channel listing removal',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
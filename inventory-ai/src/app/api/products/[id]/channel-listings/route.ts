@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { channelListingService } from '@/lib/channel-listings';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const channelListings = await channelListingService.getListings(id);
+
+    return NextResponse.json({
+      success: true,
+      channelListings,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching channel listings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch channel listings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService, getImageStorageKeys } from '@/lib/product-images';
+import { storage } from '@/lib/storage';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+// Originals are kept private - redirect the owner to a short-lived signed URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  try {
+    const { id, imageId } = await params;
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const image = await productImageService.getImage(id, imageId);
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    const originalKey = getImageStorageKeys(image).original;
+    if (!originalKey) {
+      return NextResponse.json({ error: 'No original stored for this image' }, { status: 404 });
+    }
+
+    const signedUrl = await storage.getSignedUrl(originalKey);
+    return NextResponse.redirect(new URL(signedUrl, request.url));
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error getting original image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get original image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService, isProductImageRole } from '@/lib/product-images';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  try {
+    const { id, imageId } = await params;
+    const { role, width, height, altText } = await request.json();
+
+    if (role !== undefined && !isProductImageRole(role)) {
+      return NextResponse.json({ error: `Unknown image role: ${role}` }, { status: 400 });
+    }
+
+    await getOwnedProductOrThrow(id, 'manage_images', { select: { id: true } });
+
+    if (!await productImageService.getImage(id, imageId)) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    const image = await productImageService.updateImage(id, imageId, { role, width, height, altText });
+
+    return NextResponse.json({
+      success: true,
+      image,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating product image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update product image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  try {
+    const { id, imageId } = await params;
+    await getOwnedProductOrThrow(id, 'manage_images', { select: { id: true } });
+
+    if (!await productImageService.getImage(id, imageId)) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    await productImageService.deleteImage(id, imageId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Image deleted successfully',
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting product image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete product image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
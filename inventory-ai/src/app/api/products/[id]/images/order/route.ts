@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService } from '@/lib/product-images';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { imageIds } = await request.json();
+
+    if (!Array.isArray(imageIds) || !imageIds.every(imageId => typeof imageId === 'string')) {
+      return NextResponse.json({ error: 'imageIds must be an array of image ids' }, { status: 400 });
+    }
+
+    await getOwnedProductOrThrow(id, 'manage_images', { select: { id: true } });
+
+    const images = await productImageService.reorder(id, imageIds);
+
+    if (!images) {
+      return NextResponse.json(
+        { error: 'imageIds must list every image of the product exactly once' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      images,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reordering product images:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reorder product images',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productImageService, isOwnedStorageKeys, isProductImageRole } from '@/lib/product-images';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const images = await productImageService.getImages(id);
+
+    return NextResponse.json({
+      success: true,
+      images,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching product images:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch product images',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId } = await getOwnedProductOrThrow(id, 'manage_images', { select: { id: true } });
+
+    const { url, thumbnailUrl, storageKeys, role, width, height, altText } = await request.json();
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'Image URL is required' }, { status: 400 });
+    }
+
+    if (role !== undefined && !isProductImageRole(role)) {
+      return NextResponse.json({ error: `Unknown image role: ${role}` }, { status: 400 });
+    }
+
+    if (storageKeys !== undefined && !isOwnedStorageKeys(storageKeys, userId)) {
+      return NextResponse.json({ error: 'Invalid storage keys' }, { status: 400 });
+    }
+
+    const image = await productImageService.addImage(id, {
+      url,
+      thumbnailUrl,
+      storageKeys,
+      role,
+      width,
+      height,
+      altText,
+    });
+
+    return NextResponse.json({
+      success: true,
+      image,
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error adding product image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add product image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inventorySyncService } from '@/lib/inventory-sync';
+import { isSalesChannel } from '@/lib/channel-listings';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const actions = await inventorySyncService.getActions(id);
+
+    return NextResponse.json({
+      success: true,
+      actions,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching inventory sync actions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch inventory sync actions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark the product sold and end its listings everywhere - safe to re-run
+// after a channel failed the first time
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { sourceChannel } = await request.json().catch(() => ({}));
+
+    if (sourceChannel !== undefined && !isSalesChannel(sourceChannel)) {
+      return NextResponse.json(
+        { error: `Unknown sales channel: ${sourceChannel}` },
+        { status: 400 }
+      );
+    }
+
+    await getOwnedProductOrThrow(id, 'publish_listings', { select: { id: true } });
+
+    const actions = await inventorySyncService.markSold(id, { sourceChannel });
+    const failed = actions.filter(action => action.status === 'failed');
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      actions,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error syncing sold inventory:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sync sold inventory',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
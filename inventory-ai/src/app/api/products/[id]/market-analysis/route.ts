@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access'
 import { facebookMarketplaceService } from '@/lib/facebook-marketplace'
 import { apifyService } from '@/lib/apify'
+import { CacheStats } from '@/lib/response-cache'
+import { usageService } from '@/lib/usage'
 
 export async function POST(
   request: NextRequest,
@@ -10,32 +13,29 @@ export async function POST(
   const { id: productId } = await context.params;
 
   try {
-
-    // Get product from database
-    const product = await prisma.product.findUnique({
-      where: { id: productId }
-    })
-
-    if (!product) {
-      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
-    }
+    const { product } = await getOwnedProductOrThrow(productId, 'analyze_products')
 
     console.log('Starting comprehensive market analysis for:', product.title)
 
     // Parallel market data collection
-    const [facebookAnalysis, ebayData] = await Promise.allSettled([
-      // Facebook Marketplace analysis
-      facebookMarketplaceService.getMarketAnalysis(
-        product.title,
-        product.category || undefined,
-        product.condition
-      ),
-      
-      // eBay data - use getMarketData instead
-      apifyService.getMarketData(product.title, {
-        maxItemsPerPlatform: 50
-      })
-    ])
+    const cacheStats = new CacheStats()
+    const [facebookAnalysis, ebayData] = await usageService.run({ userId: product.userId, productId }, () =>
+      Promise.allSettled([
+        // Facebook Marketplace analysis - skipped once the owner's budget is spent
+        facebookMarketplaceService.getMarketAnalysis(
+          product.title,
+          product.category || undefined,
+          product.condition,
+          cacheStats
+        ),
+
+        // eBay data - use getMarketData instead
+        apifyService.getMarketData(product.title, {
+          maxItemsPerPlatform: 50,
+          cacheStats
+        })
+      ])
+    )
 
     // Process results
     const marketAnalysis = {
@@ -56,9 +56,10 @@ export async function POST(
           conditionAnalysis: marketAnalysis.facebook.conditionAnalysis
         } : null,
         ebay: marketAnalysis.ebay ? {
-          averagePrice: marketAnalysis.ebay.averagePrice || 0,
-          totalListings: marketAnalysis.ebay.items?.length || 0,
-          soldListings: marketAnalysis.ebay.soldItems?.length || 0
+          // Sold-weighted across eBay and Google Shopping
+          averagePrice: marketAnalysis.ebay.summary.averagePrice,
+          totalListings: marketAnalysis.ebay.ebay.filter(item => !item.isSold).length,
+          soldListings: marketAnalysis.ebay.ebay.filter(item => item.isSold).length
         } : null
       },
       overallInsights: {
@@ -89,13 +90,17 @@ export async function POST(
             key !== 'timestamp' && key !== 'productId' && marketAnalysis[key as keyof typeof marketAnalysis]
           ).length,
           totalListings: (marketAnalysis.facebook?.totalListings || 0) + 
-                        (marketAnalysis.ebay?.items?.length || 0),
+                        (marketAnalysis.ebay?.ebay?.length || 0),
           averagePrice: calculateOverallAveragePrice(marketAnalysis)
-        }
+        },
+        cache: cacheStats.report()
       }
     })
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Error in market analysis:', error)
     return NextResponse.json(
       { error: 'Failed to perform market analysis' },
@@ -111,8 +116,8 @@ function calculatePriceRange(marketAnalysis: any) {
     prices.push(marketAnalysis.facebook.averagePrice)
   }
   
-  if (marketAnalysis.ebay?.averagePrice) {
-    prices.push(marketAnalysis.ebay.averagePrice)
+  if (marketAnalysis.ebay?.summary?.averagePrice) {
+    prices.push(marketAnalysis.ebay.summary.averagePrice)
   }
   
   if (prices.length === 0) return { min: 0, max: 0, recommended: 0 }
@@ -130,7 +135,7 @@ function calculatePriceRange(marketAnalysis: any) {
 
 function assessMarketActivity(marketAnalysis: any) {
   const totalListings = (marketAnalysis.facebook?.totalListings || 0) + 
-                       (marketAnalysis.ebay?.items?.length || 0)
+                       (marketAnalysis.ebay?.ebay?.length || 0)
   
   if (totalListings > 50) return 'high'
   if (totalListings > 20) return 'medium'
@@ -141,7 +146,7 @@ function assessMarketActivity(marketAnalysis: any) {
 function analyzeCompetitivePosition(marketAnalysis: any) {
   // Simple competitive analysis based on listing density
   const fbListings = marketAnalysis.facebook?.totalListings || 0
-  const ebayListings = marketAnalysis.ebay?.items?.length || 0
+  const ebayListings = marketAnalysis.ebay?.ebay?.length || 0
   
   const totalCompetition = fbListings + ebayListings
   
@@ -158,7 +163,7 @@ function analyzeDemandIndicators(marketAnalysis: any) {
     indicators.push('High Facebook Marketplace activity')
   }
   
-  if (marketAnalysis.ebay?.soldItems?.length > 10) {
+  if (marketAnalysis.ebay?.summary?.soldListings > 10) {
     indicators.push('Strong eBay sales history')
   }
   
@@ -179,8 +184,8 @@ function calculateOverallAveragePrice(marketAnalysis: any) {
     prices.push(marketAnalysis.facebook.averagePrice)
   }
   
-  if (marketAnalysis.ebay?.averagePrice) {
-    prices.push(marketAnalysis.ebay.averagePrice)
+  if (marketAnalysis.ebay?.summary?.averagePrice) {
+    prices.push(marketAnalysis.ebay.summary.averagePrice)
   }
   
   if (prices.length === 0) return 0
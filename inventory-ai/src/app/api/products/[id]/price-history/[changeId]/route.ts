@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { priceHistoryService } from '@/lib/price-history';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+// The market analysis behind a price change, as it was when the change was made
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; changeId: string }> }
+) {
+  try {
+    const { id, changeId } = await params;
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const analysis = await priceHistoryService.getAnalysis(id, changeId);
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'No analysis recorded for this price change' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching price change analysis:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch price change analysis',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { priceHistoryService, PRICE_FIELDS, type PriceField } from '@/lib/price-history';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+// Every change to the product's price and recommended price, newest first.
+// `?field=price` limits it to one of them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await getOwnedProductOrThrow(id, 'view_products', { select: { id: true } });
+
+    const field = request.nextUrl.searchParams.get('field');
+    if (field && !(PRICE_FIELDS as readonly string[]).includes(field)) {
+      return NextResponse.json(
+        { error: `field must be one of ${PRICE_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const changes = await priceHistoryService.getHistory(id, {
+      field: (field as PriceField | null) ?? undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      changes,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching price history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch price history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
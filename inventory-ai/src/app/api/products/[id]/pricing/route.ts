@@ -1,76 +1,74 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
-import { dynamicPricingService } from "@/lib/dynamic-pricing";
-import { apifyService } from "@/lib/apify";
+import { jobQueue, serializeJob } from "@/lib/jobs";
+import { compPricingEngine } from "@/lib/comp-pricing";
+import { pricingService } from "@/lib/pricing";
+import { getOwnedProductOrThrow, ProductAccessError } from "@/lib/product-access";
 
+// Pricing scrapes market data first, so it runs as a background job
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { id: productId } = await params;
+    const { userId, membership } = await getOwnedProductOrThrow(productId, "set_prices", { select: { id: true } });
 
-    // Get product from database
-    const product = await prisma.product.findUnique({
-      where: { id: productId },
-    });
+    const job = await jobQueue.enqueue(
+      "price_product",
+      { productId },
+      { userId, organizationId: membership.organizationId, productId }
+    );
 
-    if (!product) {
-      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    return NextResponse.json(
+      { success: true, jobId: job.id, job: serializeJob(job) },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
     }
-
-    // Gather market data
-    const searchQueries = [
-      product.title,
-      `${product.brand} ${product.model}`.trim(),
-      `${product.category} ${product.brand}`.trim(),
-    ].filter((query) => query.length > 0);
-
-    const marketData = await apifyService.getMarketData(searchQueries[0], {
-      maxItemsPerPlatform: 20,
-    });
-
-    // Prepare product data for pricing analysis
-    const productData = {
-      title: product.title,
-      category: product.category || "general",
-      brand: product.brand || "unknown",
-      condition: {
-        grade: product.condition || "used",
-        score: 0.7, // Default score, could be enhanced with AI analysis
-      },
-    };
-
-    // Perform pricing analysis
-    const pricingAnalysis = await dynamicPricingService.analyzePricing(
-      productData,
-      marketData,
-      {
-        strategy: "balanced",
-        competitivePosition: "competitive",
-      }
+    console.error("Error in pricing analysis:", error);
+    return NextResponse.json(
+      { error: "Failed to queue pricing analysis" },
+      { status: 500 }
     );
+  }
+}
 
-    // Store pricing analysis in database
-    await prisma.product.update({
-      where: { id: productId },
-      data: {
-        recommendedPrice: pricingAnalysis.recommendedPrice,
-        marketAnalysis: JSON.stringify(pricingAnalysis),
+// Explains a price from the product's stored comparables: the estimate, its
+// confidence interval and the comps that drove it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params;
+    const { product, membership } = await getOwnedProductOrThrow(productId, "view_products", {
+      select: {
+        title: true,
+        condition: true,
+        comparableListings: true,
       },
     });
 
-    return NextResponse.json(pricingAnalysis);
+    const rules = await pricingService.getRules(membership.organizationId);
+    const estimate = compPricingEngine.estimate(
+      { title: product.title, condition: product.condition },
+      product.comparableListings.map((comp) => ({ ...comp, price: comp.price ?? 0 })),
+      { conditionScores: rules.conditionMultipliers }
+    );
+
+    return NextResponse.json({ success: true, estimate });
   } catch (error) {
-    console.error("Error in pricing analysis:", error);
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error estimating price from comparables:", error);
     return NextResponse.json(
-      { error: "Failed to analyze pricing" },
+      {
+        error: "Failed to estimate price",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
       { status: 500 }
     );
   }
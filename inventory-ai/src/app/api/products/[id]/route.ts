@@ -1,23 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import type { InventorySyncAction } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { inventorySyncService } from '@/lib/inventory-sync';
+import { productImageService } from '@/lib/product-images';
+import { priceHistoryService } from '@/lib/price-history';
+import { parseJsonField } from '@/lib/product-data';
+import { getOwnedProductOrThrow, assertPermission, ProductAccessError } from '@/lib/product-access';
+
+// Statuses that mean the item is on sale, or has sold and come off sale
+const LISTING_STATUSES = ['listed', 'sold'];
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { id } = await params;
-    const product = await prisma.product.findFirst({
-      where: {
-        id,
-        userId: session.user.id,
-      },
+    const { product } = await getOwnedProductOrThrow(id, 'view_products', {
       include: {
         comparableListings: {
           orderBy: { similarity: 'desc' },
@@ -27,22 +26,24 @@ export async function GET(
           orderBy: { createdAt: 'desc' },
           take: 5,
         },
+        channelListings: {
+          orderBy: { channel: 'asc' },
+        },
+        images: {
+          orderBy: { position: 'asc' },
+        },
       },
     });
 
-    if (!product) {
-      return NextResponse.json(
-        { error: 'Product not found' },
-        { status: 404 }
-      );
-    }
-
     return NextResponse.json({
       success: true,
       product,
     });
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching product:', error);
     return NextResponse.json(
       { 
@@ -59,10 +60,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { id } = await params;
+    const { product: existingProduct, membership, userId } = await getOwnedProductOrThrow(id, 'edit_products');
 
     const data = await request.json();
     const {
@@ -74,27 +73,28 @@ export async function PUT(
       model,
       tags,
       price,
+      // Set to 'ai_recommendation' when the price applies an analysis' recommendation
+      priceSource,
+      quantity,
+      costBasis,
+      acquisitionSource,
+      acquiredAt,
       weight,
       dimensions,
       status,
     } = data;
 
-    const { id } = await params;
-    
-    // Verify product ownership
-    const existingProduct = await prisma.product.findFirst({
-      where: {
-        id,
-        userId: session.user.id,
-      },
-    });
+    // Prices and costs need more than the right to edit, and so does anything
+    // that puts the item on sale or takes it off - moving it into or out of
+    // listed or sold, or running its stock out, which ends its listings
+    const changesPrice = (price !== undefined && price !== existingProduct.price) ||
+      (costBasis !== undefined && costBasis !== existingProduct.costBasis);
+    const changesListing = status !== undefined && status !== existingProduct.status &&
+      [status, existingProduct.status].some(current => LISTING_STATUSES.includes(current));
+    const runsOut = quantity !== undefined && quantity <= 0 && existingProduct.quantity > 0;
 
-    if (!existingProduct) {
-      return NextResponse.json(
-        { error: 'Product not found or access denied' },
-        { status: 404 }
-      );
-    }
+    if (changesPrice) assertPermission(membership, 'set_prices');
+    if (changesListing || runsOut) assertPermission(membership, 'publish_listings');
 
     // Update product
     const product = await prisma.product.update({
@@ -107,6 +107,11 @@ export async function PUT(
         brand,
         model,
         tags,
+        price,
+        quantity,
+        costBasis,
+        acquisitionSource,
+        acquiredAt: acquiredAt === undefined ? undefined : acquiredAt ? new Date(acquiredAt) : null,
         weight,
         dimensions,
         status,
@@ -114,12 +119,44 @@ export async function PUT(
       },
     });
 
+    const appliedRecommendation = priceSource === 'ai_recommendation';
+    await priceHistoryService.recordChanges(
+      id,
+      existingProduct,
+      { price: price === undefined ? undefined : product.price },
+      {
+        source: appliedRecommendation ? 'ai_recommendation' : 'manual',
+        userId,
+        // The analysis the recommendation came from
+        analysis: appliedRecommendation ? parseJsonField(existingProduct.marketAnalysis) ?? undefined : undefined,
+      }
+    );
+
+    // Selling the item (or running out of stock) takes it off every other channel
+    const becameSold = product.status === 'sold' && existingProduct.status !== 'sold';
+    const ranOut = product.quantity <= 0 && existingProduct.quantity > 0;
+
+    if (becameSold || ranOut) {
+      const inventorySync = await inventorySyncService.markSold(id, {
+        trigger: becameSold ? 'sold' : 'quantity_zero',
+      });
+
+      return NextResponse.json({
+        success: true,
+        product: { ...product, status: 'sold', quantity: 0 },
+        inventorySync,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       product,
     });
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error updating product:', error);
     return NextResponse.json(
       { 
@@ -136,26 +173,38 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { id } = await params;
-    
-    // Verify product ownership
-    const existingProduct = await prisma.product.findFirst({
-      where: {
-        id,
-        userId: session.user.id,
+    const { membership, product } = await getOwnedProductOrThrow(id, 'delete_products', {
+      select: {
+        id: true,
+        organizationId: true,
+        channelListings: { where: { status: { not: 'ended' } }, select: { id: true } },
       },
     });
 
-    if (!existingProduct) {
-      return NextResponse.json(
-        { error: 'Product not found or access denied' },
-        { status: 404 }
-      );
+    // A listed item comes off every channel first, so nothing is left on sale
+    // that can no longer be marked sold
+    let inventorySync: InventorySyncAction[] = [];
+    if (product.channelListings.length > 0) {
+      assertPermission(membership, 'publish_listings');
+
+      inventorySync = await inventorySyncService.endListings(product, { trigger: 'deleted' });
+
+      // Listings that could not be ended, or have to be removed by hand first
+      const stillListed = await prisma.channelListing.findMany({
+        where: { productId: id, status: { not: 'ended' } },
+        select: { channel: true, lastError: true },
+      });
+      if (stillListed.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'The product is still listed and was not deleted',
+            details: stillListed.map(listing => `${listing.channel}: ${listing.lastError || 'Could not be ended'}`).join('; '),
+            inventorySync,
+          },
+          { status: 409 }
+        );
+      }
     }
 
     // Delete related data first
@@ -167,6 +216,21 @@ export async function DELETE(
       where: { productId: id },
     });
 
+    // Removes the stored files too
+    await productImageService.deleteAllImages(id);
+
+    await prisma.channelListing.deleteMany({
+      where: { productId: id },
+    });
+
+    await prisma.inventorySyncAction.deleteMany({
+      where: { productId: id },
+    });
+
+    await prisma.job.deleteMany({
+      where: { productId: id },
+    });
+
     // Delete product
     await prisma.product.delete({
       where: { id },
@@ -175,9 +239,13 @@ export async function DELETE(
     return NextResponse.json({
       success: true,
       message: 'Product deleted successfully',
+      inventorySync,
     });
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error deleting product:', error);
     return NextResponse.json(
       { 
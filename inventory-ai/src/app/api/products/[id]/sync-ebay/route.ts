@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getListingPrice } from '@/lib/channel-sync';
+import { channelConnectionService } from '@/lib/channel-connections';
+import { jobQueue, serializeJob } from '@/lib/jobs';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+// Listing runs as a background job - the outcome is recorded on the job and
+// on the product's eBay channel listing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { product, userId, membership } = await getOwnedProductOrThrow(id, 'publish_listings');
+
+    if (!await channelConnectionService.isConnected(membership.organizationId, 'ebay')) {
+      return NextResponse.json(
+        { error: 'eBay is not connected' },
+        { status: 503 }
+      );
+    }
+
+    if (!getListingPrice(product)) {
+      return NextResponse.json(
+        { error: 'Product must have a price before it can be listed on eBay' },
+        { status: 400 }
+      );
+    }
+
+    const job = await jobQueue.enqueue(
+      'sync_ebay',
+      { productId: id },
+      { userId, organizationId: membership.organizationId, productId: id }
+    );
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      job: serializeJob(job),
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error syncing product to eBay:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sync product to eBay',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
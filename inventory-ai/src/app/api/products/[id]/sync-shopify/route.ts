@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { channelConnectionService } from '@/lib/channel-connections';
+import { jobQueue, serializeJob } from '@/lib/jobs';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
+
+// Syncing runs as a background job - the outcome is recorded on the job and
+// on the product's Shopify channel listing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { userId, membership } = await getOwnedProductOrThrow(id, 'publish_listings', { select: { id: true } });
+
+    if (!await channelConnectionService.isConnected(membership.organizationId, 'shopify')) {
+      return NextResponse.json(
+        { error: 'Shopify is not connected' },
+        { status: 503 }
+      );
+    }
+
+    const job = await jobQueue.enqueue(
+      'sync_shopify',
+      { productId: id },
+      { userId, organizationId: membership.organizationId, productId: id }
+    );
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      job: serializeJob(job),
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error syncing product to Shopify:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sync product to Shopify',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
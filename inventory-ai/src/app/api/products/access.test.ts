@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { ORG_A, ORG_B, seedProducts, signInAs } from '@/test/workspaces';
+import { GET as getProduct, PUT as updateProduct, DELETE as deleteProduct } from './[id]/route';
+import { POST as analyzeProduct } from './analyze-enhanced/route';
+import { GET as estimatePrice, POST as priceProduct } from './[id]/pricing/route';
+import { POST as syncShopify } from './[id]/sync-shopify/route';
+import { POST as syncEbay } from './[id]/sync-ebay/route';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+function request(method: string, body?: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/products', {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function context(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function expectNothingWritten() {
+  expect(prisma.product.update).not.toHaveBeenCalled();
+  expect(prisma.product.delete).not.toHaveBeenCalled();
+  expect(prisma.comparableListing.deleteMany).not.toHaveBeenCalled();
+  expect(prisma.channelListing.deleteMany).not.toHaveBeenCalled();
+  expect(prisma.job.create).not.toHaveBeenCalled();
+}
+
+// Every product route, called on the other organization's product
+const crossOrganizationCalls: [string, () => Promise<Response>][] = [
+  ['GET /api/products/[id]', () => getProduct(request('GET'), context('product-b'))],
+  ['PUT /api/products/[id]', () => updateProduct(request('PUT', { price: 1, status: 'sold' }), context('product-b'))],
+  ['DELETE /api/products/[id]', () => deleteProduct(request('DELETE'), context('product-b'))],
+  ['POST /api/products/analyze-enhanced', () => analyzeProduct(
+    request('POST', { productId: 'product-b', imageUrl: 'https://example.com/item.jpg' })
+  )],
+  ['GET /api/products/[id]/pricing', () => estimatePrice(request('GET'), context('product-b'))],
+  ['POST /api/products/[id]/pricing', () => priceProduct(request('POST'), context('product-b'))],
+  ['POST /api/products/[id]/sync-shopify', () => syncShopify(request('POST'), context('product-b'))],
+  ['POST /api/products/[id]/sync-ebay', () => syncEbay(request('POST'), context('product-b'))],
+];
+
+describe('product routes across organizations', () => {
+  beforeEach(() => {
+    seedProducts(
+      { id: 'product-a', organizationId: ORG_A, title: 'Ours', condition: 'used', price: 20, quantity: 1, status: 'priced', comparableListings: [] },
+      { id: 'product-b', organizationId: ORG_B, title: 'Theirs', price: 20, quantity: 1, status: 'listed' }
+    );
+    prisma.channelConnection.count.mockResolvedValue(1);
+    prisma.job.create.mockImplementation(async ({ data }) => ({
+      id: 'job-1',
+      status: 'queued',
+      steps: null,
+      events: null,
+      result: null,
+      error: null,
+      attempts: 0,
+      runAt: new Date(),
+      finishedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...data,
+    }));
+  });
+
+  it.each(crossOrganizationCalls)('%s reports the product as missing and changes nothing', async (_, call) => {
+    signInAs('owner');
+
+    const response = await call();
+
+    expect(response.status).toBe(404);
+    expectNothingWritten();
+  });
+
+  it('queues work on the organization\'s own products', async () => {
+    signInAs('owner');
+
+    const pricing = await priceProduct(request('POST'), context('product-a'));
+    const shopify = await syncShopify(request('POST'), context('product-a'));
+
+    expect(pricing.status).toBe(202);
+    expect(shopify.status).toBe(202);
+    expect(prisma.job.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'price_product', productId: 'product-a', organizationId: ORG_A }),
+    });
+  });
+
+  it('lets members of the other organization work on its products', async () => {
+    signInAs('owner', ORG_B);
+
+    const response = await priceProduct(request('POST'), context('product-b'));
+
+    expect(response.status).toBe(202);
+    expect(prisma.job.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ productId: 'product-b', organizationId: ORG_B }),
+    });
+  });
+
+  it('still checks the role on the organization\'s own products', async () => {
+    signInAs('viewer');
+
+    const view = await estimatePrice(request('GET'), context('product-a'));
+    const price = await priceProduct(request('POST'), context('product-a'));
+    const sync = await syncEbay(request('POST'), context('product-a'));
+
+    expect(view.status).toBe(200);
+    expect(price.status).toBe(403);
+    expect(sync.status).toBe(403);
+    expectNothingWritten();
+  });
+});
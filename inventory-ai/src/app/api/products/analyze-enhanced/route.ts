@@ -1,15 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
-import { enhancedAIService } from '@/lib/enhanced-ai';
 import { prisma } from '@/lib/prisma';
+import { jobQueue, serializeJob } from '@/lib/jobs';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
 
+// Analysis takes minutes, so it runs as a background job - poll
+// /api/jobs/[id] for progress and the finished analysis
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { productId, imageUrl, additionalContext } = await request.json();
 
     if (!productId || !imageUrl) {
@@ -19,20 +16,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify product ownership
-    const product = await prisma.product.findFirst({
-      where: {
-        id: productId,
-        userId: session.user.id,
-      },
-    });
+    const { userId, membership } = await getOwnedProductOrThrow(productId, 'analyze_products', { select: { id: true } });
 
-    if (!product) {
-      return NextResponse.json(
-        { error: 'Product not found or access denied' },
-        { status: 404 }
-      );
-    }
+    const job = await jobQueue.enqueue(
+      'analyze_product',
+      { productId, userId, imageUrl, additionalContext },
+      { userId, organizationId: membership.organizationId, productId }
+    );
 
     // Update product status to analyzing
     await prisma.product.update({
@@ -40,57 +30,23 @@ export async function POST(request: NextRequest) {
       data: { status: 'analyzing' },
     });
 
-    // Perform enhanced AI analysis
-    const analysis = await enhancedAIService.analyzeProduct(
-      imageUrl,
-      productId,
-      session.user.id,
-      additionalContext
-    );
-
-    // Update product with basic info from analysis
-    await prisma.product.update({
-      where: { id: productId },
-      data: {
-        title: analysis.enhancement.optimizedTitle,
-        description: analysis.enhancement.description,
-        tags: JSON.stringify(analysis.enhancement.tags),
-        category: analysis.identification.category,
-        brand: analysis.identification.brand,
-        model: analysis.identification.model,
-        recommendedPrice: analysis.marketAnalysis.recommendedPrice,
-        currentMarketPrice: analysis.marketAnalysis.averagePrice,
-        status: 'ready',
-      },
-    });
-
     return NextResponse.json({
       success: true,
-      analysis,
-    });
+      jobId: job.id,
+      job: serializeJob(job),
+    }, { status: 202 });
 
   } catch (error) {
-    console.error('Enhanced analysis error:', error);
-    
-    // Update product status to draft on error
-    const { productId } = await request.json().catch(() => ({}));
-    if (productId) {
-      try {
-        await prisma.product.update({
-          where: { id: productId },
-          data: { status: 'draft' },
-        });
-      } catch (updateError) {
-        console.error('Error updating product status:', updateError);
-      }
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
     }
-
+    console.error('Enhanced analysis error:', error);
     return NextResponse.json(
       { 
-        error: 'Failed to analyze product',
+        error: 'Failed to queue product analysis',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
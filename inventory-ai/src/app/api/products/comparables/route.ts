@@ -1,14 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getOwnedProductOrThrow, ProductAccessError } from '@/lib/product-access';
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const productId = searchParams.get('productId');
     const platform = searchParams.get('platform');
@@ -21,20 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Verify product ownership
-    const product = await prisma.product.findFirst({
-      where: {
-        id: productId,
-        userId: session.user.id,
-      },
-    });
-
-    if (!product) {
-      return NextResponse.json(
-        { error: 'Product not found or access denied' },
-        { status: 404 }
-      );
-    }
+    await getOwnedProductOrThrow(productId, 'view_products', { select: { id: true } });
 
     // Build where clause
     const whereClause: any = { productId };
@@ -85,6 +67,9 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching comparable listings:', error);
     return NextResponse.json(
       { 
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { ORG_A, seedChannelListings, seedProducts, signInAs } from '@/test/workspaces';
+import { DELETE as deleteProduct } from './[id]/route';
+import { DELETE as confirmRemoval } from './[id]/channel-listings/[channel]/route';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+function request(method: string): NextRequest {
+  return new NextRequest('http://localhost/api/products/product-a', { method });
+}
+
+describe('DELETE /api/products/[id]', () => {
+  beforeEach(() => {
+    seedProducts({
+      id: 'product-a',
+      organizationId: ORG_A,
+      title: 'Listed on Marketplace',
+      status: 'listed',
+      channelListings: [{ id: 'listing-facebook' }],
+    });
+    seedChannelListings({ productId: 'product-a', channel: 'facebook', status: 'active' });
+    prisma.productImage.findMany.mockResolvedValue([]);
+  });
+
+  it('refuses while a Facebook listing still has to be removed by hand', async () => {
+    signInAs('owner');
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const response = await deleteProduct(request('DELETE'), { params: Promise.resolve({ id: 'product-a' }) });
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).details).toBe('facebook: Facebook Marketplace listings must be removed manually');
+    }
+    expect(prisma.product.delete).not.toHaveBeenCalled();
+    expect(prisma.inventorySyncAction.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('deletes the product once the removal is confirmed', async () => {
+    signInAs('owner');
+    await deleteProduct(request('DELETE'), { params: Promise.resolve({ id: 'product-a' }) });
+
+    const confirmed = await confirmRemoval(
+      request('DELETE'),
+      { params: Promise.resolve({ id: 'product-a', channel: 'facebook' }) }
+    );
+    const response = await deleteProduct(request('DELETE'), { params: Promise.resolve({ id: 'product-a' }) });
+
+    expect(confirmed.status).toBe(200);
+    expect(response.status).toBe(200);
+    expect(prisma.product.delete).toHaveBeenCalledWith({ where: { id: 'product-a' } });
+  });
+});
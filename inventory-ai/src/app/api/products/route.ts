@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { isOwnedStorageKeys } from '@/lib/product-images';
+import { priceHistoryService } from '@/lib/price-history';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { membership } = await requireProductPermission('view_products');
 
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '20');
@@ -15,7 +15,7 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status');
 
     // Build where clause
-    const whereClause: any = { userId: session.user.id };
+    const whereClause: Prisma.ProductWhereInput = { organizationId: membership.organizationId };
     if (status) {
       whereClause.status = status;
     }
@@ -27,6 +27,10 @@ export async function GET(request: NextRequest) {
       take: limit,
       skip: offset,
       include: {
+        channelListings: true,
+        images: {
+          orderBy: { position: 'asc' },
+        },
         _count: {
           select: {
             comparableListings: true,
@@ -52,6 +56,9 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching products:', error);
     return NextResponse.json(
       { 
@@ -65,10 +72,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { userId, membership } = await requireProductPermission('create_products');
 
     const data = await request.json();
     const {
@@ -80,12 +84,20 @@ export async function POST(request: NextRequest) {
       model,
       tags,
       price,
+      costBasis,
+      acquisitionSource,
+      acquiredAt,
       weight,
       dimensions,
       imageUrl,
+      imageStorageKeys,
       status = 'draft',
     } = data;
 
+    if (imageStorageKeys !== undefined && !isOwnedStorageKeys(imageStorageKeys, userId)) {
+      return NextResponse.json({ error: 'Invalid image storage keys' }, { status: 400 });
+    }
+
     // Create product
     const product = await prisma.product.create({
       data: {
@@ -96,20 +108,48 @@ export async function POST(request: NextRequest) {
         brand,
         model,
         tags,
+        price,
+        costBasis,
+        acquisitionSource,
+        acquiredAt: acquiredAt ? new Date(acquiredAt) : undefined,
         weight,
         dimensions,
         imageUrl,
+        imagePublicId: imageStorageKeys?.web,
         status,
-        userId: session.user.id,
+        userId,
+        organizationId: membership.organizationId,
+        // The intake photo starts the product's gallery
+        ...(imageUrl && {
+          images: {
+            create: {
+              url: imageUrl,
+              position: 0,
+              role: 'hero',
+              storageKeys: imageStorageKeys ? JSON.stringify(imageStorageKeys) : undefined,
+            },
+          },
+        }),
       },
     });
 
+    // The starting price opens the product's price history
+    await priceHistoryService.recordChanges(
+      product.id,
+      {},
+      { price: product.price },
+      { source: 'manual', userId }
+    );
+
     return NextResponse.json({
       success: true,
       product,
     });
 
   } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error creating product:', error);
     return NextResponse.json(
       { 
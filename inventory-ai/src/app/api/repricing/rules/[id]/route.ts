@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { repricingService, RepricingRuleSchema } from '@/lib/repricing';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { membership } = await requireProductPermission('set_prices');
+
+    const { id } = await params;
+
+    const parsed = RepricingRuleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid repricing rule', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const rule = await repricingService.updateRule(id, membership.organizationId, parsed.data);
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Repricing rule not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating repricing rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update repricing rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Price changes the rule made stay in the history without it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { membership } = await requireProductPermission('set_prices');
+
+    const { id } = await params;
+
+    const deleted = await repricingService.deleteRule(id, membership.organizationId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Repricing rule not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Repricing rule deleted successfully',
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting repricing rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete repricing rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { repricingService } from '@/lib/repricing';
+import { serializeJob } from '@/lib/jobs';
+
+// Leaving dryRun out uses the rule's own setting
+const RunRequestSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+// Runs a rule now rather than at its next scheduled time. The proposed and
+// applied changes are the job's result.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { membership } = await requireProductPermission('set_prices');
+
+    const { id } = await params;
+
+    const parsed = RunRequestSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const rule = await repricingService.getRule(id, membership.organizationId);
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Repricing rule not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const job = await repricingService.enqueueRun(rule, parsed.data.dryRun);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      job: serializeJob(job),
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error running repricing rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run repricing rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
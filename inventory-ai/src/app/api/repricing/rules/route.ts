@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireProductPermission, ProductAccessError } from '@/lib/product-access';
+import { repricingService, RepricingRuleSchema } from '@/lib/repricing';
+
+export async function GET() {
+  try {
+    const { membership } = await requireProductPermission('view_products');
+
+    const rules = await repricingService.getRules(membership.organizationId);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching repricing rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch repricing rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, membership } = await requireProductPermission('set_prices');
+
+    const parsed = RepricingRuleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid repricing rule', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const rule = await repricingService.createRule(membership.organizationId, userId, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      rule,
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ProductAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating repricing rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create repricing rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
+import { ebayApi } from "@/lib/ebay-api"
 
+// Only real sold listings are returned - when no source is configured or the
+// source fails, the route fails rather than inventing prices
 export async function POST(request: NextRequest) {
   try {
     const session = await auth()
@@ -8,7 +11,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const { productName, category, brand } = await request.json()
+    const { productName, brand } = await request.json()
 
     if (!productName) {
       return NextResponse.json({ error: "Product name is required" }, { status: 400 })
@@ -16,16 +19,40 @@ export async function POST(request: NextRequest) {
 
     // Construct search query
     const searchQuery = [productName, brand].filter(Boolean).join(" ")
-    
+
+    // Prefer eBay's own record of sales over scraping the sold search page
+    if (ebayApi.isConfigured()) {
+      try {
+        const { items } = await ebayApi.searchSoldItems(searchQuery, { limit: 50 })
+        const sales = items
+          .map(item => ({
+            title: item.title,
+            price: parseFloat(item.lastSoldPrice.value),
+            condition: item.condition || "Unknown",
+            soldDate: item.lastSoldDate,
+            url: item.itemWebUrl,
+          }))
+          .filter(sale => sale.price > 0)
+
+        return NextResponse.json({
+          success: true,
+          results: summarizeSoldPrices("eBay Marketplace Insights", sales.map(sale => sale.price)),
+          sales
+        })
+      } catch (error) {
+        // eBay refuses Insights to keysets it has not granted it access
+        if (!process.env.SCRAPINGDOG_API_KEY) throw error
+        console.warn("eBay sold items unavailable, scraping the sold search instead:", error)
+      }
+    }
+
     // ScrapingDog API configuration
     const scrapingDogApiKey = process.env.SCRAPINGDOG_API_KEY
     if (!scrapingDogApiKey) {
-      console.warn("ScrapingDog API key not configured")
-      // Return mock data for development
-      return NextResponse.json({
-        success: true,
-        results: generateMockEbayData(productName, category)
-      })
+      return NextResponse.json(
+        { error: "No eBay sold-listings source configured - set EBAY_CLIENT_ID and EBAY_CLIENT_SECRET, EBAY_ACCESS_TOKEN or SCRAPINGDOG_API_KEY" },
+        { status: 503 }
+      )
     }
 
     // eBay search URL
@@ -48,7 +75,7 @@ export async function POST(request: NextRequest) {
     const html = await response.text()
     
     // Parse eBay results from HTML
-    const results = parseEbayResults(html, productName)
+    const results = parseEbayResults(html)
 
     return NextResponse.json({
       success: true,
@@ -56,88 +83,54 @@ export async function POST(request: NextRequest) {
     })
   } catch (error) {
     console.error("eBay scraping error:", error)
-    
-    // Return mock data on error for development
-    const { productName, category } = await request.json()
-    return NextResponse.json({
-      success: true,
-      results: generateMockEbayData(productName, category),
-      note: "Using mock data due to scraping error"
-    })
+    return NextResponse.json(
+      {
+        error: "Failed to fetch eBay sold listings",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 502 }
+    )
   }
 }
 
-function parseEbayResults(html: string, productName: string) {
+function parseEbayResults(html: string) {
   // Basic HTML parsing to extract product information
   // In a production environment, you'd use a proper HTML parser like cheerio
-  const results = []
-  
   try {
     // Extract sold listings data using regex patterns
     // This is a simplified version - in production, use proper HTML parsing
     const priceMatches = html.match(/\$[\d,]+\.?\d*/g) || []
-    const titleMatches = html.match(/<h3[^>]*>([^<]+)<\/h3>/g) || []
     
     const prices = priceMatches
       .map(price => parseFloat(price.replace(/[$,]/g, '')))
       .filter(price => price > 0 && price < 10000)
       .slice(0, 10)
     
-    if (prices.length > 0) {
-      const avgPrice = prices.reduce((sum, price) => sum + price, 0) / prices.length
-      const minPrice = Math.min(...prices)
-      const maxPrice = Math.max(...prices)
-      
-      results.push({
-        source: 'eBay Sold Listings',
-        averagePrice: Math.round(avgPrice * 100) / 100,
-        minPrice: Math.round(minPrice * 100) / 100,
-        maxPrice: Math.round(maxPrice * 100) / 100,
-        sampleSize: prices.length,
-        confidence: prices.length >= 5 ? 85 : 60
-      })
-    }
+    return summarizeSoldPrices('eBay Sold Listings', prices)
   } catch (parseError) {
     console.error("Error parsing eBay results:", parseError)
+    return []
   }
-  
-  // If no results found, return mock data
-  if (results.length === 0) {
-    return generateMockEbayData(productName, 'unknown')
-  }
-  
-  return results
 }
 
-function generateMockEbayData(productName: string, category: string) {
-  // Generate realistic mock pricing data based on product category
-  const basePrices = {
-    electronics: { min: 50, max: 500, avg: 200 },
-    clothing: { min: 10, max: 100, avg: 35 },
-    home: { min: 20, max: 200, avg: 75 },
-    books: { min: 5, max: 50, avg: 15 },
-    toys: { min: 10, max: 80, avg: 30 },
-    sports: { min: 25, max: 300, avg: 100 },
-    default: { min: 20, max: 150, avg: 60 }
+// An empty list when nothing sold - never a made-up estimate
+function summarizeSoldPrices(source: string, prices: number[]) {
+  if (prices.length === 0) {
+    return []
   }
-  
-  const priceRange = basePrices[category as keyof typeof basePrices] || basePrices.default
-  
-  // Add some randomness to make it more realistic
-  const variance = 0.3
-  const avgPrice = priceRange.avg * (1 + (Math.random() - 0.5) * variance)
-  const minPrice = priceRange.min * (1 + (Math.random() - 0.5) * variance)
-  const maxPrice = priceRange.max * (1 + (Math.random() - 0.5) * variance)
-  
+
+  const avgPrice = prices.reduce((sum, price) => sum + price, 0) / prices.length
+  const minPrice = Math.min(...prices)
+  const maxPrice = Math.max(...prices)
+
   return [
     {
-      source: 'eBay Sold Listings (Mock)',
+      source,
       averagePrice: Math.round(avgPrice * 100) / 100,
       minPrice: Math.round(minPrice * 100) / 100,
       maxPrice: Math.round(maxPrice * 100) / 100,
-      sampleSize: Math.floor(Math.random() * 15) + 5,
-      confidence: 75,
-      note: 'Mock data for development'
+      sampleSize: prices.length,
+      confidence: prices.length >= 5 ? 85 : 60
     }
   ]
-}
\ No newline at end of file
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
 import { facebookMarketplaceService } from '@/lib/facebook-marketplace'
+import { usageService, getBudgetExceededError } from '@/lib/usage'
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { query, location, category, condition, maxResults = 50 } = await request.json()
 
     if (!query) {
@@ -11,14 +18,16 @@ export async function POST(request: NextRequest) {
 
     console.log('Facebook Marketplace search request:', { query, location, category, condition })
 
-    const listings = await facebookMarketplaceService.searchListings({
-      query,
-      location,
-      category,
-      condition,
-      maxResults,
-      sortBy: 'creation_time_descend'
-    })
+    const listings = await usageService.run({ userId: session.user.id }, () =>
+      facebookMarketplaceService.searchListings({
+        query,
+        location,
+        category,
+        condition,
+        maxResults,
+        sortBy: 'creation_time_descend'
+      })
+    )
 
     return NextResponse.json({
       success: true,
@@ -32,6 +41,10 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Facebook Marketplace scraping error:', error)
+    const budgetError = getBudgetExceededError(error)
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError.message }, { status: 402 })
+    }
     return NextResponse.json(
       { 
         error: 'Failed to scrape Facebook Marketplace',
@@ -44,6 +57,11 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const query = searchParams.get('query')
     const location = searchParams.get('location')
@@ -55,14 +73,16 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Search query is required' }, { status: 400 })
     }
 
-    const listings = await facebookMarketplaceService.searchListings({
-      query,
-      location: location || undefined,
-      category: category || undefined,
-      condition: condition || undefined,
-      maxResults,
-      sortBy: 'creation_time_descend'
-    })
+    const listings = await usageService.run({ userId: session.user.id }, () =>
+      facebookMarketplaceService.searchListings({
+        query,
+        location: location || undefined,
+        category: category || undefined,
+        condition: condition || undefined,
+        maxResults,
+        sortBy: 'creation_time_descend'
+      })
+    )
 
     return NextResponse.json({
       success: true,
@@ -76,6 +96,10 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('Facebook Marketplace scraping error:', error)
+    const budgetError = getBudgetExceededError(error)
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError.message }, { status: 402 })
+    }
     return NextResponse.json(
       { 
         error: 'Failed to scrape Facebook Marketplace',
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { shopifyWebhookHandler, verifyShopifyWebhook } from "@/lib/shopify-webhooks"
+import { channelConnectionService } from "@/lib/channel-connections"
+
+// Shopify calls this without a session - requests are authenticated by their HMAC signature
+export async function POST(request: NextRequest) {
+  // Each organization connects its own store, so the shop decides whose products change
+  const shopDomain = request.headers.get("x-shopify-shop-domain") || ""
+  const store = shopDomain ? await channelConnectionService.getShopifyByDomain(shopDomain) : null
+  if (!store) {
+    return NextResponse.json({ error: "Shop is not connected" }, { status: 404 })
+  }
+
+  // The app's secret from the connection, or the deployment-wide one
+  const secret = store.webhookSecret || process.env.SHOPIFY_WEBHOOK_SECRET
+  if (!secret) {
+    console.warn(`Shopify webhook secret not configured for ${shopDomain}`)
+    return NextResponse.json({ error: "Shopify webhooks are not configured" }, { status: 503 })
+  }
+
+  // The signature covers the exact bytes Shopify sent, so read the body as text
+  const rawBody = await request.text()
+  const hmac = request.headers.get("x-shopify-hmac-sha256")
+
+  if (!verifyShopifyWebhook(rawBody, hmac, secret)) {
+    return NextResponse.json({ error: "Invalid webhook signature" }, { status: 401 })
+  }
+
+  const topic = request.headers.get("x-shopify-topic") || ""
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: "Invalid webhook payload" }, { status: 400 })
+  }
+
+  try {
+    const result = await shopifyWebhookHandler.handle(topic, payload, store)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    // A non-2xx response makes Shopify retry the delivery
+    console.error(`Error handling Shopify ${topic} webhook:`, error)
+    return NextResponse.json(
+      {
+        error: "Failed to process webhook",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
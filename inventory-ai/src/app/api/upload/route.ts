@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
-import { writeFile } from "fs/promises"
-import { join } from "path"
 import { auth } from "@/lib/auth"
+import { imageProcessingService } from "@/lib/image-processing"
+import { storage } from "@/lib/storage"
 
 export async function POST(request: NextRequest) {
   try {
     const session = await auth()
-    if (!session) {
+    if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
@@ -30,30 +30,54 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer()
     const buffer = Buffer.from(bytes)
 
-    // Create unique filename
+    // The browser-reported type is only a hint - make sure we can actually decode it
+    if (!await imageProcessingService.isSupportedImage(buffer)) {
+      return NextResponse.json({ error: "Unsupported or corrupt image" }, { status: 400 })
+    }
+
+    // Rotate upright, strip EXIF/GPS metadata and render the web and thumbnail variants
+    const processed = await imageProcessingService.processUpload(buffer)
+
+    // Files are grouped per user so stored keys can be checked against their owner
     const timestamp = Date.now()
-    const filename = `${timestamp}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`
-    const uploadDir = join(process.cwd(), "public", "uploads")
-    const filepath = join(uploadDir, filename)
+    const baseName = `${timestamp}-${file.name.replace(/\.[^.]*$/, "").replace(/[^a-zA-Z0-9-]/g, "_")}`
+    const basePath = `${session.user.id}/${baseName}`
 
-    // Ensure upload directory exists
-    try {
-      await writeFile(filepath, buffer)
-    } catch (error) {
-      // Create directory if it doesn't exist
-      const { mkdir } = await import("fs/promises")
-      await mkdir(uploadDir, { recursive: true })
-      await writeFile(filepath, buffer)
+    const urls = {} as Record<keyof typeof processed.variants, string>
+    const storageKeys: Record<string, string> = {}
+    for (const variant of Object.values(processed.variants)) {
+      const stored = await storage.put(`${basePath}-${variant.name}.${variant.extension}`, variant.buffer, {
+        contentType: variant.contentType,
+        visibility: "public"
+      })
+      urls[variant.name] = storage.getPublicUrl(stored.key)
+      storageKeys[variant.name] = stored.key
     }
 
-    const fileUrl = `/uploads/${filename}`
+    // The untouched original still carries EXIF/GPS data, so it is only reachable through signed URLs
+    const originalExtension = /\.([a-zA-Z0-9]+)$/.exec(file.name)?.[1]?.toLowerCase() || "bin"
+    const original = await storage.put(`${basePath}-original.${originalExtension}`, buffer, {
+      contentType: file.type,
+      visibility: "private"
+    })
+    storageKeys.original = original.key
+
+    const web = processed.variants.web
 
     return NextResponse.json({
       success: true,
-      filename,
-      url: fileUrl,
-      size: file.size,
-      type: file.type
+      filename: `${baseName}-web.${web.extension}`,
+      // JPEG is accepted by every marketplace, so it is the canonical URL
+      url: urls.web,
+      webpUrl: urls.webp,
+      thumbnailUrl: urls.thumbnail,
+      storageKeys,
+      width: web.width,
+      height: web.height,
+      originalWidth: processed.width,
+      originalHeight: processed.height,
+      size: web.size,
+      type: web.contentType
     })
   } catch (error) {
     console.error("Upload error:", error)
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { usageService, BUDGET_ACTIONS } from '@/lib/usage';
+
+// A null limit removes the budget
+const BudgetRequestSchema = z.object({
+  monthlyLimitUsd: z.number().positive().nullable(),
+  onExceeded: z.enum(BUDGET_ACTIONS).default('degrade'),
+});
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const budget = await usageService.getBudgetStatus(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      budget,
+    });
+
+  } catch (error) {
+    console.error('Error fetching usage budget:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch usage budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = BudgetRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid budget', details: z.prettifyError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const budget = await usageService.setBudget(
+      session.user.id,
+      parsed.data.monthlyLimitUsd,
+      parsed.data.onExceeded
+    );
+
+    return NextResponse.json({
+      success: true,
+      budget,
+    });
+
+  } catch (error) {
+    console.error('Error updating usage budget:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update usage budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { usageService } from '@/lib/usage';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // YYYY-MM, defaulting to the current month
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || undefined;
+
+    const usage = await usageService.getSummary(session.user.id, month);
+
+    return NextResponse.json({
+      success: true,
+      usage,
+    });
+
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { Header } from "@/components/dashboard/header"
+import { ChannelConnectionsSettings } from "@/components/dashboard/channel-connections-settings"
+
+export default async function ChannelsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ connected?: string; error?: string }>
+}) {
+  const { connected, error } = await searchParams
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <ChannelConnectionsSettings connectedChannel={connected} connectError={error} />
+      </main>
+    </div>
+  )
+}
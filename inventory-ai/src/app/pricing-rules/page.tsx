@@ -0,0 +1,15 @@
+import { Header } from "@/components/dashboard/header"
+import { PricingRulesSettings } from "@/components/dashboard/pricing-rules-settings"
+import { RepricingRulesSettings } from "@/components/dashboard/repricing-rules-settings"
+
+export default function PricingRulesPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <PricingRulesSettings />
+        <RepricingRulesSettings />
+      </main>
+    </div>
+  )
+}
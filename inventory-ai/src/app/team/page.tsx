@@ -0,0 +1,19 @@
+import { Header } from "@/components/dashboard/header"
+import { TeamSettings } from "@/components/dashboard/team-settings"
+
+export default async function TeamPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ invitation?: string }>
+}) {
+  const { invitation } = await searchParams
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <TeamSettings invitationToken={invitation} />
+      </main>
+    </div>
+  )
+}
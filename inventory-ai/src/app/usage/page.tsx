@@ -0,0 +1,13 @@
+import { Header } from "@/components/dashboard/header"
+import { UsageDashboard } from "@/components/dashboard/usage-dashboard"
+
+export default function UsagePage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <UsageDashboard />
+      </main>
+    </div>
+  )
+}
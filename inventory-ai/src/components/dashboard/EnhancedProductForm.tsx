@@ -11,6 +11,10 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ImageUpload } from './image-upload';
 import { ComparableListings } from './ComparableListings';
+import { followJob } from '@/lib/job-client';
+import { getAnalysisStepLabel } from '@/lib/analysis-progress';
+import type { EnhancedProductAnalysis } from '@/lib/enhanced-ai';
+import type { JobEvent } from '@/lib/jobs';
 import { 
   Sparkles, 
   TrendingUp, 
@@ -23,6 +27,26 @@ import {
   Zap
 } from 'lucide-react';
 
+// One line of the live progress log for an analysis job event
+function describeAnalysisEvent(event: JobEvent): string {
+  const label = event.step ? getAnalysisStepLabel(event.step) : '';
+
+  switch (event.type) {
+    case 'attempt_started':
+      return `Starting analysis (${event.message?.toLowerCase()})`;
+    case 'step_started':
+      return `${label}...`;
+    case 'step_completed':
+      return event.message || `${label} done`;
+    case 'step_failed':
+      return `${label} failed: ${event.message}`;
+    case 'completed':
+      return 'Analysis complete!';
+    default:
+      return event.message || label;
+  }
+}
+
 interface EnhancedProductFormProps {
   onSubmit: (data: any) => void;
   loading?: boolean;
@@ -47,6 +71,7 @@ export function EnhancedProductForm({ onSubmit, loading }: EnhancedProductFormPr
   const [analysisData, setAnalysisData] = useState<any>(null);
   const [analysisLoading, setAnalysisLoading] = useState(false);
   const [analysisStep, setAnalysisStep] = useState<string>('');
+  const [analysisEvents, setAnalysisEvents] = useState<JobEvent[]>([]);
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -83,7 +108,8 @@ export function EnhancedProductForm({ onSubmit, loading }: EnhancedProductFormPr
     }
 
     setAnalysisLoading(true);
-    setAnalysisStep('Analyzing image with AI...');
+    setAnalysisStep('Queued for analysis...');
+    setAnalysisEvents([]);
 
     try {
       const response = await fetch('/api/products/analyze-enhanced', {
@@ -102,30 +128,42 @@ export function EnhancedProductForm({ onSubmit, loading }: EnhancedProductFormPr
       });
 
       const data = await response.json();
-      
-      if (data.success) {
-        setAnalysisData(data.analysis);
-        
-        // Auto-fill form with AI-generated data
-        setFormData(prev => ({
-          ...prev,
-          title: data.analysis.enhancement.optimizedTitle || prev.title,
-          description: data.analysis.enhancement.description || prev.description,
-          category: data.analysis.identification.category || prev.category,
-          brand: data.analysis.identification.brand || prev.brand,
-          model: data.analysis.identification.model || prev.model,
-          tags: data.analysis.enhancement.tags?.join(', ') || prev.tags,
-          price: data.analysis.marketAnalysis.recommendedPrice?.toString() || prev.price,
-        }));
-        
-        setAnalysisStep('Analysis complete!');
-      } else {
+      if (!data.success) {
         throw new Error(data.error || 'Analysis failed');
       }
+
+      // Analysis runs as a background job - stream its progress until it finishes
+      const job = await followJob(data.jobId, {
+        onEvent: (event) => {
+          setAnalysisEvents(prev => [...prev, event]);
+          setAnalysisStep(describeAnalysisEvent(event));
+        },
+      });
+
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Analysis failed');
+      }
+
+      const analysis = job.result as EnhancedProductAnalysis;
+      setAnalysisData(analysis);
+
+      // Auto-fill form with AI-generated data
+      setFormData(prev => ({
+        ...prev,
+        title: analysis.enhancement.optimizedTitle || prev.title,
+        description: analysis.enhancement.description || prev.description,
+        category: analysis.identification.category || prev.category,
+        brand: analysis.identification.brand || prev.brand,
+        model: analysis.identification.model || prev.model,
+        tags: analysis.enhancement.tags?.join(', ') || prev.tags,
+        price: analysis.marketAnalysis.recommendedPrice?.toString() || prev.price,
+      }));
+
+      setAnalysisStep('Analysis complete!');
     } catch (error) {
       console.error('Enhanced analysis error:', error);
       alert('Analysis failed. Please try again.');
-      setAnalysisStep('');
+      setAnalysisStep(error instanceof Error ? error.message : 'Analysis failed');
     } finally {
       setAnalysisLoading(false);
     }
@@ -195,6 +233,24 @@ export function EnhancedProductForm({ onSubmit, loading }: EnhancedProductFormPr
               </div>
             )}
 
+            {/* Live Analysis Progress */}
+            {analysisEvents.length > 0 && !analysisData && (
+              <div className="border rounded-lg p-3 space-y-1 text-sm">
+                {analysisEvents.filter(event => event.type !== 'step_started').slice(-8).map(event => (
+                  <div key={event.id} className="flex items-center gap-2">
+                    {event.type === 'step_completed' || event.type === 'completed' ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : event.type === 'step_failed' || event.type === 'failed' ? (
+                      <AlertCircle className="h-4 w-4 text-red-500" />
+                    ) : (
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span>{describeAnalysisEvent(event)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Analysis Results */}
             {analysisData && (
               <div className="border rounded-lg p-4 bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-950/20 dark:to-blue-950/20">
@@ -0,0 +1,331 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CheckCircle, Loader2, Plug, RefreshCw, Trash2, XCircle } from "lucide-react"
+import type { ChannelConnectionView, ConnectableChannel } from "@/lib/channel-connections"
+
+interface CredentialField {
+  name: string
+  label: string
+  placeholder?: string
+  secret?: boolean
+  optional?: boolean
+  // Only asked for when the account is connected with a pasted token
+  tokenOnly?: boolean
+}
+
+interface ChannelDefinition {
+  label: string
+  description: string
+  fields: CredentialField[]
+}
+
+const CHANNELS: Record<ConnectableChannel, ChannelDefinition> = {
+  shopify: {
+    label: "Shopify",
+    description: "Products are created in this store, and its orders and stock changes mark them sold",
+    fields: [
+      { name: "shopDomain", label: "Shop", placeholder: "your-store.myshopify.com" },
+      { name: "accessToken", label: "Admin API access token", placeholder: "shpat_...", secret: true },
+      { name: "webhookSecret", label: "Webhook signing secret", secret: true, optional: true },
+    ],
+  },
+  ebay: {
+    label: "eBay",
+    description: "Listings are published from this seller account, and its orders mark products sold",
+    fields: [
+      { name: "accountName", label: "Account name", placeholder: "Shown here to tell accounts apart" },
+      { name: "accessToken", label: "User access token", secret: true, tokenOnly: true },
+      { name: "fulfillmentPolicyId", label: "Fulfillment policy ID" },
+      { name: "paymentPolicyId", label: "Payment policy ID" },
+      { name: "returnPolicyId", label: "Return policy ID" },
+      { name: "merchantLocationKey", label: "Merchant location key", optional: true },
+    ],
+  },
+}
+
+export function ChannelConnectionsSettings({
+  connectedChannel,
+  connectError,
+}: {
+  // Set when eBay's consent page sends the user back here
+  connectedChannel?: string
+  connectError?: string
+}) {
+  const [connections, setConnections] = useState<ChannelConnectionView[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [encryptionConfigured, setEncryptionConfigured] = useState(true)
+  const [ebayOAuthConfigured, setEbayOAuthConfigured] = useState(false)
+  const [forms, setForms] = useState<Record<ConnectableChannel, Record<string, string>>>({
+    shopify: {},
+    ebay: { environment: "production" },
+  })
+  const [editing, setEditing] = useState<ConnectableChannel | null>(null)
+  const [busy, setBusy] = useState<ConnectableChannel | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(connectError || null)
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetch("/api/channel-connections").then(response => response.json())
+      if (!data.success) throw new Error(data.error || "Failed to load channels")
+
+      setConnections(data.connections)
+      setCanManage(data.canManage)
+      setEncryptionConfigured(data.encryptionConfigured)
+      setEbayOAuthConfigured(data.ebayOAuthConfigured)
+    } catch (loadError) {
+      console.error("Error loading channel connections:", loadError)
+      setError(loadError instanceof Error ? loadError.message : "Failed to load channels")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (channel: ConnectableChannel, url: string, init: RequestInit) => {
+    setBusy(channel)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: init.body ? { "Content-Type": "application/json" } : undefined,
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || "Request failed")
+      await load()
+      return true
+    } catch (actionError) {
+      console.error(`Error updating ${channel} connection:`, actionError)
+      setError(actionError instanceof Error ? actionError.message : "Failed to update channel")
+      return false
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const updateField = (channel: ConnectableChannel, name: string, value: string) => {
+    setForms(current => ({ ...current, [channel]: { ...current[channel], [name]: value } }))
+  }
+
+  const connect = async (channel: ConnectableChannel) => {
+    const connected = await run(channel, `/api/channel-connections/${channel}`, {
+      method: "PUT",
+      body: JSON.stringify(forms[channel]),
+    })
+    if (connected) {
+      // Secrets are never sent back, so there is nothing worth keeping in the form
+      setForms(current => ({ ...current, [channel]: channel === "ebay" ? { environment: "production" } : {} }))
+      setEditing(null)
+    }
+  }
+
+  // eBay checks the seller's consent on its own page, then sends them back here
+  const authorizeEbay = async () => {
+    setBusy("ebay")
+    setError(null)
+    try {
+      const response = await fetch("/api/ebay/oauth/authorize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(forms.ebay),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || "Request failed")
+      window.location.href = data.url
+    } catch (authorizeError) {
+      console.error("Error starting eBay sign-in:", authorizeError)
+      setError(authorizeError instanceof Error ? authorizeError.message : "Failed to start eBay sign-in")
+      setBusy(null)
+    }
+  }
+
+  const test = (channel: ConnectableChannel) =>
+    run(channel, `/api/channel-connections/${channel}/test`, { method: "POST" })
+
+  const disconnect = (channel: ConnectableChannel) => {
+    if (!confirm(`Disconnect ${CHANNELS[channel].label}? Syncing to it stops until it is connected again.`)) return
+    run(channel, `/api/channel-connections/${channel}`, { method: "DELETE" })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading channels...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Plug className="h-7 w-7" />
+          Sales Channels
+        </h1>
+        <p className="text-muted-foreground">
+          Connect your team&apos;s own Shopify store and eBay seller account. Credentials are stored encrypted and never shown again.
+        </p>
+      </div>
+
+      {connectedChannel && !error && (
+        <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700 dark:border-green-800 dark:bg-green-950 dark:text-green-300">
+          {CHANNELS[connectedChannel as ConnectableChannel]?.label || connectedChannel} is connected.
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {canManage && !encryptionConfigured && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-950 dark:text-yellow-300">
+          CREDENTIALS_ENCRYPTION_KEY is not set, so no channel can be connected yet.
+        </div>
+      )}
+
+      {(Object.keys(CHANNELS) as ConnectableChannel[]).map(channel => {
+        const definition = CHANNELS[channel]
+        const connection = connections.find(current => current.channel === channel)
+        const showForm = canManage && encryptionConfigured && (!connection || editing === channel)
+        const useOAuth = channel === "ebay" && ebayOAuthConfigured
+        const fields = definition.fields.filter(field => !(useOAuth && field.tokenOnly))
+
+        return (
+          <Card key={channel}>
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <CardTitle>{definition.label}</CardTitle>
+                  <CardDescription>{definition.description}</CardDescription>
+                </div>
+                {connection ? (
+                  connection.status === "connected" ? (
+                    <Badge variant="default" className="flex items-center gap-1">
+                      <CheckCircle className="h-3 w-3" />
+                      Connected
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive" className="flex items-center gap-1">
+                      <XCircle className="h-3 w-3" />
+                      Error
+                    </Badge>
+                  )
+                ) : (
+                  <Badge variant="outline">Not connected</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {connection && (
+                <div className="space-y-1 text-sm">
+                  <div className="font-medium">{connection.accountName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Connected by {connection.connectedBy?.name || connection.connectedBy?.email || "a former member"}
+                    {connection.lastCheckedAt && ` · last checked ${new Date(connection.lastCheckedAt).toLocaleString()}`}
+                  </div>
+                  {connection.authorizationExpiresAt && (
+                    <div className="text-xs text-muted-foreground">
+                      Access renews automatically until {new Date(connection.authorizationExpiresAt).toLocaleDateString()}
+                    </div>
+                  )}
+                  {connection.lastError && (
+                    <div className="text-xs text-red-600">{connection.lastError}</div>
+                  )}
+                </div>
+              )}
+
+              {connection && canManage && (
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => test(channel)} disabled={busy !== null}>
+                    {busy === channel
+                      ? <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      : <RefreshCw className="h-4 w-4 mr-2" />}
+                    Test connection
+                  </Button>
+                  {encryptionConfigured && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditing(editing === channel ? null : channel)}
+                      disabled={busy !== null}
+                    >
+                      {editing === channel ? "Cancel" : useOAuth ? "Reconnect" : "Replace credentials"}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => disconnect(channel)} disabled={busy !== null}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Disconnect
+                  </Button>
+                </div>
+              )}
+
+              {showForm && (
+                <div className="space-y-3 rounded-md border p-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {fields.map(field => (
+                      <div key={field.name} className="space-y-2">
+                        <Label htmlFor={`${channel}-${field.name}`}>
+                          {field.label}
+                          {field.optional && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                        </Label>
+                        <Input
+                          id={`${channel}-${field.name}`}
+                          type={field.secret ? "password" : "text"}
+                          autoComplete="off"
+                          placeholder={field.placeholder}
+                          value={forms[channel][field.name] || ""}
+                          onChange={(e) => updateField(channel, field.name, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                    {channel === "ebay" && !useOAuth && (
+                      <div className="space-y-2">
+                        <Label>Environment</Label>
+                        <Select
+                          value={forms.ebay.environment}
+                          onValueChange={(value) => updateField("ebay", "environment", value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="production">Production</SelectItem>
+                            <SelectItem value="sandbox">Sandbox</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    onClick={() => useOAuth ? authorizeEbay() : connect(channel)}
+                    disabled={busy !== null || fields.some(field => !field.optional && !forms[channel][field.name]?.trim())}
+                  >
+                    {busy === channel && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    {useOAuth ? "Continue to eBay" : `Connect ${definition.label}`}
+                  </Button>
+                </div>
+              )}
+
+              {!connection && !canManage && (
+                <p className="text-sm text-muted-foreground">Ask an owner of your team to connect {definition.label}.</p>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
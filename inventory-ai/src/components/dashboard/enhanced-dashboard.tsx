@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { followJob } from "@/lib/job-client"
 import { 
   Sparkles, 
   Package, 
@@ -88,23 +89,29 @@ export function EnhancedDashboard() {
     }
   }
 
+  // Syncing runs as a background job - wait for it to report the outcome
   const syncToShopify = async (productId: string) => {
     try {
-      const response = await fetch('/api/shopify/sync', {
+      const response = await fetch(`/api/products/${productId}/sync-shopify`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ productId }),
       })
 
-      if (response.ok) {
-        const result = await response.json()
-        alert(`Product synced to Shopify successfully! Product ID: ${result.productId}`)
-      } else {
-        throw new Error('Failed to sync to Shopify')
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sync to Shopify')
       }
+
+      const job = await followJob(result.jobId)
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Failed to sync to Shopify')
+      }
+
+      const { shopifyId } = job.result as { shopifyId: string }
+      alert(`Product synced to Shopify successfully! Product ID: ${shopifyId}`)
+      fetchProducts()
     } catch (error) {
       console.error('Shopify sync error:', error)
-      alert('Failed to sync to Shopify. Please try again.')
+      alert(`Failed to sync to Shopify: ${error instanceof Error ? error.message : 'Please try again.'}`)
     }
   }
 
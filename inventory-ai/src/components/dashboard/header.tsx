@@ -3,7 +3,7 @@
 import Link from "next/link"
 import { SignInButton } from "@/components/auth/signin-button"
 import { Button } from "@/components/ui/button"
-import { Package, Brain, Home } from "lucide-react"
+import { Package, Brain, Home, Gauge, SlidersHorizontal, Users, Plug } from "lucide-react"
 
 export function Header() {
   return (
@@ -28,6 +28,30 @@ export function Header() {
                 Gemini AI Demo
               </Button>
             </Link>
+            <Link href="/usage">
+              <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                <Gauge className="w-4 h-4" />
+                Usage
+              </Button>
+            </Link>
+            <Link href="/pricing-rules">
+              <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                <SlidersHorizontal className="w-4 h-4" />
+                Pricing Rules
+              </Button>
+            </Link>
+            <Link href="/team">
+              <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Team
+              </Button>
+            </Link>
+            <Link href="/channels">
+              <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                <Plug className="w-4 h-4" />
+                Channels
+              </Button>
+            </Link>
           </nav>
         </div>
         <SignInButton />
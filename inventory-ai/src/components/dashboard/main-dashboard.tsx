@@ -8,6 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Loader2, CheckCircle, AlertCircle, Info } from "lucide-react"
+import { followJob } from "@/lib/job-client"
+import { ANALYSIS_STEPS, getAnalysisStepLabel } from "@/lib/analysis-progress"
+import type { EnhancedProductAnalysis } from "@/lib/enhanced-ai"
+import type { JobEvent } from "@/lib/jobs"
 
 interface ProcessingStep {
   id: string
@@ -32,26 +36,55 @@ export function MainDashboard() {
   const { data: session } = useSession()
   const [currentStep, setCurrentStep] = useState<'upload' | 'processing' | 'form'>('upload')
   const [uploadedImage, setUploadedImage] = useState<string | null>(null)
+  const [productId, setProductId] = useState<string | null>(null)
   const [productData, setProductData] = useState<ProductData | null>(null)
   const [processingSteps, setProcessingSteps] = useState<ProcessingStep[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
 
-  const initializeProcessingSteps = () => {
+  const initializeProcessingSteps = (): ProcessingStep[] => {
     return [
-      { id: 'upload', name: 'Image Upload', status: 'completed' as const },
-      { id: 'identify', name: 'AI Product Identification', status: 'pending' as const },
-      { id: 'enhance', name: 'Content Enhancement', status: 'pending' as const },
-      { id: 'scrape', name: 'Market Data Collection', status: 'pending' as const },
-      { id: 'pricing', name: 'Price Recommendation', status: 'pending' as const }
+      { id: 'upload', name: 'Image Upload', status: 'processing' },
+      ...[...ANALYSIS_STEPS, 'save'].map(step => ({
+        id: step,
+        name: getAnalysisStepLabel(step),
+        status: 'pending' as const
+      }))
     ]
   }
 
   const updateStepStatus = (stepId: string, status: ProcessingStep['status'], message?: string) => {
     setProcessingSteps(prev => prev.map(step => 
-      step.id === stepId ? { ...step, status, message } : step
+      step.id === stepId ? { ...step, status, message: message ?? step.message } : step
     ))
   }
 
+  // Mirror the analysis job's live events onto the step list
+  const applyJobEvent = (event: JobEvent) => {
+    if (!event.step) {
+      if (event.type === 'retry_scheduled') {
+        setProcessingSteps(prev => prev.map(step =>
+          step.status === 'error' ? { ...step, status: 'pending', message: event.message } : step
+        ))
+      }
+      return
+    }
+
+    switch (event.type) {
+      case 'step_started':
+        updateStepStatus(event.step, 'processing', event.message)
+        break
+      case 'step_progress':
+        updateStepStatus(event.step, 'processing', event.message)
+        break
+      case 'step_completed':
+        updateStepStatus(event.step, 'completed', event.message)
+        break
+      case 'step_failed':
+        updateStepStatus(event.step, 'error', event.message)
+        break
+    }
+  }
+
   const handleImageUpload = async (file: File) => {
     setIsProcessing(true)
     setCurrentStep('processing')
@@ -68,106 +101,72 @@ export function MainDashboard() {
       })
 
       if (!uploadResponse.ok) {
+        updateStepStatus('upload', 'error', 'Failed to upload image')
         throw new Error('Failed to upload image')
       }
 
       const uploadResult = await uploadResponse.json()
-      const imageUrl = `${window.location.origin}${uploadResult.url}`
+      // Local storage returns site-relative URLs, object storage absolute ones
+      const imageUrl = /^https?:\/\//.test(uploadResult.url)
+        ? uploadResult.url
+        : `${window.location.origin}${uploadResult.url}`
       setUploadedImage(imageUrl)
 
-      // Step 2: AI Product Identification
-      updateStepStatus('identify', 'processing')
-      const identifyResponse = await fetch('/api/ai/identify', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ imageUrl })
-      })
-
-      if (!identifyResponse.ok) {
-        throw new Error('Failed to identify product')
-      }
-
-      const identifyResult = await identifyResponse.json()
-      updateStepStatus('identify', 'completed', 'Product identified successfully')
-
-      // Step 3: Content Enhancement
-      updateStepStatus('enhance', 'processing')
-      const enhanceResponse = await fetch('/api/ai/enhance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ productInfo: identifyResult.identification })
-      })
-
-      if (!enhanceResponse.ok) {
-        throw new Error('Failed to enhance content')
-      }
-
-      const enhanceResult = await enhanceResponse.json()
-      updateStepStatus('enhance', 'completed', 'Content enhanced with SEO optimization')
-
-      // Step 4: Market Data Scraping
-      updateStepStatus('scrape', 'processing')
-      const scrapeResponse = await fetch('/api/scrape/ebay', {
+      // Step 2: Save a draft product for the analysis to fill in
+      const productResponse = await fetch('/api/products', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          productName: enhanceResult.enhanced.title || identifyResult.identification.product_name,
-          category: identifyResult.identification.category,
-          brand: identifyResult.identification.brand
+          title: 'New Product',
+          imageUrl,
+          imageStorageKeys: uploadResult.storageKeys,
+          status: 'draft'
         })
       })
 
-      if (!scrapeResponse.ok) {
-        throw new Error('Failed to scrape market data')
+      const productResult = await productResponse.json()
+      if (!productResponse.ok) {
+        updateStepStatus('upload', 'error', productResult.error || 'Failed to save product')
+        throw new Error(productResult.error || 'Failed to save product')
       }
+      updateStepStatus('upload', 'completed', 'Image uploaded')
+      setProductId(productResult.product.id)
 
-      const scrapeResult = await scrapeResponse.json()
-      updateStepStatus('scrape', 'completed', `Found ${scrapeResult.results.length} market data sources`)
-
-      // Step 5: Price Recommendation
-      updateStepStatus('pricing', 'processing')
-      const pricingResponse = await fetch('/api/pricing', {
+      // Step 3: Queue the analysis pipeline and stream its progress
+      const analyzeResponse = await fetch('/api/products/analyze-enhanced', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          marketData: scrapeResult.results,
-          condition: identifyResult.identification.condition,
-          category: identifyResult.identification.category,
-          brand: identifyResult.identification.brand
-        })
+        body: JSON.stringify({ productId: productResult.product.id, imageUrl })
       })
 
-      if (!pricingResponse.ok) {
-        throw new Error('Failed to calculate pricing')
+      const analyzeResult = await analyzeResponse.json()
+      if (!analyzeResponse.ok) {
+        throw new Error(analyzeResult.error || 'Failed to start analysis')
       }
 
-      const pricingResult = await pricingResponse.json()
-      updateStepStatus('pricing', 'completed', `Price calculated with ${pricingResult.pricing.confidence}% confidence`)
+      const job = await followJob(analyzeResult.jobId, { onEvent: applyJobEvent })
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Analysis failed')
+      }
 
-      // Combine all data
+      const analysis = job.result as EnhancedProductAnalysis
       const combinedData: ProductData = {
-        title: enhanceResult.enhanced.title || identifyResult.identification.product_name,
-        description: enhanceResult.enhanced.description || '',
-        tags: enhanceResult.enhanced.tags || [],
-        category: identifyResult.identification.category || '',
-        condition: identifyResult.identification.condition || '',
-        weight: identifyResult.identification.estimated_weight || '',
-        suggestedPrice: pricingResult.pricing.suggestedPrice || 0,
-        marketPrice: pricingResult.pricing.marketPrice || 0,
-        confidence: pricingResult.pricing.confidence || 0
+        title: analysis.enhancement.optimizedTitle || analysis.identification.title,
+        description: analysis.enhancement.description || '',
+        tags: analysis.enhancement.tags || [],
+        category: analysis.identification.category || '',
+        condition: analysis.identification.condition?.grade || '',
+        weight: '',
+        suggestedPrice: analysis.marketAnalysis.recommendedPrice || 0,
+        marketPrice: analysis.marketAnalysis.averagePrice || 0,
+        confidence: Math.round((analysis.identification.confidence || 0) * 100)
       }
 
       setProductData(combinedData)
       setCurrentStep('form')
     } catch (error) {
+      // Failed steps are marked from the job's events as they happen
       console.error('Processing error:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      
-      // Update the current processing step to error
-      const currentProcessingStep = processingSteps.find(step => step.status === 'processing')
-      if (currentProcessingStep) {
-        updateStepStatus(currentProcessingStep.id, 'error', errorMessage)
-      }
     } finally {
       setIsProcessing(false)
     }
@@ -206,29 +205,31 @@ export function MainDashboard() {
     }
   }
 
+  // Syncing runs as a background job on the saved product
   const handleSyncToShopify = async () => {
-    if (!productData) return
+    if (!productId) return
 
     setIsProcessing(true)
     try {
-      const response = await fetch('/api/shopify/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          productData,
-          imageUrl: uploadedImage
-        })
+      const response = await fetch(`/api/products/${productId}/sync-shopify`, {
+        method: 'POST'
       })
 
-      if (response.ok) {
-        const result = await response.json()
-        alert(`Product synced to Shopify successfully! Product ID: ${result.productId}`)
-      } else {
-        throw new Error('Failed to sync to Shopify')
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to sync to Shopify')
+      }
+
+      const job = await followJob(result.jobId)
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Failed to sync to Shopify')
       }
+
+      const { shopifyId } = job.result as { shopifyId: string }
+      alert(`Product synced to Shopify successfully! Product ID: ${shopifyId}`)
     } catch (error) {
       console.error('Shopify sync error:', error)
-      alert('Failed to sync to Shopify. Please try again.')
+      alert(`Failed to sync to Shopify: ${error instanceof Error ? error.message : 'Please try again.'}`)
     } finally {
       setIsProcessing(false)
     }
@@ -237,6 +238,7 @@ export function MainDashboard() {
   const resetProcess = () => {
     setCurrentStep('upload')
     setUploadedImage(null)
+    setProductId(null)
     setProductData(null)
     setProcessingSteps([])
     setIsProcessing(false)
@@ -0,0 +1,140 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, ArrowRight } from "lucide-react"
+import type { PriceChangeSource, PriceChangeView, PriceField } from "@/lib/price-history"
+
+const SOURCE_LABELS: Record<PriceChangeSource, string> = {
+  manual: "Manual",
+  ai_recommendation: "AI recommendation",
+  repricer: "Repricer",
+  channel_import: "Channel import",
+}
+
+const SOURCE_COLORS: Record<PriceChangeSource, string> = {
+  manual: "bg-gray-100 text-gray-800",
+  ai_recommendation: "bg-purple-100 text-purple-800",
+  repricer: "bg-blue-100 text-blue-800",
+  channel_import: "bg-orange-100 text-orange-800",
+}
+
+const FIELD_LABELS: Record<PriceField, string> = {
+  price: "Price",
+  recommendedPrice: "Recommended price",
+}
+
+function formatPrice(price: number | null) {
+  return price === null
+    ? "None"
+    : new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(price)
+}
+
+/**
+ * Every change to a product's price and recommended price, newest first,
+ * with who or what made it and the analysis behind it
+ */
+export function PriceHistoryTimeline({ productId }: { productId: string }) {
+  const [changes, setChanges] = useState<PriceChangeView[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [analyses, setAnalyses] = useState<Record<string, unknown>>({})
+  const [loadingAnalysis, setLoadingAnalysis] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/products/${productId}/price-history`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load price history")
+
+        setChanges(data.changes)
+      } catch (fetchError) {
+        console.error("Error fetching price history:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load price history")
+      }
+    }
+
+    fetchHistory()
+  }, [productId])
+
+  const toggleAnalysis = async (changeId: string) => {
+    if (changeId in analyses) {
+      const rest = { ...analyses }
+      delete rest[changeId]
+      setAnalyses(rest)
+      return
+    }
+
+    setLoadingAnalysis(changeId)
+    try {
+      const response = await fetch(`/api/products/${productId}/price-history/${changeId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load analysis")
+
+      setAnalyses({ ...analyses, [changeId]: data.analysis })
+    } catch (fetchError) {
+      console.error("Error fetching price change analysis:", fetchError)
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load analysis")
+    } finally {
+      setLoadingAnalysis(null)
+    }
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (!changes) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading price history...
+      </div>
+    )
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No price changes recorded yet</p>
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-4">
+      {changes.map(change => (
+        <li key={change.id} className="space-y-1">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{FIELD_LABELS[change.field]}</span>
+            <span>{formatPrice(change.oldPrice)}</span>
+            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+            <span className="font-semibold">{formatPrice(change.newPrice)}</span>
+            <Badge className={SOURCE_COLORS[change.source]}>{SOURCE_LABELS[change.source]}</Badge>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {new Date(change.createdAt).toLocaleString()}
+            {(change.user?.name || change.user?.email) && ` - ${change.user?.name || change.user?.email}`}
+            {change.rule && ` - rule "${change.rule.name}"`}
+          </div>
+          {change.reason && <p className="text-xs">{change.reason}</p>}
+          {change.hasAnalysis && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => toggleAnalysis(change.id)}
+              disabled={loadingAnalysis === change.id}
+            >
+              {loadingAnalysis === change.id && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+              {change.id in analyses ? "Hide analysis" : "View analysis"}
+            </Button>
+          )}
+          {change.id in analyses && (
+            <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs">
+              {JSON.stringify(analyses[change.id], null, 2)}
+            </pre>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,436 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Plus, Trash2, SlidersHorizontal } from "lucide-react"
+import { CONDITION_GRADES, type ConditionGrade } from "@/lib/comp-pricing"
+import type { PricingRules, RoundingRule } from "@/lib/pricing"
+import type { ChannelFees } from "@/lib/profit"
+
+type FeeInputs = Record<keyof ChannelFees, { percent: string; fixed: string; shippingLabel: string }>
+
+const CONDITION_LABELS: Record<ConditionGrade, string> = {
+  "new": "New",
+  "like-new": "Like new",
+  "refurbished": "Refurbished",
+  "very-good": "Very good",
+  "good": "Good",
+  "acceptable": "Acceptable",
+  "poor": "Poor",
+  "for-parts": "For parts",
+}
+
+const CHANNEL_LABELS: Record<keyof ChannelFees, string> = {
+  ebay: "eBay",
+  shopify: "Shopify",
+  facebook: "Facebook Marketplace",
+}
+
+const ROUNDING_LABELS: Record<RoundingRule, string> = {
+  none: "To the cent",
+  whole: "Whole dollars",
+  ninety_nine: "End in .99",
+  ninety_five: "End in .95",
+  nearest_five: "Nearest $5",
+}
+
+interface MultiplierRow {
+  name: string
+  value: string
+}
+
+function toRows(values: Record<string, number>): MultiplierRow[] {
+  return Object.entries(values).map(([name, value]) => ({ name, value: String(value) }))
+}
+
+function fromRows(rows: MultiplierRow[]): Record<string, number> {
+  return Object.fromEntries(
+    rows
+      .filter(row => row.name.trim() && Number(row.value) > 0)
+      .map(row => [row.name.trim(), Number(row.value)])
+  )
+}
+
+function MultiplierList({
+  label,
+  placeholder,
+  rows,
+  onChange,
+}: {
+  label: string
+  placeholder: string
+  rows: MultiplierRow[]
+  onChange: (rows: MultiplierRow[]) => void
+}) {
+  const update = (index: number, changes: Partial<MultiplierRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+
+  return (
+    <div className="space-y-2">
+      {rows.length === 0 && (
+        <p className="text-sm text-muted-foreground">No {label.toLowerCase()} - the market price is used as is</p>
+      )}
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder={placeholder}
+            value={row.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.05"
+            className="w-28"
+            value={row.value}
+            onChange={(e) => update(index, { value: e.target.value })}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label={`Remove ${row.name || label}`}
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...rows, { name: "", value: "1" }])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </div>
+  )
+}
+
+export function PricingRulesSettings() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [conditions, setConditions] = useState<Record<ConditionGrade, string> | null>(null)
+  const [categories, setCategories] = useState<MultiplierRow[]>([])
+  const [brands, setBrands] = useState<MultiplierRow[]>([])
+  const [minimumPrice, setMinimumPrice] = useState("0")
+  const [rounding, setRounding] = useState<RoundingRule>("none")
+  const [targetMargin, setTargetMargin] = useState("")
+  const [fees, setFees] = useState<FeeInputs | null>(null)
+
+  const applyRules = (rules: PricingRules) => {
+    setConditions(
+      Object.fromEntries(
+        CONDITION_GRADES.map(grade => [grade, String(rules.conditionMultipliers[grade])])
+      ) as Record<ConditionGrade, string>
+    )
+    setCategories(toRows(rules.categoryMultipliers))
+    setBrands(toRows(rules.brandOverrides))
+    setMinimumPrice(String(rules.minimumPrice))
+    setRounding(rules.rounding)
+    setTargetMargin(rules.targetMargin === null ? "" : String(Math.round(rules.targetMargin * 100)))
+    setFees(
+      Object.fromEntries(
+        Object.entries(rules.channelFees).map(([channel, fee]) => [
+          channel,
+          {
+            percent: String(Math.round(fee.percent * 10000) / 100),
+            fixed: String(fee.fixed),
+            shippingLabel: String(fee.shippingLabel),
+          },
+        ])
+      ) as FeeInputs
+    )
+  }
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        const response = await fetch("/api/pricing/rules")
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load pricing rules")
+
+        applyRules(data.rules)
+      } catch (fetchError) {
+        console.error("Error fetching pricing rules:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load pricing rules")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRules()
+  }, [])
+
+  const updateFee = (channel: keyof ChannelFees, field: keyof FeeInputs[keyof ChannelFees], value: string) => {
+    if (!fees) return
+    setFees({ ...fees, [channel]: { ...fees[channel], [field]: value } })
+  }
+
+  const submit = async (method: "PUT" | "DELETE") => {
+    if (!conditions || !fees) return
+    setSaving(true)
+    setSaved(false)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/pricing/rules", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PUT"
+          ? JSON.stringify({
+              conditionMultipliers: Object.fromEntries(
+                CONDITION_GRADES.map(grade => [grade, Number(conditions[grade])])
+              ),
+              categoryMultipliers: fromRows(categories),
+              brandOverrides: fromRows(brands),
+              minimumPrice: Number(minimumPrice) || 0,
+              rounding,
+              targetMargin: targetMargin === "" ? null : Number(targetMargin) / 100,
+              channelFees: Object.fromEntries(
+                Object.entries(fees).map(([channel, fee]) => [
+                  channel,
+                  {
+                    percent: (Number(fee.percent) || 0) / 100,
+                    fixed: Number(fee.fixed) || 0,
+                    shippingLabel: Number(fee.shippingLabel) || 0,
+                  },
+                ])
+              ),
+            })
+          : undefined,
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || "Failed to save pricing rules")
+
+      applyRules(data.rules)
+      setSaved(true)
+    } catch (saveError) {
+      console.error("Error saving pricing rules:", saveError)
+      setError(saveError instanceof Error ? saveError.message : "Failed to save pricing rules")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading pricing rules...
+      </div>
+    )
+  }
+
+  if (!conditions || !fees) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          {error || "Pricing rules are unavailable"}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <SlidersHorizontal className="h-7 w-7" />
+            Pricing Rules
+          </h1>
+          <p className="text-muted-foreground">
+            How this store turns market prices into its own - used by every price suggestion
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => submit("DELETE")} disabled={saving}>
+            Reset to defaults
+          </Button>
+          <Button onClick={() => submit("PUT")} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save rules
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {saved && !error && (
+        <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700 dark:border-green-800 dark:bg-green-950 dark:text-green-300">
+          Pricing rules saved
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Condition multipliers</CardTitle>
+          <CardDescription>
+            Value of each condition relative to new. Comparables in a different condition are adjusted by the ratio.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CONDITION_GRADES.map(grade => (
+              <div key={grade} className="space-y-2">
+                <Label htmlFor={`condition-${grade}`}>{CONDITION_LABELS[grade]}</Label>
+                <Input
+                  id={`condition-${grade}`}
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={conditions[grade]}
+                  onChange={(e) => setConditions({ ...conditions, [grade]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Category multipliers</CardTitle>
+            <CardDescription>
+              Applied on top of the market price, e.g. 1.1 to price collectibles 10% higher
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MultiplierList
+              label="Category multipliers"
+              placeholder="Category"
+              rows={categories}
+              onChange={setCategories}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Brand overrides</CardTitle>
+            <CardDescription>
+              Used instead of the category multiplier for items of these brands
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MultiplierList
+              label="Brand overrides"
+              placeholder="Brand"
+              rows={brands}
+              onChange={setBrands}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Floors, rounding and margin</CardTitle>
+          <CardDescription>
+            With a cost basis on the item, no price is suggested below what keeps the target margin after fees on every channel
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="minimum-price">Minimum price (USD)</Label>
+              <Input
+                id="minimum-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={minimumPrice}
+                onChange={(e) => setMinimumPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Rounding</Label>
+              <Select value={rounding} onValueChange={(value) => setRounding(value as RoundingRule)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROUNDING_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target-margin">Target margin (%)</Label>
+              <Input
+                id="target-margin"
+                type="number"
+                min="0"
+                max="95"
+                step="1"
+                placeholder="None"
+                value={targetMargin}
+                onChange={(e) => setTargetMargin(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Channel fees</CardTitle>
+          <CardDescription>
+            What each sale costs - used for net profit and margin
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {(Object.keys(fees) as Array<keyof ChannelFees>).map(channel => (
+              <div key={channel} className="grid grid-cols-1 md:grid-cols-4 gap-4 md:items-end">
+                <div className="font-medium">{CHANNEL_LABELS[channel]}</div>
+                <div className="space-y-2">
+                  <Label htmlFor={`fee-percent-${channel}`}>Fee (% of price)</Label>
+                  <Input
+                    id={`fee-percent-${channel}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={fees[channel].percent}
+                    onChange={(e) => updateFee(channel, "percent", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`fee-fixed-${channel}`}>Per order (USD)</Label>
+                  <Input
+                    id={`fee-fixed-${channel}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={fees[channel].fixed}
+                    onChange={(e) => updateFee(channel, "fixed", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`fee-shipping-${channel}`}>Shipping label (USD)</Label>
+                  <Input
+                    id={`fee-shipping-${channel}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={fees[channel].shippingLabel}
+                    onChange={(e) => updateFee(channel, "shippingLabel", e.target.value)}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,364 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Play, Plus, Trash2, TrendingDown } from "lucide-react"
+import { followJob } from "@/lib/job-client"
+import type { RepricingRuleInput, RepricingRuleType, RepricingRunResult } from "@/lib/repricing"
+
+interface RepricingRuleView extends RepricingRuleInput {
+  id: string
+  lastRunAt: string | null
+  nextRunAt: string
+}
+
+interface RunState {
+  ruleId: string
+  running: boolean
+  progress?: string
+  result?: RepricingRunResult
+  error?: string
+}
+
+const RULE_TYPE_LABELS: Record<RepricingRuleType, string> = {
+  markdown: "Markdown aging items",
+  follow_market: "Follow the market",
+}
+
+const EMPTY_FORM = {
+  name: "",
+  type: "markdown" as RepricingRuleType,
+  category: "",
+  markdownPercent: "10",
+  intervalDays: "14",
+  tolerancePercent: "5",
+}
+
+function describeRule(rule: RepricingRuleView): string {
+  const scope = rule.category ? `${rule.category} items` : "all listed items"
+  if (rule.type === "markdown") {
+    return `Drop ${Math.round((rule.markdownPercent ?? 0) * 100)}% every ${rule.intervalDays} days without a price change - ${scope}`
+  }
+  return `Keep within ${Math.round((rule.tolerancePercent ?? 0) * 100)}% of the median comparable, checked every ${rule.intervalDays} days - ${scope}`
+}
+
+function toInput(rule: RepricingRuleView): RepricingRuleInput {
+  return {
+    name: rule.name,
+    type: rule.type,
+    enabled: rule.enabled,
+    dryRun: rule.dryRun,
+    category: rule.category,
+    markdownPercent: rule.markdownPercent,
+    intervalDays: rule.intervalDays,
+    tolerancePercent: rule.tolerancePercent,
+  }
+}
+
+export function RepricingRulesSettings() {
+  const [rules, setRules] = useState<RepricingRuleView[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [run, setRun] = useState<RunState | null>(null)
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        const response = await fetch("/api/repricing/rules")
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load repricing rules")
+
+        setRules(data.rules)
+      } catch (fetchError) {
+        console.error("Error fetching repricing rules:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load repricing rules")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRules()
+  }, [])
+
+  const createRule = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/repricing/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          type: form.type,
+          category: form.category.trim() || null,
+          markdownPercent: form.type === "markdown" ? Number(form.markdownPercent) / 100 : null,
+          intervalDays: Number(form.intervalDays) || 14,
+          tolerancePercent: form.type === "follow_market" ? Number(form.tolerancePercent) / 100 : null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || "Failed to create repricing rule")
+
+      setRules([...rules, data.rule])
+      setForm(EMPTY_FORM)
+    } catch (saveError) {
+      console.error("Error creating repricing rule:", saveError)
+      setError(saveError instanceof Error ? saveError.message : "Failed to create repricing rule")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateRule = async (rule: RepricingRuleView, changes: Partial<RepricingRuleInput>) => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/repricing/rules/${rule.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...toInput(rule), ...changes }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || "Failed to update repricing rule")
+
+      setRules(rules.map(existing => (existing.id === rule.id ? data.rule : existing)))
+    } catch (updateError) {
+      console.error("Error updating repricing rule:", updateError)
+      setError(updateError instanceof Error ? updateError.message : "Failed to update repricing rule")
+    }
+  }
+
+  const deleteRule = async (rule: RepricingRuleView) => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/repricing/rules/${rule.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to delete repricing rule")
+
+      setRules(rules.filter(existing => existing.id !== rule.id))
+    } catch (deleteError) {
+      console.error("Error deleting repricing rule:", deleteError)
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete repricing rule")
+    }
+  }
+
+  const runRule = async (rule: RepricingRuleView, dryRun: boolean) => {
+    setRun({ ruleId: rule.id, running: true })
+
+    try {
+      const response = await fetch(`/api/repricing/rules/${rule.id}/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to run repricing rule")
+
+      const job = await followJob(data.jobId, {
+        onEvent: (event) => setRun({ ruleId: rule.id, running: true, progress: event.message }),
+      })
+      if (job.status === "failed") throw new Error(job.error || "Repricing failed")
+
+      setRun({ ruleId: rule.id, running: false, result: job.result as RepricingRunResult })
+    } catch (runError) {
+      console.error("Error running repricing rule:", runError)
+      setRun({
+        ruleId: rule.id,
+        running: false,
+        error: runError instanceof Error ? runError.message : "Failed to run repricing rule",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Automatic repricing
+        </CardTitle>
+        <CardDescription>
+          Rules that revisit the prices of listed items on a schedule and push changes to Shopify and eBay.
+          Prices never drop below the minimum price, the target margin or the item&apos;s cost.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Loading repricing rules...
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No repricing rules - prices only change when you change them</p>
+        ) : (
+          <div className="space-y-4">
+            {rules.map(rule => (
+              <div key={rule.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2 font-medium">
+                      {rule.name}
+                      {!rule.enabled && <Badge variant="secondary">Paused</Badge>}
+                      {rule.dryRun && <Badge variant="outline">Dry run</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describeRule(rule)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Last run {rule.lastRunAt ? new Date(rule.lastRunAt).toLocaleString() : "never"}
+                      {rule.enabled && ` - next ${new Date(rule.nextRunAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runRule(rule, true)}
+                      disabled={run?.running}
+                    >
+                      {run?.running && run.ruleId === rule.id
+                        ? <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                        : <Play className="h-4 w-4 mr-1" />}
+                      Dry run now
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => updateRule(rule, { dryRun: !rule.dryRun })}>
+                      {rule.dryRun ? "Apply changes" : "Switch to dry run"}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => updateRule(rule, { enabled: !rule.enabled })}>
+                      {rule.enabled ? "Pause" : "Resume"}
+                    </Button>
+                    <Button variant="ghost" size="sm" aria-label={`Delete ${rule.name}`} onClick={() => deleteRule(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {run?.ruleId === rule.id && (
+                  <div className="rounded-md bg-muted px-3 py-2 text-sm space-y-1">
+                    {run.running && <p className="text-muted-foreground">{run.progress || "Queued..."}</p>}
+                    {run.error && <p className="text-red-600">{run.error}</p>}
+                    {run.result && (
+                      <>
+                        <p className="font-medium">
+                          {run.result.changes.length} of {run.result.evaluated} prices
+                          {run.result.dryRun ? " would change" : " changed"}
+                        </p>
+                        {run.result.changes.map(change => (
+                          <p key={change.productId}>
+                            {change.title}: ${change.oldPrice.toFixed(2)} → ${change.newPrice.toFixed(2)}
+                            <span className="text-muted-foreground">
+                              {" "}({change.reason}{change.floored && ", held at floor"})
+                            </span>
+                          </p>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="repricing-name">Name</Label>
+              <Input
+                id="repricing-name"
+                placeholder="Clear out aging stock"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Rule</Label>
+              <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as RepricingRuleType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repricing-category">Category</Label>
+              <Input
+                id="repricing-category"
+                placeholder="All categories"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+              />
+            </div>
+            {form.type === "markdown" ? (
+              <div className="space-y-2">
+                <Label htmlFor="repricing-markdown">Markdown (%)</Label>
+                <Input
+                  id="repricing-markdown"
+                  type="number"
+                  min="1"
+                  max="90"
+                  step="1"
+                  value={form.markdownPercent}
+                  onChange={(e) => setForm({ ...form, markdownPercent: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="repricing-tolerance">Tolerance (%)</Label>
+                <Input
+                  id="repricing-tolerance"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={form.tolerancePercent}
+                  onChange={(e) => setForm({ ...form, tolerancePercent: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="repricing-interval">
+                {form.type === "markdown" ? "Days without a price change" : "Check every (days)"}
+              </Label>
+              <Input
+                id="repricing-interval"
+                type="number"
+                min="1"
+                max="365"
+                step="1"
+                value={form.intervalDays}
+                onChange={(e) => setForm({ ...form, intervalDays: e.target.value })}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={createRule} disabled={saving || !form.name.trim()}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add rule
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            New rules start as dry runs - they report what they would change until you apply their changes.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
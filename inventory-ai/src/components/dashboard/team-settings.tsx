@@ -0,0 +1,379 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Mail, Plus, Trash2, Users } from "lucide-react"
+import type { OrganizationRole, Permission } from "@/lib/organizations"
+
+interface OrganizationSummary {
+  id: string
+  name: string
+  role: OrganizationRole
+}
+
+interface ActiveOrganization {
+  organization: { id: string; name: string }
+  role: OrganizationRole
+  permissions: Permission[]
+}
+
+interface Member {
+  userId: string
+  name: string | null
+  email: string | null
+  role: OrganizationRole
+  joinedAt: string
+}
+
+interface PendingInvitation {
+  id: string
+  email: string
+  role: OrganizationRole
+  expiresAt: string
+  url: string
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  lister: "Lister",
+  photographer: "Photographer",
+  viewer: "Viewer",
+}
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: "Everything, including members, invitations and sales channel accounts",
+  lister: "Add, price, analyze and publish products",
+  photographer: "Edit products and manage their photos - no prices or publishing",
+  viewer: "Read-only access to products",
+}
+
+export function TeamSettings({ invitationToken }: { invitationToken?: string }) {
+  const { data: session } = useSession()
+  const [active, setActive] = useState<ActiveOrganization | null>(null)
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([])
+  const [members, setMembers] = useState<Member[]>([])
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingToken, setPendingToken] = useState(invitationToken)
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("lister")
+  const [newOrganization, setNewOrganization] = useState("")
+  const [busy, setBusy] = useState(false)
+
+  const canManage = active?.permissions.includes("manage_members") ?? false
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.details || data.error || "Request failed")
+    return data
+  }
+
+  const load = useCallback(async () => {
+    try {
+      const [organizationData, memberData] = await Promise.all([
+        fetch("/api/organizations").then(response => response.json()),
+        fetch("/api/organizations/members").then(response => response.json()),
+      ])
+      if (!organizationData.success) throw new Error(organizationData.error || "Failed to load organizations")
+      if (!memberData.success) throw new Error(memberData.error || "Failed to load members")
+
+      setActive(organizationData.active)
+      setOrganizations(organizationData.organizations)
+      setMembers(memberData.members)
+      setInvitations(memberData.invitations)
+    } catch (loadError) {
+      console.error("Error loading team:", loadError)
+      setError(loadError instanceof Error ? loadError.message : "Failed to load team")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      await load()
+    } catch (actionError) {
+      console.error("Error updating team:", actionError)
+      setError(actionError instanceof Error ? actionError.message : "Failed to update team")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const acceptInvitation = () => run(async () => {
+    await request("/api/organizations/invitations/accept", {
+      method: "POST",
+      body: JSON.stringify({ token: pendingToken }),
+    })
+    setPendingToken(undefined)
+  })
+
+  const switchOrganization = (organizationId: string) => run(() =>
+    request("/api/organizations/active", {
+      method: "PUT",
+      body: JSON.stringify({ organizationId }),
+    })
+  )
+
+  const createOrganization = () => run(async () => {
+    await request("/api/organizations", {
+      method: "POST",
+      body: JSON.stringify({ name: newOrganization }),
+    })
+    setNewOrganization("")
+  })
+
+  const invite = () => run(async () => {
+    await request("/api/organizations/invitations", {
+      method: "POST",
+      body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+    })
+    setInviteEmail("")
+  })
+
+  const changeRole = (userId: string, role: OrganizationRole) => run(() =>
+    request(`/api/organizations/members/${userId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ role }),
+    })
+  )
+
+  const removeMember = (userId: string) => run(() =>
+    request(`/api/organizations/members/${userId}`, { method: "DELETE" })
+  )
+
+  const revokeInvitation = (invitationId: string) => run(() =>
+    request(`/api/organizations/invitations/${invitationId}`, { method: "DELETE" })
+  )
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading team...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Users className="h-7 w-7" />
+            {active?.organization.name || "Team"}
+          </h1>
+          <p className="text-muted-foreground">
+            Everyone here works on the same inventory. You are {active ? `a ${ROLE_LABELS[active.role].toLowerCase()}` : "not a member"}.
+          </p>
+        </div>
+        {organizations.length > 1 && active && (
+          <div className="w-64 space-y-2">
+            <Label>Working in</Label>
+            <Select value={active.organization.id} onValueChange={switchOrganization} disabled={busy}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map(organization => (
+                  <SelectItem key={organization.id} value={organization.id}>
+                    {organization.name} ({ROLE_LABELS[organization.role]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {pendingToken && (
+        <Card className="border-blue-200">
+          <CardContent className="flex flex-wrap items-center justify-between gap-4 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Mail className="h-4 w-4" />
+              You have been invited to join a team as {session?.user?.email || "this account"}.
+            </div>
+            <Button onClick={acceptInvitation} disabled={busy}>
+              {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Accept invitation
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>What each role can do with the team&apos;s products</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {members.map(member => {
+            const isSelf = member.userId === session?.user?.id
+            return (
+              <div key={member.userId} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div>
+                  <div className="font-medium">
+                    {member.name || member.email}
+                    {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{member.email}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManage ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => changeRole(member.userId, role as OrganizationRole)}
+                      disabled={busy}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                          <SelectItem key={role} value={role}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {(canManage || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={isSelf ? "Leave organization" : `Remove ${member.name || member.email}`}
+                      onClick={() => removeMember(member.userId)}
+                      disabled={busy}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pt-2 text-xs text-muted-foreground">
+            {Object.entries(ROLE_DESCRIPTIONS).map(([role, description]) => (
+              <div key={role}>
+                <span className="font-medium">{ROLE_LABELS[role as OrganizationRole]}:</span> {description}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>
+              Send the link to the person invited - only someone signed in with that email can use it
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[16rem] space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                />
+              </div>
+              <div className="w-40 space-y-2">
+                <Label>Role</Label>
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrganizationRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <SelectItem key={role} value={role}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={invite} disabled={busy || !inviteEmail.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Invite
+              </Button>
+            </div>
+
+            {invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pending invitations</p>
+            ) : (
+              invitations.map(invitation => (
+                <div key={invitation.id} className="space-y-1 rounded-md border p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm">
+                      {invitation.email} <Badge variant="outline">{ROLE_LABELS[invitation.role]}</Badge>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Revoke invitation for ${invitation.email}`}
+                      onClick={() => revokeInvitation(invitation.id)}
+                      disabled={busy}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input readOnly value={invitation.url} onFocus={(e) => e.target.select()} className="text-xs" />
+                  <div className="text-xs text-muted-foreground">
+                    Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New organization</CardTitle>
+          <CardDescription>Start a separate workspace with its own inventory - you will own it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Organization name"
+              value={newOrganization}
+              onChange={(e) => setNewOrganization(e.target.value)}
+            />
+            <Button onClick={createOrganization} disabled={busy || !newOrganization.trim()}>
+              Create
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
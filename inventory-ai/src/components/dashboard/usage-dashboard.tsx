@@ -0,0 +1,320 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DollarSign, Activity, Cpu, Wallet, Loader2, AlertTriangle } from "lucide-react"
+import type { BudgetAction, BudgetStatus, UsageSummary } from "@/lib/usage"
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: "OpenAI",
+  gemini: "Gemini",
+  apify: "Apify",
+}
+
+function formatCost(value: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 1 ? 4 : 2,
+  }).format(value)
+}
+
+function formatCount(value: number) {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(value)
+}
+
+export function UsageDashboard() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [limitInput, setLimitInput] = useState("")
+  const [onExceeded, setOnExceeded] = useState<BudgetAction>("degrade")
+  const [saving, setSaving] = useState(false)
+
+  const applyBudget = (budget: BudgetStatus) => {
+    setLimitInput(budget.monthlyLimitUsd === null ? "" : String(budget.monthlyLimitUsd))
+    setOnExceeded(budget.onExceeded)
+  }
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        const response = await fetch("/api/usage")
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load usage")
+
+        setUsage(data.usage)
+        applyBudget(data.usage.budget)
+      } catch (fetchError) {
+        console.error("Error fetching usage:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load usage")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUsage()
+  }, [])
+
+  const saveBudget = async (monthlyLimitUsd: number | null) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/usage/budget", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ monthlyLimitUsd, onExceeded }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || "Failed to save budget")
+
+      setUsage(current => current && { ...current, budget: data.budget })
+      applyBudget(data.budget)
+    } catch (saveError) {
+      console.error("Error saving usage budget:", saveError)
+      setError(saveError instanceof Error ? saveError.message : "Failed to save budget")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading usage...
+      </div>
+    )
+  }
+
+  if (!usage) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          {error || "Usage is unavailable"}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { totals, budget } = usage
+  const budgetPercent = budget.monthlyLimitUsd
+    ? Math.min(100, (budget.spentUsd / budget.monthlyLimitUsd) * 100)
+    : 0
+  const maxDailyCost = Math.max(...usage.daily.map(day => day.costUsd), 0)
+  const parsedLimit = Number(limitInput)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">API Usage</h1>
+        <p className="text-muted-foreground">
+          Estimated AI and scraping costs for {usage.month}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {budget.exceeded && (
+        <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 px-4 py-3 text-sm text-orange-700 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-300">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          {budget.onExceeded === "block"
+            ? "Monthly budget reached - AI analysis and scraping are paused until next month or until the budget is raised."
+            : "Monthly budget reached - Facebook Marketplace scraping and web-grounded AI research are skipped until next month or until the budget is raised."}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Spent this month</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCost(totals.costUsd)}</div>
+            {budget.monthlyLimitUsd !== null && (
+              <div className="mt-2 space-y-1">
+                <Progress value={budgetPercent} />
+                <p className="text-xs text-muted-foreground">
+                  of {formatCost(budget.monthlyLimitUsd)} budget
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Paid calls</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCount(totals.calls)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">AI tokens</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCount(totals.inputTokens + totals.outputTokens)}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatCount(totals.inputTokens)} in / {formatCount(totals.outputTokens)} out
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Apify compute units</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCount(totals.computeUnits)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Monthly budget
+          </CardTitle>
+          <CardDescription>
+            Degrade skips optional calls once the budget is spent; block stops all paid calls
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="monthly-limit">Limit (USD)</Label>
+              <Input
+                id="monthly-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={limitInput}
+                onChange={(e) => setLimitInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>When exceeded</Label>
+              <Select value={onExceeded} onValueChange={(value) => setOnExceeded(value as BudgetAction)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="degrade">Degrade</SelectItem>
+                  <SelectItem value="block">Block</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveBudget(parsedLimit)}
+                disabled={saving || !(parsedLimit > 0)}
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save budget
+              </Button>
+              {budget.monthlyLimitUsd !== null && (
+                <Button variant="outline" onClick={() => saveBudget(null)} disabled={saving}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>By operation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {usage.byOperation.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No paid calls this month</p>
+            ) : (
+              <div className="space-y-2">
+                {usage.byOperation.map(row => (
+                  <div key={`${row.provider}:${row.operation}`} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{PROVIDER_LABELS[row.provider] || row.provider}</Badge>
+                      <span>{row.operation}</span>
+                    </div>
+                    <div className="text-right">
+                      <span className="font-medium">{formatCost(row.costUsd)}</span>
+                      <span className="text-muted-foreground ml-2">{row.calls} calls</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Top products</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {usage.byProduct.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No product has incurred costs this month</p>
+            ) : (
+              <div className="space-y-2">
+                {usage.byProduct.map(row => (
+                  <div key={row.productId} className="flex items-center justify-between text-sm">
+                    <span className="truncate mr-4">{row.title}</span>
+                    <div className="text-right whitespace-nowrap">
+                      <span className="font-medium">{formatCost(row.costUsd)}</span>
+                      <span className="text-muted-foreground ml-2">{row.calls} calls</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily spend</CardTitle>
+          <CardDescription>
+            {usage.byProvider.map(row => `${PROVIDER_LABELS[row.provider] || row.provider} ${formatCost(row.costUsd)}`).join(" · ") || "No spend yet"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {usage.daily.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No paid calls this month</p>
+          ) : (
+            <div className="flex items-end gap-1 h-40">
+              {usage.daily.map(day => (
+                <div
+                  key={day.date}
+                  className="flex-1 bg-primary/70 rounded-t"
+                  style={{ height: `${maxDailyCost > 0 ? Math.max(2, (day.costUsd / maxDailyCost) * 100) : 2}%` }}
+                  title={`${day.date}: ${formatCost(day.costUsd)} (${day.calls} calls)`}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
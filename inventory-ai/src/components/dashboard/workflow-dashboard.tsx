@@ -27,6 +27,7 @@ import { IntakeStage } from "./workflow/intake-stage";
 import { PricingStage } from "./workflow/pricing-stage";
 import { PhotographyStage } from "./workflow/photography-stage";
 import { ListingStage } from "./workflow/listing-stage";
+import type { PriceChangeSource } from "@/lib/price-history";
 
 interface Product {
   id: string;
@@ -36,6 +37,8 @@ interface Product {
   brand?: string;
   model?: string;
   price?: number;
+  costBasis?: number | null;
+  acquisitionSource?: string | null;
   imageUrl?: string;
   status: "received" | "photographed" | "priced" | "listed" | "sold";
   sku?: string;
@@ -49,6 +52,22 @@ interface Product {
   colors?: string[];
   size?: string;
   material?: string;
+  images?: {
+    id: string;
+    url: string;
+    thumbnailUrl?: string | null;
+    position: number;
+    role: string;
+    altText?: string | null;
+  }[];
+  channelListings?: {
+    channel: string;
+    externalId?: string | null;
+    listingUrl?: string | null;
+    status: string;
+    lastSyncedAt?: string | null;
+    lastError?: string | null;
+  }[];
 }
 
 const statusConfig = {
@@ -154,7 +173,7 @@ export function WorkflowDashboard() {
 
   const handleProductUpdate = async (
     productId: string,
-    updates: Partial<Product>
+    updates: Partial<Product> & { priceSource?: PriceChangeSource }
   ) => {
     try {
       const response = await fetch(`/api/products/${productId}`, {
@@ -358,7 +377,7 @@ export function WorkflowDashboard() {
         <TabsContent value="photography" className="space-y-4">
           <PhotographyStage
             products={getProductsByStatus("priced")}
-            onProductUpdate={handleProductUpdate}
+            onProductsChanged={fetchProducts}
             onStageComplete={handleStageComplete}
           />
         </TabsContent>
@@ -366,7 +385,7 @@ export function WorkflowDashboard() {
         <TabsContent value="listing" className="space-y-4">
           <ListingStage
             products={getProductsByStatus("listed")}
-            onProductUpdate={handleProductUpdate}
+            onProductsChanged={fetchProducts}
             onStageComplete={handleStageComplete}
           />
         </TabsContent>
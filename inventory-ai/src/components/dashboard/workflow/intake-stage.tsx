@@ -55,6 +55,7 @@ export function IntakeStage({ products, onProductUpdate, onStageComplete }: Inta
     category: '',
     imageUrl: ''
   })
+  const [imageStorageKeys, setImageStorageKeys] = useState<Record<string, string> | null>(null)
   const [processing, setProcessing] = useState<string | null>(null)
 
   const handleImageUpload = async (file: File) => {
@@ -70,6 +71,7 @@ export function IntakeStage({ products, onProductUpdate, onStageComplete }: Inta
       if (response.ok) {
         const data = await response.json()
         setNewProduct(prev => ({ ...prev, imageUrl: data.url }))
+        setImageStorageKeys(data.storageKeys || null)
         return data.url
       }
     } catch (error) {
@@ -111,12 +113,14 @@ export function IntakeStage({ products, onProductUpdate, onStageComplete }: Inta
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...newProduct,
+          ...(imageStorageKeys && { imageStorageKeys }),
           status: 'received'
         })
       })
 
       if (response.ok) {
         setNewProduct({ title: '', description: '', category: '', imageUrl: '' })
+        setImageStorageKeys(null)
         setShowNewProductForm(false)
         // Refresh products list would be handled by parent component
       }
@@ -12,8 +12,21 @@ import {
   Eye,
   Edit,
   Package,
-  Globe
+  Globe,
+  AlertCircle,
+  History
 } from "lucide-react"
+import { waitForJob } from "@/lib/job-client"
+import { PriceHistoryTimeline } from "@/components/dashboard/price-history-timeline"
+
+interface ChannelListing {
+  channel: string
+  externalId?: string | null
+  listingUrl?: string | null
+  status: string
+  lastSyncedAt?: string | null
+  lastError?: string | null
+}
 
 interface Product {
   id: string
@@ -27,35 +40,39 @@ interface Product {
   status: string
   sku?: string
   additionalImages?: string[]
-  shopifyId?: string
-  ebayId?: string
-  listedAt?: string
+  channelListings?: ChannelListing[]
 }
 
 interface ListingStageProps {
   products: Product[]
-  onProductUpdate: (productId: string, updates: Partial<Product>) => Promise<void>
+  onProductsChanged: () => Promise<void>
   onStageComplete: (productId: string, nextStatus: Product['status']) => Promise<void>
 }
 
-export function ListingStage({ products, onProductUpdate, onStageComplete }: ListingStageProps) {
+export function ListingStage({ products, onProductsChanged, onStageComplete }: ListingStageProps) {
   const [syncing, setSyncing] = useState<string | null>(null)
   const [publishing, setPublishing] = useState<string | null>(null)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+
+  // Syncs run as background jobs - wait for the job before refreshing
+  const runChannelSync = async (productId: string, channel: 'shopify' | 'ebay') => {
+    const response = await fetch(`/api/products/${productId}/sync-${channel}`, {
+      method: 'POST'
+    })
+    const data = await response.json()
+
+    if (data.jobId) {
+      await waitForJob(data.jobId)
+    }
+  }
 
   const handleSyncToShopify = async (productId: string) => {
     setSyncing(productId)
     try {
-      const response = await fetch(`/api/products/${productId}/sync-shopify`, {
-        method: 'POST'
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        await onProductUpdate(productId, {
-          shopifyId: data.shopifyId,
-          listedAt: new Date().toISOString()
-        })
-      }
+      await runChannelSync(productId, 'shopify')
+
+      // Success and failure are both recorded on the channel listing
+      await onProductsChanged()
     } catch (error) {
       console.error('Error syncing to Shopify:', error)
     } finally {
@@ -66,17 +83,9 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
   const handleSyncToEbay = async (productId: string) => {
     setPublishing(productId)
     try {
-      const response = await fetch(`/api/products/${productId}/sync-ebay`, {
-        method: 'POST'
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        await onProductUpdate(productId, {
-          ebayId: data.ebayId,
-          listedAt: new Date().toISOString()
-        })
-      }
+      await runChannelSync(productId, 'ebay')
+
+      await onProductsChanged()
     } catch (error) {
       console.error('Error syncing to eBay:', error)
     } finally {
@@ -88,24 +97,12 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
     setSyncing(productId)
     try {
       // Sync to both platforms simultaneously
-      const [shopifyResponse, ebayResponse] = await Promise.allSettled([
-        fetch(`/api/products/${productId}/sync-shopify`, { method: 'POST' }),
-        fetch(`/api/products/${productId}/sync-ebay`, { method: 'POST' })
+      await Promise.allSettled([
+        runChannelSync(productId, 'shopify'),
+        runChannelSync(productId, 'ebay')
       ])
 
-      const updates: any = { listedAt: new Date().toISOString() }
-
-      if (shopifyResponse.status === 'fulfilled' && shopifyResponse.value.ok) {
-        const shopifyData = await shopifyResponse.value.json()
-        updates.shopifyId = shopifyData.shopifyId
-      }
-
-      if (ebayResponse.status === 'fulfilled' && ebayResponse.value.ok) {
-        const ebayData = await ebayResponse.value.json()
-        updates.ebayId = ebayData.ebayId
-      }
-
-      await onProductUpdate(productId, updates)
+      await onProductsChanged()
     } catch (error) {
       console.error('Error with multi-platform sync:', error)
     } finally {
@@ -129,11 +126,63 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
     })
   }
 
-  const getPlatformStatus = (product: Product) => {
-    const platforms = []
-    if (product.shopifyId) platforms.push('Shopify')
-    if (product.ebayId) platforms.push('eBay')
-    return platforms
+  const getChannelListing = (product: Product, channel: string) => {
+    return product.channelListings?.find(listing => listing.channel === channel)
+  }
+
+  const isLive = (listing?: ChannelListing) => {
+    return !!listing?.externalId && listing.status !== 'ended'
+  }
+
+  const getLastListedAt = (product: Product) => {
+    const dates = (product.channelListings || [])
+      .filter(listing => isLive(listing) && listing.lastSyncedAt)
+      .map(listing => listing.lastSyncedAt as string)
+      .sort()
+    return dates[dates.length - 1]
+  }
+
+  const renderChannelStatus = (listing?: ChannelListing) => {
+    if (listing?.status === 'error') {
+      return (
+        <Badge variant="outline" className="text-xs text-red-600" title={listing.lastError || undefined}>
+          <AlertCircle className="h-3 w-3 mr-1" />
+          Sync Failed
+        </Badge>
+      )
+    }
+
+    if (listing?.status === 'active') {
+      return (
+        <Badge variant="outline" className="text-xs text-green-600">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Active
+        </Badge>
+      )
+    }
+
+    if (listing?.status === 'pending_removal') {
+      return (
+        <Badge variant="outline" className="text-xs text-amber-600" title={listing.lastError || undefined}>
+          <AlertCircle className="h-3 w-3 mr-1" />
+          Remove by Hand
+        </Badge>
+      )
+    }
+
+    if (listing?.status === 'pending' || listing?.status === 'ended') {
+      return (
+        <Badge variant="outline" className="text-xs text-muted-foreground capitalize">
+          {listing.status}
+        </Badge>
+      )
+    }
+
+    return (
+      <Badge variant="outline" className="text-xs text-muted-foreground">
+        Not Listed
+      </Badge>
+    )
   }
 
   return (
@@ -151,8 +200,12 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
       {/* Products in Listing Stage */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {products.map((product) => {
-          const platforms = getPlatformStatus(product)
-          
+          const shopifyListing = getChannelListing(product, 'shopify')
+          const ebayListing = getChannelListing(product, 'ebay')
+          const shopifyLive = isLive(shopifyListing)
+          const ebayLive = isLive(ebayListing)
+          const listedAt = getLastListedAt(product)
+
           return (
             <Card key={product.id} className="relative">
               <CardHeader className="pb-3">
@@ -178,13 +231,23 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
                       )}
                     </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {/* View details */}}
-                  >
-                    <Eye className="h-4 w-4" />
-                  </Button>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label="Price history"
+                      onClick={() => setHistoryFor(historyFor === product.id ? null : product.id)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {/* View details */}}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
 
@@ -214,10 +277,10 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
                           <span>{product.category}</span>
                         </div>
                       )}
-                      {product.listedAt && (
+                      {listedAt && (
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Listed:</span>
-                          <span className="text-xs">{formatDate(product.listedAt)}</span>
+                          <span className="text-xs">{formatDate(listedAt)}</span>
                         </div>
                       )}
                     </div>
@@ -231,32 +294,14 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
                             <div className="w-2 h-2 rounded-full bg-blue-500"></div>
                             Shopify
                           </span>
-                          {product.shopifyId ? (
-                            <Badge variant="outline" className="text-xs text-green-600">
-                              <CheckCircle className="h-3 w-3 mr-1" />
-                              Active
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline" className="text-xs text-muted-foreground">
-                              Not Listed
-                            </Badge>
-                          )}
+                          {renderChannelStatus(shopifyListing)}
                         </div>
                         <div className="flex items-center justify-between text-sm">
                           <span className="flex items-center gap-2">
                             <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
                             eBay
                           </span>
-                          {product.ebayId ? (
-                            <Badge variant="outline" className="text-xs text-green-600">
-                              <CheckCircle className="h-3 w-3 mr-1" />
-                              Active
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline" className="text-xs text-muted-foreground">
-                              Not Listed
-                            </Badge>
-                          )}
+                          {renderChannelStatus(ebayListing)}
                         </div>
                       </div>
                     </div>
@@ -270,41 +315,41 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
                   <div className="grid grid-cols-2 gap-2">
                     <Button
                       size="sm"
-                      variant={product.shopifyId ? "outline" : "default"}
+                      variant={shopifyLive ? "outline" : "default"}
                       onClick={() => handleSyncToShopify(product.id)}
                       disabled={syncing === product.id}
                       className="text-xs"
                     >
                       {syncing === product.id ? (
                         <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                      ) : product.shopifyId ? (
+                      ) : shopifyLive ? (
                         <CheckCircle className="h-3 w-3 mr-1" />
                       ) : (
                         <Package className="h-3 w-3 mr-1" />
                       )}
-                      {product.shopifyId ? 'Update' : 'Sync'} Shopify
+                      {shopifyLive ? 'Update' : 'Sync'} Shopify
                     </Button>
 
                     <Button
                       size="sm"
-                      variant={product.ebayId ? "outline" : "default"}
+                      variant={ebayLive ? "outline" : "default"}
                       onClick={() => handleSyncToEbay(product.id)}
                       disabled={publishing === product.id}
                       className="text-xs"
                     >
                       {publishing === product.id ? (
                         <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                      ) : product.ebayId ? (
+                      ) : ebayLive ? (
                         <CheckCircle className="h-3 w-3 mr-1" />
                       ) : (
                         <Globe className="h-3 w-3 mr-1" />
                       )}
-                      {product.ebayId ? 'Update' : 'List'} eBay
+                      {ebayLive ? 'Update' : 'List'} eBay
                     </Button>
                   </div>
 
                   {/* Multi-platform sync */}
-                  {!product.shopifyId || !product.ebayId ? (
+                  {!shopifyLive || !ebayLive ? (
                     <Button
                       size="sm"
                       onClick={() => handleMultiPlatformSync(product.id)}
@@ -335,26 +380,37 @@ export function ListingStage({ products, onProductUpdate, onStageComplete }: Lis
                 </div>
 
                 {/* External Links */}
-                {(product.shopifyId || product.ebayId) && (
+                {(shopifyListing?.listingUrl || ebayListing?.listingUrl) && (
                   <div className="space-y-2 border-t pt-3">
                     <div className="text-sm font-medium">View Listings:</div>
                     <div className="flex gap-2">
-                      {product.shopifyId && (
-                        <Button size="sm" variant="outline" className="text-xs">
-                          <ExternalLink className="h-3 w-3 mr-1" />
-                          Shopify
+                      {shopifyListing?.listingUrl && (
+                        <Button size="sm" variant="outline" className="text-xs" asChild>
+                          <a href={shopifyListing.listingUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-3 w-3 mr-1" />
+                            Shopify
+                          </a>
                         </Button>
                       )}
-                      {product.ebayId && (
-                        <Button size="sm" variant="outline" className="text-xs">
-                          <ExternalLink className="h-3 w-3 mr-1" />
-                          eBay
+                      {ebayListing?.listingUrl && (
+                        <Button size="sm" variant="outline" className="text-xs" asChild>
+                          <a href={ebayListing.listingUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-3 w-3 mr-1" />
+                            eBay
+                          </a>
                         </Button>
                       )}
                     </div>
                   </div>
                 )}
 
+                {historyFor === product.id && (
+                  <div className="space-y-2 border-t pt-3">
+                    <div className="text-sm font-medium">Price History:</div>
+                    <PriceHistoryTimeline productId={product.id} />
+                  </div>
+                )}
+
                 {/* Mark as Sold */}
                 <Button
                   size="sm"
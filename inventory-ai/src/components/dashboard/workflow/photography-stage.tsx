@@ -12,10 +12,27 @@ import {
   Sparkles,
   Eye,
   Download,
-  Upload
+  GripVertical
 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ImageUpload } from "../image-upload"
 
+const IMAGE_ROLES = [
+  { value: "hero", label: "Hero" },
+  { value: "detail", label: "Detail" },
+  { value: "defect", label: "Defect" },
+  { value: "label", label: "Label" }
+]
+
+interface ProductImage {
+  id: string
+  url: string
+  thumbnailUrl?: string | null
+  position: number
+  role: string
+  altText?: string | null
+}
+
 interface Product {
   id: string
   title: string
@@ -27,18 +44,44 @@ interface Product {
   imageUrl?: string
   status: string
   sku?: string
-  additionalImages?: string[]
+  images?: ProductImage[]
 }
 
 interface PhotographyStageProps {
   products: Product[]
-  onProductUpdate: (productId: string, updates: Partial<Product>) => Promise<void>
+  onProductsChanged: () => Promise<void>
   onStageComplete: (productId: string, nextStatus: string) => Promise<void>
 }
 
-export function PhotographyStage({ products, onProductUpdate, onStageComplete }: PhotographyStageProps) {
+export function PhotographyStage({ products, onProductsChanged, onStageComplete }: PhotographyStageProps) {
   const [generatingImages, setGeneratingImages] = useState<string | null>(null)
   const [uploadingImages, setUploadingImages] = useState<string | null>(null)
+  const [draggedImage, setDraggedImage] = useState<{ productId: string; imageId: string } | null>(null)
+
+  const getGallery = (product: Product) => {
+    return [...(product.images || [])].sort((a, b) => a.position - b.position)
+  }
+
+  const addImages = async (
+    productId: string,
+    images: Array<{
+      url: string
+      thumbnailUrl?: string
+      storageKeys?: Record<string, string>
+      width?: number
+      height?: number
+    }>
+  ) => {
+    // Sequential so the gallery keeps the order the photos were added in
+    for (const image of images) {
+      await fetch(`/api/products/${productId}/images`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(image)
+      })
+    }
+    await onProductsChanged()
+  }
 
   const handleImageUpload = async (productId: string, file: File) => {
     setUploadingImages(productId)
@@ -53,12 +96,13 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
 
       if (response.ok) {
         const data = await response.json()
-        const product = products.find(p => p.id === productId)
-        const additionalImages = product?.additionalImages || []
-        
-        await onProductUpdate(productId, {
-          additionalImages: [...additionalImages, data.url]
-        })
+        await addImages(productId, [{
+          url: data.url,
+          thumbnailUrl: data.thumbnailUrl,
+          storageKeys: data.storageKeys,
+          width: data.width,
+          height: data.height
+        }])
       }
     } catch (error) {
       console.error('Error uploading image:', error)
@@ -76,12 +120,7 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
 
       if (response.ok) {
         const data = await response.json()
-        const product = products.find(p => p.id === productId)
-        const additionalImages = product?.additionalImages || []
-        
-        await onProductUpdate(productId, {
-          additionalImages: [...additionalImages, ...data.generatedImages]
-        })
+        await addImages(productId, (data.generatedImages || []).map((url: string) => ({ url })))
       }
     } catch (error) {
       console.error('Error generating AI images:', error)
@@ -90,12 +129,50 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
     }
   }
 
-  const handleRemoveImage = async (productId: string, imageUrl: string) => {
-    const product = products.find(p => p.id === productId)
-    if (!product) return
+  const handleRemoveImage = async (productId: string, imageId: string) => {
+    try {
+      await fetch(`/api/products/${productId}/images/${imageId}`, { method: 'DELETE' })
+      await onProductsChanged()
+    } catch (error) {
+      console.error('Error removing image:', error)
+    }
+  }
 
-    const updatedImages = (product.additionalImages || []).filter(img => img !== imageUrl)
-    await onProductUpdate(productId, { additionalImages: updatedImages })
+  const handleRoleChange = async (productId: string, imageId: string, role: string) => {
+    try {
+      await fetch(`/api/products/${productId}/images/${imageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      })
+      await onProductsChanged()
+    } catch (error) {
+      console.error('Error updating image role:', error)
+    }
+  }
+
+  const handleDrop = async (product: Product, targetImageId: string) => {
+    const dragged = draggedImage
+    setDraggedImage(null)
+    if (!dragged || dragged.productId !== product.id || dragged.imageId === targetImageId) return
+
+    // Move the dragged photo into the target's slot
+    const imageIds = getGallery(product).map(image => image.id)
+    const from = imageIds.indexOf(dragged.imageId)
+    const to = imageIds.indexOf(targetImageId)
+    imageIds.splice(from, 1)
+    imageIds.splice(to, 0, dragged.imageId)
+
+    try {
+      await fetch(`/api/products/${product.id}/images/order`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ imageIds })
+      })
+      await onProductsChanged()
+    } catch (error) {
+      console.error('Error reordering images:', error)
+    }
   }
 
   const formatPrice = (price: number) => {
@@ -119,7 +196,10 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
 
       {/* Products in Photography Stage */}
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-        {products.map((product) => (
+        {products.map((product) => {
+          const gallery = getGallery(product)
+
+          return (
           <Card key={product.id} className="relative">
             <CardHeader className="pb-3">
               <div className="flex items-start justify-between">
@@ -169,10 +249,10 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
                 </div>
               )}
 
-              {/* Additional Images */}
+              {/* Gallery */}
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <h4 className="font-medium text-sm">Additional Photos</h4>
+                  <h4 className="font-medium text-sm">Gallery</h4>
                   <div className="flex gap-2">
                     <Button
                       size="sm"
@@ -192,24 +272,60 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
                   </div>
                 </div>
 
-                {/* Image Grid */}
+                {/* Image Grid - drag photos to set the listing order */}
                 <div className="grid grid-cols-3 gap-2">
-                  {(product.additionalImages || []).map((imageUrl, index) => (
-                    <div key={index} className="relative group aspect-square">
-                      <img
-                        src={imageUrl}
-                        alt={`${product.title} - Image ${index + 1}`}
-                        className="w-full h-full object-cover rounded-lg border"
-                      />
-                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => handleRemoveImage(product.id, imageUrl)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                  {gallery.map((image, index) => (
+                    <div
+                      key={image.id}
+                      className={`relative group space-y-1 ${
+                        draggedImage?.imageId === image.id ? "opacity-50" : ""
+                      }`}
+                      draggable
+                      onDragStart={() => setDraggedImage({ productId: product.id, imageId: image.id })}
+                      onDragEnd={() => setDraggedImage(null)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault()
+                        handleDrop(product, image.id)
+                      }}
+                    >
+                      <div className="relative aspect-square cursor-move">
+                        <img
+                          src={image.thumbnailUrl || image.url}
+                          alt={image.altText || `${product.title} - Image ${index + 1}`}
+                          className="w-full h-full object-cover rounded-lg border"
+                        />
+                        <div className="absolute top-1 left-1 flex items-center gap-1">
+                          <GripVertical className="h-4 w-4 text-white drop-shadow" />
+                          <Badge variant="secondary" className="text-xs px-1 py-0">
+                            {index + 1}
+                          </Badge>
+                        </div>
+                        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleRemoveImage(product.id, image.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
+                      <Select
+                        value={image.role}
+                        onValueChange={(role) => handleRoleChange(product.id, image.id, role)}
+                      >
+                        <SelectTrigger className="h-7 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IMAGE_ROLES.map((role) => (
+                            <SelectItem key={role.value} value={role.value}>
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   ))}
 
@@ -242,7 +358,7 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
                 <ul className="text-muted-foreground space-y-1 text-xs">
                   <li>• Use natural lighting when possible</li>
                   <li>• Include multiple angles and close-ups</li>
-                  <li>• Show any defects or wear clearly</li>
+                  <li>• Show any defects or wear clearly and tag them as Defect</li>
                   <li>• Use a clean, neutral background</li>
                 </ul>
               </div>
@@ -277,11 +393,12 @@ export function PhotographyStage({ products, onProductUpdate, onStageComplete }:
 
               {/* Image Count */}
               <div className="text-xs text-muted-foreground text-center">
-                {(product.additionalImages?.length || 0) + (product.imageUrl ? 1 : 0)} photos total
+                {gallery.length || (product.imageUrl ? 1 : 0)} photos total
               </div>
             </CardContent>
           </Card>
-        ))}
+          )
+        })}
       </div>
 
       {products.length === 0 && (
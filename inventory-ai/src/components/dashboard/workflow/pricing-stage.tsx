@@ -1,11 +1,12 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { 
   DollarSign, 
   TrendingUp, 
@@ -14,8 +15,30 @@ import {
   Target,
   BarChart3,
   Eye,
-  Edit
+  Wallet,
+  History
 } from "lucide-react"
+import { ACQUISITION_SOURCES, DEFAULT_CHANNEL_FEES, calculateProfit, type ChannelFees } from "@/lib/profit"
+import type { PriceChangeSource } from "@/lib/price-history"
+import { PriceHistoryTimeline } from "@/components/dashboard/price-history-timeline"
+
+const CHANNEL_LABELS: Record<string, string> = {
+  shopify: "Shopify",
+  ebay: "eBay",
+  facebook: "Facebook",
+}
+
+const ACQUISITION_SOURCE_LABELS: Record<string, string> = {
+  thrift: "Thrift store",
+  estate_sale: "Estate sale",
+  garage_sale: "Garage sale",
+  auction: "Auction",
+  wholesale: "Wholesale",
+  retail_arbitrage: "Retail arbitrage",
+  consignment: "Consignment",
+  donation: "Donation",
+  other: "Other",
+}
 
 interface Product {
   id: string
@@ -36,17 +59,41 @@ interface Product {
   colors?: string[]
   size?: string
   material?: string
+  costBasis?: number | null
+  acquisitionSource?: string | null
 }
 
 interface PricingStageProps {
   products: Product[]
-  onProductUpdate: (productId: string, updates: Partial<Product>) => Promise<void>
+  // priceSource records where a new price came from in the product's price history
+  onProductUpdate: (productId: string, updates: Partial<Product> & { priceSource?: PriceChangeSource }) => Promise<void>
   onStageComplete: (productId: string, nextStatus: Product['status']) => Promise<void>
 }
 
 export function PricingStage({ products, onProductUpdate, onStageComplete }: PricingStageProps) {
   const [analyzing, setAnalyzing] = useState<string | null>(null)
   const [pricingData, setPricingData] = useState<{ [key: string]: any }>({})
+  const [channelFees, setChannelFees] = useState<ChannelFees>(DEFAULT_CHANNEL_FEES)
+  const [targetMargin, setTargetMargin] = useState<number | null>(null)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+
+  // Profit is worked out with the store's own channel fees
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        const response = await fetch("/api/pricing/rules")
+        if (response.ok) {
+          const data = await response.json()
+          setChannelFees(data.rules.channelFees)
+          setTargetMargin(data.rules.targetMargin)
+        }
+      } catch (error) {
+        console.error("Error fetching pricing rules:", error)
+      }
+    }
+
+    fetchRules()
+  }, [])
 
   const handlePricingAnalysis = async (productId: string) => {
     setAnalyzing(productId)
@@ -63,7 +110,8 @@ export function PricingStage({ products, onProductUpdate, onStageComplete }: Pri
         // Update product with recommended price
         const recommendedPrice = analysis.data.pricingInsights.overallInsights.recommendedPriceRange.recommended
         await onProductUpdate(productId, {
-          price: recommendedPrice
+          price: recommendedPrice,
+          priceSource: 'ai_recommendation'
         })
       }
     } catch (error) {
@@ -73,8 +121,17 @@ export function PricingStage({ products, onProductUpdate, onStageComplete }: Pri
     }
   }
 
-  const handlePriceUpdate = async (productId: string, newPrice: number) => {
-    await onProductUpdate(productId, { price: newPrice })
+  const handlePriceUpdate = async (product: Product, value: string) => {
+    const newPrice = parseFloat(value) || 0
+    // Every change is logged, so only save a price that actually changed
+    if (newPrice === (product.price || 0)) return
+    await onProductUpdate(product.id, { price: newPrice })
+  }
+
+  const handleCostUpdate = async (productId: string, value: string) => {
+    const costBasis = value === "" ? null : parseFloat(value)
+    if (costBasis !== null && !(costBasis >= 0)) return
+    await onProductUpdate(productId, { costBasis })
   }
 
   const formatPrice = (price: number) => {
@@ -279,8 +336,10 @@ export function PricingStage({ products, onProductUpdate, onStageComplete }: Pri
                         id={`price-${product.id}`}
                         type="number"
                         step="0.01"
-                        value={product.price || ''}
-                        onChange={(e) => handlePriceUpdate(product.id, parseFloat(e.target.value) || 0)}
+                        // Remount when the price is set elsewhere, e.g. by a market analysis
+                        key={product.price ?? 0}
+                        defaultValue={product.price || ''}
+                        onBlur={(e) => handlePriceUpdate(product, e.target.value)}
                         className="pl-10"
                         placeholder="0.00"
                       />
@@ -300,6 +359,67 @@ export function PricingStage({ products, onProductUpdate, onStageComplete }: Pri
                   </div>
                 </div>
 
+                {/* Cost and Profit */}
+                <div className="space-y-2 border-t pt-4">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor={`cost-${product.id}`} className="text-xs">Cost Basis</Label>
+                      <Input
+                        id={`cost-${product.id}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        defaultValue={product.costBasis ?? ''}
+                        onBlur={(e) => handleCostUpdate(product.id, e.target.value)}
+                        placeholder="Unknown"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Acquired From</Label>
+                      <Select
+                        value={product.acquisitionSource ?? undefined}
+                        onValueChange={(value) => onProductUpdate(product.id, { acquisitionSource: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Source" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ACQUISITION_SOURCES.map(source => (
+                            <SelectItem key={source} value={source}>{ACQUISITION_SOURCE_LABELS[source]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {product.price ? (
+                    <div className="space-y-1 text-xs">
+                      <div className="font-medium flex items-center gap-1">
+                        <Wallet className="h-3 w-3" />
+                        Net profit at {formatPrice(product.price)}
+                      </div>
+                      {(Object.keys(channelFees) as Array<keyof ChannelFees>).map(channel => {
+                        const profit = calculateProfit(channel, product.price!, product.costBasis, channelFees)
+                        const belowTarget = targetMargin !== null && profit.margin !== null && profit.margin < targetMargin
+                        return (
+                          <div key={channel} className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              {CHANNEL_LABELS[channel]} ({formatPrice(profit.fees.total)} fees)
+                            </span>
+                            {profit.netProfit === null ? (
+                              <span>{formatPrice(profit.netProceeds)} proceeds</span>
+                            ) : (
+                              <span className={profit.netProfit < 0 || belowTarget ? "text-red-600 font-medium" : "text-green-600 font-medium"}>
+                                {formatPrice(profit.netProfit)} ({Math.round((profit.margin ?? 0) * 100)}%)
+                              </span>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  ) : null}
+                </div>
+
                 {/* Actions */}
                 <div className="flex gap-2 pt-2">
                   <Button
@@ -319,6 +439,15 @@ export function PricingStage({ products, onProductUpdate, onStageComplete }: Pri
                     )}
                   </Button>
                   
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Price history"
+                    onClick={() => setHistoryFor(historyFor === product.id ? null : product.id)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+
                   <Button
                     size="sm"
                     onClick={() => onStageComplete(product.id, 'priced')}
@@ -327,6 +456,13 @@ export function PricingStage({ products, onProductUpdate, onStageComplete }: Pri
                     <ArrowRight className="h-4 w-4" />
                   </Button>
                 </div>
+
+                {historyFor === product.id && (
+                  <div className="border-t pt-3 space-y-2">
+                    <div className="text-sm font-medium">Price History</div>
+                    <PriceHistoryTimeline productId={product.id} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           )
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts - starts the background job
+ * worker unless it runs as its own process (JOB_WORKER_ENABLED=false)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_WORKER_ENABLED !== 'false') {
+    const { jobWorker } = await import('./lib/job-worker');
+    jobWorker.start();
+  }
+}
@@ -0,0 +1,313 @@
+// Prompts shared by every AI provider, so OpenAI and Gemini are asked the
+// same questions and their answers validate against the same schemas
+
+export interface AnalysisProductData {
+  title?: string;
+  description?: string;
+  category?: string;
+  brand?: string;
+  condition?: string;
+  aiIdentification?: unknown;
+}
+
+export interface PricingPreferences {
+  targetMargin?: number;
+  pricingStrategy?: 'competitive' | 'premium' | 'budget';
+}
+
+export function buildIdentificationPrompt(context?: object): string {
+  return `Analyze this product image and provide comprehensive identification information.
+
+${context ? `Additional context: ${JSON.stringify(context)}` : ''}
+
+Please identify:
+1. Product title/name
+2. Brand (if visible)
+3. Model number (if visible)
+4. Category/type
+5. Color(s) - primary and secondary colors
+6. Size/dimensions (if determinable)
+7. Material/construction
+8. Key features and characteristics
+9. Condition assessment with specific indicators:
+   - New in Package (NIB): Sealed packaging, pristine condition
+   - New: No packaging but unused, no wear
+   - Like New: Minimal to no signs of use
+   - Good: Light wear, fully functional
+   - Acceptable: Moderate wear, may have cosmetic issues
+10. Authenticity markers (logos, serial numbers, quality indicators)
+11. Notable details or unique identifiers
+
+Respond in JSON format:
+{
+  "title": "Product name",
+  "brand": "Brand name",
+  "model": "Model number",
+  "category": "Product category",
+  "colors": ["primary color", "secondary color"],
+  "size": "size/dimensions",
+  "material": "material type",
+  "features": ["feature1", "feature2"],
+  "condition": {
+    "grade": "condition grade",
+    "indicators": ["wear pattern 1", "condition indicator 2"],
+    "score": 0.85
+  },
+  "authenticity": {
+    "markers": ["logo quality", "serial number"],
+    "confidence": 0.9
+  },
+  "confidence": 0.95,
+  "details": "Additional observations"
+}
+
+Use an empty string for anything you cannot determine.`;
+}
+
+export function buildSearchQueriesPrompt(aiIdentification: unknown, maxQueries: number): string {
+  return `
+Based on the following AI product identification data, generate ${maxQueries} optimized search queries for finding similar products on e-commerce platforms:
+
+AI Identification Data:
+${JSON.stringify(aiIdentification, null, 2)}
+
+Generate search queries that are:
+1. Specific enough to find exact or very similar products
+2. Include key identifying features (brand, model, type)
+3. Optimized for e-commerce search engines
+4. Varied in approach (brand+model, category+features, etc.)
+
+Return as a JSON array of strings:
+["query1", "query2", "query3"]
+
+Respond only with valid JSON array.`;
+}
+
+export function buildProductAnalysisPrompt(productData: AnalysisProductData, marketData?: object): string {
+  return `
+As an expert e-commerce product analyst with access to current market data, analyze the following product and generate comprehensive inventory management data with SEO optimization and platform-specific categories:
+
+Product Information:
+- Title: ${productData.title || 'Unknown'}
+- Description: ${productData.description || 'None provided'}
+- Category: ${productData.category || 'Unknown'}
+- Brand: ${productData.brand || 'Unknown'}
+- Condition: ${productData.condition || 'Unknown'}
+- AI Identification: ${JSON.stringify(productData.aiIdentification || {})}
+
+Market Data:
+${marketData ? JSON.stringify(marketData, null, 2) : 'No market data available'}
+
+Search for additional current market trends and competitor analysis for this product type to enhance your recommendations.
+
+Please provide a JSON response with the following COMPLETE structure:
+{
+  "title": "Optimized product title (60-80 characters, include key features and brand)",
+  "description": "Detailed product description (150-300 words, highlight benefits and features)",
+  "tags": ["array", "of", "relevant", "seo", "tags", "and", "keywords"],
+  "category": "Most appropriate product category",
+  "seoTitle": "SEO-optimized title for search engines (50-60 characters)",
+  "seoDescription": "Meta description for SEO (150-160 characters)",
+  "marketingCopy": "Compelling marketing copy that sells the product (100-200 words)",
+  "keyFeatures": ["list", "of", "key", "product", "features"],
+  "targetAudience": ["primary", "target", "audience", "segments"],
+  "competitiveAdvantages": ["unique", "selling", "points", "vs", "competitors"],
+  
+  "shippingWeight": {
+    "pounds": 2.5,
+    "kilograms": 1.13,
+    "estimationMethod": "Based on product type and materials"
+  },
+  
+  "dimensions": {
+    "length": 12,
+    "width": 8,
+    "height": 3,
+    "unit": "inches",
+    "lengthCm": 30.5,
+    "widthCm": 20.3,
+    "heightCm": 7.6
+  },
+  
+  "platformCategories": {
+    "ebay": {
+      "primaryCategory": "9355",
+      "primaryCategoryName": "Cell Phones & Smartphones",
+      "secondaryCategory": "20349",
+      "secondaryCategoryName": "Cell Phone Accessories",
+      "categoryPath": "Cell Phones & Accessories > Cell Phones & Smartphones"
+    },
+    "facebook": {
+      "category": "Electronics",
+      "subcategory": "Mobile Phones",
+      "categoryId": "electronics_mobile_phones"
+    },
+    "shopify": {
+      "productType": "Electronics - Mobile Devices",
+      "vendor": "Brand Name",
+      "collection": "Smartphones"
+    }
+  },
+  
+  "seoKeywords": {
+    "primary": ["smartphone", "mobile phone", "unlocked phone"],
+    "secondary": ["android phone", "dual sim", "camera phone"],
+    "longtail": ["unlocked android smartphone dual camera", "budget friendly mobile phone"]
+  },
+  
+  "shopifyMetafields": [
+    {
+      "namespace": "inventory",
+      "key": "condition_grade",
+      "value": "B+",
+      "type": "single_line_text_field"
+    },
+    {
+      "namespace": "inventory", 
+      "key": "authenticity_verified",
+      "value": "true",
+      "type": "boolean"
+    },
+    {
+      "namespace": "seo",
+      "key": "focus_keywords",
+      "value": "smartphone, unlocked, android",
+      "type": "single_line_text_field"
+    },
+    {
+      "namespace": "platforms",
+      "key": "ebay_category",
+      "value": "9355",
+      "type": "single_line_text_field"
+    }
+  ],
+  
+  "inventoryData": {
+    "fragility": 7,
+    "storageRequirements": "Keep in dry, temperature-controlled environment",
+    "handlingInstructions": "Handle with care, avoid drops",
+    "insuranceValue": 250
+  }
+}
+
+CRITICAL REQUIREMENTS:
+1. MUST include accurate shipping weight estimation in both pounds and kilograms
+2. MUST provide platform-specific categories for eBay, Facebook, and Shopify
+3. MUST include comprehensive SEO keywords (primary, secondary, longtail)
+4. MUST generate Shopify metafields for inventory management
+5. MUST estimate realistic dimensions based on product type
+6. Focus on Shopify as the source of truth for inventory data
+
+Respond only with valid JSON containing ALL required fields.`;
+}
+
+export function buildPricingPrompt(
+  productData: AnalysisProductData,
+  marketData: object,
+  userPreferences?: PricingPreferences
+): string {
+  return `
+As a pricing expert with access to current market data, analyze the following product and recommend an optimal price:
+
+Product Information:
+- Title: ${productData.title || 'Unknown'}
+- Condition: ${productData.condition || 'Unknown'}
+- Category: ${productData.category || 'Unknown'}
+- Brand: ${productData.brand || 'Unknown'}
+
+Market Data:
+${JSON.stringify(marketData, null, 2)}
+
+Search for additional current pricing trends and competitive analysis for similar products to enhance your pricing recommendation.
+
+User Preferences:
+- Target Margin: ${userPreferences?.targetMargin || 'Not specified'}%
+- Pricing Strategy: ${userPreferences?.pricingStrategy || 'competitive'}
+
+Please analyze the market data and provide a JSON response with:
+{
+  "recommendedPrice": 0.00,
+  "priceRange": {
+    "min": 0.00,
+    "max": 0.00
+  },
+  "reasoning": "Detailed explanation of pricing rationale",
+  "marketPosition": "budget|mid-range|premium",
+  "competitiveAnalysis": "Analysis of how this price compares to competitors",
+  "pricingStrategy": "Recommended strategy and tactics"
+}
+
+Listings marked "isSold": true are completed sales - what buyers actually paid. Weight them above active listings, which are only asking prices.
+
+Consider:
+1. Sold prices first, then market average and median asking prices
+2. Product condition impact
+3. Brand value and recognition
+4. Competitive positioning
+5. Market demand indicators
+6. Seasonal factors
+7. Platform-specific pricing trends
+
+Respond only with valid JSON.`;
+}
+
+export function buildMarketAnalysisPrompt(
+  productData: unknown,
+  aiIdentification: unknown,
+  marketData: unknown,
+  comparableListings: unknown[]
+): string {
+  return `
+As a market research analyst, compile a comprehensive analysis from the following data sources:
+
+Product Data:
+${JSON.stringify(productData, null, 2)}
+
+AI Identification:
+${JSON.stringify(aiIdentification, null, 2)}
+
+Market Data:
+${JSON.stringify(marketData, null, 2)}
+
+Comparable Listings:
+${JSON.stringify(comparableListings.slice(0, 10), null, 2)}
+
+Provide a comprehensive market analysis in JSON format:
+{
+  "summary": "Executive summary of market position and opportunity",
+  "insights": ["key", "market", "insights", "discovered"],
+  "recommendations": ["actionable", "recommendations", "for", "seller"],
+  "marketTrends": ["observed", "market", "trends", "and", "patterns"],
+  "competitivePosition": "Analysis of competitive positioning",
+  "riskFactors": ["potential", "risks", "and", "challenges"]
+}
+
+Focus on:
+1. Market opportunity assessment
+2. Competitive landscape analysis
+3. Pricing trends and patterns
+4. Demand indicators
+5. Risk assessment
+6. Strategic recommendations
+
+Respond only with valid JSON.`;
+}
+
+export function buildListingContentPrompt(productData: unknown): string {
+  return `You are an expert e-commerce content writer specializing in SEO-optimized product listings. Create compelling, search-friendly content that drives sales while being accurate and informative.
+
+Based on this product information, create SEO-optimized content in JSON format:
+
+Product Info: ${JSON.stringify(productData, null, 2)}
+
+Generate:
+- title: SEO-optimized product title (60-80 characters, include key features and brand)
+- description: Compelling product description (150-300 words, highlight benefits, features, and use cases)
+- tags: Array of relevant SEO tags/keywords (10-15 tags)
+- meta_description: Meta description for SEO (150-160 characters)
+- bullet_points: Array of 5-7 key selling points
+- search_keywords: Array of search terms customers might use
+- category_suggestions: Array of potential categories this product fits into
+
+Make the content engaging, benefit-focused, and optimized for search engines while being accurate to the product.`;
+}
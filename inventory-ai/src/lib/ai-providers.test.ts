@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIProviderError, AIProviderService, FakeAIProvider } from './ai-providers';
+import { ResponseCacheService } from './response-cache';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+const identification = {
+  title: 'Brass Desk Lamp',
+  brand: 'Anglepoise',
+  condition: { grade: 'Good', score: 0.7 },
+  authenticity: { confidence: 0.8 },
+  confidence: 0.85,
+};
+
+function offlineService(fake: FakeAIProvider): AIProviderService {
+  return new AIProviderService(
+    { openai: fake, gemini: fake, fake },
+    { defaultProvider: 'fake', taskProviders: {}, fallback: true },
+    new ResponseCacheService(false)
+  );
+}
+
+describe('AIProviderService with the fake provider', () => {
+  it('never falls back to a real provider', () => {
+    expect(offlineService(new FakeAIProvider()).getProviderOrder('identification')).toEqual(['fake']);
+  });
+
+  it('validates a reply wrapped in a code fence', async () => {
+    const fake = new FakeAIProvider({
+      identification: ['Here you go:\n```json\n' + JSON.stringify(identification) + '\n```'],
+    });
+
+    const result = await offlineService(fake).identifyProduct('https://example.com/lamp.jpg');
+
+    expect(result).toMatchObject({ title: 'Brass Desk Lamp', brand: 'Anglepoise', confidence: 0.85 });
+    expect(fake.prompts).toHaveLength(1);
+  });
+
+  it('sends an invalid reply back for repair', async () => {
+    const fake = new FakeAIProvider({
+      identification: [
+        JSON.stringify({ ...identification, confidence: 'high' }),
+        JSON.stringify(identification),
+      ],
+    });
+
+    const result = await offlineService(fake).identifyProduct('https://example.com/lamp.jpg');
+
+    expect(result.confidence).toBe(0.85);
+    expect(fake.prompts.map(({ prompt }) => prompt)[1]).toContain('failed validation');
+  });
+
+  it('rejects replies that still fail validation after repair', async () => {
+    const fake = new FakeAIProvider({
+      identification: ['{"title": ""}', '{"title": ""}', 'not JSON', '{"title": ""}'],
+    });
+
+    const error = await offlineService(fake).identifyProduct('https://example.com/lamp.jpg').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.failures).toEqual([
+      { provider: 'fake', error: expect.stringContaining('Fake identification response failed validation') },
+    ]);
+    expect(fake.prompts).toHaveLength(4);
+  });
+});
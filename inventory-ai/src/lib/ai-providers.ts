@@ -0,0 +1,418 @@
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart } from 'openai/resources/chat/completions';
+import type { z } from 'zod';
+import { geminiService } from './gemini';
+import { productIdentificationSchema, type ProductIdentification } from './ai-schemas';
+import { buildIdentificationPrompt } from './ai-prompts';
+import { generateValidated } from './structured-output';
+import { toPublicUrl } from './product-data';
+import { responseCache, CACHE_TTL_MS, type CacheStats, type ResponseCacheService } from './response-cache';
+import { usageService, estimateTokenCost, BudgetExceededError } from './usage';
+
+export const AI_PROVIDERS = ['openai', 'gemini', 'fake'] as const;
+
+export type AIProviderName = typeof AI_PROVIDERS[number];
+
+export const AI_TASKS = [
+  'identification',
+  'search_queries',
+  'enhancement',
+  'pricing',
+  'insights',
+  'listing_content',
+] as const;
+
+export type AITask = typeof AI_TASKS[number];
+
+export interface TextRequest<T extends z.ZodType> {
+  task: AITask;
+  prompt: string;
+  schema: T;
+  // Allow providers that can search the web to do so
+  grounded?: boolean;
+  // Collects cache hits and misses for the caller
+  cacheStats?: CacheStats;
+}
+
+export interface VisionRequest<T extends z.ZodType> extends TextRequest<T> {
+  // An http(s), site-relative or data URL
+  imageUrl: string;
+}
+
+export interface TextProvider {
+  readonly name: AIProviderName;
+  isConfigured(): boolean;
+  generateJson<T extends z.ZodType>(request: TextRequest<T>): Promise<z.output<T>>;
+}
+
+export interface VisionProvider {
+  readonly name: AIProviderName;
+  isConfigured(): boolean;
+  analyzeImage<T extends z.ZodType>(request: VisionRequest<T>): Promise<z.output<T>>;
+}
+
+export type AIProvider = TextProvider & VisionProvider;
+
+export interface AIProviderConfig {
+  // Provider for every task without its own setting
+  defaultProvider?: AIProviderName;
+  taskProviders: Partial<Record<AITask, AIProviderName>>;
+  // Retry a failed task on the other real provider
+  fallback: boolean;
+}
+
+// Used when nothing is configured - each task stays on the provider it ran
+// on before providers were interchangeable
+const DEFAULT_TASK_PROVIDERS: Record<AITask, AIProviderName> = {
+  identification: 'openai',
+  search_queries: 'gemini',
+  enhancement: 'gemini',
+  pricing: 'gemini',
+  insights: 'gemini',
+  listing_content: 'openai',
+};
+
+/**
+ * Thrown when no provider could complete a task
+ */
+export class AIProviderError extends Error {
+  constructor(task: AITask, readonly failures: Array<{ provider: AIProviderName; error: string }>) {
+    super(
+      `No AI provider could complete ${task}: ` +
+        failures.map(failure => `${failure.provider}: ${failure.error}`).join('; ')
+    );
+    this.name = 'AIProviderError';
+  }
+}
+
+function parseProviderName(value: string | undefined, variable: string): AIProviderName | undefined {
+  if (!value) return undefined;
+
+  const name = value.trim().toLowerCase();
+  if ((AI_PROVIDERS as readonly string[]).includes(name)) {
+    return name as AIProviderName;
+  }
+
+  console.warn(`Ignoring unknown AI provider "${value}" in ${variable}`);
+  return undefined;
+}
+
+/**
+ * Read provider selection from the environment: AI_PROVIDER for every task,
+ * AI_PROVIDER_<TASK> (e.g. AI_PROVIDER_IDENTIFICATION) for one task, and
+ * AI_PROVIDER_FALLBACK=false to turn fallback off
+ */
+export function getAIProviderConfig(env: NodeJS.ProcessEnv = process.env): AIProviderConfig {
+  const taskProviders: Partial<Record<AITask, AIProviderName>> = {};
+  for (const task of AI_TASKS) {
+    const variable = `AI_PROVIDER_${task.toUpperCase()}`;
+    const provider = parseProviderName(env[variable], variable);
+    if (provider) taskProviders[task] = provider;
+  }
+
+  return {
+    defaultProvider: parseProviderName(env.AI_PROVIDER, 'AI_PROVIDER'),
+    taskProviders,
+    fallback: env.AI_PROVIDER_FALLBACK !== 'false',
+  };
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  constructor(
+    private readonly options: { apiKey?: string; textModel: string; visionModel: string } = {
+      apiKey: process.env.OPENAI_API_KEY,
+      textModel: process.env.OPENAI_TEXT_MODEL || 'gpt-4o',
+      visionModel: process.env.OPENAI_VISION_MODEL || 'gpt-4o',
+    }
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.apiKey);
+  }
+
+  async generateJson<T extends z.ZodType>(request: TextRequest<T>): Promise<z.output<T>> {
+    return generateValidated({
+      schema: request.schema,
+      label: `OpenAI ${request.task}`,
+      generate: () => this.complete(this.options.textModel, request.prompt, request.task),
+      repair: (prompt) => this.complete(this.options.textModel, prompt, `${request.task} repair`),
+    });
+  }
+
+  async analyzeImage<T extends z.ZodType>(request: VisionRequest<T>): Promise<z.output<T>> {
+    // OpenAI fetches the image itself, so it needs an absolute or data URL
+    const url = request.imageUrl.startsWith('data:') ? request.imageUrl : toPublicUrl(request.imageUrl);
+
+    return generateValidated({
+      schema: request.schema,
+      label: `OpenAI ${request.task}`,
+      generate: () => this.complete(this.options.visionModel, [
+        { type: 'text', text: request.prompt },
+        { type: 'image_url', image_url: { url } },
+      ], request.task),
+      repair: (prompt) => this.complete(this.options.textModel, prompt, `${request.task} repair`),
+    });
+  }
+
+  private async complete(
+    model: string,
+    content: string | ChatCompletionContentPart[],
+    operation: string
+  ): Promise<string> {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.options.apiKey });
+    }
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: [{ role: 'user', content }],
+      max_tokens: 4000,
+    });
+
+    const inputTokens = response.usage?.prompt_tokens ?? 0;
+    const outputTokens = response.usage?.completion_tokens ?? 0;
+    await usageService.record({
+      provider: 'openai',
+      operation,
+      model,
+      inputTokens,
+      outputTokens,
+      costUsd: estimateTokenCost(model, inputTokens, outputTokens),
+    });
+
+    const text = response.choices[0]?.message?.content;
+    if (!text) throw new Error('No response from OpenAI');
+    return text;
+  }
+}
+
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini' as const;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  async generateJson<T extends z.ZodType>(request: TextRequest<T>): Promise<z.output<T>> {
+    return geminiService.generateJson(request.prompt, request.schema, {
+      label: request.task,
+      grounded: request.grounded,
+    });
+  }
+
+  async analyzeImage<T extends z.ZodType>(request: VisionRequest<T>): Promise<z.output<T>> {
+    return geminiService.generateFromImage(request.imageUrl, request.prompt, request.schema, request.task);
+  }
+}
+
+// Canned answers for running the pipelines offline. Every call for a task
+// gets the same answer unless replies were queued for it.
+const FAKE_RESPONSES: Record<AITask, unknown> = {
+  identification: {
+    title: 'Sample Product',
+    brand: 'Sample Brand',
+    model: 'SP-100',
+    category: 'Electronics',
+    colors: ['black'],
+    size: 'Medium',
+    material: 'Plastic',
+    features: ['Sample feature'],
+    condition: { grade: 'Good', indicators: ['Light wear'], score: 0.8 },
+    authenticity: { markers: ['Logo'], confidence: 0.9 },
+    confidence: 0.9,
+    details: 'Offline sample identification',
+  },
+  search_queries: ['Sample Brand SP-100', 'Sample Product'],
+  enhancement: {
+    title: 'Sample Brand SP-100 Sample Product',
+    description: 'A sample product description used when running without an AI provider.',
+    tags: ['sample', 'product'],
+    category: 'Electronics',
+    seoTitle: 'Sample Brand SP-100',
+    seoDescription: 'Sample Brand SP-100 in good condition.',
+    marketingCopy: 'A dependable sample product.',
+    keyFeatures: ['Sample feature'],
+    targetAudience: ['Everyone'],
+    competitiveAdvantages: ['Sample advantage'],
+    shippingWeight: { pounds: 1, kilograms: 0.45, estimationMethod: 'Sample' },
+    dimensions: { length: 10, width: 6, height: 2, unit: 'inches', lengthCm: 25.4, widthCm: 15.2, heightCm: 5.1 },
+    platformCategories: {
+      ebay: { primaryCategory: '9355', primaryCategoryName: 'Cell Phones & Smartphones', categoryPath: 'Cell Phones & Accessories > Cell Phones & Smartphones' },
+      facebook: { category: 'Electronics', subcategory: 'Mobile Phones', categoryId: 'electronics_mobile_phones' },
+      shopify: { productType: 'Electronics', vendor: 'Sample Brand', collection: 'Electronics' },
+    },
+    seoKeywords: { primary: ['sample product'], secondary: ['sample brand'], longtail: ['sample brand sp-100'] },
+    shopifyMetafields: [],
+    inventoryData: { fragility: 5, storageRequirements: 'Dry', handlingInstructions: 'None', insuranceValue: 25 },
+  },
+  pricing: {
+    recommendedPrice: 25,
+    priceRange: { min: 20, max: 30 },
+    reasoning: 'Offline sample price',
+    marketPosition: 'mid-range',
+    competitiveAnalysis: 'Offline sample analysis',
+    pricingStrategy: 'competitive',
+  },
+  insights: {
+    summary: 'Offline sample market analysis',
+    insights: [],
+    recommendations: [],
+    marketTrends: [],
+    competitivePosition: 'Unknown',
+    riskFactors: [],
+  },
+  listing_content: {
+    title: 'Sample Brand SP-100 Sample Product',
+    description: 'A sample product description used when running without an AI provider.',
+    tags: ['sample', 'product'],
+  },
+};
+
+/**
+ * Answers from canned JSON instead of a model. Replies queued per task are
+ * given first, as raw model text, so they go through the same validation and
+ * repair as a real response.
+ */
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake' as const;
+
+  // Every prompt sent, repair prompts included
+  readonly prompts: Array<{ task: AITask; prompt: string }> = [];
+
+  constructor(private readonly replies: Partial<Record<AITask, string[]>> = {}) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateJson<T extends z.ZodType>(request: TextRequest<T>): Promise<z.output<T>> {
+    return generateValidated({
+      schema: request.schema,
+      label: `Fake ${request.task}`,
+      generate: async () => this.reply(request.task, request.prompt),
+      repair: async (prompt) => this.reply(request.task, prompt),
+    });
+  }
+
+  async analyzeImage<T extends z.ZodType>(request: VisionRequest<T>): Promise<z.output<T>> {
+    return this.generateJson(request);
+  }
+
+  private reply(task: AITask, prompt: string): string {
+    this.prompts.push({ task, prompt });
+    return this.replies[task]?.shift() ?? JSON.stringify(FAKE_RESPONSES[task]);
+  }
+}
+
+/**
+ * Runs each AI task on its configured provider, falling back to the other
+ * real provider when that one fails or has no API key. Answers are cached,
+ * so a repeated prompt is only paid for once.
+ */
+export class AIProviderService {
+  constructor(
+    private readonly providers: Record<AIProviderName, AIProvider> = {
+      openai: new OpenAIProvider(),
+      gemini: new GeminiProvider(),
+      fake: new FakeAIProvider(),
+    },
+    private readonly config: AIProviderConfig = getAIProviderConfig(),
+    private readonly cache: ResponseCacheService = responseCache
+  ) {}
+
+  /**
+   * Providers to try for a task, in order
+   */
+  getProviderOrder(task: AITask): AIProviderName[] {
+    const primary = this.config.taskProviders[task] || this.config.defaultProvider || DEFAULT_TASK_PROVIDERS[task];
+
+    // The fake provider is for offline runs, so it never falls back to a
+    // real provider and is never a fallback itself
+    if (primary === 'fake' || !this.config.fallback) {
+      return [primary];
+    }
+
+    return [primary, primary === 'openai' ? 'gemini' : 'openai'];
+  }
+
+  async generateJson<T extends z.ZodType>(request: TextRequest<T>): Promise<z.output<T>> {
+    return this.cached(request, () => this.run(request.task, provider => provider.generateJson(request)));
+  }
+
+  async analyzeImage<T extends z.ZodType>(request: VisionRequest<T>): Promise<z.output<T>> {
+    return this.cached(request, () => this.run(request.task, provider => provider.analyzeImage(request)), {
+      imageUrl: request.imageUrl,
+    });
+  }
+
+  /**
+   * Identify a product from its image in the shared identification shape
+   */
+  async identifyProduct(imageUrl: string, context?: object, cacheStats?: CacheStats): Promise<ProductIdentification> {
+    return this.analyzeImage({
+      task: 'identification',
+      imageUrl,
+      prompt: buildIdentificationPrompt(context),
+      schema: productIdentificationSchema,
+      cacheStats,
+    });
+  }
+
+  private async cached<T extends z.ZodType>(
+    request: TextRequest<T>,
+    load: () => Promise<z.output<T>>,
+    options: { imageUrl?: string } = {}
+  ): Promise<z.output<T>> {
+    return this.cache.getOrLoad(
+      {
+        platform: `ai:${request.task}`,
+        query: request.prompt,
+        // Keyed by the configured provider, so switching provider - above
+        // all away from the fake one - never serves the old answers
+        options: {
+          provider: this.getProviderOrder(request.task)[0],
+          grounded: request.grounded,
+          imageUrl: options.imageUrl,
+        },
+        ttlMs: CACHE_TTL_MS.ai,
+        parse: (value) => {
+          const parsed = request.schema.safeParse(value);
+          return parsed.success ? parsed.data : undefined;
+        },
+        stats: request.cacheStats,
+      },
+      load
+    );
+  }
+
+  private async run<T>(task: AITask, call: (provider: AIProvider) => Promise<T>): Promise<T> {
+    const failures: Array<{ provider: AIProviderName; error: string }> = [];
+
+    await usageService.assertWithinBudget();
+
+    for (const name of this.getProviderOrder(task)) {
+      const provider = this.providers[name];
+      if (!provider.isConfigured()) {
+        failures.push({ provider: name, error: 'Not configured' });
+        continue;
+      }
+
+      try {
+        return await call(provider);
+      } catch (error) {
+        // Another provider would be refused just the same
+        if (error instanceof BudgetExceededError) throw error;
+
+        console.warn(`AI provider ${name} failed for ${task}:`, error);
+        failures.push({ provider: name, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    throw new AIProviderError(task, failures);
+  }
+}
+
+export const aiProviders = new AIProviderService();
@@ -0,0 +1,246 @@
+import { z } from 'zod';
+
+// Models write numbers as strings often enough ("2.5") that coercing is
+// kinder than a repair round-trip - anything that is not a finite number
+// still fails validation
+const number = z.coerce.number();
+const nonNegativeNumber = z.coerce.number().nonnegative();
+
+// Ids and metafield values come back as numbers or booleans as well
+const looseString = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+
+const stringList = z.array(z.string());
+
+const optionalText = z.string().nullish().transform(value => value ?? '');
+const optionalList = stringList.nullish().transform(value => value ?? []);
+
+// 0-1, accepting percentages such as 95
+const ratio = z.coerce.number()
+  .transform(value => (value > 1 && value <= 100 ? value / 100 : value))
+  .pipe(z.number().min(0).max(1));
+
+// Enums are matched case-insensitively
+function looseEnum<const T extends readonly [string, ...string[]]>(values: T) {
+  return z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(values)
+  );
+}
+
+const priceRangeSchema = z.object({
+  min: nonNegativeNumber,
+  max: nonNegativeNumber,
+});
+
+const shippingWeightSchema = z.object({
+  pounds: nonNegativeNumber,
+  kilograms: nonNegativeNumber,
+  estimationMethod: z.string(),
+});
+
+const dimensionsSchema = z.object({
+  length: nonNegativeNumber,
+  width: nonNegativeNumber,
+  height: nonNegativeNumber,
+  unit: z.string(),
+  lengthCm: nonNegativeNumber,
+  widthCm: nonNegativeNumber,
+  heightCm: nonNegativeNumber,
+});
+
+// One identification shape for every vision provider. Models leave fields
+// they cannot determine empty or null, and give confidences as percentages.
+export const productIdentificationSchema = z.looseObject({
+  title: z.string().trim().min(1),
+  brand: optionalText,
+  model: optionalText,
+  category: optionalText,
+  colors: optionalList,
+  size: optionalText,
+  material: optionalText,
+  features: optionalList,
+  condition: z.looseObject({
+    grade: z.string(),
+    indicators: optionalList,
+    score: ratio,
+  }),
+  authenticity: z.looseObject({
+    markers: optionalList,
+    confidence: ratio,
+  }),
+  confidence: ratio,
+  details: optionalText,
+});
+
+export const marketDataSchema = z.looseObject({
+  averagePrice: nonNegativeNumber.optional(),
+  priceRange: priceRangeSchema.optional(),
+  platforms: z.array(z.looseObject({
+    platform: z.string(),
+    averagePrice: nonNegativeNumber.optional(),
+    priceRange: priceRangeSchema.optional(),
+  })).optional(),
+  demandTrend: z.string().optional(),
+  summary: z.string().optional(),
+});
+
+export const productUrlAnalysisSchema = z.looseObject({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  price: nonNegativeNumber.optional(),
+  originalPrice: nonNegativeNumber.optional(),
+  condition: z.string().optional(),
+  seller: z.unknown().optional(),
+});
+
+export const geminiAnalysisSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  tags: stringList,
+  category: z.string(),
+  seoTitle: z.string(),
+  seoDescription: z.string(),
+  marketingCopy: z.string(),
+  keyFeatures: stringList,
+  targetAudience: stringList,
+  competitiveAdvantages: stringList,
+  shippingWeight: shippingWeightSchema,
+  dimensions: dimensionsSchema,
+  platformCategories: z.object({
+    ebay: z.object({
+      primaryCategory: looseString,
+      primaryCategoryName: z.string(),
+      secondaryCategory: looseString.optional(),
+      secondaryCategoryName: z.string().optional(),
+      categoryPath: z.string(),
+    }),
+    facebook: z.object({
+      category: z.string(),
+      subcategory: z.string(),
+      categoryId: looseString,
+    }),
+    shopify: z.object({
+      productType: z.string(),
+      vendor: z.string(),
+      collection: z.string(),
+    }),
+  }),
+  seoKeywords: z.object({
+    primary: stringList,
+    secondary: stringList,
+    longtail: stringList,
+  }),
+  shopifyMetafields: z.array(z.object({
+    namespace: z.string(),
+    key: z.string(),
+    value: looseString,
+    type: z.string(),
+  })),
+  inventoryData: z.object({
+    fragility: number.min(1).max(10),
+    storageRequirements: z.string(),
+    handlingInstructions: z.string(),
+    insuranceValue: nonNegativeNumber,
+  }),
+});
+
+export const priceAnalysisSchema = z.object({
+  recommendedPrice: number.positive(),
+  priceRange: priceRangeSchema,
+  reasoning: z.string(),
+  marketPosition: looseEnum(['budget', 'mid-range', 'premium']),
+  competitiveAnalysis: z.string(),
+  pricingStrategy: z.string(),
+});
+
+export const searchQueriesSchema = z.array(z.string().trim().min(1)).min(1);
+
+export const marketTrendsSchema = z.object({
+  direction: looseEnum(['up', 'down', 'stable']),
+  confidence: number.min(0).max(1),
+  factors: stringList,
+});
+
+export const marketAnalysisSchema = z.object({
+  summary: z.string(),
+  insights: stringList,
+  recommendations: stringList,
+  marketTrends: stringList,
+  competitivePosition: z.string(),
+  riskFactors: stringList,
+});
+
+export const platformListingSchema = z.looseObject({
+  title: z.string(),
+  description: z.string(),
+  keyFeatures: stringList.optional(),
+  conditionDescription: z.string().optional(),
+  category: z.string().optional(),
+  tags: stringList.optional(),
+  suggestedPrice: nonNegativeNumber.optional(),
+});
+
+export const listingContentSchema = z.looseObject({
+  title: z.string(),
+  description: z.string(),
+  tags: stringList,
+  meta_description: z.string().optional(),
+  bullet_points: stringList.optional(),
+  search_keywords: stringList.optional(),
+  category_suggestions: stringList.optional(),
+});
+
+export const competitorResearchSchema = z.looseObject({
+  competitors: z.array(z.looseObject({
+    name: z.string(),
+    platform: z.string().optional(),
+    price: nonNegativeNumber.optional(),
+    strategy: z.string().optional(),
+  })).optional(),
+  pricingStrategies: stringList.optional(),
+  opportunities: stringList.optional(),
+  risks: stringList.optional(),
+  recommendations: stringList.optional(),
+});
+
+export const seoContentSchema = z.looseObject({
+  primaryKeywords: stringList.optional(),
+  longTailKeywords: stringList.optional(),
+  semanticKeywords: stringList.optional(),
+  titleVariations: stringList.optional(),
+  metaDescriptions: z.record(z.string(), z.string()).optional(),
+  recommendations: stringList.optional(),
+});
+
+export type ProductIdentification = z.infer<typeof productIdentificationSchema>;
+export type MarketData = z.infer<typeof marketDataSchema>;
+export type ProductUrlAnalysis = z.infer<typeof productUrlAnalysisSchema>;
+export type GeminiAnalysis = z.infer<typeof geminiAnalysisSchema>;
+export type PriceAnalysis = z.infer<typeof priceAnalysisSchema>;
+export type MarketTrends = z.infer<typeof marketTrendsSchema>;
+export type MarketAnalysis = z.infer<typeof marketAnalysisSchema>;
+export type PlatformListing = z.infer<typeof platformListingSchema>;
+export type ListingContent = z.infer<typeof listingContentSchema>;
+export type CompetitorResearch = z.infer<typeof competitorResearchSchema>;
+export type SeoContent = z.infer<typeof seoContentSchema>;
+
+/**
+ * Read an analysis saved before responses were validated. Each top-level
+ * field is checked on its own and dropped when malformed, so one bad field
+ * does not cost the rest.
+ */
+export function parseStoredGeminiAnalysis(value: unknown): Partial<GeminiAnalysis> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const stored = value as Record<string, unknown>;
+  const analysis: Record<string, unknown> = {};
+
+  for (const [key, fieldSchema] of Object.entries(geminiAnalysisSchema.shape)) {
+    const parsed = fieldSchema.safeParse(stored[key]);
+    if (parsed.success) {
+      analysis[key] = parsed.data;
+    }
+  }
+
+  return analysis as Partial<GeminiAnalysis>;
+}
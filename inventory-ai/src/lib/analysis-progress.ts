@@ -0,0 +1,42 @@
+// Shared by the analysis pipeline and the components showing its progress,
+// so this module must stay free of server-only imports
+
+// Pipeline steps in the order analyzeProduct runs them
+export const ANALYSIS_STEPS = [
+  'vision',
+  'search_queries',
+  'market_data',
+  'enhancement',
+  'pricing',
+  'comparables',
+  'insights',
+  'store',
+] as const;
+
+export type AnalysisStep = typeof ANALYSIS_STEPS[number];
+
+export const ANALYSIS_STEP_LABELS: Record<AnalysisStep | 'save', string> = {
+  vision: 'AI Product Identification',
+  search_queries: 'Search Query Generation',
+  market_data: 'Market Data Collection',
+  enhancement: 'Content Enhancement',
+  pricing: 'Price Recommendation',
+  comparables: 'Comparable Listings',
+  insights: 'Market Insights',
+  store: 'Saving Analysis',
+  save: 'Updating Product',
+};
+
+export interface AnalysisProgressEvent {
+  step: AnalysisStep;
+  status: 'started' | 'progress' | 'completed';
+  message?: string;
+  // Counts behind the message, e.g. listings found per platform
+  counts?: Record<string, number>;
+}
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void | Promise<void>;
+
+export function getAnalysisStepLabel(step: string): string {
+  return ANALYSIS_STEP_LABELS[step as AnalysisStep] || step;
+}
@@ -1,4 +1,8 @@
-import { ApifyClient } from 'apify-client';
+import { ApifyClient, type ActorRun } from 'apify-client';
+import { responseCache, CACHE_TTL_MS, type CacheStats } from './response-cache';
+import { usageService, estimateApifyCost } from './usage';
+import { ebayApi } from './ebay-api';
+import { summarizeComps } from './comps';
 
 const apifyClient = new ApifyClient({
   token: process.env.APIFY_API_TOKEN,
@@ -20,6 +24,8 @@ export interface EbayScrapingResult {
   bids?: number;
 }
 
+export type MarketDataPlatform = 'ebay' | 'ebay_sold' | 'google_shopping';
+
 export interface GoogleShoppingResult {
   title: string;
   price: number;
@@ -32,6 +38,20 @@ export interface GoogleShoppingResult {
   availability?: string;
 }
 
+export interface MarketData {
+  // Active listings and, marked isSold, recent sales
+  ebay: EbayScrapingResult[];
+  googleShopping: GoogleShoppingResult[];
+  summary: {
+    totalListings: number;
+    soldListings: number;
+    // Sold-weighted
+    averagePrice: number;
+    priceRange: { min: number; max: number };
+    platforms: string[];
+  };
+}
+
 export class ApifyService {
   private client: typeof apifyClient;
 
@@ -40,13 +60,30 @@ export class ApifyService {
   }
 
   /**
-   * Scrape eBay for product listings
+   * Scrape eBay for product listings, served from the cache when the same
+   * search ran recently
    */
   async scrapeEbay(searchQuery: string, options: {
     maxItems?: number;
     condition?: string;
     sortBy?: 'BestMatch' | 'EndTimeSoonest' | 'PricePlusShippingLowest' | 'PricePlusShippingHighest';
+    cacheStats?: CacheStats;
   } = {}): Promise<EbayScrapingResult[]> {
+    return responseCache.getOrLoad(
+      {
+        platform: 'ebay',
+        query: searchQuery,
+        options: { maxItems: options.maxItems || 20 },
+        ttlMs: CACHE_TTL_MS.ebay,
+        stats: options.cacheStats,
+      },
+      () => this.runEbayScraper(searchQuery, options)
+    );
+  }
+
+  private async runEbayScraper(searchQuery: string, options: { maxItems?: number }): Promise<EbayScrapingResult[]> {
+    await usageService.assertWithinBudget();
+
     try {
       const input = {
         searchQueries: [searchQuery],
@@ -67,6 +104,7 @@ export class ApifyService {
 
       // Use eBay scraper actor
       const run = await this.client.actor('dtrungtin/ebay-scraper').call(input);
+      await this.recordRun('ebay_scrape', 'dtrungtin/ebay-scraper', run);
       const { items } = await this.client.dataset(run.defaultDatasetId).listItems();
 
       return items.map((item: any) => ({
@@ -91,12 +129,66 @@ export class ApifyService {
   }
 
   /**
-   * Scrape Google Shopping for product listings
+   * eBay items sold in the last 90 days, from the Marketplace Insights API.
+   * Served from the cache when the same search ran recently.
+   */
+  async getEbaySoldListings(searchQuery: string, options: {
+    maxItems?: number;
+    cacheStats?: CacheStats;
+  } = {}): Promise<EbayScrapingResult[]> {
+    return responseCache.getOrLoad(
+      {
+        platform: 'ebay_sold',
+        query: searchQuery,
+        options: { maxItems: options.maxItems || 20 },
+        ttlMs: CACHE_TTL_MS.ebay_sold,
+        stats: options.cacheStats,
+      },
+      async () => {
+        const { items } = await ebayApi.searchSoldItems(searchQuery, { limit: options.maxItems || 20 });
+
+        return items.map(item => ({
+          title: item.title,
+          price: this.parsePrice(item.lastSoldPrice?.value),
+          condition: item.condition || 'Unknown',
+          url: item.itemWebUrl || '',
+          imageUrl: item.image?.imageUrl,
+          seller: item.seller?.username || '',
+          location: item.itemLocation?.country || '',
+          soldDate: item.lastSoldDate,
+          isSold: true,
+        }));
+      }
+    );
+  }
+
+  /**
+   * Scrape Google Shopping for product listings, served from the cache when
+   * the same search ran recently
    */
   async scrapeGoogleShopping(searchQuery: string, options: {
     maxItems?: number;
     country?: string;
+    cacheStats?: CacheStats;
   } = {}): Promise<GoogleShoppingResult[]> {
+    return responseCache.getOrLoad(
+      {
+        platform: 'google_shopping',
+        query: searchQuery,
+        options: { maxItems: options.maxItems || 20, country: options.country || 'US' },
+        ttlMs: CACHE_TTL_MS.google_shopping,
+        stats: options.cacheStats,
+      },
+      () => this.runGoogleShoppingScraper(searchQuery, options)
+    );
+  }
+
+  private async runGoogleShoppingScraper(searchQuery: string, options: {
+    maxItems?: number;
+    country?: string;
+  }): Promise<GoogleShoppingResult[]> {
+    await usageService.assertWithinBudget();
+
     try {
       const input = {
         queries: [searchQuery],
@@ -110,6 +202,7 @@ export class ApifyService {
 
       // Use Google Shopping scraper actor
       const run = await this.client.actor('compass/google-shopping-scraper').call(input);
+      await this.recordRun('google_shopping_scrape', 'compass/google-shopping-scraper', run);
       const { items } = await this.client.dataset(run.defaultDatasetId).listItems();
 
       return items.slice(0, options.maxItems || 20).map((item: any) => ({
@@ -129,80 +222,119 @@ export class ApifyService {
     }
   }
 
+  private async recordRun(operation: string, actorId: string, run: ActorRun): Promise<void> {
+    await usageService.record({
+      provider: 'apify',
+      operation,
+      model: actorId,
+      computeUnits: run.stats?.computeUnits,
+      costUsd: estimateApifyCost(run),
+    });
+  }
+
   /**
-   * Get comprehensive market data for a product
+   * Get comprehensive market data for a product. eBay sold listings join the
+   * active ones in `ebay`, marked isSold, whenever the eBay API is configured.
    */
   async getMarketData(searchQuery: string, options: {
     maxItemsPerPlatform?: number;
     includeEbay?: boolean;
+    includeEbaySold?: boolean;
     includeGoogleShopping?: boolean;
-  } = {}) {
-    const results: {
-      ebay: EbayScrapingResult[];
-      googleShopping: GoogleShoppingResult[];
-      summary: {
-        totalListings: number;
-        averagePrice: number;
-        priceRange: { min: number; max: number };
-        platforms: string[];
-      };
-    } = {
+    // Told as each platform's scrape finishes, with the listings found
+    onPlatformComplete?: (result: { platform: MarketDataPlatform; count: number; error?: string }) => void;
+    // Collects cache hits and misses for the caller
+    cacheStats?: CacheStats;
+  } = {}): Promise<MarketData> {
+    const results: MarketData = {
       ebay: [],
       googleShopping: [],
       summary: {
         totalListings: 0,
+        soldListings: 0,
         averagePrice: 0,
         priceRange: { min: 0, max: 0 },
         platforms: [],
       },
     };
+    let ebaySold: EbayScrapingResult[] = [];
 
     const promises: Promise<any>[] = [];
 
     if (options.includeEbay !== false) {
       promises.push(
-        this.scrapeEbay(searchQuery, { maxItems: options.maxItemsPerPlatform || 15 })
+        this.scrapeEbay(searchQuery, { maxItems: options.maxItemsPerPlatform || 15, cacheStats: options.cacheStats })
           .then(data => {
             results.ebay = data;
             results.summary.platforms.push('eBay');
+            options.onPlatformComplete?.({ platform: 'ebay', count: data.length });
           })
           .catch(error => {
             console.error('eBay scraping failed:', error);
             results.ebay = [];
+            options.onPlatformComplete?.({
+              platform: 'ebay',
+              count: 0,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          })
+      );
+    }
+
+    if (options.includeEbaySold ?? (options.includeEbay !== false && ebayApi.isConfigured())) {
+      promises.push(
+        this.getEbaySoldListings(searchQuery, {
+          maxItems: options.maxItemsPerPlatform || 15,
+          cacheStats: options.cacheStats,
+        })
+          .then(data => {
+            ebaySold = data;
+            results.summary.platforms.push('eBay Sold');
+            options.onPlatformComplete?.({ platform: 'ebay_sold', count: data.length });
+          })
+          .catch(error => {
+            console.error('eBay sold listings failed:', error);
+            options.onPlatformComplete?.({
+              platform: 'ebay_sold',
+              count: 0,
+              error: error instanceof Error ? error.message : String(error),
+            });
           })
       );
     }
 
     if (options.includeGoogleShopping !== false) {
       promises.push(
-        this.scrapeGoogleShopping(searchQuery, { maxItems: options.maxItemsPerPlatform || 15 })
+        this.scrapeGoogleShopping(searchQuery, {
+          maxItems: options.maxItemsPerPlatform || 15,
+          cacheStats: options.cacheStats,
+        })
           .then(data => {
             results.googleShopping = data;
             results.summary.platforms.push('Google Shopping');
+            options.onPlatformComplete?.({ platform: 'google_shopping', count: data.length });
           })
           .catch(error => {
             console.error('Google Shopping scraping failed:', error);
             results.googleShopping = [];
+            options.onPlatformComplete?.({
+              platform: 'google_shopping',
+              count: 0,
+              error: error instanceof Error ? error.message : String(error),
+            });
           })
       );
     }
 
     await Promise.all(promises);
+    results.ebay.push(...ebaySold);
 
-    // Calculate summary statistics
-    const allPrices = [
-      ...results.ebay.map(item => item.price).filter(price => price > 0),
-      ...results.googleShopping.map(item => item.price).filter(price => price > 0),
-    ];
-
-    if (allPrices.length > 0) {
-      results.summary.totalListings = allPrices.length;
-      results.summary.averagePrice = allPrices.reduce((sum, price) => sum + price, 0) / allPrices.length;
-      results.summary.priceRange = {
-        min: Math.min(...allPrices),
-        max: Math.max(...allPrices),
-      };
-    }
+    // Calculate summary statistics, weighting sold listings above asking prices
+    const summary = summarizeComps([...results.ebay, ...results.googleShopping]);
+    results.summary.totalListings = summary.totalListings;
+    results.summary.soldListings = summary.soldListings;
+    results.summary.averagePrice = summary.averagePrice;
+    results.summary.priceRange = summary.priceRange;
 
     return results;
   }
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { ORG_A, ORG_B } from '@/test/workspaces';
+import { ChannelConnectionError, channelConnectionService } from './channel-connections';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+describe('connect', () => {
+  it('refuses a Shopify store another organization has connected', async () => {
+    prisma.channelConnection.findFirst.mockImplementation(async ({ where }) =>
+      where.accountName === 'vintage-finds.myshopify.com' && where.organizationId.not !== ORG_B
+        ? { id: 'connection-b' }
+        : null
+    );
+
+    const error = await channelConnectionService.connect(
+      ORG_A,
+      'shopify',
+      { shopDomain: 'vintage-finds', accessToken: 'shpat_test', webhookSecret: undefined },
+      'user-1'
+    ).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ChannelConnectionError);
+    expect(error.message).toBe('vintage-finds.myshopify.com is already connected to another organization');
+    expect(prisma.channelConnection.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { channel: 'shopify', accountName: 'vintage-finds.myshopify.com', organizationId: { not: ORG_A } },
+    }));
+    expect(prisma.channelConnection.upsert).not.toHaveBeenCalled();
+  });
+});
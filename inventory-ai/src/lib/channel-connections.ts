@@ -0,0 +1,420 @@
+import { z } from 'zod';
+import type { ChannelConnection } from '@prisma/client';
+import { prisma } from './prisma';
+import { ShopifyInventoryService } from './shopify-inventory';
+import { EbayApiService, type EbayCredential } from './ebay-api';
+import { ebayOAuth, EbayOAuthError, EbayUserTokenSource, EBAY_INSIGHTS_SCOPES, type EbayUserTokens } from './ebay-oauth';
+import { encryptCredentials, decryptCredentials } from './credential-encryption';
+
+// Facebook Marketplace has no listing API, so there is nothing to connect
+export const CONNECTABLE_CHANNELS = ['shopify', 'ebay'] as const;
+
+export type ConnectableChannel = typeof CONNECTABLE_CHANNELS[number];
+
+export const CHANNEL_CONNECTION_STATUSES = ['connected', 'error'] as const;
+
+export type ChannelConnectionStatus = typeof CHANNEL_CONNECTION_STATUSES[number];
+
+// Accepts "your-store", "your-store.myshopify.com" or the shop's admin URL
+function normalizeShopDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/\.myshopify\.com$/, '');
+}
+
+const optionalString = z.string().trim().optional().transform(value => value || undefined);
+
+export const ShopifyCredentialsSchema = z.object({
+  shopDomain: z.string().trim().min(1).transform(normalizeShopDomain)
+    .refine(domain => /^[a-z0-9][a-z0-9-]*$/.test(domain), 'Enter the shop as your-store or your-store.myshopify.com'),
+  accessToken: z.string().trim().min(1),
+  // The app's API secret, which signs webhooks from this shop
+  webhookSecret: optionalString,
+});
+
+// How listings are published from an eBay seller account
+export const EbayListingSettingsSchema = z.object({
+  // Shown in settings to tell seller accounts apart
+  accountName: z.string().trim().min(1).max(100),
+  fulfillmentPolicyId: z.string().trim().min(1),
+  paymentPolicyId: z.string().trim().min(1),
+  returnPolicyId: z.string().trim().min(1),
+  merchantLocationKey: optionalString,
+});
+
+// A seller account connected with an access token pasted in by hand
+export const EbayCredentialsSchema = EbayListingSettingsSchema.extend({
+  accessToken: z.string().trim().min(1),
+  environment: z.enum(['production', 'sandbox']).default('production'),
+});
+
+export type ShopifyCredentials = z.infer<typeof ShopifyCredentialsSchema>;
+export type EbayListingSettings = z.infer<typeof EbayListingSettingsSchema>;
+export type EbayCredentials = z.infer<typeof EbayCredentialsSchema> & {
+  // Set when the seller granted access through eBay's consent page, so the
+  // access token can be renewed. Dates are ISO strings.
+  refreshToken?: string;
+  refreshTokenExpiresAt?: string;
+  accessTokenExpiresAt?: string;
+};
+
+export const CHANNEL_CREDENTIAL_SCHEMAS = {
+  shopify: ShopifyCredentialsSchema,
+  ebay: EbayCredentialsSchema,
+} as const;
+
+export interface ShopifyStore {
+  shopify: ShopifyInventoryService;
+  organizationId: string;
+  webhookSecret?: string;
+}
+
+export interface EbaySeller {
+  api: EbayApiService;
+  organizationId: string;
+  listingPolicies: {
+    fulfillmentPolicyId: string;
+    paymentPolicyId: string;
+    returnPolicyId: string;
+  };
+  merchantLocationKey?: string;
+}
+
+export interface ChannelConnectionView {
+  channel: ConnectableChannel;
+  accountName: string;
+  status: ChannelConnectionStatus;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  connectedBy: { name: string | null; email: string | null } | null;
+  // When an eBay authorization stops renewing and the seller must grant access again
+  authorizationExpiresAt: string | null;
+  updatedAt: string;
+}
+
+export function isConnectableChannel(channel: string): channel is ConnectableChannel {
+  return (CONNECTABLE_CHANNELS as readonly string[]).includes(channel);
+}
+
+/**
+ * Thrown when a channel rejects the credentials being connected - the message
+ * is safe to show the user
+ */
+export class ChannelConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChannelConnectionError';
+  }
+}
+
+function createShopifyStore(organizationId: string, credentials: ShopifyCredentials): ShopifyStore {
+  return {
+    shopify: new ShopifyInventoryService(credentials.shopDomain, credentials.accessToken),
+    organizationId,
+    webhookSecret: credentials.webhookSecret,
+  };
+}
+
+/**
+ * An eBay consent in progress, kept encrypted in a cookie until eBay sends
+ * the seller back. `state` must come back unchanged with the code.
+ */
+export interface EbayAuthorizationRequest {
+  state: string;
+  organizationId: string;
+  userId: string;
+  settings: EbayListingSettings;
+}
+
+export const EBAY_AUTHORIZATION_COOKIE = 'ebay_authorization';
+
+// The credentials an eBay connection stores once the seller has granted access
+export function toEbayOAuthCredentials(settings: EbayListingSettings, tokens: EbayUserTokens): EbayCredentials {
+  return {
+    ...settings,
+    environment: ebayOAuth.isProduction ? 'production' : 'sandbox',
+    accessToken: tokens.accessToken,
+    accessTokenExpiresAt: tokens.expiresAt.toISOString(),
+    refreshToken: tokens.refreshToken,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt.toISOString(),
+  };
+}
+
+/**
+ * Renews the access token of a connection made through eBay's consent page,
+ * saving each new token back to the connection when there is one. A refresh
+ * eBay refuses means the seller revoked access or the grant expired, which is
+ * recorded on the connection so settings can ask for it to be reconnected.
+ */
+function createEbayUserToken(credentials: EbayCredentials, connectionId?: string): EbayCredential {
+  if (!credentials.refreshToken) return credentials.accessToken;
+
+  const tokenSource = new EbayUserTokenSource(
+    ebayOAuth,
+    {
+      accessToken: credentials.accessToken,
+      // Unknown expiry - refresh on first use
+      expiresAt: new Date(credentials.accessTokenExpiresAt || 0),
+    },
+    credentials.refreshToken,
+    async token => {
+      if (!connectionId) return;
+      await prisma.channelConnection.update({
+        where: { id: connectionId },
+        data: {
+          credentials: encryptCredentials({
+            ...credentials,
+            accessToken: token.accessToken,
+            accessTokenExpiresAt: token.expiresAt.toISOString(),
+          }),
+        },
+      });
+    }
+  );
+
+  const recordRevoked = async (renew: () => Promise<string>) => {
+    try {
+      return await renew();
+    } catch (error) {
+      if (connectionId && error instanceof EbayOAuthError && error.error === 'invalid_grant') {
+        await prisma.channelConnection.update({
+          where: { id: connectionId },
+          data: {
+            status: 'error',
+            lastCheckedAt: new Date(),
+            lastError: 'eBay access was revoked or has expired - reconnect the seller account',
+          },
+        });
+      }
+      throw error;
+    }
+  };
+
+  return {
+    getAccessToken: () => recordRevoked(() => tokenSource.getAccessToken()),
+    refreshAccessToken: () => recordRevoked(() => tokenSource.refreshAccessToken()),
+  };
+}
+
+function createEbaySeller(organizationId: string, credentials: EbayCredentials, connectionId?: string): EbaySeller {
+  return {
+    api: new EbayApiService(
+      createEbayUserToken(credentials, connectionId),
+      credentials.environment === 'production',
+      process.env.EBAY_API_BASE_URL,
+      ebayOAuth.isConfigured() ? ebayOAuth.getApplicationTokenSource() : undefined,
+      ebayOAuth.isConfigured() ? ebayOAuth.getApplicationTokenSource(EBAY_INSIGHTS_SCOPES) : undefined
+    ),
+    organizationId,
+    listingPolicies: {
+      fulfillmentPolicyId: credentials.fulfillmentPolicyId,
+      paymentPolicyId: credentials.paymentPolicyId,
+      returnPolicyId: credentials.returnPolicyId,
+    },
+    merchantLocationKey: credentials.merchantLocationKey,
+  };
+}
+
+/**
+ * Each organization's accounts on the sales channels. Credentials are
+ * encrypted at rest, and a fresh API client is built from them for every
+ * caller, so no two organizations ever share a shop or seller account.
+ */
+export class ChannelConnectionService {
+  async getConnections(organizationId: string): Promise<ChannelConnectionView[]> {
+    const connections = await prisma.channelConnection.findMany({
+      where: { organizationId },
+      orderBy: { channel: 'asc' },
+      include: { connectedBy: { select: { name: true, email: true } } },
+    });
+
+    return connections.map(connection => this.toView(connection, connection.connectedBy));
+  }
+
+  async isConnected(organizationId: string, channel: ConnectableChannel): Promise<boolean> {
+    const count = await prisma.channelConnection.count({ where: { organizationId, channel } });
+    return count > 0;
+  }
+
+  /**
+   * Check the credentials against the channel and store them, replacing the
+   * organization's current account on it. Nothing is saved if the check fails.
+   */
+  async connect(
+    organizationId: string,
+    channel: ConnectableChannel,
+    credentials: ShopifyCredentials | EbayCredentials,
+    userId: string
+  ): Promise<ChannelConnectionView> {
+    const accountName = channel === 'shopify'
+      ? `${(credentials as ShopifyCredentials).shopDomain}.myshopify.com`
+      : (credentials as EbayCredentials).accountName;
+
+    // Webhooks are routed to an organization by shop domain, so a shop can
+    // only be connected to one
+    if (channel === 'shopify') {
+      const claimed = await prisma.channelConnection.findFirst({
+        where: { channel, accountName, organizationId: { not: organizationId } },
+        select: { id: true },
+      });
+      if (claimed) {
+        throw new ChannelConnectionError(`${accountName} is already connected to another organization`);
+      }
+    }
+
+    const error = await this.checkCredentials(organizationId, channel, credentials);
+    if (error) {
+      throw new ChannelConnectionError(`Could not connect to ${accountName}: ${error}`);
+    }
+
+    const refreshTokenExpiresAt = channel === 'ebay'
+      ? (credentials as EbayCredentials).refreshTokenExpiresAt
+      : undefined;
+
+    const data = {
+      accountName,
+      credentials: encryptCredentials(credentials),
+      authorizationExpiresAt: refreshTokenExpiresAt ? new Date(refreshTokenExpiresAt) : null,
+      status: 'connected',
+      lastCheckedAt: new Date(),
+      lastError: null,
+      connectedById: userId,
+    };
+
+    const connection = await prisma.channelConnection.upsert({
+      where: { organizationId_channel: { organizationId, channel } },
+      create: { organizationId, channel, ...data },
+      update: data,
+      include: { connectedBy: { select: { name: true, email: true } } },
+    });
+
+    return this.toView(connection, connection.connectedBy);
+  }
+
+  async disconnect(organizationId: string, channel: ConnectableChannel): Promise<boolean> {
+    const { count } = await prisma.channelConnection.deleteMany({ where: { organizationId, channel } });
+    return count > 0;
+  }
+
+  /**
+   * Re-check a stored connection and record whether it still works
+   */
+  async test(organizationId: string, channel: ConnectableChannel): Promise<ChannelConnectionView | null> {
+    const connection = await prisma.channelConnection.findUnique({
+      where: { organizationId_channel: { organizationId, channel } },
+    });
+    if (!connection) return null;
+
+    const error = await this.checkCredentials(
+      organizationId,
+      channel,
+      decryptCredentials(connection.credentials),
+      connection.id
+    );
+
+    const updated = await prisma.channelConnection.update({
+      where: { id: connection.id },
+      data: {
+        status: error ? 'error' : 'connected',
+        lastCheckedAt: new Date(),
+        lastError: error,
+      },
+      include: { connectedBy: { select: { name: true, email: true } } },
+    });
+
+    return this.toView(updated, updated.connectedBy);
+  }
+
+  /**
+   * A Shopify client for the organization's store, or null when it has none.
+   * Products from before organizations existed have none either.
+   */
+  async getShopify(organizationId: string | null): Promise<ShopifyStore | null> {
+    if (!organizationId) return null;
+
+    const connection = await prisma.channelConnection.findUnique({
+      where: { organizationId_channel: { organizationId, channel: 'shopify' } },
+    });
+    return connection
+      ? createShopifyStore(organizationId, decryptCredentials<ShopifyCredentials>(connection.credentials))
+      : null;
+  }
+
+  /**
+   * The store a webhook came from, by its myshopify.com domain - connect
+   * keeps a domain to a single organization
+   */
+  async getShopifyByDomain(shopDomain: string): Promise<ShopifyStore | null> {
+    const connection = await prisma.channelConnection.findFirst({
+      where: { channel: 'shopify', accountName: shopDomain.toLowerCase() },
+    });
+    return connection
+      ? createShopifyStore(connection.organizationId, decryptCredentials<ShopifyCredentials>(connection.credentials))
+      : null;
+  }
+
+  async getEbay(organizationId: string | null): Promise<EbaySeller | null> {
+    if (!organizationId) return null;
+
+    const connection = await prisma.channelConnection.findUnique({
+      where: { organizationId_channel: { organizationId, channel: 'ebay' } },
+    });
+    return connection
+      ? createEbaySeller(organizationId, decryptCredentials<EbayCredentials>(connection.credentials), connection.id)
+      : null;
+  }
+
+  /**
+   * Every connected eBay seller, for polling orders
+   */
+  async getEbaySellers(): Promise<EbaySeller[]> {
+    const connections = await prisma.channelConnection.findMany({ where: { channel: 'ebay' } });
+    return connections.map(connection =>
+      createEbaySeller(
+        connection.organizationId,
+        decryptCredentials<EbayCredentials>(connection.credentials),
+        connection.id
+      )
+    );
+  }
+
+  // Make a cheap read-only call with the credentials; returns why it failed
+  private async checkCredentials(
+    organizationId: string,
+    channel: ConnectableChannel,
+    credentials: ShopifyCredentials | EbayCredentials,
+    connectionId?: string
+  ): Promise<string | null> {
+    try {
+      if (channel === 'shopify') {
+        await createShopifyStore(organizationId, credentials as ShopifyCredentials).shopify.getLocations();
+      } else {
+        await createEbaySeller(organizationId, credentials as EbayCredentials, connectionId).api.getOrders({ limit: 1 });
+      }
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private toView(
+    connection: ChannelConnection,
+    connectedBy: { name: string | null; email: string | null } | null
+  ): ChannelConnectionView {
+    return {
+      channel: connection.channel as ConnectableChannel,
+      accountName: connection.accountName,
+      status: connection.status as ChannelConnectionStatus,
+      lastCheckedAt: connection.lastCheckedAt?.toISOString() ?? null,
+      lastError: connection.lastError,
+      connectedBy,
+      authorizationExpiresAt: connection.authorizationExpiresAt?.toISOString() ?? null,
+      updatedAt: connection.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const channelConnectionService = new ChannelConnectionService();
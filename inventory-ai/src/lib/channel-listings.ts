@@ -0,0 +1,126 @@
+import type { ChannelListing } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const SALES_CHANNELS = ['shopify', 'ebay', 'facebook'] as const;
+
+export type SalesChannel = typeof SALES_CHANNELS[number];
+
+// pending_removal: still live, waiting for someone to take it down by hand
+export type ChannelListingStatus = 'pending' | 'active' | 'pending_removal' | 'ended' | 'error';
+
+export interface ChannelSyncResult {
+  externalId?: string | null;
+  offerId?: string | null;
+  listingUrl?: string | null;
+  status?: ChannelListingStatus;
+}
+
+export function isSalesChannel(channel: string): channel is SalesChannel {
+  return (SALES_CHANNELS as readonly string[]).includes(channel);
+}
+
+export class ChannelListingService {
+  /**
+   * Get a product's listing on one channel
+   */
+  async getListing(productId: string, channel: SalesChannel): Promise<ChannelListing | null> {
+    return prisma.channelListing.findUnique({
+      where: { productId_channel: { productId, channel } },
+    });
+  }
+
+  /**
+   * Get all channel listings for a product
+   */
+  async getListings(productId: string): Promise<ChannelListing[]> {
+    return prisma.channelListing.findMany({
+      where: { productId },
+      orderBy: { channel: 'asc' },
+    });
+  }
+
+  /**
+   * Record a successful sync to a channel
+   */
+  async recordSuccess(
+    productId: string,
+    channel: SalesChannel,
+    result: ChannelSyncResult
+  ): Promise<ChannelListing> {
+    const data = {
+      ...(result.externalId !== undefined && { externalId: result.externalId }),
+      ...(result.offerId !== undefined && { offerId: result.offerId }),
+      ...(result.listingUrl !== undefined && { listingUrl: result.listingUrl }),
+      status: result.status || 'active',
+      lastSyncedAt: new Date(),
+      lastError: null,
+    };
+
+    return prisma.channelListing.upsert({
+      where: { productId_channel: { productId, channel } },
+      create: { productId, channel, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Mark a listing as no longer live on its channel
+   */
+  async markEnded(
+    productId: string,
+    channel: SalesChannel,
+    note?: string
+  ): Promise<ChannelListing> {
+    return prisma.channelListing.update({
+      where: { productId_channel: { productId, channel } },
+      data: {
+        status: 'ended',
+        lastSyncedAt: new Date(),
+        lastError: note ?? null,
+      },
+    });
+  }
+
+  /**
+   * Mark a listing that has to be taken down by hand. It stays live - and
+   * the product cannot be deleted - until someone confirms it is gone.
+   */
+  async markPendingRemoval(
+    productId: string,
+    channel: SalesChannel,
+    note: string
+  ): Promise<ChannelListing> {
+    return prisma.channelListing.update({
+      where: { productId_channel: { productId, channel } },
+      data: {
+        status: 'pending_removal',
+        lastSyncedAt: new Date(),
+        lastError: note,
+      },
+    });
+  }
+
+  /**
+   * Record a failed sync without losing the identifiers of an existing listing
+   */
+  async recordFailure(
+    productId: string,
+    channel: SalesChannel,
+    error: unknown
+  ): Promise<ChannelListing | null> {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    try {
+      return await prisma.channelListing.upsert({
+        where: { productId_channel: { productId, channel } },
+        create: { productId, channel, status: 'error', lastError },
+        update: { lastError, lastSyncedAt: new Date() },
+      });
+    } catch (recordError) {
+      console.error(`Error recording ${channel} sync failure:`, recordError);
+      return null;
+    }
+  }
+}
+
+export const channelListingService = new ChannelListingService();
@@ -0,0 +1,258 @@
+import type { ChannelListing } from '@prisma/client';
+import { prisma } from './prisma';
+import { ShopifyInventoryService } from './shopify-inventory';
+import type { EbayOffer } from './ebay-api';
+import { channelConnectionService } from './channel-connections';
+import { channelListingService, isSalesChannel, type SalesChannel } from './channel-listings';
+import { getProductSku, type ProductWithImages } from './product-data';
+import { NonRetryableJobError } from './jobs';
+
+export interface ShopifySyncResult {
+  shopifyId: string;
+  shopifyStatus: string;
+  shopifyUrl: string;
+  channelListing: ChannelListing;
+}
+
+export interface EbaySyncResult {
+  ebayId: string;
+  offerId: string;
+  listingId: string;
+  listingUrl: string;
+  channelListing: ChannelListing;
+}
+
+export interface ChannelPriceUpdate {
+  channel: SalesChannel;
+  status: 'updated' | 'failed' | 'skipped';
+  error?: string;
+}
+
+/**
+ * Price a product is listed at - the set price, or the recommendation
+ */
+export function getListingPrice(product: { price: number | null; recommendedPrice: number | null }): number | null {
+  const price = product.price ?? product.recommendedPrice;
+  return price && price > 0 ? price : null;
+}
+
+export class ChannelSyncService {
+  /**
+   * Create or update a product's Shopify listing in its organization's store
+   */
+  async syncShopify(productId: string): Promise<ShopifySyncResult> {
+    const product = await this.getProduct(productId);
+
+    const store = await channelConnectionService.getShopify(product.organizationId);
+    if (!store) {
+      throw new NonRetryableJobError('Shopify is not connected');
+    }
+    const { shopify } = store;
+
+    let shopifyProduct;
+
+    try {
+      if (product.shopifyProductId) {
+        // Already listed - push the latest product data to the existing listing
+        shopifyProduct = await shopify.updateProduct(
+          Number(product.shopifyProductId),
+          ShopifyInventoryService.mapProductToInventoryData(product)
+        );
+      } else {
+        // New listing - stock a single unit at the shop's primary location
+        const locations = await shopify.getLocations();
+        const location = locations.find(loc => loc.active) || locations[0];
+
+        const inventoryData = ShopifyInventoryService.mapProductToInventoryData(product, {
+          locationId: location?.id,
+          quantity: 1,
+          status: 'active',
+        });
+
+        shopifyProduct = await shopify.createProduct(inventoryData);
+      }
+    } catch (syncError) {
+      await channelListingService.recordFailure(productId, 'shopify', syncError);
+      throw syncError;
+    }
+
+    const shopifyId = String(shopifyProduct.id);
+    const shopifyUrl = shopify.getProductAdminUrl(shopifyId);
+
+    await prisma.product.update({
+      where: { id: productId },
+      data: {
+        shopifyProductId: shopifyId,
+        shopifyStatus: shopifyProduct.status,
+      },
+    });
+
+    const channelListing = await channelListingService.recordSuccess(productId, 'shopify', {
+      externalId: shopifyId,
+      listingUrl: shopifyUrl,
+      status: shopifyProduct.status === 'active' ? 'active' : 'pending',
+    });
+
+    return {
+      shopifyId,
+      shopifyStatus: shopifyProduct.status,
+      shopifyUrl,
+      channelListing,
+    };
+  }
+
+  /**
+   * Create or update a product's eBay inventory item and offer on its
+   * organization's seller account, and publish it
+   */
+  async syncEbay(productId: string): Promise<EbaySyncResult> {
+    const product = await this.getProduct(productId);
+
+    const seller = await channelConnectionService.getEbay(product.organizationId);
+    if (!seller) {
+      throw new NonRetryableJobError('eBay is not connected');
+    }
+    const { api: ebayApi, listingPolicies } = seller;
+
+    const price = getListingPrice(product);
+    if (!price) {
+      throw new NonRetryableJobError('Product must have a price before it can be listed on eBay');
+    }
+
+    const categoryId = await ebayApi.resolveCategoryId(product);
+    if (!categoryId) {
+      throw new NonRetryableJobError('Could not determine an eBay category for this product');
+    }
+
+    const sku = getProductSku(product);
+    const currentListing = await channelListingService.getListing(productId, 'ebay');
+    let offerId: string;
+    let listingId: string | undefined;
+
+    try {
+      // Step 1: Create or replace the inventory item for this SKU
+      await ebayApi.createOrUpdateInventoryItem(sku, ebayApi.mapProductToInventoryItem(product));
+
+      // Step 2: Create the offer, or update the one already attached to this SKU
+      const offer = ebayApi.buildProductOffer(product, {
+        categoryId,
+        price,
+        listingPolicies,
+        merchantLocationKey: seller.merchantLocationKey,
+      });
+
+      let existingOffer: EbayOffer | undefined;
+      if (currentListing?.offerId) {
+        existingOffer = await ebayApi.getOffer(currentListing.offerId);
+      } else {
+        [existingOffer] = await ebayApi.getOffersBySku(sku, offer.marketplaceId);
+      }
+
+      if (existingOffer?.offerId) {
+        offerId = existingOffer.offerId;
+        await ebayApi.updateOffer(offerId, offer);
+      } else {
+        ({ offerId } = await ebayApi.createOffer(offer));
+      }
+
+      // Step 3: Publish - updates to a published offer go live without republishing
+      listingId = existingOffer?.status === 'PUBLISHED'
+        ? existingOffer.listing?.listingId
+        : undefined;
+
+      if (!listingId) {
+        ({ listingId } = await ebayApi.publishOffer(offerId));
+      }
+    } catch (syncError) {
+      await channelListingService.recordFailure(productId, 'ebay', syncError);
+      throw syncError;
+    }
+
+    const listingUrl = ebayApi.getListingUrl(listingId);
+    const channelListing = await channelListingService.recordSuccess(productId, 'ebay', {
+      externalId: listingId,
+      offerId,
+      listingUrl,
+      status: 'active',
+    });
+
+    return {
+      ebayId: listingId,
+      offerId,
+      listingId,
+      listingUrl,
+      channelListing,
+    };
+  }
+
+  /**
+   * Push a new price to every channel the product is live on. A failure on
+   * one channel is recorded on its listing and does not stop the others.
+   */
+  async updatePrice(productId: string, price: number): Promise<ChannelPriceUpdate[]> {
+    const listings = await channelListingService.getListings(productId);
+    const updates: ChannelPriceUpdate[] = [];
+    if (!listings.some(listing => listing.status === 'active')) return updates;
+
+    const { organizationId } = await prisma.product.findUniqueOrThrow({
+      where: { id: productId },
+      select: { organizationId: true },
+    });
+    const store = await channelConnectionService.getShopify(organizationId);
+    const seller = await channelConnectionService.getEbay(organizationId);
+
+    for (const listing of listings) {
+      if (listing.status !== 'active' || !isSalesChannel(listing.channel)) continue;
+      const channel = listing.channel;
+
+      try {
+        if (channel === 'shopify' && listing.externalId) {
+          if (!store) throw new Error('Shopify is not connected');
+          await store.shopify.updateProduct(Number(listing.externalId), { price });
+        } else if (channel === 'ebay' && listing.offerId) {
+          if (!seller) throw new Error('eBay is not connected');
+          // Updating an offer replaces it, so send the whole offer back with the
+          // new price, less the read-only fields
+          const offer = await seller.api.getOffer(listing.offerId);
+          await seller.api.updateOffer(listing.offerId, {
+            ...offer,
+            offerId: undefined,
+            status: undefined,
+            listing: undefined,
+            pricingSummary: { price: { currency: offer.pricingSummary?.price?.currency || 'USD', value: price.toFixed(2) } },
+          });
+        } else {
+          // Facebook listings are managed by hand
+          updates.push({ channel, status: 'skipped' });
+          continue;
+        }
+
+        await channelListingService.recordSuccess(productId, channel, { status: 'active' });
+        updates.push({ channel, status: 'updated' });
+      } catch (error) {
+        await channelListingService.recordFailure(productId, channel, error);
+        updates.push({ channel, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return updates;
+  }
+
+  private async getProduct(productId: string): Promise<ProductWithImages> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        images: {
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!product) {
+      throw new NonRetryableJobError(`Product ${productId} no longer exists`);
+    }
+    return product;
+  }
+}
+
+export const channelSyncService = new ChannelSyncService();
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { CompPricingEngine, type CompInput } from './comp-pricing';
+import { weightedQuantile } from './comps';
+
+const NOW = new Date('2026-10-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const engine = new CompPricingEngine(() => NOW);
+const subject = { title: 'Pyrex mixing bowl' };
+
+// Exact title matches with no condition, so every active comp weighs 1
+function active(price: number): CompInput {
+  return { platform: 'ebay', title: 'Pyrex mixing bowl', price, similarity: 1 };
+}
+
+function sold(price: number, daysAgo: number): CompInput {
+  return { ...active(price), isSold: true, soldDate: new Date(NOW.getTime() - daysAgo * DAY_MS) };
+}
+
+describe('weightedQuantile', () => {
+  it.each([
+    { values: [[10, 1], [20, 1], [30, 1]], q: 0.5, expected: 20 },
+    { values: [[10, 1], [20, 1], [30, 1], [40, 1]], q: 0.5, expected: 25 },
+    { values: [[10, 3], [20, 1], [30, 1]], q: 0.5, expected: 10 },
+    { values: [[10, 1], [20, 1], [30, 2]], q: 0.5, expected: 25 },
+    { values: [[10, 1], [20, 0], [30, 1]], q: 0.5, expected: 20 },
+    { values: [[10, 1], [20, 1], [30, 1], [40, 1]], q: 0.25, expected: 15 },
+    { values: [], q: 0.5, expected: 0 },
+  ])('the $q quantile of $values is $expected', ({ values, q, expected }) => {
+    expect(weightedQuantile(values.map(([value, weight]) => ({ value, weight })), q)).toBe(expected);
+  });
+});
+
+describe('CompPricingEngine outlier removal', () => {
+  it.each([
+    {
+      name: 'drops a price far outside the median absolute deviation',
+      prices: [10, 11, 12, 13, 100],
+      // median 12, MAD 1, so 12 +/- 3.5 * 1 / 0.6745
+      bounds: '$6.81-$17.19',
+      outliers: [100],
+    },
+    {
+      name: 'drops prices on both sides',
+      prices: [2, 48, 50, 50, 52, 55, 140],
+      // median 50, MAD 2, so 50 +/- 10.38
+      bounds: '$39.62-$60.38',
+      outliers: [2, 140],
+    },
+    {
+      name: 'falls back to IQR fences when most prices are identical',
+      prices: [20, 20, 20, 20, 20, 21, 40],
+      // MAD 0; Q1 20, Q3 21, so 20 - 1.5 to 21 + 1.5
+      bounds: '$18.50-$22.50',
+      outliers: [40],
+    },
+  ])('$name', ({ prices, bounds, outliers }) => {
+    const estimate = engine.estimate(subject, prices.map(active));
+
+    expect(estimate.excluded.map(comp => [comp.price, comp.excludedReason])).toEqual(
+      outliers.map(price => [price, 'outlier'])
+    );
+    expect(estimate.sampleSize).toBe(prices.length - outliers.length);
+    expect(estimate.explanation).toContainEqual(expect.stringContaining(`outside ${bounds}`));
+  });
+
+  it.each([
+    { name: 'with fewer than four comps', prices: [10, 11, 100] },
+    { name: 'when every price is the same', prices: [15, 15, 15, 15] },
+  ])('keeps every comp $name', ({ prices }) => {
+    const estimate = engine.estimate(subject, prices.map(active));
+
+    expect(estimate.excluded).toEqual([]);
+    expect(estimate.sampleSize).toBe(prices.length);
+  });
+});
+
+describe('CompPricingEngine weighted median', () => {
+  it.each([
+    { name: 'an even count of equal weights', comps: [active(10), active(11), active(12), active(13)], price: 11.5 },
+    // The sale weighs 3 against 1 for each asking price
+    { name: 'a fresh sale outweighing asking prices', comps: [sold(30, 0), active(50), active(60), active(70)], price: 40 },
+    // ...but half that after 45 days
+    { name: 'a sale that has lost half its weight', comps: [sold(30, 45), active(50), active(60), active(70)], price: 50 },
+    {
+      name: 'a poor title match',
+      comps: [{ ...active(30), similarity: 0.2 }, active(50), active(55), active(60)],
+      price: 55,
+    },
+    {
+      name: 'shipping included in the price',
+      comps: [{ ...active(40), shipping: 8 }, { ...active(42), shipping: 5 }, active(50)],
+      price: 48,
+    },
+  ])('prices $name at $price', ({ comps, price }) => {
+    expect(engine.estimate(subject, comps).price).toBe(price);
+  });
+
+  it('reports each comp\'s share of the weight', () => {
+    const estimate = engine.estimate(subject, [sold(30, 0), active(50), active(60), active(70)]);
+
+    expect(estimate.comps.map(comp => [comp.price, comp.weight, comp.weightShare])).toEqual([
+      [30, 3, 0.5],
+      [50, 1, 1 / 6],
+      [60, 1, 1 / 6],
+      [70, 1, 1 / 6],
+    ]);
+    // 6^2 / (3^2 + 1 + 1 + 1)
+    expect(estimate.effectiveSampleSize).toBe(3);
+  });
+});
+
+describe('CompPricingEngine 80% confidence interval', () => {
+  it.each([
+    {
+      // mean 11.5, variance 1.25, 4 comps: 11.5 +/- 1.2816 * 1.2533 * sqrt(1.25) / 2
+      prices: [10, 11, 12, 13],
+      interval: { low: 10.6, high: 12.4 },
+    },
+    {
+      // 40 is dropped as an outlier; mean 121/6, 6 comps
+      prices: [20, 20, 20, 20, 20, 21, 40],
+      interval: { low: 19.76, high: 20.24 },
+    },
+    {
+      // No spread, no width
+      prices: [15, 15, 15, 15],
+      interval: { low: 15, high: 15 },
+    },
+    {
+      // mean 20, variance 200/3: 20 +/- 1.2816 * 1.2533 * 8.165 / sqrt(3)
+      prices: [10, 20, 30],
+      interval: { low: 12.43, high: 27.57 },
+    },
+    {
+      // median 2, margin 25.58 - the low end stops at zero
+      prices: [1, 2, 60],
+      interval: { low: 0, high: 27.58 },
+    },
+  ])('of $prices is $interval.low-$interval.high', ({ prices, interval }) => {
+    expect(engine.estimate(subject, prices.map(active)).confidenceInterval).toEqual({ ...interval, level: 0.8 });
+  });
+
+  it('collapses to the price for a single comp', () => {
+    const estimate = engine.estimate(subject, [sold(42, 10)]);
+
+    expect(estimate.confidenceInterval).toEqual({ low: 42, high: 42, level: 0.8 });
+    expect(estimate.confidence).toBe('low');
+  });
+});
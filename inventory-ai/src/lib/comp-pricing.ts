@@ -0,0 +1,415 @@
+import { SOLD_COMP_WEIGHT, ACTIVE_COMP_WEIGHT, weightedQuantile } from './comps';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A sale loses half its weight every 45 days
+const SOLD_HALF_LIFE_DAYS = 45;
+// ...but never drops below this, so an old sale still beats no data
+const MIN_RECENCY_WEIGHT = 0.1;
+
+// Title similarity assumed when the caller has none
+const DEFAULT_SIMILARITY = 0.5;
+// Comps less similar than this describe a different item
+const MIN_SIMILARITY = 0.1;
+
+// Modified z-score beyond which a comp is an outlier (Iglewicz and Hoaglin)
+const MAD_OUTLIER_Z = 3.5;
+// Tukey fences, used when most prices are identical and the MAD is zero
+const IQR_FENCE = 1.5;
+// Outlier rejection needs enough comps to tell what is normal
+const MIN_COMPS_FOR_OUTLIERS = 4;
+
+// A comp in far better or worse condition is adjusted by at most this much
+const MAX_CONDITION_ADJUSTMENT = 1.6;
+const MIN_CONDITION_ADJUSTMENT = 0.5;
+
+// z for the two-sided 80% interval
+const INTERVAL_Z = 1.2816;
+const INTERVAL_LEVEL = 0.8;
+
+export const CONDITION_GRADES = [
+  'new',
+  'like-new',
+  'refurbished',
+  'very-good',
+  'good',
+  'acceptable',
+  'poor',
+  'for-parts',
+] as const;
+
+export type ConditionGrade = typeof CONDITION_GRADES[number];
+
+// Value of each condition relative to new. Users can replace these with their
+// own through pricing rules.
+export const DEFAULT_CONDITION_SCORES: Record<ConditionGrade, number> = {
+  'new': 1,
+  'like-new': 0.9,
+  'refurbished': 0.8,
+  'very-good': 0.78,
+  'good': 0.7,
+  'acceptable': 0.55,
+  'poor': 0.4,
+  'for-parts': 0.3,
+};
+
+// Free-text conditions, such as eBay's, matched to a grade in this order
+const CONDITION_KEYWORDS: Array<[RegExp, ConditionGrade]> = [
+  [/parts|not-working|broken/, 'for-parts'],
+  [/refurb/, 'refurbished'],
+  [/open-box|new-other|without-tags|like-new|mint/, 'like-new'],
+  [/new|sealed/, 'new'],
+  [/excellent|very-good/, 'very-good'],
+  [/pre-owned|used|good/, 'good'],
+  [/acceptable|fair/, 'acceptable'],
+  [/poor/, 'poor'],
+];
+
+export type CompExclusionReason = 'no_price' | 'duplicate' | 'dissimilar' | 'outlier';
+
+export type PriceConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface CompInput {
+  id?: string;
+  platform: string;
+  title: string;
+  price: number;
+  shipping?: number | null;
+  condition?: string | null;
+  // 0-1 title similarity to the item being priced
+  similarity?: number | null;
+  isSold?: boolean;
+  soldDate?: Date | string | null;
+  listingDate?: Date | string | null;
+  url?: string | null;
+}
+
+export interface PricedCompResult extends CompInput {
+  // Price plus shipping - what the buyer paid or would pay
+  totalPrice: number;
+  // Comp condition value relative to the item's; 1 when either is unknown
+  conditionAdjustment: number;
+  // Total price as if the comp were in the item's condition
+  adjustedPrice: number;
+  weight: number;
+  // Share of the estimate this comp accounts for, 0-1
+  weightShare: number;
+  weightFactors: { similarity: number; recency: number; sold: number };
+  excludedReason?: CompExclusionReason;
+}
+
+export interface CompPriceEstimate {
+  price: number;
+  confidenceInterval: { low: number; high: number; level: number };
+  confidence: PriceConfidence;
+  sampleSize: number;
+  soldCount: number;
+  // Comps the estimate rests on once weights are taken into account
+  effectiveSampleSize: number;
+  // Weighted average condition adjustment across the comps used
+  conditionAdjustment: number;
+  // Comps used, most influential first
+  comps: PricedCompResult[];
+  excluded: PricedCompResult[];
+  // Plain-language account of how the price was reached
+  explanation: string[];
+}
+
+function normalizeCondition(condition: string): string {
+  return condition.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * The grade a condition describes, or null when it is not recognised
+ */
+export function getConditionGrade(condition?: string | null): ConditionGrade | null {
+  if (!condition) return null;
+
+  const normalized = normalizeCondition(condition);
+  if ((CONDITION_GRADES as readonly string[]).includes(normalized)) return normalized as ConditionGrade;
+
+  return CONDITION_KEYWORDS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+}
+
+/**
+ * Value of a condition relative to new, or null when it is not recognised
+ */
+export function getConditionScore(
+  condition?: string | null,
+  scores: Record<ConditionGrade, number> = DEFAULT_CONDITION_SCORES
+): number | null {
+  const grade = getConditionGrade(condition);
+  return grade ? scores[grade] : null;
+}
+
+function toTime(value?: Date | string | null): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function median(values: number[]): number {
+  return weightedQuantile(values.map(value => ({ value, weight: 1 })), 0.5);
+}
+
+/**
+ * Prices an item from comparable listings. Each comp is normalized to a
+ * total price in the item's condition, weighted by similarity, recency and
+ * whether it sold, and outliers are dropped before the weighted median is
+ * taken. The result lists the comps behind the price so it can be explained.
+ */
+export class CompPricingEngine {
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  estimate(
+    subject: { title: string; condition?: string | null },
+    inputs: CompInput[],
+    options: { conditionScores?: Record<ConditionGrade, number> } = {}
+  ): CompPriceEstimate {
+    const conditionScores = options.conditionScores ?? DEFAULT_CONDITION_SCORES;
+    const subjectScore = getConditionScore(subject.condition, conditionScores);
+    const seenUrls = new Set<string>();
+    const candidates: PricedCompResult[] = [];
+    const excluded: PricedCompResult[] = [];
+
+    for (const input of inputs) {
+      const comp = this.priceComp(input, subjectScore, conditionScores);
+
+      if (!(comp.totalPrice > 0)) {
+        excluded.push({ ...comp, excludedReason: 'no_price' });
+      } else if (comp.url && seenUrls.has(comp.url)) {
+        excluded.push({ ...comp, excludedReason: 'duplicate' });
+      } else if (comp.similarity != null && comp.similarity < MIN_SIMILARITY) {
+        excluded.push({ ...comp, excludedReason: 'dissimilar' });
+      } else {
+        candidates.push(comp);
+      }
+
+      if (comp.url) seenUrls.add(comp.url);
+    }
+
+    const { kept, outliers, bounds } = this.rejectOutliers(candidates);
+    excluded.push(...outliers.map(comp => ({ ...comp, excludedReason: 'outlier' as const })));
+
+    const totalWeight = kept.reduce((sum, comp) => sum + comp.weight, 0);
+    const comps = kept
+      .map(comp => ({ ...comp, weightShare: totalWeight ? comp.weight / totalWeight : 0 }))
+      .sort((a, b) => b.weight - a.weight);
+
+    if (comps.length === 0) {
+      return {
+        price: 0,
+        confidenceInterval: { low: 0, high: 0, level: INTERVAL_LEVEL },
+        confidence: 'none',
+        sampleSize: 0,
+        soldCount: 0,
+        effectiveSampleSize: 0,
+        conditionAdjustment: 1,
+        comps: [],
+        excluded,
+        explanation: ['No usable comparable listings were found, so no price could be estimated.'],
+      };
+    }
+
+    const price = weightedQuantile(comps.map(comp => ({ value: comp.adjustedPrice, weight: comp.weight })), 0.5);
+    const effectiveSampleSize = totalWeight ** 2 / comps.reduce((sum, comp) => sum + comp.weight ** 2, 0);
+    const confidenceInterval = this.getConfidenceInterval(comps, totalWeight, effectiveSampleSize, price);
+    const conditionAdjustment = comps.reduce((sum, comp) => sum + comp.conditionAdjustment * comp.weightShare, 0);
+    const soldCount = comps.filter(comp => comp.isSold).length;
+
+    const estimate: CompPriceEstimate = {
+      price: roundPrice(price),
+      confidenceInterval,
+      confidence: this.getConfidence(effectiveSampleSize, confidenceInterval, price),
+      sampleSize: comps.length,
+      soldCount,
+      effectiveSampleSize: Math.round(effectiveSampleSize * 10) / 10,
+      conditionAdjustment: Math.round(conditionAdjustment * 1000) / 1000,
+      comps,
+      excluded,
+      explanation: [],
+    };
+    estimate.explanation = this.explain(estimate, subject.condition, bounds);
+
+    return estimate;
+  }
+
+  private priceComp(
+    input: CompInput,
+    subjectScore: number | null,
+    conditionScores: Record<ConditionGrade, number>
+  ): PricedCompResult {
+    const totalPrice = (Number(input.price) || 0) + (Number(input.shipping) || 0);
+
+    const compScore = getConditionScore(input.condition, conditionScores);
+    const conditionAdjustment = subjectScore !== null && compScore !== null
+      ? Math.min(MAX_CONDITION_ADJUSTMENT, Math.max(MIN_CONDITION_ADJUSTMENT, subjectScore / compScore))
+      : 1;
+
+    const weightFactors = {
+      similarity: Math.max(0, Math.min(1, input.similarity ?? DEFAULT_SIMILARITY)),
+      recency: this.getRecencyWeight(input),
+      sold: input.isSold ? SOLD_COMP_WEIGHT : ACTIVE_COMP_WEIGHT,
+    };
+
+    return {
+      ...input,
+      totalPrice: roundPrice(totalPrice),
+      conditionAdjustment,
+      adjustedPrice: roundPrice(totalPrice * conditionAdjustment),
+      weight: weightFactors.similarity * weightFactors.recency * weightFactors.sold,
+      weightShare: 0,
+      weightFactors,
+    };
+  }
+
+  // Active listings are current by definition; sales fade with age
+  private getRecencyWeight(input: CompInput): number {
+    if (!input.isSold) return 1;
+
+    const soldAt = toTime(input.soldDate);
+    if (soldAt === null) return 0.5;
+
+    const ageDays = Math.max(0, (this.now().getTime() - soldAt) / DAY_MS);
+    return Math.max(MIN_RECENCY_WEIGHT, 0.5 ** (ageDays / SOLD_HALF_LIFE_DAYS));
+  }
+
+  /**
+   * Drop comps whose adjusted price is far from the rest - by modified
+   * z-score on the median absolute deviation, or by IQR fences when most
+   * prices are identical
+   */
+  private rejectOutliers(comps: PricedCompResult[]): {
+    kept: PricedCompResult[];
+    outliers: PricedCompResult[];
+    bounds: { low: number; high: number } | null;
+  } {
+    if (comps.length < MIN_COMPS_FOR_OUTLIERS) {
+      return { kept: comps, outliers: [], bounds: null };
+    }
+
+    const prices = comps.map(comp => comp.adjustedPrice);
+    const center = median(prices);
+    const mad = median(prices.map(price => Math.abs(price - center)));
+
+    let bounds: { low: number; high: number } | null = null;
+    if (mad > 0) {
+      const spread = (MAD_OUTLIER_Z * mad) / 0.6745;
+      bounds = { low: center - spread, high: center + spread };
+    } else {
+      const entries = prices.map(value => ({ value, weight: 1 }));
+      const q1 = weightedQuantile(entries, 0.25);
+      const q3 = weightedQuantile(entries, 0.75);
+      const iqr = q3 - q1;
+      if (iqr > 0) {
+        bounds = { low: q1 - IQR_FENCE * iqr, high: q3 + IQR_FENCE * iqr };
+      }
+    }
+
+    if (!bounds) {
+      return { kept: comps, outliers: [], bounds: null };
+    }
+
+    const { low, high } = bounds;
+    return {
+      kept: comps.filter(comp => comp.adjustedPrice >= low && comp.adjustedPrice <= high),
+      outliers: comps.filter(comp => comp.adjustedPrice < low || comp.adjustedPrice > high),
+      bounds: { low: roundPrice(Math.max(0, low)), high: roundPrice(high) },
+    };
+  }
+
+  /**
+   * Interval from the weighted spread of the comps and how many comps the
+   * weights amount to. The median's standard error is about 1.2533 times
+   * the mean's.
+   */
+  private getConfidenceInterval(
+    comps: PricedCompResult[],
+    totalWeight: number,
+    effectiveSampleSize: number,
+    price: number
+  ): CompPriceEstimate['confidenceInterval'] {
+    if (comps.length < 2) {
+      return { low: roundPrice(price), high: roundPrice(price), level: INTERVAL_LEVEL };
+    }
+
+    const mean = comps.reduce((sum, comp) => sum + comp.adjustedPrice * comp.weight, 0) / totalWeight;
+    const variance = comps.reduce((sum, comp) => sum + comp.weight * (comp.adjustedPrice - mean) ** 2, 0) / totalWeight;
+    const standardError = (1.2533 * Math.sqrt(variance)) / Math.sqrt(effectiveSampleSize);
+    const margin = INTERVAL_Z * standardError;
+
+    return {
+      low: roundPrice(Math.max(0, price - margin)),
+      high: roundPrice(price + margin),
+      level: INTERVAL_LEVEL,
+    };
+  }
+
+  private getConfidence(
+    effectiveSampleSize: number,
+    interval: CompPriceEstimate['confidenceInterval'],
+    price: number
+  ): PriceConfidence {
+    // A single comp gives no measure of spread at all
+    if (effectiveSampleSize < 2 || price <= 0) return 'low';
+
+    const relativeWidth = (interval.high - interval.low) / price;
+    if (effectiveSampleSize >= 8 && relativeWidth <= 0.3) return 'high';
+    if (effectiveSampleSize >= 3 && relativeWidth <= 0.6) return 'medium';
+    return 'low';
+  }
+
+  private explain(
+    estimate: CompPriceEstimate,
+    subjectCondition: string | null | undefined,
+    outlierBounds: { low: number; high: number } | null
+  ): string[] {
+    const { comps, excluded, confidenceInterval } = estimate;
+    const countExcluded = (reason: CompExclusionReason) =>
+      excluded.filter(comp => comp.excludedReason === reason).length;
+
+    const lines = [
+      `Estimated ${formatPrice(estimate.price)} from ${comps.length} comparable listings ` +
+        `(${estimate.soldCount} sold, ${comps.length - estimate.soldCount} active), ` +
+        `with an ${Math.round(confidenceInterval.level * 100)}% range of ` +
+        `${formatPrice(confidenceInterval.low)}-${formatPrice(confidenceInterval.high)} (${estimate.confidence} confidence).`,
+      `Prices include shipping. Sold listings count ${SOLD_COMP_WEIGHT}x an active listing, a sale loses half its ` +
+        `weight every ${SOLD_HALF_LIFE_DAYS} days, and closer title matches count for more.`,
+    ];
+
+    if (comps.some(comp => comp.conditionAdjustment !== 1) && subjectCondition) {
+      lines.push(`Comps in better or worse condition were adjusted to this item's condition (${subjectCondition}).`);
+    }
+
+    const outliers = countExcluded('outlier');
+    if (outliers > 0 && outlierBounds) {
+      lines.push(
+        `${outliers} outlier${outliers === 1 ? '' : 's'} outside ` +
+          `${formatPrice(outlierBounds.low)}-${formatPrice(outlierBounds.high)} ${outliers === 1 ? 'was' : 'were'} left out.`
+      );
+    }
+
+    const dissimilar = countExcluded('dissimilar');
+    const duplicates = countExcluded('duplicate');
+    if (dissimilar > 0 || duplicates > 0) {
+      lines.push(`${dissimilar} dissimilar and ${duplicates} duplicate listings were ignored.`);
+    }
+
+    const drivers = comps.slice(0, 3).map(comp =>
+      `${comp.title} (${comp.isSold ? 'sold' : 'active'}, ${formatPrice(comp.adjustedPrice)}, ${Math.round(comp.weightShare * 100)}%)`
+    );
+    lines.push(`Most influential: ${drivers.join('; ')}.`);
+
+    return lines;
+  }
+}
+
+export const compPricingEngine = new CompPricingEngine();
@@ -0,0 +1,99 @@
+// A sold listing is what a buyer actually paid; an active listing is only
+// an asking price, so sold comps count for more wherever prices are combined
+export const SOLD_COMP_WEIGHT = 3;
+export const ACTIVE_COMP_WEIGHT = 1;
+
+export interface PricedComp {
+  price: number;
+  isSold?: boolean;
+}
+
+export interface CompSummary {
+  totalListings: number;
+  soldListings: number;
+  // Sold-weighted
+  averagePrice: number;
+  medianPrice: number;
+  soldAveragePrice: number;
+  activeAveragePrice: number;
+  priceRange: { min: number; max: number };
+}
+
+function getCompWeight(comp: PricedComp): number {
+  return comp.isSold ? SOLD_COMP_WEIGHT : ACTIVE_COMP_WEIGHT;
+}
+
+function average(prices: number[]): number {
+  return prices.length ? prices.reduce((sum, price) => sum + price, 0) / prices.length : 0;
+}
+
+// Comps with a usable price
+export function getPricedComps<T extends PricedComp>(comps: T[]): T[] {
+  return comps.filter(comp => Number.isFinite(comp.price) && comp.price > 0);
+}
+
+export function weightedAverage(comps: PricedComp[]): number {
+  const priced = getPricedComps(comps);
+  const totalWeight = priced.reduce((sum, comp) => sum + getCompWeight(comp), 0);
+  if (totalWeight === 0) return 0;
+
+  return priced.reduce((sum, comp) => sum + comp.price * getCompWeight(comp), 0) / totalWeight;
+}
+
+/**
+ * Value below which a fraction q of the total weight lies, averaging the two
+ * neighbours when it falls exactly between them
+ */
+export function weightedQuantile(values: Array<{ value: number; weight: number }>, q: number): number {
+  const sorted = values.filter(entry => entry.weight > 0).sort((a, b) => a.value - b.value);
+  const totalWeight = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const target = totalWeight * q;
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (cumulative > target) return sorted[i].value;
+    if (cumulative === target && i + 1 < sorted.length) return (sorted[i].value + sorted[i + 1].value) / 2;
+  }
+
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Median where each sold comp counts as several active ones
+ */
+export function weightedMedian(comps: PricedComp[]): number {
+  return weightedQuantile(
+    getPricedComps(comps).map(comp => ({ value: comp.price, weight: getCompWeight(comp) })),
+    0.5
+  );
+}
+
+export function summarizeComps(comps: PricedComp[]): CompSummary {
+  const priced = getPricedComps(comps);
+  if (priced.length === 0) {
+    return {
+      totalListings: 0,
+      soldListings: 0,
+      averagePrice: 0,
+      medianPrice: 0,
+      soldAveragePrice: 0,
+      activeAveragePrice: 0,
+      priceRange: { min: 0, max: 0 },
+    };
+  }
+
+  const prices = priced.map(comp => comp.price);
+  const soldPrices = priced.filter(comp => comp.isSold).map(comp => comp.price);
+
+  return {
+    totalListings: priced.length,
+    soldListings: soldPrices.length,
+    averagePrice: weightedAverage(priced),
+    medianPrice: weightedMedian(priced),
+    soldAveragePrice: average(soldPrices),
+    activeAveragePrice: average(priced.filter(comp => !comp.isSold).map(comp => comp.price)),
+    priceRange: { min: Math.min(...prices), max: Math.max(...prices) },
+  };
+}
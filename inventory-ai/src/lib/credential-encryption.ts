@@ -0,0 +1,48 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+// Prefix of everything this version writes, so the scheme can change later
+// without guessing what old values are
+const FORMAT_VERSION = 'v1';
+
+function getEncryptionKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  const secret = env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to store channel credentials');
+  }
+  // Any secret works - hashing gives the 32 bytes AES-256 needs
+  return createHash('sha256').update(secret).digest();
+}
+
+export function isCredentialEncryptionConfigured(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.CREDENTIALS_ENCRYPTION_KEY);
+}
+
+/**
+ * Encrypt a value as JSON with AES-256-GCM. The result carries its IV and
+ * authentication tag, so tampering is caught on decryption.
+ */
+export function encryptCredentials(value: unknown): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+    .join(':');
+}
+
+export function decryptCredentials<T>(stored: string): T {
+  const [version, iv, authTag, encrypted] = stored.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || encrypted === undefined) {
+    throw new Error('Stored credentials are not in a recognised format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]);
+
+  return JSON.parse(decrypted.toString('utf8')) as T;
+}
@@ -1,6 +1,11 @@
 import { apifyService } from './apify';
-import { geminiService } from './gemini';
+import { geminiService, type MarketTrends } from './gemini';
+import type { CacheStats } from './response-cache';
 import { facebookMarketplaceService, FacebookMarketplaceListing } from './facebook-marketplace';
+import { compPricingEngine, type CompInput, type CompPriceEstimate } from './comp-pricing';
+import { pricingService, DEFAULT_PRICING_RULES, type PricingRules, type RoundingRule, type StoreAdjustment } from './pricing';
+import { calculateProfit, type ProfitBreakdown } from './profit';
+import { SALES_CHANNELS } from './channel-listings';
 
 export interface PricingAnalysis {
   recommendedPrice: number;
@@ -18,62 +23,31 @@ export interface PricingAnalysis {
     medianPrice: number;
     averagePrice: number;
     totalComparables: number;
+    soldComparables: number;
     priceDistribution: { [key: string]: number };
   };
-}
-
-export interface ConditionMultipliers {
-  'new-in-package': number;
-  'new': number;
-  'like-new': number;
-  'good': number;
-  'acceptable': number;
-  'poor': number;
-}
-
-export interface CategoryMultipliers {
-  electronics: number;
-  clothing: number;
-  automotive: number;
-  collectibles: number;
-  books: number;
-  home: number;
-  sports: number;
-  default: number;
-}
-
-export class DynamicPricingService {
-  private conditionMultipliers: ConditionMultipliers = {
-    'new-in-package': 1.0,
-    'new': 0.85,
-    'like-new': 0.75,
-    'good': 0.65,
-    'acceptable': 0.45,
-    'poor': 0.25
-  };
-
-  private categoryMultipliers: CategoryMultipliers = {
-    electronics: 0.7,  // Electronics depreciate quickly
-    clothing: 0.4,     // Fashion items have low resale
-    automotive: 0.8,   // Auto parts hold value well
-    collectibles: 0.9, // Collectibles can appreciate
-    books: 0.3,        // Books have low resale value
-    home: 0.6,         // Home goods moderate depreciation
-    sports: 0.5,       // Sports equipment varies widely
-    default: 0.6
+  // The comp-based market price, its interval and the comps behind it
+  compEstimate: CompPriceEstimate;
+  // How the user's pricing rules changed the market price
+  appliedRules: {
+    storeAdjustment: StoreAdjustment;
+    rounding: RoundingRule;
+    minimumPrice: number;
+    floored: boolean;
   };
-
-  private brandMultipliers: { [key: string]: number } = {
-    'apple': 0.8,
-    'samsung': 0.7,
-    'nike': 0.6,
-    'adidas': 0.6,
-    'louis vuitton': 0.85,
-    'gucci': 0.85,
-    'rolex': 0.9,
-    'default': 0.6
+  // Net profit on each channel at the recommended price
+  profit: {
+    costBasis: number | null;
+    targetMargin: number | null;
+    // Lowest price allowed - the minimum price or what keeps the target margin
+    priceFloor: number;
+    // Why the target margin could not raise the floor
+    priceFloorReason: string | null;
+    byChannel: ProfitBreakdown[];
   };
+}
 
+export class DynamicPricingService {
   /**
    * Comprehensive pricing analysis with multi-source market data
    */
@@ -85,50 +59,58 @@ export class DynamicPricingService {
       condition: { grade: string; score: number };
       colors?: string[];
       size?: string;
+      costBasis?: number | null;
     },
     marketData: any,
     options: {
       strategy?: 'velocity' | 'margin' | 'balanced';
+      // Share of the price to keep over cost after fees; defaults to the rules'
       targetMargin?: number;
       competitivePosition?: 'aggressive' | 'competitive' | 'premium';
+      // Collects cache hits and misses for the extra scrapes
+      cacheStats?: CacheStats;
+      // The owner's pricing rules; the defaults leave the market price as is
+      rules?: PricingRules;
     } = {}
   ): Promise<PricingAnalysis> {
+    const rules = options.rules ?? DEFAULT_PRICING_RULES;
+    const targetMargin = options.targetMargin ?? rules.targetMargin;
+    const costBasis = productData.costBasis ?? null;
+    const { price: priceFloor, reason: priceFloorReason } = pricingService.getPriceFloor(rules, costBasis, targetMargin);
+
     try {
       // Step 1: Gather additional market data from multiple sources
-      const enhancedMarketData = await this.gatherEnhancedMarketData(productData);
-      
-      // Step 2: Calculate base price from comparables
-      const basePrice = this.calculateBasePrice(marketData, enhancedMarketData);
+      const enhancedMarketData = await this.gatherEnhancedMarketData(productData, options.cacheStats);
       
-      // Step 3: Apply condition-based adjustments
-      const conditionAdjustedPrice = this.applyConditionAdjustment(
-        basePrice, 
-        productData.condition
+      // Step 2: Price the item from its comparables, already adjusted to its condition
+      const compEstimate = compPricingEngine.estimate(
+        { title: productData.title, condition: productData.condition.grade },
+        this.collectComps(productData.title, marketData, enhancedMarketData),
+        { conditionScores: rules.conditionMultipliers }
       );
+      const basePrice = compEstimate.price;
       
-      // Step 4: Apply category and brand multipliers
-      const categoryAdjustedPrice = this.applyCategoryAdjustment(
-        conditionAdjustedPrice,
-        productData.category,
-        productData.brand
-      );
+      // Step 3: Apply the store's category or brand multiplier
+      const storeAdjustment = pricingService.getStoreAdjustment(rules, productData);
+      const storePrice = basePrice * storeAdjustment.multiplier;
       
-      // Step 5: Apply competitive positioning
+      // Step 4: Apply competitive positioning
       const competitivePrice = this.applyCompetitivePositioning(
-        categoryAdjustedPrice,
+        storePrice,
         options.competitivePosition || 'competitive'
       );
       
-      // Step 6: Calculate velocity vs margin optimized prices
-      const velocityPrice = competitivePrice * 0.85; // 15% below market for quick sale
-      const marginPrice = competitivePrice * 1.1;    // 10% above market for higher margin
+      // Step 5: Calculate velocity vs margin optimized prices, rounded and held at the floor
+      const velocityPrice = pricingService.finalizePrice(competitivePrice * 0.85, rules, priceFloor).price; // 15% below market for quick sale
+      const marginPrice = pricingService.finalizePrice(competitivePrice * 1.1, rules, priceFloor).price;    // 10% above market for higher margin
+      const marketRatePrice = pricingService.finalizePrice(competitivePrice, rules, priceFloor).price;
       
-      // Step 7: Analyze market trends
+      // Step 6: Analyze market trends
       const marketTrends = await this.analyzeMarketTrends(productData, marketData);
       
-      // Step 8: Generate final recommendation based on strategy
+      // Step 7: Generate final recommendation based on strategy
       const recommendedPrice = this.selectOptimalPrice(
-        competitivePrice,
+        marketRatePrice,
         velocityPrice,
         marginPrice,
         options.strategy || 'balanced',
@@ -144,9 +126,23 @@ export class DynamicPricingService {
         competitivePosition: this.determineCompetitivePosition(recommendedPrice, basePrice),
         velocityOptimized: velocityPrice,
         marginOptimized: marginPrice,
-        conditionAdjustment: this.getConditionMultiplier(productData.condition.grade),
+        conditionAdjustment: compEstimate.conditionAdjustment,
         marketTrends,
-        comparableAnalysis: this.analyzeComparables(marketData, enhancedMarketData)
+        comparableAnalysis: this.analyzeComparables(compEstimate),
+        compEstimate,
+        appliedRules: {
+          storeAdjustment,
+          rounding: rules.rounding,
+          minimumPrice: rules.minimumPrice,
+          floored: recommendedPrice > 0 && recommendedPrice === Math.round(priceFloor * 100) / 100
+        },
+        profit: {
+          costBasis,
+          targetMargin,
+          priceFloor,
+          priceFloorReason,
+          byChannel: SALES_CHANNELS.map(channel => calculateProfit(channel, recommendedPrice, costBasis, rules.channelFees))
+        }
       };
 
     } catch (error) {
@@ -158,7 +154,7 @@ export class DynamicPricingService {
   /**
    * Gather enhanced market data from Facebook Marketplace and additional sources
    */
-  private async gatherEnhancedMarketData(productData: any): Promise<any> {
+  private async gatherEnhancedMarketData(productData: any, cacheStats?: CacheStats): Promise<any> {
     try {
       // Generate search queries for Facebook Marketplace
       const fbQueries = await geminiService.generateSearchQueries(productData, 2);
@@ -179,7 +175,8 @@ export class DynamicPricingService {
         const fbAnalysis = await facebookMarketplaceService.getMarketAnalysis(
           primaryQuery,
           productData.category,
-          productData.condition?.grade
+          productData.condition?.grade,
+          cacheStats
         );
 
         // Get similar listings for comparison
@@ -187,7 +184,8 @@ export class DynamicPricingService {
           productData.title,
           productData.brand,
           productData.model,
-          productData.category
+          productData.category,
+          cacheStats
         );
 
         facebookData = {
@@ -216,71 +214,57 @@ export class DynamicPricingService {
   }
 
   /**
-   * Calculate base price from all available market data
+   * Collect every comparable with its shipping, condition and title
+   * similarity to the item. eBay sales are marked sold; everything else is
+   * an asking price.
    */
-  private calculateBasePrice(primaryMarketData: any, enhancedMarketData: any): number {
-    const allPrices: number[] = [];
+  collectComps(title: string, primaryMarketData: any, enhancedMarketData?: any): CompInput[] {
+    const comps: CompInput[] = [];
+    const similarity = (compTitle: string) => apifyService.calculateSimilarity(title, compTitle || '');
 
-    // Add eBay prices
+    // Add eBay listings and sales
     if (primaryMarketData.ebay) {
-      allPrices.push(...primaryMarketData.ebay.map((item: any) => item.price).filter((p: number) => p > 0));
+      comps.push(...primaryMarketData.ebay.map((item: any) => ({
+        platform: item.isSold ? 'ebay_sold' : 'ebay',
+        title: item.title,
+        price: item.price,
+        shipping: item.shipping,
+        condition: item.condition,
+        similarity: similarity(item.title),
+        isSold: Boolean(item.isSold),
+        soldDate: item.soldDate,
+        listingDate: item.listingDate,
+        url: item.url
+      })));
     }
 
-    // Add Google Shopping prices
+    // Add Google Shopping listings, which are new stock
     if (primaryMarketData.googleShopping) {
-      allPrices.push(...primaryMarketData.googleShopping.map((item: any) => item.price).filter((p: number) => p > 0));
+      comps.push(...primaryMarketData.googleShopping.map((item: any) => ({
+        platform: 'google_shopping',
+        title: item.title,
+        price: item.price,
+        shipping: item.shipping,
+        condition: 'new',
+        similarity: similarity(item.title),
+        url: item.url
+      })));
     }
 
-    // Add Facebook Marketplace prices (when available)
-    if (enhancedMarketData.facebook?.listings) {
-      allPrices.push(...enhancedMarketData.facebook.listings.map((item: FacebookMarketplaceListing) => item.salePrice).filter((p: number) => p > 0));
+    // Add Facebook Marketplace listings (when available)
+    if (enhancedMarketData?.facebook?.listings) {
+      comps.push(...enhancedMarketData.facebook.listings.map((item: FacebookMarketplaceListing) => ({
+        platform: 'facebook_marketplace',
+        title: item.title,
+        price: item.salePrice,
+        condition: item.condition,
+        similarity: similarity(item.title),
+        listingDate: item.listingDate,
+        url: item.url
+      })));
     }
 
-    if (allPrices.length === 0) {
-      return 0;
-    }
-
-    // Use median price as base to avoid outlier influence
-    allPrices.sort((a, b) => a - b);
-    const median = allPrices.length % 2 === 0
-      ? (allPrices[allPrices.length / 2 - 1] + allPrices[allPrices.length / 2]) / 2
-      : allPrices[Math.floor(allPrices.length / 2)];
-
-    return median;
-  }
-
-  /**
-   * Apply condition-based pricing adjustments
-   */
-  private applyConditionAdjustment(basePrice: number, condition: { grade: string; score: number }): number {
-    const multiplier = this.getConditionMultiplier(condition.grade);
-    
-    // Fine-tune based on condition score if available
-    const scoreAdjustment = condition.score ? (condition.score - 0.5) * 0.2 : 0;
-    const finalMultiplier = Math.max(0.1, Math.min(1.0, multiplier + scoreAdjustment));
-    
-    return basePrice * finalMultiplier;
-  }
-
-  /**
-   * Get condition multiplier
-   */
-  private getConditionMultiplier(conditionGrade: string): number {
-    const normalizedGrade = conditionGrade.toLowerCase().replace(/[^a-z-]/g, '');
-    return this.conditionMultipliers[normalizedGrade as keyof ConditionMultipliers] || 0.6;
-  }
-
-  /**
-   * Apply category and brand adjustments
-   */
-  private applyCategoryAdjustment(price: number, category: string, brand: string): number {
-    const categoryMultiplier = this.categoryMultipliers[category.toLowerCase() as keyof CategoryMultipliers] || this.categoryMultipliers.default;
-    const brandMultiplier = this.brandMultipliers[brand.toLowerCase()] || this.brandMultipliers.default;
-    
-    // Combine multipliers (weighted average)
-    const combinedMultiplier = (categoryMultiplier * 0.7) + (brandMultiplier * 0.3);
-    
-    return price * combinedMultiplier;
+    return comps;
   }
 
   /**
@@ -301,14 +285,10 @@ export class DynamicPricingService {
   /**
    * Analyze market trends using AI
    */
-  private async analyzeMarketTrends(productData: any, marketData: any): Promise<any> {
+  private async analyzeMarketTrends(productData: any, marketData: any): Promise<MarketTrends> {
     try {
-      const trendAnalysis = await geminiService.analyzeMarketTrends(productData, marketData);
-      return {
-        direction: trendAnalysis.direction || 'stable',
-        confidence: trendAnalysis.confidence || 0.5,
-        factors: trendAnalysis.factors || []
-      };
+      // Validated by the Gemini service, which falls back to a stable trend
+      return await geminiService.analyzeMarketTrends(productData, marketData);
     } catch (error) {
       console.error('Error analyzing market trends:', error);
       return {
@@ -362,32 +342,20 @@ export class DynamicPricingService {
   /**
    * Analyze comparable listings
    */
-  private analyzeComparables(primaryMarketData: any, enhancedMarketData: any): any {
-    const allPrices: number[] = [];
+  private analyzeComparables(compEstimate: CompPriceEstimate): PricingAnalysis['comparableAnalysis'] {
+    const { comps } = compEstimate;
 
-    // Collect all prices
-    if (primaryMarketData.ebay) {
-      allPrices.push(...primaryMarketData.ebay.map((item: any) => item.price).filter((p: number) => p > 0));
-    }
-    if (primaryMarketData.googleShopping) {
-      allPrices.push(...primaryMarketData.googleShopping.map((item: any) => item.price).filter((p: number) => p > 0));
-    }
-
-    if (allPrices.length === 0) {
+    if (comps.length === 0) {
       return {
         medianPrice: 0,
         averagePrice: 0,
         totalComparables: 0,
+        soldComparables: 0,
         priceDistribution: {}
       };
     }
 
-    allPrices.sort((a, b) => a - b);
-    const median = allPrices.length % 2 === 0
-      ? (allPrices[allPrices.length / 2 - 1] + allPrices[allPrices.length / 2]) / 2
-      : allPrices[Math.floor(allPrices.length / 2)];
-
-    const average = allPrices.reduce((sum, price) => sum + price, 0) / allPrices.length;
+    const allPrices = comps.map(comp => comp.adjustedPrice);
 
     // Create price distribution
     const priceRanges = {
@@ -409,9 +377,10 @@ export class DynamicPricingService {
     });
 
     return {
-      medianPrice: median,
-      averagePrice: average,
-      totalComparables: allPrices.length,
+      medianPrice: compEstimate.price,
+      averagePrice: comps.reduce((sum, comp) => sum + comp.adjustedPrice * comp.weightShare, 0),
+      totalComparables: comps.length,
+      soldComparables: comps.filter(comp => comp.isSold).length,
       priceDistribution: priceRanges
     };
   }
@@ -1,4 +1,15 @@
 import { z } from 'zod';
+import type { Product } from '@prisma/client';
+import {
+  getProductAnalysisData,
+  getProductGallery,
+  getProductSku,
+  parseProductDimensions,
+  toPublicUrl,
+  type ProductWithImages,
+} from './product-data';
+import { summarizeComps } from './comps';
+import { ebayOAuth, isEbayProduction, EBAY_INSIGHTS_SCOPES } from './ebay-oauth';
 
 // eBay API Configuration
 const EBAY_CONFIG = {
@@ -12,6 +23,10 @@ const EBAY_CONFIG = {
     BROWSE: '/buy/browse/v1',
     SEARCH: '/buy/browse/v1/item_summary/search',
     ITEM_DETAILS: '/buy/browse/v1/item',
+
+    // Marketplace Insights API - items sold in the last 90 days. The token
+    // needs the buy.marketplace.insights scope, which eBay grants on request
+    SOLD_ITEM_SEARCH: '/buy/marketplace_insights/v1_beta/item_sales/search',
     
     // Listing Management API
     LISTING_MANAGEMENT: '/sell/inventory/v1',
@@ -38,7 +53,13 @@ const EBAY_CONFIG = {
     RETURN_POLICY: '/sell/account/v1/return_policy',
     
     // Inventory Mapping API
-    INVENTORY_MAPPING: '/sell/inventory/v1/inventory_item_group'
+    INVENTORY_MAPPING: '/sell/inventory/v1/inventory_item_group',
+
+    // Fulfillment API - orders placed against our listings
+    ORDERS: '/sell/fulfillment/v1/order',
+
+    // Notification API - keys that sign the notifications eBay pushes to us
+    NOTIFICATION_PUBLIC_KEY: '/commerce/notification/v1/public_key'
   }
 };
 
@@ -76,6 +97,32 @@ export interface EbaySearchResult {
   }>;
 }
 
+export interface EbaySoldItem {
+  itemId: string;
+  title: string;
+  lastSoldDate: string;
+  lastSoldPrice: {
+    value: string;
+    currency: string;
+  };
+  totalSoldQuantity?: number;
+  condition?: string;
+  conditionId?: string;
+  image?: {
+    imageUrl: string;
+  };
+  itemWebUrl?: string;
+  seller?: {
+    username: string;
+    feedbackPercentage?: string;
+    feedbackScore?: number;
+  };
+  itemLocation?: {
+    country?: string;
+    postalCode?: string;
+  };
+}
+
 export interface EbayItemDetails {
   itemId: string;
   title: string;
@@ -191,6 +238,7 @@ export interface EbayOffer {
   format: 'AUCTION' | 'FIXED_PRICE';
   availableQuantity: number;
   categoryId: string;
+  merchantLocationKey?: string;
   listingDescription?: string;
   listingPolicies: {
     fulfillmentPolicyId: string;
@@ -209,42 +257,157 @@ export interface EbayOffer {
     thirdPartyTaxCategory?: string;
     vatPercentage?: number;
   };
+  status?: 'PUBLISHED' | 'UNPUBLISHED';
+  listing?: {
+    listingId: string;
+    listingStatus?: string;
+  };
+}
+
+export interface EbayAmount {
+  value: string;
+  currency: string;
+}
+
+export interface EbayShipTo {
+  fullName?: string;
+  contactAddress?: {
+    addressLine1?: string;
+    addressLine2?: string;
+    city?: string;
+    stateOrProvince?: string;
+    postalCode?: string;
+    countryCode?: string;
+  };
+  primaryPhone?: { phoneNumber?: string };
+  email?: string;
+}
+
+export interface EbayOrderLineItem {
+  lineItemId: string;
+  legacyItemId?: string;
+  sku?: string;
+  title: string;
+  quantity: number;
+  lineItemCost: EbayAmount;
+  total?: EbayAmount;
+  deliveryCost?: { shippingCost?: EbayAmount };
+}
+
+export interface EbayOrder {
+  orderId: string;
+  creationDate: string;
+  lastModifiedDate: string;
+  orderFulfillmentStatus: 'NOT_STARTED' | 'IN_PROGRESS' | 'FULFILLED';
+  orderPaymentStatus: 'PAID' | 'PENDING' | 'FAILED' | 'FULLY_REFUNDED' | 'PARTIALLY_REFUNDED';
+  cancelStatus?: { cancelState: 'CANCELED' | 'IN_PROGRESS' | 'NONE_REQUESTED' };
+  buyer?: { username: string };
+  pricingSummary?: { total?: EbayAmount; deliveryCost?: EbayAmount };
+  totalMarketplaceFee?: EbayAmount;
+  fulfillmentStartInstructions?: Array<{
+    shippingStep?: {
+      shipTo?: EbayShipTo;
+      shippingServiceCode?: string;
+    };
+  }>;
+  lineItems: EbayOrderLineItem[];
+}
+
+export interface EbayNotificationPublicKey {
+  algorithm: string; // ECDSA
+  digest: string; // SHA1
+  key: string; // PEM, possibly without line breaks
 }
 
+/**
+ * Supplies bearer tokens that expire, like OAuth user and application tokens
+ */
+export interface EbayTokenSource {
+  // A token that is valid now, renewed first if it is about to expire
+  getAccessToken(): Promise<string>;
+  // A new token, after eBay rejected the current one
+  refreshAccessToken?(): Promise<string>;
+}
+
+// A fixed access token, or a source of renewable ones
+export type EbayCredential = string | EbayTokenSource;
+
+// Which token a call is made with - Browse and Catalog calls need no seller,
+// and Marketplace Insights has a token of its own
+type EbayTokenType = 'user' | 'application' | 'insights';
+
 export class EbayApiService {
-  private accessToken: string;
+  private accessToken: EbayCredential;
+  private applicationToken?: EbayCredential;
+  private insightsToken?: EbayCredential;
   private isProduction: boolean;
   private baseUrl: string;
 
-  constructor(accessToken: string, isProduction: boolean = false) {
+  constructor(
+    accessToken: EbayCredential,
+    isProduction: boolean = false,
+    baseUrl?: string,
+    applicationToken?: EbayCredential,
+    insightsToken?: EbayCredential
+  ) {
     this.accessToken = accessToken;
+    // Without these, Browse, Catalog and Insights calls use the user's token
+    this.applicationToken = applicationToken;
+    this.insightsToken = insightsToken;
     this.isProduction = isProduction;
-    this.baseUrl = isProduction ? EBAY_CONFIG.PRODUCTION_BASE_URL : EBAY_CONFIG.SANDBOX_BASE_URL;
+    // An explicit base URL points the client at a stub server
+    this.baseUrl = baseUrl || (isProduction ? EBAY_CONFIG.PRODUCTION_BASE_URL : EBAY_CONFIG.SANDBOX_BASE_URL);
   }
 
-  private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
+  // Whether there is a token for searches and sold comparables
+  isConfigured(): boolean {
+    return Boolean(this.accessToken || this.applicationToken);
+  }
+
+  // Public URL of a published listing
+  getListingUrl(listingId: string): string {
+    return this.isProduction
+      ? `https://www.ebay.com/itm/${listingId}`
+      : `https://sandbox.ebay.com/itm/${listingId}`;
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    options: RequestInit = {},
+    tokenType: EbayTokenType = 'user'
+  ): Promise<any> {
     const url = `${this.baseUrl}${endpoint}`;
-    
-    const defaultHeaders = {
-      'Authorization': `Bearer ${this.accessToken}`,
-      'Content-Type': 'application/json',
-      'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US', // Default to US marketplace
-    };
+    const credential = (tokenType === 'application' && this.applicationToken)
+      || (tokenType === 'insights' && this.insightsToken)
+      || this.accessToken;
 
-    const response = await fetch(url, {
+    const send = (accessToken: string) => fetch(url, {
       ...options,
       headers: {
-        ...defaultHeaders,
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        // Required by the Inventory API on inventory item and offer writes
+        'Content-Language': 'en-US',
+        'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US', // Default to US marketplace
         ...options.headers,
       },
     });
 
+    let response = await send(typeof credential === 'string' ? credential : await credential.getAccessToken());
+
+    // A token can be revoked or expire early - renew it once and retry
+    if (response.status === 401 && typeof credential !== 'string' && credential.refreshAccessToken) {
+      response = await send(await credential.refreshAccessToken());
+    }
+
     if (!response.ok) {
       const errorText = await response.text();
       throw new Error(`eBay API Error: ${response.status} - ${errorText}`);
     }
 
-    return response.json();
+    // Inventory item and offer updates answer 204 No Content
+    const body = response.status === 204 ? '' : await response.text();
+    return body ? JSON.parse(body) : undefined;
   }
 
   // Browse API - Search for items
@@ -272,7 +435,7 @@ export class EbayApiService {
     }
 
     const endpoint = `${EBAY_CONFIG.ENDPOINTS.SEARCH}?${params.toString()}`;
-    const response = await this.makeRequest(endpoint);
+    const response = await this.makeRequest(endpoint, {}, 'application');
 
     return {
       items: response.itemSummaries || [],
@@ -280,10 +443,39 @@ export class EbayApiService {
     };
   }
 
+  // Marketplace Insights API - Search items sold in the last 90 days
+  async searchSoldItems(query: string, options: {
+    categoryIds?: string[];
+    filter?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ items: EbaySoldItem[]; total: number }> {
+    const params = new URLSearchParams({
+      q: query,
+      limit: (options.limit || 50).toString(),
+      offset: (options.offset || 0).toString(),
+    });
+
+    if (options.categoryIds?.length) {
+      params.append('category_ids', options.categoryIds.join(','));
+    }
+    if (options.filter) {
+      params.append('filter', options.filter);
+    }
+
+    const endpoint = `${EBAY_CONFIG.ENDPOINTS.SOLD_ITEM_SEARCH}?${params.toString()}`;
+    const response = await this.makeRequest(endpoint, {}, 'insights');
+
+    return {
+      items: response.itemSales || [],
+      total: response.total || 0,
+    };
+  }
+
   // Browse API - Get item details
   async getItemDetails(itemId: string): Promise<EbayItemDetails> {
     const endpoint = `${EBAY_CONFIG.ENDPOINTS.ITEM_DETAILS}/${itemId}`;
-    return this.makeRequest(endpoint);
+    return this.makeRequest(endpoint, {}, 'application');
   }
 
   // Catalog API - Search products
@@ -302,7 +494,7 @@ export class EbayApiService {
     }
 
     const endpoint = `${EBAY_CONFIG.ENDPOINTS.PRODUCT_SEARCH}?${params.toString()}`;
-    const response = await this.makeRequest(endpoint);
+    const response = await this.makeRequest(endpoint, {}, 'application');
 
     return {
       products: response.productSummaries || [],
@@ -313,7 +505,7 @@ export class EbayApiService {
   // Catalog API - Get product details
   async getCatalogProduct(productId: string): Promise<EbayCatalogProduct> {
     const endpoint = `${EBAY_CONFIG.ENDPOINTS.PRODUCT_DETAILS}/${productId}`;
-    return this.makeRequest(endpoint);
+    return this.makeRequest(endpoint, {}, 'application');
   }
 
   // Inventory API - Create or update inventory item
@@ -346,6 +538,29 @@ export class EbayApiService {
     });
   }
 
+  // Listing Management - Get offer
+  async getOffer(offerId: string): Promise<EbayOffer> {
+    const endpoint = `${EBAY_CONFIG.ENDPOINTS.OFFERS}/${offerId}`;
+    return this.makeRequest(endpoint);
+  }
+
+  // Listing Management - Get offers for a SKU
+  async getOffersBySku(sku: string, marketplaceId: string = 'EBAY_US'): Promise<EbayOffer[]> {
+    const params = new URLSearchParams({ sku, marketplace_id: marketplaceId });
+    const endpoint = `${EBAY_CONFIG.ENDPOINTS.OFFERS}?${params.toString()}`;
+
+    try {
+      const response = await this.makeRequest(endpoint);
+      return response.offers || [];
+    } catch (error) {
+      // eBay answers 404 when no offer exists for the SKU yet
+      if (error instanceof Error && error.message.includes('eBay API Error: 404')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   // Listing Management - Update offer
   async updateOffer(offerId: string, offer: Partial<EbayOffer>): Promise<void> {
     const endpoint = `${EBAY_CONFIG.ENDPOINTS.OFFERS}/${offerId}`;
@@ -367,7 +582,45 @@ export class EbayApiService {
     await this.makeRequest(endpoint, { method: 'POST' });
   }
 
-  // Get competitive pricing data for a product
+  // Fulfillment API - Get orders, optionally only those modified since a date
+  async getOrders(options: {
+    modifiedSince?: Date;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ orders: EbayOrder[]; total: number; next?: string }> {
+    const params = new URLSearchParams({
+      limit: (options.limit || 50).toString(),
+      offset: (options.offset || 0).toString(),
+    });
+
+    if (options.modifiedSince) {
+      params.append('filter', `lastmodifieddate:[${options.modifiedSince.toISOString()}..]`);
+    }
+
+    const endpoint = `${EBAY_CONFIG.ENDPOINTS.ORDERS}?${params.toString()}`;
+    const response = await this.makeRequest(endpoint);
+
+    return {
+      orders: response.orders || [],
+      total: response.total || 0,
+      next: response.next,
+    };
+  }
+
+  // Fulfillment API - Get a single order
+  async getOrder(orderId: string): Promise<EbayOrder> {
+    const endpoint = `${EBAY_CONFIG.ENDPOINTS.ORDERS}/${orderId}`;
+    return this.makeRequest(endpoint);
+  }
+
+  // Notification API - Get the public key a notification was signed with
+  async getNotificationPublicKey(publicKeyId: string): Promise<EbayNotificationPublicKey> {
+    const endpoint = `${EBAY_CONFIG.ENDPOINTS.NOTIFICATION_PUBLIC_KEY}/${encodeURIComponent(publicKeyId)}`;
+    return this.makeRequest(endpoint, {}, 'application');
+  }
+
+  // Get competitive pricing data for a product. Recent sales come from
+  // Marketplace Insights; the average weights them above active asking prices.
   async getCompetitivePricing(productQuery: string, options: {
     condition?: string;
     categoryId?: string;
@@ -377,6 +630,9 @@ export class EbayApiService {
     averagePrice: number;
     priceRange: { min: number; max: number };
     totalListings: number;
+    soldListings: number;
+    soldAveragePrice: number;
+    activeAveragePrice: number;
     recentSales: Array<{
       price: number;
       condition: string;
@@ -396,44 +652,50 @@ export class EbayApiService {
       filters.push(`categoryIds:{${options.categoryId}}`);
     }
 
-    const searchOptions = {
-      filter: filters.join(','),
-      sort: 'price',
-      limit: 100,
-    };
-
-    const results = await this.searchItems(searchQuery, searchOptions);
-    
-    const prices = results.items
-      .map(item => parseFloat(item.price.value))
-      .filter(price => !isNaN(price));
-
-    if (prices.length === 0) {
-      return {
-        averagePrice: 0,
-        priceRange: { min: 0, max: 0 },
-        totalListings: 0,
-        recentSales: [],
-      };
-    }
-
-    const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
+    const [active, sold] = await Promise.all([
+      this.searchItems(searchQuery, {
+        filter: filters.join(','),
+        sort: 'price',
+        limit: 100,
+      }),
+      // Without Insights access - eBay refusing its token included - the
+      // pricing falls back to active listings from Browse
+      this.searchSoldItems(searchQuery, {
+        filter: filters.join(','),
+        limit: 100,
+      }).catch(error => {
+        console.warn('eBay sold items unavailable, pricing from active listings only:', error);
+        return { items: [] as EbaySoldItem[], total: 0 };
+      }),
+    ]);
+
+    const recentSales = sold.items
+      .map(item => ({
+        price: parseFloat(item.lastSoldPrice.value),
+        condition: item.condition || 'Unknown',
+        soldDate: item.lastSoldDate,
+      }))
+      .filter(sale => !isNaN(sale.price))
+      .sort((a, b) => b.soldDate.localeCompare(a.soldDate));
+
+    const summary = summarizeComps([
+      ...active.items.map(item => ({ price: parseFloat(item.price.value), isSold: false })),
+      ...recentSales.map(sale => ({ price: sale.price, isSold: true })),
+    ]);
 
     return {
-      averagePrice,
-      priceRange: { min: minPrice, max: maxPrice },
-      totalListings: results.total,
-      recentSales: results.items.slice(0, 10).map(item => ({
-        price: parseFloat(item.price.value),
-        condition: item.condition,
-      })),
+      averagePrice: summary.averagePrice,
+      priceRange: summary.priceRange,
+      totalListings: active.total,
+      soldListings: sold.total,
+      soldAveragePrice: summary.soldAveragePrice,
+      activeAveragePrice: summary.activeAveragePrice,
+      recentSales: recentSales.slice(0, 10),
     };
   }
 
   // Helper method to map condition names to eBay condition IDs
-  private getConditionId(condition: string): string {
+  getConditionId(condition: string): string {
     const conditionMap: Record<string, string> = {
       'new': '1000',
       'open_box': '1500',
@@ -445,7 +707,107 @@ export class EbayApiService {
       'for_parts': '7000',
     };
 
-    return conditionMap[condition.toLowerCase()] || '3000'; // Default to 'used'
+    const normalized = condition.toLowerCase().replace(/[\s-]+/g, '_');
+    return conditionMap[normalized] || '3000'; // Default to 'used'
+  }
+
+  // Helper method to map condition names to Inventory API condition enums
+  getInventoryCondition(condition: string): string {
+    const conditionEnums: Record<string, string> = {
+      '1000': 'NEW',
+      '1500': 'NEW_OTHER',
+      '2000': 'CERTIFIED_REFURBISHED',
+      '3000': 'USED_EXCELLENT',
+      '4000': 'USED_VERY_GOOD',
+      '5000': 'USED_GOOD',
+      '6000': 'USED_ACCEPTABLE',
+      '7000': 'FOR_PARTS_OR_NOT_WORKING',
+    };
+
+    return conditionEnums[this.getConditionId(condition)];
+  }
+
+  // Build an inventory item from a stored product
+  mapProductToInventoryItem(product: ProductWithImages, quantity: number = 1): EbayInventoryItem {
+    const dimensions = parseProductDimensions(product.dimensions);
+    const aspects: Record<string, string[]> = {};
+    if (product.brand) aspects.Brand = [product.brand];
+    if (product.model) aspects.Model = [product.model];
+
+    const packageWeightAndSize: EbayInventoryItem['packageWeightAndSize'] = {};
+    if (product.weight) {
+      // Product weight is stored in grams
+      packageWeightAndSize.weight = {
+        value: Math.round((product.weight / 453.592) * 100) / 100,
+        unit: 'POUND',
+      };
+    }
+    if (dimensions) {
+      packageWeightAndSize.dimensions = {
+        length: dimensions.length,
+        width: dimensions.width,
+        height: dimensions.height,
+        unit: dimensions.unit === 'cm' ? 'CENTIMETER' : 'INCH',
+      };
+    }
+
+    return {
+      sku: getProductSku(product),
+      product: {
+        title: product.title.slice(0, 80), // eBay titles are limited to 80 characters
+        description: product.description || product.title,
+        brand: product.brand || undefined,
+        mpn: product.model || undefined,
+        aspects,
+        imageUrls: getProductGallery(product)
+          .slice(0, 24) // eBay accepts at most 24 pictures per listing
+          .map(image => toPublicUrl(image.url)),
+      },
+      condition: this.getInventoryCondition(product.condition),
+      availability: {
+        shipToLocationAvailability: {
+          quantity,
+        },
+      },
+      ...(Object.keys(packageWeightAndSize).length > 0 && { packageWeightAndSize }),
+    };
+  }
+
+  // Build a fixed price offer for a stored product using the seller's business policies
+  buildProductOffer(product: Product, options: {
+    categoryId: string;
+    price: number;
+    listingPolicies: EbayOffer['listingPolicies'];
+    merchantLocationKey?: string;
+    quantity?: number;
+  }): EbayOffer {
+    return {
+      sku: getProductSku(product),
+      marketplaceId: 'EBAY_US',
+      format: 'FIXED_PRICE',
+      availableQuantity: options.quantity ?? 1,
+      categoryId: options.categoryId,
+      merchantLocationKey: options.merchantLocationKey,
+      listingDescription: product.description || product.title,
+      listingPolicies: options.listingPolicies,
+      pricingSummary: {
+        price: {
+          currency: 'USD',
+          value: options.price.toFixed(2),
+        },
+      },
+    };
+  }
+
+  // Resolve the eBay category for a product from its AI analysis or title keywords
+  async resolveCategoryId(product: Product): Promise<string | null> {
+    const analysisCategory = getProductAnalysisData(product).ebayCategory;
+    if (analysisCategory && /^\d+$/.test(analysisCategory)) {
+      return analysisCategory;
+    }
+
+    const suggestions = await this.suggestCategories(product.title, product.brand || undefined);
+    return suggestions[0]?.categoryId || null;
   }
 
   // Get eBay categories for a product
@@ -504,8 +866,12 @@ export class EbayApiService {
   }
 }
 
-// Export singleton instance
+// Market research (search, sold items, categories) with the deployment's own
+// tokens. Selling goes through each organization's connected seller account.
 export const ebayApi = new EbayApiService(
   process.env.EBAY_ACCESS_TOKEN || '',
-  process.env.NODE_ENV === 'production'
+  isEbayProduction(),
+  process.env.EBAY_API_BASE_URL,
+  ebayOAuth.isConfigured() ? ebayOAuth.getApplicationTokenSource() : undefined,
+  ebayOAuth.isConfigured() ? ebayOAuth.getApplicationTokenSource(EBAY_INSIGHTS_SCOPES) : undefined
 );
\ No newline at end of file
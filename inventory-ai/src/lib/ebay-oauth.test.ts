@@ -0,0 +1,333 @@
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const CLIENT_ID = 'InventoryAI-SBX-1a2b3c4d5-6e7f8a9b';
+const CLIENT_SECRET = 'SBX-0123456789ab-cdef-0123-4567-89ab';
+const RU_NAME = 'Inventory_AI-InventoryAI-SBX-abcdefghi';
+const NOW = new Date('2025-03-14T14:00:00.000Z');
+
+const SELLER_REFRESH_TOKEN = 'v^1.1#refresh-seller';
+
+interface TokenRequest {
+  authorization?: string;
+  params: URLSearchParams;
+}
+
+const tokenRequests: TokenRequest[] = [];
+
+// Whether eBay has granted the keyset Marketplace Insights
+let insightsGranted = false;
+
+function activeListing(price: number) {
+  return {
+    itemId: `v1|1155${price}|0`,
+    title: 'Pyrex bowl',
+    price: { value: price.toFixed(2), currency: 'USD' },
+    condition: 'Used',
+    seller: { username: 'seller', feedbackPercentage: '100.0', feedbackScore: 10 },
+  };
+}
+
+function respond(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Answers the token endpoint the way eBay's identity service does, and the
+// Browse and Insights searches pricing makes with its tokens
+const identity: Server = createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://identity');
+  if (url.pathname === '/buy/browse/v1/item_summary/search') {
+    return req.headers.authorization?.startsWith('Bearer v^1.1#application-')
+      ? respond(res, 200, { total: 2, itemSummaries: [activeListing(40), activeListing(60)] })
+      : respond(res, 401, { errors: [{ errorId: 1001, message: 'Invalid access token' }] });
+  }
+  if (url.pathname === '/buy/marketplace_insights/v1_beta/item_sales/search') {
+    return req.headers.authorization?.startsWith('Bearer v^1.1#insights-')
+      ? respond(res, 200, { total: 1, itemSales: [{ title: 'Pyrex bowl', lastSoldPrice: { value: '80.00', currency: 'USD' }, lastSoldDate: '2025-03-10T12:00:00.000Z', condition: 'Used' }] })
+      : respond(res, 403, { errors: [{ errorId: 1100, message: 'Insufficient permissions to fulfill the request.' }] });
+  }
+
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const params = new URLSearchParams(body);
+    tokenRequests.push({ authorization: req.headers.authorization, params });
+
+    if (req.method !== 'POST' || req.url !== '/identity/v1/oauth2/token') {
+      return respond(res, 404, { error: 'not_found' });
+    }
+    if (req.headers.authorization !== `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`) {
+      return respond(res, 401, { error: 'invalid_client', error_description: 'client authentication failed' });
+    }
+
+    const grant = params.get('grant_type');
+    if (grant === 'authorization_code' && params.get('code') === 'v^1.1#code') {
+      return respond(res, 200, {
+        access_token: 'v^1.1#access-seller',
+        expires_in: 7200,
+        refresh_token: SELLER_REFRESH_TOKEN,
+        refresh_token_expires_in: 47304000,
+        token_type: 'User Access Token',
+      });
+    }
+    if (grant === 'authorization_code' && params.get('code') === 'v^1.1#code-without-refresh') {
+      return respond(res, 200, { access_token: 'v^1.1#access-seller', expires_in: 7200, token_type: 'User Access Token' });
+    }
+    if (grant === 'refresh_token' && params.get('refresh_token') === SELLER_REFRESH_TOKEN) {
+      return respond(res, 200, { access_token: `v^1.1#access-refreshed-${tokenRequests.length}`, expires_in: 7200, token_type: 'User Access Token' });
+    }
+    if (grant === 'client_credentials' && params.get('scope')?.includes('buy.marketplace.insights')) {
+      return insightsGranted
+        ? respond(res, 200, { access_token: `v^1.1#insights-${tokenRequests.length}`, expires_in: 7200, token_type: 'Application Access Token' })
+        : respond(res, 400, {
+            error: 'invalid_scope',
+            error_description: 'The requested scope is invalid, unknown, malformed, or exceeds the scope granted to the client',
+          });
+    }
+    if (grant === 'client_credentials') {
+      return respond(res, 200, { access_token: `v^1.1#application-${tokenRequests.length}`, expires_in: 7200, token_type: 'Application Access Token' });
+    }
+
+    respond(res, 400, {
+      error: 'invalid_grant',
+      error_description: 'the provided authorization grant code is invalid or was issued to another client',
+    });
+  });
+});
+
+// Loaded once the mock is listening - the service reads its URLs on import
+let oauth: typeof import('./ebay-oauth');
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => identity.listen(0, '127.0.0.1', resolve));
+  process.env.EBAY_AUTH_BASE_URL = `http://127.0.0.1:${(identity.address() as AddressInfo).port}`;
+  process.env.EBAY_CLIENT_ID = CLIENT_ID;
+  process.env.EBAY_CLIENT_SECRET = CLIENT_SECRET;
+  process.env.EBAY_RU_NAME = RU_NAME;
+
+  oauth = await import('./ebay-oauth');
+});
+
+afterAll(async () => {
+  await new Promise(resolve => identity.close(resolve));
+});
+
+beforeEach(() => {
+  tokenRequests.length = 0;
+  insightsGranted = false;
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// A service of its own, so no application token is cached from another test
+function freshService() {
+  return new oauth.EbayOAuthService({
+    clientId: CLIENT_ID,
+    clientSecret: CLIENT_SECRET,
+    ruName: RU_NAME,
+    isProduction: false,
+    authBaseUrl: process.env.EBAY_AUTH_BASE_URL,
+  });
+}
+
+describe('EbayOAuthService', () => {
+  it('sends sellers to the consent page with the seller scopes', () => {
+    const url = new URL(oauth.ebayOAuth.getAuthorizationUrl('state-123'));
+
+    expect(url.origin + url.pathname).toBe(`${process.env.EBAY_AUTH_BASE_URL}/oauth2/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: CLIENT_ID,
+      redirect_uri: RU_NAME,
+      response_type: 'code',
+      scope: oauth.EBAY_USER_SCOPES.join(' '),
+      state: 'state-123',
+    });
+  });
+
+  it('exchanges the consent code for the seller\'s tokens', async () => {
+    const tokens = await oauth.ebayOAuth.exchangeCode('v^1.1#code');
+
+    expect(tokens).toEqual({
+      accessToken: 'v^1.1#access-seller',
+      expiresAt: new Date('2025-03-14T16:00:00.000Z'),
+      refreshToken: SELLER_REFRESH_TOKEN,
+      refreshTokenExpiresAt: new Date('2026-09-13T02:00:00.000Z'),
+    });
+    expect(tokenRequests[0].authorization).toBe(`Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`);
+    expect(Object.fromEntries(tokenRequests[0].params)).toEqual({
+      grant_type: 'authorization_code',
+      code: 'v^1.1#code',
+      redirect_uri: RU_NAME,
+    });
+  });
+
+  it('refuses an exchange that returns no refresh token', async () => {
+    await expect(oauth.ebayOAuth.exchangeCode('v^1.1#code-without-refresh')).rejects.toThrow(
+      new oauth.EbayOAuthError('eBay did not return a refresh token')
+    );
+  });
+
+  it('passes on eBay\'s error code when a grant is refused', async () => {
+    const error = await oauth.ebayOAuth.exchangeCode('v^1.1#used-code').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(oauth.EbayOAuthError);
+    expect(error.error).toBe('invalid_grant');
+    expect(error.message).toBe(
+      'eBay token request failed: 400 - the provided authorization grant code is invalid or was issued to another client'
+    );
+  });
+
+  it('refreshes a seller\'s access token with the seller scopes', async () => {
+    const token = await oauth.ebayOAuth.refreshUserToken(SELLER_REFRESH_TOKEN);
+
+    expect(token).toEqual({ accessToken: 'v^1.1#access-refreshed-1', expiresAt: new Date('2025-03-14T16:00:00.000Z') });
+    expect(Object.fromEntries(tokenRequests[0].params)).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: SELLER_REFRESH_TOKEN,
+      scope: oauth.EBAY_USER_SCOPES.join(' '),
+    });
+  });
+
+  it('reports a revoked refresh token as invalid_grant', async () => {
+    await expect(oauth.ebayOAuth.refreshUserToken('v^1.1#revoked')).rejects.toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('shares one application token between callers until it is about to expire', async () => {
+    const service = freshService();
+
+    const [first, second] = await Promise.all([service.getApplicationToken(), service.getApplicationToken()]);
+    const cached = await service.getApplicationToken();
+    vi.setSystemTime(new Date('2025-03-14T15:56:00.000Z'));
+    const renewed = await service.getApplicationToken();
+
+    expect(first.accessToken).toBe('v^1.1#application-1');
+    expect(second).toBe(first);
+    expect(cached).toBe(first);
+    expect(renewed.accessToken).toBe('v^1.1#application-2');
+    expect(tokenRequests).toHaveLength(2);
+    expect(Object.fromEntries(tokenRequests[0].params)).toEqual({
+      grant_type: 'client_credentials',
+      scope: oauth.EBAY_APPLICATION_SCOPES.join(' '),
+    });
+  });
+
+  it('fetches a new application token when eBay rejected the cached one', async () => {
+    const source = freshService().getApplicationTokenSource();
+
+    const token = await source.getAccessToken();
+    const refreshed = await source.refreshAccessToken?.();
+
+    expect(token).toBe('v^1.1#application-1');
+    expect(refreshed).toBe('v^1.1#application-2');
+  });
+});
+
+describe('Marketplace Insights', () => {
+  it('is requested on a token of its own', async () => {
+    insightsGranted = true;
+    const service = freshService();
+
+    const application = await service.getApplicationToken();
+    const insights = await service.getApplicationToken(false, oauth.EBAY_INSIGHTS_SCOPES);
+
+    expect(application.accessToken).toBe('v^1.1#application-1');
+    expect(insights.accessToken).toBe('v^1.1#insights-2');
+    expect(tokenRequests.map(request => request.params.get('scope'))).toEqual([
+      'https://api.ebay.com/oauth/api_scope',
+      'https://api.ebay.com/oauth/api_scope/buy.marketplace.insights',
+    ]);
+  });
+
+  it('leaves the application token working when eBay refuses it', async () => {
+    const service = freshService();
+
+    await expect(service.getApplicationToken(false, oauth.EBAY_INSIGHTS_SCOPES)).rejects.toMatchObject({ error: 'invalid_scope' });
+    expect((await service.getApplicationToken()).accessToken).toBe('v^1.1#application-2');
+  });
+
+  it('prices from active listings when eBay refuses it', async () => {
+    const { EbayApiService } = await import('./ebay-api');
+    const service = freshService();
+    const api = new EbayApiService(
+      '',
+      false,
+      process.env.EBAY_AUTH_BASE_URL,
+      service.getApplicationTokenSource(),
+      service.getApplicationTokenSource(oauth.EBAY_INSIGHTS_SCOPES)
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const pricing = await api.getCompetitivePricing('Pyrex bowl');
+
+    expect(pricing).toMatchObject({ totalListings: 2, soldListings: 0, averagePrice: 50 });
+  });
+
+  it('adds recent sales to the pricing once granted', async () => {
+    insightsGranted = true;
+    const { EbayApiService } = await import('./ebay-api');
+    const service = freshService();
+    const api = new EbayApiService(
+      '',
+      false,
+      process.env.EBAY_AUTH_BASE_URL,
+      service.getApplicationTokenSource(),
+      service.getApplicationTokenSource(oauth.EBAY_INSIGHTS_SCOPES)
+    );
+
+    const pricing = await api.getCompetitivePricing('Pyrex bowl');
+
+    expect(pricing).toMatchObject({ totalListings: 2, soldListings: 1, soldAveragePrice: 80 });
+  });
+});
+
+describe('EbayUserTokenSource', () => {
+  it('uses the saved token while it is still valid', async () => {
+    const source = new oauth.EbayUserTokenSource(
+      oauth.ebayOAuth,
+      { accessToken: 'v^1.1#access-saved', expiresAt: new Date('2025-03-14T15:00:00.000Z') },
+      SELLER_REFRESH_TOKEN
+    );
+
+    expect(await source.getAccessToken()).toBe('v^1.1#access-saved');
+    expect(tokenRequests).toHaveLength(0);
+  });
+
+  it('refreshes an expiring token once for concurrent callers and saves it', async () => {
+    const onRefresh = vi.fn().mockResolvedValue(undefined);
+    const source = new oauth.EbayUserTokenSource(
+      oauth.ebayOAuth,
+      { accessToken: 'v^1.1#access-saved', expiresAt: new Date('2025-03-14T14:04:00.000Z') },
+      SELLER_REFRESH_TOKEN,
+      onRefresh
+    );
+
+    const tokens = await Promise.all([source.getAccessToken(), source.getAccessToken(), source.refreshAccessToken()]);
+
+    expect(tokens).toEqual(['v^1.1#access-refreshed-1', 'v^1.1#access-refreshed-1', 'v^1.1#access-refreshed-1']);
+    expect(tokenRequests).toHaveLength(1);
+    expect(onRefresh).toHaveBeenCalledExactlyOnceWith({
+      accessToken: 'v^1.1#access-refreshed-1',
+      expiresAt: new Date('2025-03-14T16:00:00.000Z'),
+    });
+    expect(await source.getAccessToken()).toBe('v^1.1#access-refreshed-1');
+  });
+
+  it('saves nothing when the refresh token was revoked', async () => {
+    const onRefresh = vi.fn();
+    const source = new oauth.EbayUserTokenSource(
+      oauth.ebayOAuth,
+      { accessToken: 'v^1.1#access-saved', expiresAt: NOW },
+      'v^1.1#revoked',
+      onRefresh
+    );
+
+    await expect(source.getAccessToken()).rejects.toMatchObject({ error: 'invalid_grant' });
+    expect(onRefresh).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,274 @@
+import type { EbayTokenSource } from './ebay-api';
+
+const EBAY_OAUTH_CONFIG = {
+  PRODUCTION_AUTH_BASE_URL: 'https://auth.ebay.com',
+  SANDBOX_AUTH_BASE_URL: 'https://auth.sandbox.ebay.com',
+  PRODUCTION_API_BASE_URL: 'https://api.ebay.com',
+  SANDBOX_API_BASE_URL: 'https://api.sandbox.ebay.com',
+
+  ENDPOINTS: {
+    // Consent page the seller is sent to
+    AUTHORIZE: '/oauth2/authorize',
+    // Code exchange, refresh and client credentials grants
+    TOKEN: '/identity/v1/oauth2/token',
+  },
+};
+
+// What a seller account is asked to grant: listing, business policies and orders
+export const EBAY_USER_SCOPES = [
+  'https://api.ebay.com/oauth/api_scope',
+  'https://api.ebay.com/oauth/api_scope/sell.inventory',
+  'https://api.ebay.com/oauth/api_scope/sell.account',
+  'https://api.ebay.com/oauth/api_scope/sell.fulfillment',
+] as const;
+
+// Browse and Catalog calls need no seller, just the application
+export const EBAY_APPLICATION_SCOPES = [
+  'https://api.ebay.com/oauth/api_scope',
+] as const;
+
+// Marketplace Insights gets a token of its own: eBay refuses the whole
+// request for a keyset it has not granted Insights, which must not cost
+// Browse and Catalog their token
+export const EBAY_INSIGHTS_SCOPES = [
+  'https://api.ebay.com/oauth/api_scope/buy.marketplace.insights',
+] as const;
+
+// Tokens are renewed this long before eBay says they expire
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+export interface EbayOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  // eBay's name for the redirect URL registered with the application
+  ruName: string;
+  isProduction: boolean;
+  // Serves both the consent page and the token endpoint - points the flow at a mock
+  authBaseUrl?: string;
+}
+
+export interface EbayAccessToken {
+  accessToken: string;
+  expiresAt: Date;
+}
+
+export interface EbayUserTokens extends EbayAccessToken {
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+interface EbayTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+  token_type: string;
+}
+
+/**
+ * Thrown when eBay's identity service refuses a grant - `error` is eBay's
+ * code, e.g. invalid_grant for a revoked or expired refresh token
+ */
+export class EbayOAuthError extends Error {
+  constructor(message: string, readonly error?: string) {
+    super(message);
+    this.name = 'EbayOAuthError';
+  }
+}
+
+export function isEbayProduction(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.EBAY_ENVIRONMENT
+    ? env.EBAY_ENVIRONMENT === 'production'
+    : env.NODE_ENV === 'production';
+}
+
+function isExpiring(expiresAt: Date): boolean {
+  return expiresAt.getTime() - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+export class EbayOAuthService {
+  // By the scopes they were requested with
+  private applicationTokens = new Map<string, EbayAccessToken>();
+  private pendingApplicationTokens = new Map<string, Promise<EbayAccessToken>>();
+
+  constructor(private config: EbayOAuthConfig) {}
+
+  // Whether the application's keys and redirect have been provided
+  isConfigured(): boolean {
+    return Boolean(this.config.clientId && this.config.clientSecret && this.config.ruName);
+  }
+
+  get isProduction(): boolean {
+    return this.config.isProduction;
+  }
+
+  /**
+   * Where to send a seller to grant access. eBay sends them back to the URL
+   * registered for the RuName with `code` and the same `state`.
+   */
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.ruName,
+      response_type: 'code',
+      scope: EBAY_USER_SCOPES.join(' '),
+      state,
+    });
+    return `${this.getAuthBaseUrl()}${EBAY_OAUTH_CONFIG.ENDPOINTS.AUTHORIZE}?${params.toString()}`;
+  }
+
+  // Exchange the code from the consent redirect for the seller's tokens
+  async exchangeCode(code: string): Promise<EbayUserTokens> {
+    const response = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.ruName,
+    });
+
+    if (!response.refresh_token || !response.refresh_token_expires_in) {
+      throw new EbayOAuthError('eBay did not return a refresh token');
+    }
+
+    return {
+      ...this.toAccessToken(response),
+      refreshToken: response.refresh_token,
+      refreshTokenExpiresAt: new Date(Date.now() + response.refresh_token_expires_in * 1000),
+    };
+  }
+
+  // A new access token for a seller. eBay keeps the refresh token the same.
+  async refreshUserToken(refreshToken: string): Promise<EbayAccessToken> {
+    const response = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      scope: EBAY_USER_SCOPES.join(' '),
+    });
+    return this.toAccessToken(response);
+  }
+
+  /**
+   * The application's own token, from the client credentials grant. It is
+   * shared by every caller in this process asking for the same scopes until
+   * it is about to expire.
+   */
+  async getApplicationToken(
+    forceRefresh: boolean = false,
+    scopes: readonly string[] = EBAY_APPLICATION_SCOPES
+  ): Promise<EbayAccessToken> {
+    const scope = scopes.join(' ');
+    const token = this.applicationTokens.get(scope);
+    if (!forceRefresh && token && !isExpiring(token.expiresAt)) {
+      return token;
+    }
+
+    let pending = this.pendingApplicationTokens.get(scope);
+    if (!pending) {
+      pending = this.requestToken({ grant_type: 'client_credentials', scope })
+        .then(response => {
+          const renewed = this.toAccessToken(response);
+          this.applicationTokens.set(scope, renewed);
+          return renewed;
+        })
+        .finally(() => {
+          this.pendingApplicationTokens.delete(scope);
+        });
+      this.pendingApplicationTokens.set(scope, pending);
+    }
+
+    return pending;
+  }
+
+  // Application tokens in the shape EbayApiService takes
+  getApplicationTokenSource(scopes: readonly string[] = EBAY_APPLICATION_SCOPES): EbayTokenSource {
+    return {
+      getAccessToken: async () => (await this.getApplicationToken(false, scopes)).accessToken,
+      refreshAccessToken: async () => (await this.getApplicationToken(true, scopes)).accessToken,
+    };
+  }
+
+  private async requestToken(body: Record<string, string>): Promise<EbayTokenResponse> {
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+
+    const response = await fetch(`${this.getTokenBaseUrl()}${EBAY_OAUTH_CONFIG.ENDPOINTS.TOKEN}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(body).toString(),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => ({})) as { error?: string; error_description?: string };
+      throw new EbayOAuthError(
+        `eBay token request failed: ${response.status} - ${errorBody.error_description || errorBody.error || 'Unknown error'}`,
+        errorBody.error
+      );
+    }
+
+    return response.json();
+  }
+
+  private toAccessToken(response: EbayTokenResponse): EbayAccessToken {
+    return {
+      accessToken: response.access_token,
+      expiresAt: new Date(Date.now() + response.expires_in * 1000),
+    };
+  }
+
+  private getAuthBaseUrl(): string {
+    return this.config.authBaseUrl
+      || (this.config.isProduction ? EBAY_OAUTH_CONFIG.PRODUCTION_AUTH_BASE_URL : EBAY_OAUTH_CONFIG.SANDBOX_AUTH_BASE_URL);
+  }
+
+  private getTokenBaseUrl(): string {
+    return this.config.authBaseUrl
+      || (this.config.isProduction ? EBAY_OAUTH_CONFIG.PRODUCTION_API_BASE_URL : EBAY_OAUTH_CONFIG.SANDBOX_API_BASE_URL);
+  }
+}
+
+/**
+ * A seller's access token, refreshed with their refresh token when it is
+ * about to expire or eBay rejects it. `onRefresh` is where the new token is
+ * saved, so the next request does not have to refresh again.
+ */
+export class EbayUserTokenSource implements EbayTokenSource {
+  private token: EbayAccessToken;
+  private pendingRefresh: Promise<string> | null = null;
+
+  constructor(
+    private oauth: EbayOAuthService,
+    token: EbayAccessToken,
+    private refreshToken: string,
+    private onRefresh?: (token: EbayAccessToken) => Promise<void>
+  ) {
+    this.token = token;
+  }
+
+  async getAccessToken(): Promise<string> {
+    return isExpiring(this.token.expiresAt) ? this.refreshAccessToken() : this.token.accessToken;
+  }
+
+  // Concurrent callers share one refresh
+  refreshAccessToken(): Promise<string> {
+    this.pendingRefresh ??= this.oauth.refreshUserToken(this.refreshToken)
+      .then(async token => {
+        this.token = token;
+        await this.onRefresh?.(token);
+        return token.accessToken;
+      })
+      .finally(() => {
+        this.pendingRefresh = null;
+      });
+
+    return this.pendingRefresh;
+  }
+}
+
+export const ebayOAuth = new EbayOAuthService({
+  clientId: process.env.EBAY_CLIENT_ID || '',
+  clientSecret: process.env.EBAY_CLIENT_SECRET || '',
+  ruName: process.env.EBAY_RU_NAME || '',
+  isProduction: isEbayProduction(),
+  authBaseUrl: process.env.EBAY_AUTH_BASE_URL,
+});
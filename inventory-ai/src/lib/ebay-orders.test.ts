@@ -0,0 +1,336 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { readFileSync } from 'fs';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { ORG_A, ORG_B, seedProducts, type TestProduct } from '@/test/workspaces';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+function readFixture(name: string): string {
+  return readFileSync(new URL(`../test/fixtures/ebay/${name}`, import.meta.url), 'utf8');
+}
+
+const SELLER_A_TOKEN = 'v^1.1#seller-a';
+const SELLER_B_TOKEN = 'v^1.1#seller-b';
+
+// Orders each seller's token can see, as recorded from the Fulfillment API
+const ORDERS_BY_TOKEN: Record<string, { total: number; orders: unknown[] }> = {
+  [SELLER_A_TOKEN]: JSON.parse(readFixture('orders-seller-a.json')),
+  [SELLER_B_TOKEN]: JSON.parse(readFixture('orders-seller-b.json')),
+};
+
+// Small pages, so polling has to follow the offsets
+const STUB_PAGE_SIZE = 2;
+
+const DELETION_BODY = readFixture('marketplace-account-deletion.json');
+const ORDER_NOTIFICATION_BODY = JSON.stringify({
+  metadata: { topic: 'ITEM_SOLD', schemaVersion: '1.0' },
+  notification: { notificationId: 'a1b2c3', eventDate: '2025-03-14T14:21:09.000Z', data: { orderId: '08-12345-67890' } },
+});
+
+// eBay signs notifications with ECDSA keys it serves from the Notification API
+const KEY_ID = '1d4b4fc7-a54f-4bd3-b9a7-2e10e4b7e5c1';
+const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const PUBLIC_KEY_PEM = `-----BEGIN PUBLIC KEY-----${publicKey.export({ format: 'der', type: 'spki' }).toString('base64')}-----END PUBLIC KEY-----`;
+
+function signatureHeader(body: string, kid: string = KEY_ID): string {
+  const signature = sign('sha1', Buffer.from(body, 'utf8'), privateKey).toString('base64');
+  return Buffer.from(JSON.stringify({ alg: 'ECDSA', kid, signature, digest: 'SHA1' })).toString('base64');
+}
+
+interface StubRequest {
+  path: string;
+  query: URLSearchParams;
+  authorization?: string;
+}
+
+const stubRequests: StubRequest[] = [];
+
+function respond(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Answers the Fulfillment and Notification API calls order sync makes
+const stub: Server = createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://stub');
+  const authorization = req.headers.authorization;
+  stubRequests.push({ path: url.pathname, query: url.searchParams, authorization });
+
+  if (url.pathname === '/sell/fulfillment/v1/order') {
+    const page = ORDERS_BY_TOKEN[authorization?.replace('Bearer ', '') || ''];
+    if (!page) return respond(res, 401, { errors: [{ errorId: 1001, message: 'Invalid access token' }] });
+
+    const offset = Number(url.searchParams.get('offset'));
+    return respond(res, 200, { ...page, offset, orders: page.orders.slice(offset, offset + STUB_PAGE_SIZE) });
+  }
+
+  if (url.pathname === `/commerce/notification/v1/public_key/${KEY_ID}`) {
+    return respond(res, 200, { algorithm: 'ECDSA', digest: 'SHA1', key: PUBLIC_KEY_PEM });
+  }
+
+  respond(res, 404, { errors: [{ errorId: 195000, message: 'Resource not found' }] });
+});
+
+function orderRequests(token?: string): StubRequest[] {
+  return stubRequests.filter(request =>
+    request.path === '/sell/fulfillment/v1/order' && (!token || request.authorization === `Bearer ${token}`)
+  );
+}
+
+// Loaded once the stub is listening - the eBay client reads its base URL on import
+let ebayOrders: typeof import('./ebay-orders');
+let inventorySync: typeof import('./inventory-sync');
+let channelConnections: typeof import('./channel-connections');
+let encryptCredentials: typeof import('./credential-encryption').encryptCredentials;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  process.env.EBAY_API_BASE_URL = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  process.env.EBAY_ACCESS_TOKEN = 'v^1.1#application';
+  process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-encryption-key';
+
+  ebayOrders = await import('./ebay-orders');
+  inventorySync = await import('./inventory-sync');
+  channelConnections = await import('./channel-connections');
+  ({ encryptCredentials } = await import('./credential-encryption'));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => stub.close(resolve));
+});
+
+const PRODUCT_A: TestProduct = { id: 'product-a', organizationId: ORG_A, title: 'Vintage Pyrex Mixing Bowl' };
+const PRODUCT_C: TestProduct = { id: 'product-c', organizationId: ORG_A, title: 'Leather Weekender Bag' };
+const PRODUCT_D: TestProduct = { id: 'product-d', organizationId: ORG_A, title: 'Brass Candlestick Pair' };
+const PRODUCT_E: TestProduct = { id: 'product-e', organizationId: ORG_A, title: 'Wool Throw Blanket' };
+
+// Listings the legacy item id fallback can find
+const LISTINGS = [{ externalId: '115587654321', product: PRODUCT_C }];
+
+function connectSellers(...sellers: [organizationId: string, accessToken: string][]) {
+  prisma.channelConnection.findMany.mockResolvedValue(sellers.map(([organizationId, accessToken]) => ({
+    id: `connection-${organizationId}`,
+    organizationId,
+    channel: 'ebay',
+    credentials: encryptCredentials({
+      environment: 'sandbox',
+      accessToken,
+      fulfillmentPolicyId: 'fulfillment',
+      paymentPolicyId: 'payment',
+      returnPolicyId: 'return',
+    }),
+  })));
+}
+
+// An in-memory sync_cursors table
+function useSyncCursors(initial: Record<string, { cursor: string; updatedAt: Date }> = {}) {
+  const cursors = new Map(Object.entries(initial).map(([key, value]) => [key, { key, ...value }]));
+
+  prisma.syncCursor.findUnique.mockImplementation(async ({ where }) => cursors.get(where.key) ?? null);
+  prisma.syncCursor.upsert.mockImplementation(async ({ where, create }) => {
+    cursors.set(where.key, { ...create, updatedAt: new Date() });
+  });
+  prisma.syncCursor.create.mockImplementation(async ({ data }) => {
+    if (cursors.has(data.key)) throw new Error('Unique constraint failed on the fields: (`key`)');
+    cursors.set(data.key, { ...data, updatedAt: new Date() });
+  });
+  prisma.syncCursor.updateMany.mockImplementation(async ({ where, data }) => {
+    const current = cursors.get(where.key);
+    if (!current || !(current.updatedAt < where.updatedAt.lt)) return { count: 0 };
+    cursors.set(where.key, { ...current, ...data, updatedAt: new Date() });
+    return { count: 1 };
+  });
+
+  return cursors;
+}
+
+beforeEach(() => {
+  stubRequests.length = 0;
+  seedProducts(PRODUCT_A, PRODUCT_C, PRODUCT_D, PRODUCT_E);
+  prisma.channelListing.findFirst.mockImplementation(async ({ where }) =>
+    LISTINGS.find(listing =>
+      listing.externalId === where.externalId && listing.product.organizationId === where.product.organizationId
+    ) ?? null
+  );
+  vi.spyOn(inventorySync.inventorySyncService, 'recordSale').mockResolvedValue([]);
+});
+
+describe('pollOrders', () => {
+  it('marks the products of paid orders sold and moves the cursor on', async () => {
+    connectSellers([ORG_A, SELLER_A_TOKEN]);
+    const cursors = useSyncCursors();
+    const [seller] = await channelConnections.channelConnectionService.getEbaySellers();
+
+    const result = await ebayOrders.ebayOrderSyncService.pollOrders(seller);
+
+    expect(result).toMatchObject({ ordersChecked: 3, productIds: ['product-a', 'product-c'], errors: [] });
+    expect(cursors.get(`ebay_orders:${ORG_A}`)?.cursor).toBe(result.cursor);
+    // Two pages of two
+    expect(orderRequests(SELLER_A_TOKEN).map(request => request.query.get('offset'))).toEqual(['0', '2']);
+  });
+
+  it('records the sale price, the share of the fee and where to ship', async () => {
+    connectSellers([ORG_A, SELLER_A_TOKEN]);
+    useSyncCursors();
+    const [seller] = await channelConnections.channelConnectionService.getEbaySellers();
+
+    await ebayOrders.ebayOrderSyncService.pollOrders(seller);
+
+    expect(inventorySync.inventorySyncService.recordSale).toHaveBeenCalledWith('product-a', {
+      channel: 'ebay',
+      orderId: '08-12345-67890',
+      price: 45,
+      soldAt: new Date('2025-03-14T14:21:07.000Z'),
+      fees: 4.05,
+      buyerShipping: expect.objectContaining({
+        username: 'pyrex_collector_88',
+        shippingServiceCode: 'USPSPriority',
+        fullName: 'Pat Buyer',
+      }),
+    });
+    expect(inventorySync.inventorySyncService.recordSale).toHaveBeenCalledWith(
+      'product-c',
+      expect.objectContaining({ price: 25, fees: 2.25 })
+    );
+  });
+
+  it('looks back from the saved cursor', async () => {
+    connectSellers([ORG_A, SELLER_A_TOKEN]);
+    useSyncCursors({ [`ebay_orders:${ORG_A}`]: { cursor: '2025-03-14T12:00:00.000Z', updatedAt: new Date() } });
+    const [seller] = await channelConnections.channelConnectionService.getEbaySellers();
+
+    await ebayOrders.ebayOrderSyncService.pollOrders(seller);
+
+    expect(orderRequests(SELLER_A_TOKEN)[0].query.get('filter')).toBe('lastmodifieddate:[2025-03-14T12:00:00.000Z..]');
+  });
+
+  it('keeps the cursor when an order fails, so the next poll retries it', async () => {
+    connectSellers([ORG_A, SELLER_A_TOKEN]);
+    const cursors = useSyncCursors({ [`ebay_orders:${ORG_A}`]: { cursor: '2025-03-14T12:00:00.000Z', updatedAt: new Date() } });
+    vi.mocked(inventorySync.inventorySyncService.recordSale).mockRejectedValueOnce(new Error('Shopify is not connected'));
+    const [seller] = await channelConnections.channelConnectionService.getEbaySellers();
+
+    const result = await ebayOrders.ebayOrderSyncService.pollOrders(seller);
+
+    expect(result.errors).toEqual(['08-12345-67890: Shopify is not connected']);
+    expect(result.cursor).toBeUndefined();
+    expect(cursors.get(`ebay_orders:${ORG_A}`)?.cursor).toBe('2025-03-14T12:00:00.000Z');
+  });
+});
+
+describe('pollAllSellers', () => {
+  it('matches each seller\'s orders to its own organization\'s products only', async () => {
+    connectSellers([ORG_A, SELLER_A_TOKEN], [ORG_B, SELLER_B_TOKEN]);
+    useSyncCursors();
+
+    const result = await ebayOrders.ebayOrderSyncService.pollAllSellers();
+
+    // Seller B's order carries product-a's id as its SKU, but product-a is not B's
+    expect(result).toMatchObject({ ordersChecked: 4, productIds: ['product-a', 'product-c'], errors: [] });
+    expect(inventorySync.inventorySyncService.recordSale).toHaveBeenCalledTimes(2);
+    expect(orderRequests(SELLER_B_TOKEN)).toHaveLength(1);
+  });
+
+  it('carries on past a seller eBay refuses', async () => {
+    connectSellers([ORG_B, 'v^1.1#revoked'], [ORG_A, SELLER_A_TOKEN]);
+    useSyncCursors();
+
+    const result = await ebayOrders.ebayOrderSyncService.pollAllSellers();
+
+    expect(result.productIds).toEqual(['product-a', 'product-c']);
+    expect(result.errors).toEqual([expect.stringMatching(new RegExp(`^${ORG_B}: eBay API Error: 401`))]);
+  });
+});
+
+describe('notifications', () => {
+  beforeEach(() => {
+    connectSellers([ORG_A, SELLER_A_TOKEN]);
+  });
+
+  it('verifies a notification signed with eBay\'s key', async () => {
+    const service = new ebayOrders.EbayOrderSyncService();
+
+    expect(await service.verifyNotification(DELETION_BODY, signatureHeader(DELETION_BODY))).toBe(true);
+    expect(await service.verifyNotification(ORDER_NOTIFICATION_BODY, signatureHeader(ORDER_NOTIFICATION_BODY))).toBe(true);
+    // Fetched with the application token, once per key
+    const keyRequests = stubRequests.filter(request => request.path.startsWith('/commerce/notification/v1/public_key/'));
+    expect(keyRequests).toEqual([expect.objectContaining({ authorization: 'Bearer v^1.1#application' })]);
+  });
+
+  it('rejects a changed body, another signature and a malformed header', async () => {
+    const service = new ebayOrders.EbayOrderSyncService();
+    const tampered = DELETION_BODY.replace('pyrex_collector_88', 'someone_else');
+
+    expect(await service.verifyNotification(tampered, signatureHeader(DELETION_BODY))).toBe(false);
+    expect(await service.verifyNotification(DELETION_BODY, signatureHeader(ORDER_NOTIFICATION_BODY))).toBe(false);
+    expect(await service.verifyNotification(DELETION_BODY, null)).toBe(false);
+    expect(await service.verifyNotification(DELETION_BODY, 'not base64 json')).toBe(false);
+  });
+
+  it('forgets a deleted buyer without polling', async () => {
+    useSyncCursors();
+
+    const result = await ebayOrders.ebayOrderSyncService.handleNotification(JSON.parse(DELETION_BODY));
+
+    expect(result).toEqual({ topic: 'MARKETPLACE_ACCOUNT_DELETION', productIds: [] });
+    expect(prisma.product.updateMany).toHaveBeenCalledWith({
+      where: { soldChannel: 'ebay', buyerShipping: { contains: '"username":"pyrex_collector_88"' } },
+      data: { buyerShipping: null },
+    });
+    expect(orderRequests()).toHaveLength(0);
+  });
+
+  it('polls the sellers once for a burst of order notifications', async () => {
+    useSyncCursors();
+    const payload = JSON.parse(ORDER_NOTIFICATION_BODY);
+
+    const first = await ebayOrders.ebayOrderSyncService.handleNotification(payload);
+    const second = await ebayOrders.ebayOrderSyncService.handleNotification(payload);
+
+    expect(first).toEqual({ topic: 'ITEM_SOLD', productIds: ['product-a', 'product-c'] });
+    expect(second).toEqual({ topic: 'ITEM_SOLD', productIds: [] });
+    expect(orderRequests(SELLER_A_TOKEN)).toHaveLength(2);
+  });
+
+  it('polls again once the last poll is old enough', async () => {
+    useSyncCursors({
+      'ebay_orders:sellers_poll': { cursor: '2025-03-14T12:00:00.000Z', updatedAt: new Date(Date.now() - 5 * 60 * 1000) },
+    });
+
+    const result = await ebayOrders.ebayOrderSyncService.handleNotification(JSON.parse(ORDER_NOTIFICATION_BODY));
+
+    expect(result.productIds).toEqual(['product-a', 'product-c']);
+  });
+});
+
+describe('pollAllSellersIfDue', () => {
+  beforeEach(() => {
+    connectSellers([ORG_A, SELLER_A_TOKEN]);
+  });
+
+  it('skips a poll while the last one is recent', async () => {
+    useSyncCursors({ 'ebay_orders:sellers_poll': { cursor: '2025-03-14T12:00:00.000Z', updatedAt: new Date() } });
+
+    expect(await ebayOrders.ebayOrderSyncService.pollAllSellersIfDue()).toBeNull();
+    expect(orderRequests()).toHaveLength(0);
+  });
+
+  it('picks up a sale whose notification arrived during the last poll', async () => {
+    const cursors = useSyncCursors();
+    const payload = JSON.parse(ORDER_NOTIFICATION_BODY);
+    await ebayOrders.ebayOrderSyncService.handleNotification(payload);
+    await ebayOrders.ebayOrderSyncService.handleNotification(payload);
+
+    // The worker's next housekeeping tick, once the window has passed
+    const lastPoll = cursors.get('ebay_orders:sellers_poll')!;
+    cursors.set('ebay_orders:sellers_poll', { ...lastPoll, updatedAt: new Date(Date.now() - 3 * 60 * 1000) });
+    const result = await ebayOrders.ebayOrderSyncService.pollAllSellersIfDue();
+
+    expect(result?.productIds).toEqual(['product-a', 'product-c']);
+    expect(orderRequests(SELLER_A_TOKEN)).toHaveLength(4);
+  });
+});
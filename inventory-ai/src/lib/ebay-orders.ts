@@ -0,0 +1,317 @@
+import { createHash, createPublicKey, verify, type KeyObject } from 'crypto';
+import type { Product } from '@prisma/client';
+import { prisma } from './prisma';
+import { ebayApi, type EbayApiService, type EbayOrder, type EbayOrderLineItem } from './ebay-api';
+import { inventorySyncService } from './inventory-sync';
+import { channelConnectionService, type EbaySeller } from './channel-connections';
+
+// Each seller account is polled from its own cursor
+function getOrdersCursorKey(organizationId: string): string {
+  return `ebay_orders:${organizationId}`;
+}
+
+// How far back the first poll looks when no cursor has been saved yet
+const INITIAL_LOOKBACK_DAYS = 7;
+
+// Notifications do not say which seller they are for, so each one polls every
+// seller - at most once in this window, however many arrive. The job worker
+// polls on the same window, which picks up sales whose notification landed
+// during the last poll or never came.
+const SELLERS_POLL_KEY = 'ebay_orders:sellers_poll';
+const SELLERS_POLL_INTERVAL_MS = 2 * 60 * 1000;
+
+// The decoded X-EBAY-SIGNATURE header
+interface EbayNotificationSignature {
+  alg?: string;
+  kid?: string;
+  signature?: string;
+  digest?: string;
+}
+
+export interface EbayNotification {
+  metadata?: { topic?: string; schemaVersion?: string };
+  notification?: {
+    notificationId?: string;
+    eventDate?: string;
+    data?: {
+      orderId?: string;
+      username?: string;
+      userId?: string;
+    };
+  };
+}
+
+export interface EbayOrderSyncResult {
+  ordersChecked: number;
+  productIds: string[];
+  errors: string[];
+  cursor?: string;
+}
+
+export class EbayOrderSyncService {
+  // Signing keys by id - eBay rotates them rarely, so they are kept for the process
+  private publicKeys = new Map<string, { key: KeyObject; digest: string }>();
+
+  // Public keys are fetched with the deployment's own application token
+  constructor(private researchApi: EbayApiService = ebayApi) {}
+
+  /**
+   * Fetch the seller's orders modified since its saved cursor and mark their
+   * products sold. The cursor only moves forward when every order was handled,
+   * so a failed poll is retried from the same point next time.
+   */
+  async pollOrders(seller: EbaySeller): Promise<EbayOrderSyncResult> {
+    const cursorKey = getOrdersCursorKey(seller.organizationId);
+    const saved = await prisma.syncCursor.findUnique({ where: { key: cursorKey } });
+    const modifiedSince = saved
+      ? new Date(saved.cursor)
+      : new Date(Date.now() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const startedAt = new Date();
+
+    const result: EbayOrderSyncResult = { ordersChecked: 0, productIds: [], errors: [] };
+    let offset = 0;
+    let total = 0;
+
+    do {
+      const page = await seller.api.getOrders({ modifiedSince, offset, limit: 50 });
+      total = page.total;
+      offset += page.orders.length;
+
+      for (const order of page.orders) {
+        result.ordersChecked++;
+        try {
+          result.productIds.push(...await this.handleOrder(order, seller.organizationId));
+        } catch (error) {
+          console.error(`Error handling eBay order ${order.orderId}:`, error);
+          result.errors.push(`${order.orderId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (page.orders.length === 0) break;
+    } while (offset < total);
+
+    if (result.errors.length === 0) {
+      const cursor = startedAt.toISOString();
+      await prisma.syncCursor.upsert({
+        where: { key: cursorKey },
+        create: { key: cursorKey, cursor },
+        update: { cursor },
+      });
+      result.cursor = cursor;
+    }
+
+    return result;
+  }
+
+  /**
+   * Poll every connected seller account. One account failing does not stop
+   * the others.
+   */
+  async pollAllSellers(): Promise<EbayOrderSyncResult> {
+    const result: EbayOrderSyncResult = { ordersChecked: 0, productIds: [], errors: [] };
+
+    for (const seller of await channelConnectionService.getEbaySellers()) {
+      try {
+        const sellerResult = await this.pollOrders(seller);
+        result.ordersChecked += sellerResult.ordersChecked;
+        result.productIds.push(...sellerResult.productIds);
+        result.errors.push(...sellerResult.errors);
+      } catch (error) {
+        console.error(`Error polling eBay orders for organization ${seller.organizationId}:`, error);
+        result.errors.push(`${seller.organizationId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Poll every seller account unless that happened within
+   * SELLERS_POLL_INTERVAL_MS - across all servers. Returns null when it was
+   * not due.
+   */
+  async pollAllSellersIfDue(): Promise<EbayOrderSyncResult | null> {
+    if (!await this.claimSellersPoll()) {
+      return null;
+    }
+    return this.pollAllSellers();
+  }
+
+  /**
+   * Mark the products in a paid order sold, recording the sale price, our
+   * share of the marketplace fee and where the buyer wants it shipped. Only
+   * the seller's own organization's products can match.
+   */
+  async handleOrder(order: EbayOrder, organizationId: string): Promise<string[]> {
+    if (order.cancelStatus?.cancelState === 'CANCELED' || order.orderPaymentStatus !== 'PAID') {
+      return [];
+    }
+
+    const subtotal = order.lineItems.reduce((sum, item) => sum + Number(item.lineItemCost.value), 0);
+    const totalFee = Number(order.totalMarketplaceFee?.value || 0);
+    const shipping = order.fulfillmentStartInstructions?.[0]?.shippingStep;
+    const productIds: string[] = [];
+
+    for (const lineItem of order.lineItems) {
+      const product = await this.findProduct(organizationId, lineItem);
+      if (!product) continue;
+
+      const lineCost = Number(lineItem.lineItemCost.value);
+
+      await inventorySyncService.recordSale(product.id, {
+        channel: 'ebay',
+        orderId: order.orderId,
+        price: lineCost / Math.max(lineItem.quantity, 1),
+        soldAt: new Date(order.creationDate),
+        fees: subtotal > 0 ? Math.round(totalFee * (lineCost / subtotal) * 100) / 100 : undefined,
+        buyerShipping: {
+          username: order.buyer?.username,
+          shippingServiceCode: shipping?.shippingServiceCode,
+          ...shipping?.shipTo,
+        },
+      });
+      productIds.push(product.id);
+    }
+
+    return productIds;
+  }
+
+  /**
+   * Check a notification's X-EBAY-SIGNATURE header - an ECDSA signature of
+   * the raw body by one of eBay's Notification API keys
+   */
+  async verifyNotification(rawBody: string, signatureHeader: string | null): Promise<boolean> {
+    if (!signatureHeader) return false;
+
+    let signature: EbayNotificationSignature;
+    try {
+      signature = JSON.parse(Buffer.from(signatureHeader, 'base64').toString('utf8'));
+    } catch {
+      return false;
+    }
+    if (!signature.kid || !signature.signature) return false;
+
+    const publicKey = await this.getPublicKey(signature.kid);
+    try {
+      return verify(
+        publicKey.digest,
+        Buffer.from(rawBody, 'utf8'),
+        publicKey.key,
+        Buffer.from(signature.signature, 'base64')
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Handle a verified push from eBay's Notification API. Order payloads are
+   * only used as a hint - the orders themselves are always re-read from the
+   * Fulfillment API. A notification does not say which of our seller accounts
+   * it is for, so every account is polled, no more often than
+   * SELLERS_POLL_INTERVAL_MS. One arriving sooner is covered by the job
+   * worker's next scheduled poll.
+   */
+  async handleNotification(payload: EbayNotification): Promise<{ topic: string; productIds: string[] }> {
+    const topic = payload.metadata?.topic || 'UNKNOWN';
+    const data = payload.notification?.data;
+
+    if (topic === 'MARKETPLACE_ACCOUNT_DELETION') {
+      if (data?.username) {
+        await this.forgetBuyer(data.username);
+      }
+      return { topic, productIds: [] };
+    }
+
+    const result = await this.pollAllSellersIfDue();
+    return { topic, productIds: result?.productIds || [] };
+  }
+
+  /**
+   * Answer eBay's endpoint validation challenge
+   */
+  getChallengeResponse(challengeCode: string): string | null {
+    const verificationToken = process.env.EBAY_NOTIFICATION_VERIFICATION_TOKEN;
+    const endpoint = process.env.EBAY_NOTIFICATION_ENDPOINT;
+    if (!verificationToken || !endpoint) return null;
+
+    return createHash('sha256')
+      .update(challengeCode)
+      .update(verificationToken)
+      .update(endpoint)
+      .digest('hex');
+  }
+
+  // Record that a poll of every seller is starting, unless one already ran recently
+  private async claimSellersPoll(): Promise<boolean> {
+    const now = new Date();
+    const { count } = await prisma.syncCursor.updateMany({
+      where: {
+        key: SELLERS_POLL_KEY,
+        updatedAt: { lt: new Date(now.getTime() - SELLERS_POLL_INTERVAL_MS) },
+      },
+      data: { cursor: now.toISOString() },
+    });
+    if (count > 0) return true;
+
+    const existing = await prisma.syncCursor.findUnique({ where: { key: SELLERS_POLL_KEY } });
+    if (existing) return false;
+
+    try {
+      await prisma.syncCursor.create({ data: { key: SELLERS_POLL_KEY, cursor: now.toISOString() } });
+      return true;
+    } catch {
+      // Another notification created it first
+      return false;
+    }
+  }
+
+  private async getPublicKey(publicKeyId: string): Promise<{ key: KeyObject; digest: string }> {
+    const cached = this.publicKeys.get(publicKeyId);
+    if (cached) return cached;
+
+    const response = await this.researchApi.getNotificationPublicKey(publicKeyId);
+    // The key comes as PEM without line breaks, so decode the DER body directly
+    const der = response.key
+      .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+      .replace(/\s+/g, '');
+
+    const publicKey = {
+      key: createPublicKey({ key: Buffer.from(der, 'base64'), format: 'der', type: 'spki' }),
+      digest: (response.digest || 'SHA1').toLowerCase(),
+    };
+    this.publicKeys.set(publicKeyId, publicKey);
+    return publicKey;
+  }
+
+  // Line items carry our product id as the SKU; fall back to the listing id
+  private async findProduct(organizationId: string, lineItem: EbayOrderLineItem): Promise<Product | null> {
+    if (lineItem.sku) {
+      const product = await prisma.product.findFirst({ where: { id: lineItem.sku, organizationId } });
+      if (product) return product;
+    }
+
+    if (lineItem.legacyItemId) {
+      const listing = await prisma.channelListing.findFirst({
+        where: { channel: 'ebay', externalId: lineItem.legacyItemId, product: { organizationId } },
+        include: { product: true },
+      });
+      return listing?.product || null;
+    }
+
+    return null;
+  }
+
+  // eBay requires buyer data to be removed when the buyer deletes their account
+  private async forgetBuyer(username: string): Promise<void> {
+    await prisma.product.updateMany({
+      where: {
+        soldChannel: 'ebay',
+        buyerShipping: { contains: `"username":${JSON.stringify(username)}` },
+      },
+      data: { buyerShipping: null },
+    });
+  }
+}
+
+export const ebayOrderSyncService = new EbayOrderSyncService();
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { apifyService, type MarketData } from './apify';
+import { enhancedAIService } from './enhanced-ai';
+import type { AnalysisProgressEvent } from './analysis-progress';
+
+vi.hoisted(() => {
+  process.env.AI_PROVIDER = 'fake';
+});
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+function soldListing(title: string, price: number) {
+  return {
+    title,
+    price,
+    condition: 'Used',
+    url: `https://www.ebay.com/itm/${price}`,
+    seller: 'seller',
+    soldDate: '2026-09-01',
+    isSold: true,
+  };
+}
+
+const marketData: MarketData = {
+  ebay: [
+    soldListing('Sample Brand SP-100 Sample Product', 24),
+    soldListing('Sample Brand SP-100', 26),
+    soldListing('Sample Product SP-100 used', 28),
+  ],
+  googleShopping: [],
+  summary: { totalListings: 3, soldListings: 3, averagePrice: 26, priceRange: { min: 24, max: 28 }, platforms: ['eBay'] },
+};
+
+describe('analyzeProduct offline', () => {
+  it('runs every step on the fake provider and saves the validated analysis', async () => {
+    // Only the first of the canned search queries finds anything
+    vi.spyOn(apifyService, 'getMarketData').mockImplementation(async query =>
+      query === 'Sample Brand SP-100'
+        ? marketData
+        : { ebay: [], googleShopping: [], summary: { ...marketData.summary, totalListings: 0, soldListings: 0 } }
+    );
+    const events: AnalysisProgressEvent[] = [];
+
+    const analysis = await enhancedAIService.analyzeProduct(
+      'https://example.com/item.jpg',
+      'product-a',
+      'user-1',
+      undefined,
+      event => {
+        events.push(event);
+      }
+    );
+
+    expect(analysis.identification).toMatchObject({ title: 'Sample Product', brand: 'Sample Brand', model: 'SP-100' });
+    expect(analysis.enhancement.optimizedTitle).toBe('Sample Brand SP-100 Sample Product');
+    expect(analysis.marketAnalysis).toMatchObject({ recommendedPrice: 25, averagePrice: 26, totalComparables: 3 });
+    expect(analysis.comparableListings).toHaveLength(3);
+    expect(events.filter(event => event.status === 'completed').map(event => event.step)).toEqual([
+      'vision', 'search_queries', 'market_data', 'enhancement', 'pricing', 'comparables', 'insights', 'store',
+    ]);
+    expect(prisma.product.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'product-a' },
+      data: expect.objectContaining({ recommendedPrice: 25, status: 'ready' }),
+    }));
+  });
+});
@@ -1,11 +1,23 @@
-import OpenAI from 'openai';
-import { geminiService } from './gemini';
-import { apifyService } from './apify';
+import { aiProviders } from './ai-providers';
+import {
+  searchQueriesSchema,
+  geminiAnalysisSchema,
+  priceAnalysisSchema,
+  marketAnalysisSchema,
+  type ProductIdentification,
+} from './ai-schemas';
+import {
+  buildSearchQueriesPrompt,
+  buildProductAnalysisPrompt,
+  buildPricingPrompt,
+  buildMarketAnalysisPrompt,
+} from './ai-prompts';
+import { apifyService, type MarketData, type MarketDataPlatform } from './apify';
+import { summarizeComps } from './comps';
+import { compPricingEngine, type CompPriceEstimate } from './comp-pricing';
+import { CacheStats, type CacheReport } from './response-cache';
 import { prisma } from './prisma';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import type { AnalysisProgressEvent, AnalysisProgressListener } from './analysis-progress';
 
 export interface EnhancedProductAnalysis {
   identification: {
@@ -43,6 +55,8 @@ export interface EnhancedProductAnalysis {
     marketPosition: string;
     competitiveAnalysis: string;
     totalComparables: number;
+    // Statistical price from the comparables, to check the AI's against
+    compEstimate: CompPriceEstimate;
   };
   comparableListings: Array<{
     platform: string;
@@ -59,6 +73,21 @@ export interface EnhancedProductAnalysis {
     marketTrends: string[];
     riskFactors: string[];
   };
+  // Scrapes and AI answers served from the cache versus paid for
+  cache: CacheReport;
+}
+
+const PLATFORM_NAMES: Record<MarketDataPlatform, string> = {
+  ebay: 'eBay',
+  ebay_sold: 'eBay sold',
+  google_shopping: 'Google Shopping',
+};
+
+// Comparable dates arrive as strings in whatever format the source uses
+function parseListingDate(value?: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
 }
 
 export class EnhancedAIService {
@@ -74,59 +103,107 @@ export class EnhancedAIService {
       userDescription?: string;
       userCategory?: string;
       condition?: string;
-    }
+    },
+    // Told as each step starts, progresses and finishes
+    onProgress?: AnalysisProgressListener
   ): Promise<EnhancedProductAnalysis> {
+    const report = async (event: AnalysisProgressEvent) => {
+      try {
+        await onProgress?.(event);
+      } catch (error) {
+        // Progress reporting must never break the analysis itself
+        console.error('Error reporting analysis progress:', error);
+      }
+    };
+
+    const cacheStats = new CacheStats();
+
     try {
-      // Step 1: OpenAI Vision for initial identification
-      console.log('Step 1: Analyzing image with OpenAI Vision...');
-      const visionAnalysis = await this.analyzeImageWithVision(imageUrl, additionalContext);
+      // Step 1: Identify the product from its image
+      console.log('Step 1: Identifying product from image...');
+      await report({ step: 'vision', status: 'started' });
+      const visionAnalysis = await aiProviders.identifyProduct(imageUrl, additionalContext, cacheStats);
+      await report({
+        step: 'vision',
+        status: 'completed',
+        message: `Identified ${[visionAnalysis.brand, visionAnalysis.title].filter(Boolean).join(' ') || 'product'}`,
+      });
 
       // Step 2: Generate optimized search queries
       console.log('Step 2: Generating search queries...');
-      const searchQueries = await geminiService.generateSearchQueries(visionAnalysis, 3);
+      await report({ step: 'search_queries', status: 'started' });
+      const searchQueries = await this.generateSearchQueries(visionAnalysis, 3, cacheStats);
+      await report({
+        step: 'search_queries',
+        status: 'completed',
+        message: `Generated ${searchQueries.length} search queries`,
+        counts: { queries: searchQueries.length },
+      });
 
       // Step 3: Scrape market data from multiple platforms
       console.log('Step 3: Scraping market data...');
+      await report({ step: 'market_data', status: 'started' });
       const marketDataPromises = searchQueries.map(query => 
-        apifyService.getMarketData(query, { maxItemsPerPlatform: 10 })
+        apifyService.getMarketData(query, {
+          maxItemsPerPlatform: 10,
+          cacheStats,
+          onPlatformComplete: ({ platform, count, error }) => {
+            const platformName = PLATFORM_NAMES[platform];
+            void report({
+              step: 'market_data',
+              status: 'progress',
+              message: error
+                ? `${platformName} scrape failed for "${query}": ${error}`
+                : `${platformName}: ${count} listings for "${query}"`,
+              counts: { [platform]: count },
+            });
+          },
+        })
       );
       const marketDataResults = await Promise.allSettled(marketDataPromises);
       
       // Combine successful results
-      const combinedMarketData: {
-        ebay: any[];
-        googleShopping: any[];
-        summary: { totalListings: number; averagePrice: number; priceRange: { min: number; max: number }; platforms: string[] };
-      } = {
+      const combinedMarketData: MarketData = {
         ebay: [],
         googleShopping: [],
-        summary: { totalListings: 0, averagePrice: 0, priceRange: { min: 0, max: 0 }, platforms: [] }
+        summary: { totalListings: 0, soldListings: 0, averagePrice: 0, priceRange: { min: 0, max: 0 }, platforms: [] }
       };
 
       marketDataResults.forEach(result => {
         if (result.status === 'fulfilled') {
           combinedMarketData.ebay.push(...result.value.ebay);
           combinedMarketData.googleShopping.push(...result.value.googleShopping);
+          combinedMarketData.summary.platforms.push(
+            ...result.value.summary.platforms.filter(name => !combinedMarketData.summary.platforms.includes(name))
+          );
         }
       });
 
-      // Recalculate summary
-      const allPrices = [
-        ...combinedMarketData.ebay.map((item: any) => item.price).filter((p: number) => p > 0),
-        ...combinedMarketData.googleShopping.map((item: any) => item.price).filter((p: number) => p > 0)
-      ];
+      // Recalculate summary, weighting sold listings above asking prices
+      const compSummary = summarizeComps([...combinedMarketData.ebay, ...combinedMarketData.googleShopping]);
+      combinedMarketData.summary = {
+        ...combinedMarketData.summary,
+        totalListings: compSummary.totalListings,
+        soldListings: compSummary.soldListings,
+        averagePrice: compSummary.averagePrice,
+        priceRange: compSummary.priceRange,
+      };
 
-      if (allPrices.length > 0) {
-        combinedMarketData.summary = {
-          totalListings: allPrices.length,
-          averagePrice: allPrices.reduce((sum, price) => sum + price, 0) / allPrices.length,
-          priceRange: { min: Math.min(...allPrices), max: Math.max(...allPrices) },
-          platforms: ['eBay', 'Google Shopping']
-        };
-      }
+      const ebaySoldCount = combinedMarketData.ebay.filter(item => item.isSold).length;
+      await report({
+        step: 'market_data',
+        status: 'completed',
+        message: `Collected ${combinedMarketData.ebay.length - ebaySoldCount} active and ${ebaySoldCount} sold eBay listings and ${combinedMarketData.googleShopping.length} Google Shopping listings`,
+        counts: {
+          ebay: combinedMarketData.ebay.length - ebaySoldCount,
+          ebay_sold: ebaySoldCount,
+          google_shopping: combinedMarketData.googleShopping.length,
+        },
+      });
 
-      // Step 4: Enhanced product analysis with Gemini
-      console.log('Step 4: Enhancing product data with Gemini...');
+      // Step 4: Enhanced product analysis
+      console.log('Step 4: Enhancing product data...');
+      await report({ step: 'enhancement', status: 'started' });
       const productData = {
         title: additionalContext?.userTitle || visionAnalysis.title,
         description: additionalContext?.userDescription,
@@ -136,31 +213,64 @@ export class EnhancedAIService {
         aiIdentification: visionAnalysis
       };
 
-      const geminiAnalysis = await geminiService.analyzeProduct(productData, combinedMarketData);
+      const geminiAnalysis = await aiProviders.generateJson({
+        task: 'enhancement',
+        prompt: buildProductAnalysisPrompt(productData, combinedMarketData),
+        schema: geminiAnalysisSchema,
+        grounded: true,
+        cacheStats,
+      });
+      await report({ step: 'enhancement', status: 'completed', message: 'Title, description and tags written' });
 
       // Step 5: Price analysis
       console.log('Step 5: Analyzing pricing...');
-      const priceAnalysis = await geminiService.analyzePricing(productData, combinedMarketData);
+      await report({ step: 'pricing', status: 'started' });
+      const priceAnalysis = await aiProviders.generateJson({
+        task: 'pricing',
+        prompt: buildPricingPrompt(productData, combinedMarketData),
+        schema: priceAnalysisSchema,
+        grounded: true,
+        cacheStats,
+      });
+      await report({
+        step: 'pricing',
+        status: 'completed',
+        message: `Recommended price $${Number(priceAnalysis.recommendedPrice || 0).toFixed(2)}`,
+      });
 
       // Step 6: Calculate similarity scores and create comparable listings
       console.log('Step 6: Processing comparable listings...');
+      await report({ step: 'comparables', status: 'started' });
       const comparableListings = await this.processComparableListings(
         productId,
         visionAnalysis.title || geminiAnalysis.title,
         combinedMarketData
       );
+      await report({
+        step: 'comparables',
+        status: 'completed',
+        message: `Matched ${comparableListings.length} comparable listings`,
+        counts: { comparables: comparableListings.length },
+      });
+      const compEstimate = compPricingEngine.estimate(
+        { title: productData.title, condition: productData.condition },
+        comparableListings
+      );
 
       // Step 7: Compile comprehensive market analysis
       console.log('Step 7: Compiling market insights...');
-      const marketInsights = await geminiService.compileMarketAnalysis(
-        productData,
-        visionAnalysis,
-        combinedMarketData,
-        comparableListings
-      );
+      await report({ step: 'insights', status: 'started' });
+      const marketInsights = await aiProviders.generateJson({
+        task: 'insights',
+        prompt: buildMarketAnalysisPrompt(productData, visionAnalysis, combinedMarketData, comparableListings),
+        schema: marketAnalysisSchema,
+        cacheStats,
+      });
+      await report({ step: 'insights', status: 'completed', message: 'Market insights compiled' });
 
       // Step 8: Store all data in database
       console.log('Step 8: Storing analysis data...');
+      await report({ step: 'store', status: 'started' });
       await this.storeAnalysisData(productId, {
         visionAnalysis,
         geminiAnalysis,
@@ -169,6 +279,14 @@ export class EnhancedAIService {
         marketInsights,
         comparableListings
       });
+      const cache = cacheStats.report();
+      console.log(`Cache: ${cache.hits} hits, ${cache.misses} misses, ${cache.shared} shared`, cache.sources);
+      await report({
+        step: 'store',
+        status: 'completed',
+        message: `Analysis saved - ${cache.hits + cache.shared} cached responses reused, ${cache.misses} fetched`,
+        counts: { cache_hits: cache.hits, cache_misses: cache.misses, cache_shared: cache.shared },
+      });
 
       // Return comprehensive analysis
       return {
@@ -176,21 +294,21 @@ export class EnhancedAIService {
           title: visionAnalysis.title || geminiAnalysis.title,
           category: visionAnalysis.category || geminiAnalysis.category,
           brand: visionAnalysis.brand || 'Unknown',
-          model: visionAnalysis.model || '',
-          colors: visionAnalysis.colors || [],
-          size: visionAnalysis.size || '',
-          material: visionAnalysis.material || '',
-          condition: visionAnalysis.condition || {
-            grade: additionalContext?.condition || 'used',
-            indicators: [],
-            score: 0.7
+          model: visionAnalysis.model,
+          colors: visionAnalysis.colors,
+          size: visionAnalysis.size,
+          material: visionAnalysis.material,
+          condition: {
+            grade: visionAnalysis.condition.grade || additionalContext?.condition || 'used',
+            indicators: visionAnalysis.condition.indicators,
+            score: visionAnalysis.condition.score
           },
-          authenticity: visionAnalysis.authenticity || {
-            markers: [],
-            confidence: 0.5
+          authenticity: {
+            markers: visionAnalysis.authenticity.markers,
+            confidence: visionAnalysis.authenticity.confidence
           },
-          keyFeatures: geminiAnalysis.keyFeatures || [],
-          confidence: visionAnalysis.confidence || 0.8
+          keyFeatures: geminiAnalysis.keyFeatures,
+          confidence: visionAnalysis.confidence
         },
         enhancement: {
           optimizedTitle: geminiAnalysis.title,
@@ -206,7 +324,8 @@ export class EnhancedAIService {
           recommendedPrice: priceAnalysis.recommendedPrice,
           marketPosition: priceAnalysis.marketPosition,
           competitiveAnalysis: priceAnalysis.competitiveAnalysis,
-          totalComparables: combinedMarketData.summary.totalListings
+          totalComparables: combinedMarketData.summary.totalListings,
+          compEstimate
         },
         comparableListings: comparableListings.slice(0, 10), // Top 10 most similar
         insights: {
@@ -214,89 +333,39 @@ export class EnhancedAIService {
           recommendations: marketInsights.recommendations,
           marketTrends: marketInsights.marketTrends,
           riskFactors: marketInsights.riskFactors
-        }
+        },
+        cache
       };
 
     } catch (error) {
       console.error('Error in enhanced AI analysis:', error);
-      throw new Error('Failed to complete enhanced AI analysis');
+      throw new Error(
+        `Failed to complete enhanced AI analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
     }
   }
 
   /**
-   * Analyze image using OpenAI Vision
+   * Generate marketplace search queries, falling back to the identified
+   * brand and title when no provider can
    */
-  private async analyzeImageWithVision(imageUrl: string, context?: any): Promise<any> {
-    const prompt = `Analyze this product image and provide comprehensive identification information. 
-
-${context ? `Additional context: ${JSON.stringify(context)}` : ''}
-
-Please identify:
-1. Product title/name
-2. Brand (if visible)
-3. Model number (if visible)
-4. Category/type
-5. Color(s) - primary and secondary colors
-6. Size/dimensions (if determinable)
-7. Material/construction
-8. Key features and characteristics
-9. Condition assessment with specific indicators:
-   - New in Package (NIB): Sealed packaging, pristine condition
-   - New: No packaging but unused, no wear
-   - Like New: Minimal to no signs of use
-   - Good: Light wear, fully functional
-   - Acceptable: Moderate wear, may have cosmetic issues
-10. Authenticity markers (logos, serial numbers, quality indicators)
-11. Notable details or unique identifiers
-
-Respond in JSON format:
-{
-  "title": "Product name",
-  "brand": "Brand name",
-  "model": "Model number",
-  "category": "Product category",
-  "colors": ["primary color", "secondary color"],
-  "size": "size/dimensions",
-  "material": "material type",
-  "features": ["feature1", "feature2"],
-  "condition": {
-    "grade": "condition grade",
-    "indicators": ["wear pattern 1", "condition indicator 2"],
-    "score": 0.85
-  },
-  "authenticity": {
-    "markers": ["logo quality", "serial number"],
-    "confidence": 0.9
-  },
-  "confidence": 0.95,
-  "details": "Additional observations"
-}`;
-
+  private async generateSearchQueries(
+    identification: ProductIdentification,
+    maxQueries: number,
+    cacheStats: CacheStats
+  ): Promise<string[]> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              { type: "image_url", image_url: { url: imageUrl } }
-            ]
-          }
-        ],
-        max_tokens: 1000
+      const queries = await aiProviders.generateJson({
+        task: 'search_queries',
+        prompt: buildSearchQueriesPrompt(identification, maxQueries),
+        schema: searchQueriesSchema,
+        cacheStats,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error('No response from OpenAI Vision');
-
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No valid JSON in response');
-
-      return JSON.parse(jsonMatch[0]);
+      return queries.slice(0, maxQueries);
     } catch (error) {
-      console.error('Error with OpenAI Vision:', error);
-      throw error;
+      console.error('Error generating search queries:', error);
+      return [[identification.brand, identification.model, identification.title].filter(Boolean).join(' ')];
     }
   }
 
@@ -324,6 +393,8 @@ Respond in JSON format:
         imageUrl: item.imageUrl,
         shipping: item.shipping,
         location: item.location,
+        listingDate: item.listingDate,
+        soldDate: item.soldDate,
         isSold: item.isSold
       });
     }
@@ -337,6 +408,8 @@ Respond in JSON format:
         price: item.price,
         url: item.url,
         similarity,
+        // Google Shopping lists retail stock
+        condition: 'new',
         seller: item.seller,
         imageUrl: item.imageUrl,
         shipping: item.shipping,
@@ -363,6 +436,8 @@ Respond in JSON format:
             shipping: comparable.shipping,
             location: comparable.location,
             similarity: comparable.similarity,
+            listingDate: parseListingDate(comparable.listingDate),
+            soldDate: parseListingDate(comparable.soldDate),
             isSold: comparable.isSold || false
           }
         });
@@ -1,4 +1,6 @@
 import { ApifyClient } from 'apify-client'
+import { responseCache, CACHE_TTL_MS, type CacheStats } from './response-cache'
+import { usageService, estimateApifyCost } from './usage'
 
 const apify = new ApifyClient({
   token: process.env.APIFY_API_TOKEN,
@@ -35,7 +37,34 @@ export interface FacebookMarketplaceSearchParams {
 export class FacebookMarketplaceService {
   private static readonly ACTOR_ID = 'dtrungtin/facebook-marketplace-scraper'
   
-  async searchListings(params: FacebookMarketplaceSearchParams): Promise<FacebookMarketplaceListing[]> {
+  /**
+   * Search listings, served from the cache when the same search ran recently.
+   * Facebook data is optional, so the search is skipped once the user's
+   * usage budget is spent.
+   */
+  async searchListings(
+    params: FacebookMarketplaceSearchParams,
+    cacheStats?: CacheStats
+  ): Promise<FacebookMarketplaceListing[]> {
+    if (await usageService.shouldDegrade()) {
+      console.log('Usage budget reached - skipping Facebook Marketplace search')
+      return []
+    }
+
+    const { query, ...options } = params
+    return responseCache.getOrLoad(
+      {
+        platform: 'facebook_marketplace',
+        query,
+        options,
+        ttlMs: CACHE_TTL_MS.facebook_marketplace,
+        stats: cacheStats,
+      },
+      () => this.runSearch(params)
+    )
+  }
+
+  private async runSearch(params: FacebookMarketplaceSearchParams): Promise<FacebookMarketplaceListing[]> {
     try {
       console.log('Starting Facebook Marketplace search with params:', params)
       
@@ -55,6 +84,13 @@ export class FacebookMarketplaceService {
       }
 
       const run = await apify.actor(FacebookMarketplaceService.ACTOR_ID).call(input)
+      await usageService.record({
+        provider: 'apify',
+        operation: 'facebook_marketplace_scrape',
+        model: FacebookMarketplaceService.ACTOR_ID,
+        computeUnits: run.stats?.computeUnits,
+        costUsd: estimateApifyCost(run)
+      })
       
       if (!run.defaultDatasetId) {
         throw new Error('No dataset returned from Facebook Marketplace scraper')
@@ -85,7 +121,12 @@ export class FacebookMarketplaceService {
     }
   }
 
-  async getMarketAnalysis(productTitle: string, category?: string, condition?: string): Promise<{
+  async getMarketAnalysis(
+    productTitle: string,
+    category?: string,
+    condition?: string,
+    cacheStats?: CacheStats
+  ): Promise<{
     averagePrice: number
     priceRange: { min: number; max: number }
     totalListings: number
@@ -102,7 +143,7 @@ export class FacebookMarketplaceService {
         sortBy: 'creation_time_descend'
       }
 
-      const listings = await this.searchListings(searchParams)
+      const listings = await this.searchListings(searchParams, cacheStats)
       
       if (listings.length === 0) {
         return {
@@ -169,7 +210,8 @@ export class FacebookMarketplaceService {
     productTitle: string, 
     brand?: string, 
     model?: string, 
-    category?: string
+    category?: string,
+    cacheStats?: CacheStats
   ): Promise<FacebookMarketplaceListing[]> {
     try {
       // Create multiple search queries for better coverage
@@ -188,7 +230,7 @@ export class FacebookMarketplaceService {
             query,
             category,
             maxResults: 25
-          })
+          }, cacheStats)
           allListings.push(...listings)
         } catch (error) {
           console.warn(`Failed to search for query "${query}":`, error)
@@ -1,5 +1,40 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, type GenerativeModel, type Part, type Tool } from "@google/generative-ai";
+import type { z } from "zod";
+import {
+  productIdentificationSchema,
+  marketDataSchema,
+  productUrlAnalysisSchema,
+  geminiAnalysisSchema,
+  priceAnalysisSchema,
+  searchQueriesSchema,
+  marketTrendsSchema,
+  marketAnalysisSchema,
+  platformListingSchema,
+  competitorResearchSchema,
+  seoContentSchema,
+  type ProductIdentification,
+  type MarketData,
+  type ProductUrlAnalysis,
+  type GeminiAnalysis,
+  type PriceAnalysis,
+  type MarketTrends,
+  type MarketAnalysis,
+  type PlatformListing,
+  type CompetitorResearch,
+  type SeoContent,
+} from "./ai-schemas";
+import {
+  buildIdentificationPrompt,
+  buildSearchQueriesPrompt,
+  buildProductAnalysisPrompt,
+  buildPricingPrompt,
+  buildMarketAnalysisPrompt,
+  type AnalysisProductData,
+  type PricingPreferences,
+} from "./ai-prompts";
+import { generateValidated } from "./structured-output";
+import { toPublicUrl } from "./product-data";
+import { usageService, estimateTokenCost, GEMINI_GROUNDED_REQUEST_USD } from "./usage";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
@@ -10,184 +45,157 @@ const searchTool = {
   googleSearch: {},
 } as const;
 
-// Type definitions for product analysis
-export interface ProductAnalysis {
-  analysis?: string;
-  [key: string]: unknown;
-}
-
-export interface MarketData {
-  marketData?: string;
-  [key: string]: unknown;
-}
-
-export interface AIIdentification {
-  [key: string]: unknown;
-}
-
-export interface GeminiAnalysis {
-  title: string;
-  description: string;
-  tags: string[];
-  category: string;
-  seoTitle: string;
-  seoDescription: string;
-  marketingCopy: string;
-  keyFeatures: string[];
-  targetAudience: string[];
-  competitiveAdvantages: string[];
-
-  shippingWeight: {
-    pounds: number;
-    kilograms: number;
-    estimationMethod: string;
-  };
-
-  dimensions: {
-    length: number;
-    width: number;
-    height: number;
-    unit: string;
-    lengthCm: number;
-    widthCm: number;
-    heightCm: number;
-  };
-
-  platformCategories: {
-    ebay: {
-      primaryCategory: string;
-      primaryCategoryName: string;
-      secondaryCategory?: string;
-      secondaryCategoryName?: string;
-      categoryPath: string;
-    };
-    facebook: {
-      category: string;
-      subcategory: string;
-      categoryId: string;
-    };
-    shopify: {
-      productType: string;
-      vendor: string;
-      collection: string;
-    };
-  };
+export type {
+  ProductIdentification,
+  MarketData,
+  ProductUrlAnalysis,
+  GeminiAnalysis,
+  PriceAnalysis,
+  MarketTrends,
+  MarketAnalysis,
+  PlatformListing,
+  CompetitorResearch,
+  SeoContent,
+} from "./ai-schemas";
+
+/**
+ * Gemini takes images inline, so fetch anything that is not already a data URL
+ */
+async function loadImagePart(imageUrl: string): Promise<Part> {
+  const dataUrl = /^data:([^;,]+)?(?:;base64)?,([\s\S]*)$/.exec(imageUrl);
+  if (dataUrl) {
+    return { inlineData: { data: dataUrl[2], mimeType: dataUrl[1] || "image/jpeg" } };
+  }
 
-  seoKeywords: {
-    primary: string[];
-    secondary: string[];
-    longtail: string[];
-  };
+  const response = await fetch(toPublicUrl(imageUrl));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status})`);
+  }
 
-  shopifyMetafields: Array<{
-    namespace: string;
-    key: string;
-    value: string;
-    type: string;
-  }>;
-
-  inventoryData: {
-    fragility: number;
-    storageRequirements: string;
-    handlingInstructions: string;
-    insuranceValue: number;
+  return {
+    inlineData: {
+      data: Buffer.from(await response.arrayBuffer()).toString("base64"),
+      mimeType: response.headers.get("content-type")?.split(";")[0] || "image/jpeg",
+    },
   };
 }
 
-export interface PriceAnalysis {
-  recommendedPrice: number;
-  priceRange: { min: number; max: number };
-  reasoning: string;
-  marketPosition: "budget" | "mid-range" | "premium";
-  competitiveAnalysis: string;
-  pricingStrategy: string;
-}
+const GEMINI_MODEL = "gemini-flash-latest";
 
 export class GeminiService {
-  private readonly textModel;
-  private readonly imageModel;
-  private readonly searchModel;
+  private readonly textModel: GenerativeModel;
+  private readonly imageModel: GenerativeModel;
+  private readonly searchModel: GenerativeModel;
 
   constructor() {
-    // Use gemini-flash-latest for text analysis and search
-    this.textModel = genAI.getGenerativeModel({ model: "gemini-flash-latest" });
-    // Use gemini-flash-latest for image analysis
+    // Text and image analysis use JSON mode so responses are bare JSON
+    this.textModel = genAI.getGenerativeModel({
+      model: GEMINI_MODEL,
+      generationConfig: { responseMimeType: "application/json" },
+    });
     this.imageModel = genAI.getGenerativeModel({
-      model: "gemini-flash-latest",
+      model: GEMINI_MODEL,
+      generationConfig: { responseMimeType: "application/json" },
     });
-    // Use search-enabled model for market research
+    // Use search-enabled model for market research. Grounded search cannot
+    // be combined with JSON mode, so its JSON is extracted from the text.
     this.searchModel = genAI.getGenerativeModel({
-      model: "gemini-flash-latest",
-      tools: [searchTool as any],
+      model: GEMINI_MODEL,
+      tools: [searchTool as unknown as Tool],
     });
   }
 
+  private async generateStructured<T extends z.ZodType>(
+    model: GenerativeModel,
+    request: string | Array<string | Part>,
+    schema: T,
+    label: string
+  ): Promise<z.output<T>> {
+    await usageService.assertWithinBudget();
+
+    // Over budget, web-grounded requests fall back to the model's own knowledge
+    if (model === this.searchModel && await usageService.shouldDegrade()) {
+      console.log(`Usage budget reached - running Gemini ${label} without web search`);
+      model = this.textModel;
+    }
+
+    return generateValidated({
+      schema,
+      label: `Gemini ${label}`,
+      generate: () => this.generateText(model, request, label),
+      // Repairs never need search, so they always get JSON mode
+      repair: (prompt) => this.generateText(this.textModel, prompt, `${label} repair`),
+    });
+  }
+
+  private async generateText(
+    model: GenerativeModel,
+    request: string | Array<string | Part>,
+    operation: string
+  ): Promise<string> {
+    const { response } = await model.generateContent(request);
+    const inputTokens = response.usageMetadata?.promptTokenCount ?? 0;
+    const outputTokens = response.usageMetadata?.candidatesTokenCount ?? 0;
+
+    await usageService.record({
+      provider: "gemini",
+      operation,
+      model: GEMINI_MODEL,
+      inputTokens,
+      outputTokens,
+      costUsd: estimateTokenCost(GEMINI_MODEL, inputTokens, outputTokens)
+        + (model === this.searchModel ? GEMINI_GROUNDED_REQUEST_USD : 0),
+    });
+
+    return response.text();
+  }
+
+  /**
+   * Generate JSON matching a schema. Grounded requests may search the web.
+   */
+  async generateJson<T extends z.ZodType>(
+    prompt: string,
+    schema: T,
+    options: { label: string; grounded?: boolean }
+  ): Promise<z.output<T>> {
+    return this.generateStructured(
+      options.grounded ? this.searchModel : this.textModel,
+      prompt,
+      schema,
+      options.label
+    );
+  }
+
+  /**
+   * Generate JSON matching a schema from an image URL or data URL
+   */
+  async generateFromImage<T extends z.ZodType>(
+    imageUrl: string,
+    prompt: string,
+    schema: T,
+    label: string
+  ): Promise<z.output<T>> {
+    const image = await loadImagePart(imageUrl);
+    return this.generateStructured(this.imageModel, [prompt, image], schema, label);
+  }
+
   /**
-   * Analyze product image using Gemini Vision
+   * Identify a product from its image using Gemini Vision
    */
   async analyzeProductImage(
     imageUrl: string,
     prompt?: string
-  ): Promise<ProductAnalysis> {
-    const defaultPrompt = `
-    Analyze this product image and provide comprehensive inventory management data:
-    
-    REQUIRED FIELDS:
-    1. Product identification (brand, model, type, SKU if visible)
-    2. Condition assessment with grade (A-F) and detailed notes
-    3. Shipping weight estimation (in lbs and kg) based on size and material
-    4. Dimensions estimation (length x width x height in inches and cm)
-    5. Material composition and build quality indicators
-    6. Authenticity markers and verification points
-    7. Estimated age/generation and manufacturing details
-    8. Notable defects, wear patterns, or damage
-    
-    PLATFORM-SPECIFIC CATEGORIES:
-    9. eBay category suggestions (primary and secondary)
-    10. Facebook Marketplace category recommendations
-    11. Shopify product type and vendor classification
-    
-    SEO & MARKETING DATA:
-    12. SEO-optimized title (60 chars max)
-    13. Meta description (160 chars max)
-    14. SEO tags/keywords (10-15 relevant terms)
-    15. Shopify metafields (custom fields for enhanced data)
-    16. Key selling points and features
-    17. Target audience demographics
-    18. Competitive advantages
-    
-    INVENTORY MANAGEMENT:
-    19. Recommended storage conditions
-    20. Fragility rating (1-10)
-    21. Special handling requirements
-    22. Insurance value estimation
-    
-    Format as structured JSON with all fields populated.
-    `;
-
+  ): Promise<ProductIdentification> {
     try {
-      const result = await this.imageModel.generateContent([
-        prompt || defaultPrompt,
-        {
-          inlineData: {
-            data: imageUrl.split(",")[1], // Remove data:image/jpeg;base64, prefix
-            mimeType: "image/jpeg",
-          },
-        },
-      ]);
-
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return { analysis: text };
+      return await this.generateFromImage(
+        imageUrl,
+        prompt || buildIdentificationPrompt(),
+        productIdentificationSchema,
+        "image analysis"
+      );
     } catch (error) {
       console.error("Error analyzing image with Gemini:", error);
-      throw new Error("Failed to analyze image with Gemini");
+      throw new Error("Failed to analyze image with Gemini", { cause: error });
     }
   }
 
@@ -216,30 +224,23 @@ export class GeminiService {
     10. Competitive products and alternatives
     
     Focus on recent, reliable data from established marketplaces and sources.
-    Format as structured JSON with clear price data and market insights.
+    Format as structured JSON with clear price data and market insights, including
+    "averagePrice", "priceRange": { "min", "max" }, "platforms": [{ "platform", "averagePrice", "priceRange" }],
+    "demandTrend" and "summary". Prices are plain numbers in USD.
     `;
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return { marketData: text };
+      return await this.generateStructured(this.searchModel, prompt, marketDataSchema, "market data");
     } catch (error) {
       console.error("Error searching market data with Gemini:", error);
-      throw new Error("Failed to search market data with Gemini");
+      throw new Error("Failed to search market data with Gemini", { cause: error });
     }
   }
 
   /**
    * Analyze specific product URLs for competitive intelligence
    */
-  async analyzeProductUrl(url: string): Promise<any> {
+  async analyzeProductUrl(url: string): Promise<ProductUrlAnalysis> {
     const prompt = `
     Analyze this product URL and extract comprehensive information: ${url}
     
@@ -255,23 +256,15 @@ export class GeminiService {
     9. Similar products or alternatives mentioned
     10. Platform-specific features and selling points
     
-    Format as structured JSON with all available data.
+    Format as structured JSON with all available data, using "title", "description",
+    "price", "originalPrice" and "condition" for those fields. Prices are plain numbers.
     `;
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return { urlAnalysis: text };
+      return await this.generateStructured(this.searchModel, prompt, productUrlAnalysisSchema, "URL analysis");
     } catch (error) {
       console.error("Error analyzing URL with Gemini:", error);
-      throw new Error("Failed to analyze URL with Gemini");
+      throw new Error("Failed to analyze URL with Gemini", { cause: error });
     }
   }
 
@@ -279,15 +272,8 @@ export class GeminiService {
    * Generate comprehensive product analysis using Gemini with market search
    */
   async analyzeProduct(
-    productData: {
-      title?: string;
-      description?: string;
-      category?: string;
-      brand?: string;
-      condition?: string;
-      aiIdentification?: AIIdentification;
-    },
-    marketData?: MarketData
+    productData: AnalysisProductData,
+    marketData?: object
   ): Promise<GeminiAnalysis> {
     // First, search for current market information if not provided
     let enhancedMarketData = marketData;
@@ -302,141 +288,13 @@ export class GeminiService {
       }
     }
 
-    const prompt = `
-As an expert e-commerce product analyst with access to current market data, analyze the following product and generate comprehensive inventory management data with SEO optimization and platform-specific categories:
-
-Product Information:
-- Title: ${productData.title || "Unknown"}
-- Description: ${productData.description || "None provided"}
-- Category: ${productData.category || "Unknown"}
-- Brand: ${productData.brand || "Unknown"}
-- Condition: ${productData.condition || "Unknown"}
-- AI Identification: ${JSON.stringify(productData.aiIdentification || {})}
-
-Market Data:
-${
-  enhancedMarketData
-    ? JSON.stringify(enhancedMarketData, null, 2)
-    : "No market data available"
-}
-
-Search for additional current market trends and competitor analysis for this product type to enhance your recommendations.
-
-Please provide a JSON response with the following COMPLETE structure:
-{
-  "title": "Optimized product title (60-80 characters, include key features and brand)",
-  "description": "Detailed product description (150-300 words, highlight benefits and features)",
-  "tags": ["array", "of", "relevant", "seo", "tags", "and", "keywords"],
-  "category": "Most appropriate product category",
-  "seoTitle": "SEO-optimized title for search engines (50-60 characters)",
-  "seoDescription": "Meta description for SEO (150-160 characters)",
-  "marketingCopy": "Compelling marketing copy that sells the product (100-200 words)",
-  "keyFeatures": ["list", "of", "key", "product", "features"],
-  "targetAudience": ["primary", "target", "audience", "segments"],
-  "competitiveAdvantages": ["unique", "selling", "points", "vs", "competitors"],
-  
-  "shippingWeight": {
-    "pounds": 2.5,
-    "kilograms": 1.13,
-    "estimationMethod": "Based on product type and materials"
-  },
-  
-  "dimensions": {
-    "length": 12,
-    "width": 8,
-    "height": 3,
-    "unit": "inches",
-    "lengthCm": 30.5,
-    "widthCm": 20.3,
-    "heightCm": 7.6
-  },
-  
-  "platformCategories": {
-    "ebay": {
-      "primaryCategory": "9355",
-      "primaryCategoryName": "Cell Phones & Smartphones",
-      "secondaryCategory": "20349",
-      "secondaryCategoryName": "Cell Phone Accessories",
-      "categoryPath": "Cell Phones & Accessories > Cell Phones & Smartphones"
-    },
-    "facebook": {
-      "category": "Electronics",
-      "subcategory": "Mobile Phones",
-      "categoryId": "electronics_mobile_phones"
-    },
-    "shopify": {
-      "productType": "Electronics - Mobile Devices",
-      "vendor": "Brand Name",
-      "collection": "Smartphones"
-    }
-  },
-  
-  "seoKeywords": {
-    "primary": ["smartphone", "mobile phone", "unlocked phone"],
-    "secondary": ["android phone", "dual sim", "camera phone"],
-    "longtail": ["unlocked android smartphone dual camera", "budget friendly mobile phone"]
-  },
-  
-  "shopifyMetafields": [
-    {
-      "namespace": "inventory",
-      "key": "condition_grade",
-      "value": "B+",
-      "type": "single_line_text_field"
-    },
-    {
-      "namespace": "inventory", 
-      "key": "authenticity_verified",
-      "value": "true",
-      "type": "boolean"
-    },
-    {
-      "namespace": "seo",
-      "key": "focus_keywords",
-      "value": "smartphone, unlocked, android",
-      "type": "single_line_text_field"
-    },
-    {
-      "namespace": "platforms",
-      "key": "ebay_category",
-      "value": "9355",
-      "type": "single_line_text_field"
-    }
-  ],
-  
-  "inventoryData": {
-    "fragility": 7,
-    "storageRequirements": "Keep in dry, temperature-controlled environment",
-    "handlingInstructions": "Handle with care, avoid drops",
-    "insuranceValue": 250
-  }
-}
-
-CRITICAL REQUIREMENTS:
-1. MUST include accurate shipping weight estimation in both pounds and kilograms
-2. MUST provide platform-specific categories for eBay, Facebook, and Shopify
-3. MUST include comprehensive SEO keywords (primary, secondary, longtail)
-4. MUST generate Shopify metafields for inventory management
-5. MUST estimate realistic dimensions based on product type
-6. Focus on Shopify as the source of truth for inventory data
-
-Respond only with valid JSON containing ALL required fields.`;
+    const prompt = buildProductAnalysisPrompt(productData, enhancedMarketData);
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      // Clean up the response to extract JSON
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      return await this.generateStructured(this.searchModel, prompt, geminiAnalysisSchema, "product analysis");
     } catch (error) {
       console.error("Error analyzing product with Gemini:", error);
-      throw new Error("Failed to analyze product with Gemini");
+      throw new Error("Failed to analyze product with Gemini", { cause: error });
     }
   }
 
@@ -444,17 +302,9 @@ Respond only with valid JSON containing ALL required fields.`;
    * Generate price recommendation using market data with search enhancement
    */
   async analyzePricing(
-    productData: {
-      title?: string;
-      condition?: string;
-      category?: string;
-      brand?: string;
-    },
-    marketData: any,
-    userPreferences?: {
-      targetMargin?: number;
-      pricingStrategy?: "competitive" | "premium" | "budget";
-    }
+    productData: AnalysisProductData,
+    marketData: object,
+    userPreferences?: PricingPreferences
   ): Promise<PriceAnalysis> {
     // Enhance market data with current search if needed
     let enhancedMarketData = marketData;
@@ -473,62 +323,13 @@ Respond only with valid JSON containing ALL required fields.`;
       }
     }
 
-    const prompt = `
-As a pricing expert with access to current market data, analyze the following product and recommend an optimal price:
-
-Product Information:
-- Title: ${productData.title || "Unknown"}
-- Condition: ${productData.condition || "Unknown"}
-- Category: ${productData.category || "Unknown"}
-- Brand: ${productData.brand || "Unknown"}
-
-Market Data:
-${JSON.stringify(enhancedMarketData, null, 2)}
-
-Search for additional current pricing trends and competitive analysis for similar products to enhance your pricing recommendation.
-
-User Preferences:
-- Target Margin: ${userPreferences?.targetMargin || "Not specified"}%
-- Pricing Strategy: ${userPreferences?.pricingStrategy || "competitive"}
-
-Please analyze the market data and provide a JSON response with:
-{
-  "recommendedPrice": 0.00,
-  "priceRange": {
-    "min": 0.00,
-    "max": 0.00
-  },
-  "reasoning": "Detailed explanation of pricing rationale",
-  "marketPosition": "budget|mid-range|premium",
-  "competitiveAnalysis": "Analysis of how this price compares to competitors",
-  "pricingStrategy": "Recommended strategy and tactics"
-}
-
-Consider:
-1. Market average and median prices
-2. Product condition impact
-3. Brand value and recognition
-4. Competitive positioning
-5. Market demand indicators
-6. Seasonal factors
-7. Platform-specific pricing trends
-
-Respond only with valid JSON.`;
+    const prompt = buildPricingPrompt(productData, enhancedMarketData, userPreferences);
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      return await this.generateStructured(this.searchModel, prompt, priceAnalysisSchema, "pricing");
     } catch (error) {
       console.error("Error analyzing pricing with Gemini:", error);
-      throw new Error("Failed to analyze pricing with Gemini");
+      throw new Error("Failed to analyze pricing with Gemini", { cause: error });
     }
   }
 
@@ -536,37 +337,14 @@ Respond only with valid JSON.`;
    * Generate search queries for scraping based on product identification
    */
   async generateSearchQueries(
-    aiIdentification: any,
+    aiIdentification: unknown,
     maxQueries: number = 3
   ): Promise<string[]> {
-    const prompt = `
-Based on the following AI product identification data, generate ${maxQueries} optimized search queries for finding similar products on e-commerce platforms:
-
-AI Identification Data:
-${JSON.stringify(aiIdentification, null, 2)}
-
-Generate search queries that are:
-1. Specific enough to find exact or very similar products
-2. Include key identifying features (brand, model, type)
-3. Optimized for e-commerce search engines
-4. Varied in approach (brand+model, category+features, etc.)
-
-Return as a JSON array of strings:
-["query1", "query2", "query3"]
-
-Respond only with valid JSON array.`;
+    const prompt = buildSearchQueriesPrompt(aiIdentification, maxQueries);
 
     try {
-      const result = await this.textModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\[[\s\S]*\]/.exec(text);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON array found in response");
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      const queries = await this.generateStructured(this.textModel, prompt, searchQueriesSchema, "search queries");
+      return queries.slice(0, maxQueries);
     } catch (error) {
       console.error("Error generating search queries with Gemini:", error);
       // Fallback to basic queries
@@ -578,13 +356,9 @@ Respond only with valid JSON array.`;
    * Analyze market trends for pricing strategy
    */
   async analyzeMarketTrends(
-    productData: any,
-    marketData: any
-  ): Promise<{
-    direction: "up" | "down" | "stable";
-    confidence: number;
-    factors: string[];
-  }> {
+    productData: unknown,
+    marketData: unknown
+  ): Promise<MarketTrends> {
     const prompt = `
 As a market trend analyst, analyze the following data to determine market trends:
 
@@ -612,16 +386,7 @@ Consider:
 Respond only with valid JSON.`;
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      return await this.generateStructured(this.textModel, prompt, marketTrendsSchema, "market trends");
     } catch (error) {
       console.error("Error analyzing market trends with Gemini:", error);
       return {
@@ -636,67 +401,23 @@ Respond only with valid JSON.`;
    * Compile and analyze all data sources into comprehensive insights
    */
   async compileMarketAnalysis(
-    productData: any,
-    aiIdentification: any,
-    marketData: any,
-    comparableListings: any[]
-  ): Promise<{
-    summary: string;
-    insights: string[];
-    recommendations: string[];
-    marketTrends: string[];
-    competitivePosition: string;
-    riskFactors: string[];
-  }> {
-    const prompt = `
-As a market research analyst, compile a comprehensive analysis from the following data sources:
-
-Product Data:
-${JSON.stringify(productData, null, 2)}
-
-AI Identification:
-${JSON.stringify(aiIdentification, null, 2)}
-
-Market Data:
-${JSON.stringify(marketData, null, 2)}
-
-Comparable Listings:
-${JSON.stringify(comparableListings.slice(0, 10), null, 2)}
-
-Provide a comprehensive market analysis in JSON format:
-{
-  "summary": "Executive summary of market position and opportunity",
-  "insights": ["key", "market", "insights", "discovered"],
-  "recommendations": ["actionable", "recommendations", "for", "seller"],
-  "marketTrends": ["observed", "market", "trends", "and", "patterns"],
-  "competitivePosition": "Analysis of competitive positioning",
-  "riskFactors": ["potential", "risks", "and", "challenges"]
-}
-
-Focus on:
-1. Market opportunity assessment
-2. Competitive landscape analysis
-3. Pricing trends and patterns
-4. Demand indicators
-5. Risk assessment
-6. Strategic recommendations
-
-Respond only with valid JSON.`;
+    productData: unknown,
+    aiIdentification: unknown,
+    marketData: unknown,
+    comparableListings: unknown[]
+  ): Promise<MarketAnalysis> {
+    const prompt = buildMarketAnalysisPrompt(
+      productData,
+      aiIdentification,
+      marketData,
+      comparableListings
+    );
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      return JSON.parse(jsonMatch[0]);
+      return await this.generateStructured(this.textModel, prompt, marketAnalysisSchema, "market analysis");
     } catch (error) {
       console.error("Error compiling market analysis with Gemini:", error);
-      throw new Error("Failed to compile market analysis with Gemini");
+      throw new Error("Failed to compile market analysis with Gemini", { cause: error });
     }
   }
 
@@ -704,9 +425,9 @@ Respond only with valid JSON.`;
    * Generate platform-specific listing content with search optimization
    */
   async generatePlatformListing(
-    productData: any,
+    productData: unknown,
     targetPlatform: "ebay" | "facebook" | "shopify" | "amazon"
-  ): Promise<any> {
+  ): Promise<PlatformListing> {
     const prompt = `
     Search for current best practices and successful listing strategies for ${targetPlatform} and generate optimized listing content for this product:
     
@@ -725,23 +446,16 @@ Respond only with valid JSON.`;
     9. Image requirements and recommendations for ${targetPlatform}
     10. Current market trends affecting ${targetPlatform} listings
     
-    Format as structured JSON optimized for ${targetPlatform}.
+    Format as structured JSON optimized for ${targetPlatform}. Always include "title" and
+    "description", plus "keyFeatures" and "tags" as arrays of strings, "conditionDescription",
+    "category" and "suggestedPrice" as a plain number.
     `;
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return { platformContent: text };
+      return await this.generateStructured(this.searchModel, prompt, platformListingSchema, "platform listing");
     } catch (error) {
       console.error("Error generating platform listing with Gemini:", error);
-      throw new Error("Failed to generate platform listing with Gemini");
+      throw new Error("Failed to generate platform listing with Gemini", { cause: error });
     }
   }
 
@@ -749,9 +463,14 @@ Respond only with valid JSON.`;
    * Research competitor strategies and market positioning
    */
   async researchCompetitors(
-    productData: any,
+    productData: {
+      title?: string | null;
+      brand?: string | null;
+      category?: string | null;
+      [key: string]: unknown;
+    },
     targetPlatforms: string[] = ["ebay", "facebook", "amazon"]
-  ): Promise<any> {
+  ): Promise<CompetitorResearch> {
     const searchQuery = [
       productData.title,
       productData.brand,
@@ -777,30 +496,28 @@ Respond only with valid JSON.`;
     9. Risk factors and market challenges
     10. Recommended differentiation strategies
     
-    Format as structured JSON with actionable insights.
+    Format as structured JSON with actionable insights, including
+    "competitors": [{ "name", "platform", "price", "strategy" }], and "pricingStrategies",
+    "opportunities", "risks" and "recommendations" as arrays of strings.
     `;
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return { competitorAnalysis: text };
+      return await this.generateStructured(this.searchModel, prompt, competitorResearchSchema, "competitor research");
     } catch (error) {
       console.error("Error researching competitors with Gemini:", error);
-      throw new Error("Failed to research competitors with Gemini");
+      throw new Error("Failed to research competitors with Gemini", { cause: error });
     }
   }
 
   /**
    * Generate SEO-optimized content with current search trends
    */
-  async generateSEOContent(productData: any): Promise<any> {
+  async generateSEOContent(productData: {
+    title?: string | null;
+    brand?: string | null;
+    category?: string | null;
+    [key: string]: unknown;
+  }): Promise<SeoContent> {
     const prompt = `
     Research current SEO trends and search patterns for products like: "${
       productData.title || productData.category
@@ -822,23 +539,16 @@ Respond only with valid JSON.`;
     10. Voice search optimization
     
     Include current search volume estimates and competition analysis.
-    Format as structured JSON with implementation guidance.
+    Format as structured JSON with implementation guidance, including "primaryKeywords",
+    "longTailKeywords", "semanticKeywords", "titleVariations" and "recommendations" as arrays
+    of strings, and "metaDescriptions" as an object of platform name to description.
     `;
 
     try {
-      const result = await this.searchModel.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-
-      const jsonMatch = /\{[\s\S]*\}/.exec(text);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-
-      return { seoContent: text };
+      return await this.generateStructured(this.searchModel, prompt, seoContentSchema, "SEO content");
     } catch (error) {
       console.error("Error generating SEO content with Gemini:", error);
-      throw new Error("Failed to generate SEO content with Gemini");
+      throw new Error("Failed to generate SEO content with Gemini", { cause: error });
     }
   }
 }
@@ -0,0 +1,96 @@
+import sharp from 'sharp';
+
+// Marketplaces reject very large photos, and listings only need web resolution
+const IMAGE_VARIANTS = {
+  web: { maxSize: 1600, format: 'jpeg', quality: 85 },
+  webp: { maxSize: 1600, format: 'webp', quality: 80 },
+  thumbnail: { maxSize: 400, format: 'webp', quality: 75 },
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+
+export interface ProcessedImageVariant {
+  name: ImageVariantName;
+  buffer: Buffer;
+  format: 'jpeg' | 'webp';
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export interface ProcessedImage {
+  // Dimensions of the upright original, before resizing
+  width: number;
+  height: number;
+  variants: Record<ImageVariantName, ProcessedImageVariant>;
+}
+
+export class ImageProcessingService {
+  /**
+   * Check that a buffer holds an image sharp can decode
+   */
+  async isSupportedImage(buffer: Buffer): Promise<boolean> {
+    try {
+      const metadata = await sharp(buffer).metadata();
+      return Boolean(metadata.format && metadata.width && metadata.height);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Rotate an uploaded photo upright and render every variant. Sharp drops
+   * EXIF, GPS and other metadata from its output unless asked to keep it, so
+   * none of the variants carry where the photo was taken.
+   */
+  async processUpload(buffer: Buffer): Promise<ProcessedImage> {
+    // Apply the EXIF orientation once so every variant starts upright
+    const { data: upright, info } = await sharp(buffer)
+      .rotate()
+      .toBuffer({ resolveWithObject: true });
+
+    const entries = await Promise.all(
+      (Object.keys(IMAGE_VARIANTS) as ImageVariantName[]).map(async (name) => {
+        const variant = await this.renderVariant(upright, name);
+        return [name, variant] as const;
+      })
+    );
+
+    return {
+      width: info.width,
+      height: info.height,
+      variants: Object.fromEntries(entries) as Record<ImageVariantName, ProcessedImageVariant>,
+    };
+  }
+
+  private async renderVariant(upright: Buffer, name: ImageVariantName): Promise<ProcessedImageVariant> {
+    const spec = IMAGE_VARIANTS[name];
+
+    const pipeline = sharp(upright).resize({
+      width: spec.maxSize,
+      height: spec.maxSize,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+
+    const { data, info } = await (spec.format === 'jpeg'
+      ? pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: spec.quality, mozjpeg: true })
+      : pipeline.webp({ quality: spec.quality })
+    ).toBuffer({ resolveWithObject: true });
+
+    return {
+      name,
+      buffer: data,
+      format: spec.format,
+      contentType: `image/${spec.format}`,
+      extension: spec.format === 'jpeg' ? 'jpg' : 'webp',
+      width: info.width,
+      height: info.height,
+      size: info.size,
+    };
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService();
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { ORG_A, seedChannelListings } from '@/test/workspaces';
+import { channelConnectionService } from './channel-connections';
+import { inventorySyncService } from './inventory-sync';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+const product = { id: 'product-a', organizationId: ORG_A };
+
+const shopify = {
+  getProduct: vi.fn(),
+  getInventoryLevels: vi.fn(),
+  setInventoryLevel: vi.fn(),
+};
+
+describe('endListings', () => {
+  beforeEach(() => {
+    vi.spyOn(channelConnectionService, 'getShopify').mockResolvedValue(
+      { shopify } as unknown as Awaited<ReturnType<typeof channelConnectionService.getShopify>>
+    );
+    shopify.getProduct.mockResolvedValue({ variants: [{ inventory_item_id: 11 }] });
+    shopify.getInventoryLevels.mockResolvedValue([{ inventory_item_id: 11, location_id: 1, available: 1 }]);
+  });
+
+  it('leaves a Facebook listing pending removal until someone takes it down', async () => {
+    const listings = seedChannelListings(
+      { productId: 'product-a', channel: 'shopify', status: 'active', externalId: '1001' },
+      { productId: 'product-a', channel: 'facebook', status: 'active' }
+    );
+
+    const actions = await inventorySyncService.endListings(product, { trigger: 'deleted' });
+
+    expect(actions.map(({ channel, status }) => ({ channel, status }))).toEqual([
+      { channel: 'shopify', status: 'completed' },
+      { channel: 'facebook', status: 'skipped' },
+    ]);
+    expect(listings.map(({ channel, status, lastError }) => ({ channel, status, lastError }))).toEqual([
+      { channel: 'shopify', status: 'ended', lastError: null },
+      { channel: 'facebook', status: 'pending_removal', lastError: 'Facebook Marketplace listings must be removed manually' },
+    ]);
+    expect(shopify.setInventoryLevel).toHaveBeenCalledWith(11, 1, 0);
+  });
+
+  it('does nothing more on a second run', async () => {
+    const listings = seedChannelListings(
+      { productId: 'product-a', channel: 'shopify', status: 'active', externalId: '1001' },
+      { productId: 'product-a', channel: 'facebook', status: 'active' }
+    );
+
+    await inventorySyncService.endListings(product, { trigger: 'deleted' });
+    const after = structuredClone(listings);
+
+    const actions = await inventorySyncService.endListings(product, { trigger: 'deleted' });
+
+    expect(actions).toEqual([]);
+    expect(listings).toEqual(after);
+    expect(shopify.getProduct).toHaveBeenCalledTimes(1);
+    expect(prisma.inventorySyncAction.create).toHaveBeenCalledTimes(2);
+  });
+});
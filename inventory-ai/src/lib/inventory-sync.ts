@@ -0,0 +1,258 @@
+import type { ChannelListing, InventorySyncAction, Product } from '@prisma/client';
+import { prisma } from './prisma';
+import { channelConnectionService } from './channel-connections';
+import { channelListingService, isSalesChannel, type SalesChannel } from './channel-listings';
+import { getProductSku } from './product-data';
+
+export type InventorySyncTrigger = 'sold' | 'quantity_zero' | 'deleted';
+
+export type InventorySyncActionType = 'zero_quantity' | 'withdraw_offer' | 'manual_removal' | 'none';
+
+export interface InventorySyncOptions {
+  trigger?: InventorySyncTrigger;
+  sourceChannel?: SalesChannel;
+}
+
+export interface ChannelSale {
+  channel: SalesChannel;
+  orderId: string;
+  price: number;
+  soldAt: Date;
+  fees?: number;
+  buyerShipping?: Record<string, unknown>;
+}
+
+interface ChannelActionOutcome {
+  action: InventorySyncActionType;
+  message: string;
+  ended: boolean;
+}
+
+export class InventorySyncService {
+  /**
+   * Mark a product sold and take it off sale on every channel it is listed on.
+   * Listings that have already ended or wait to be removed by hand are left
+   * alone, so this is safe to re-run.
+   */
+  async markSold(
+    productId: string,
+    options: InventorySyncOptions = {}
+  ): Promise<InventorySyncAction[]> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Product ${productId} not found`);
+    }
+
+    if (product.status !== 'sold' || product.quantity !== 0) {
+      await prisma.product.update({
+        where: { id: productId },
+        data: { status: 'sold', quantity: 0 },
+      });
+    }
+
+    return this.endListings(product, { ...options, trigger: options.trigger || 'sold' });
+  }
+
+  /**
+   * Take a product off sale on every channel it is listed on without changing
+   * the product. A listing that could not be ended is recorded as a failed
+   * action and keeps its status; one that has to be removed by hand is left
+   * pending removal.
+   */
+  async endListings(
+    product: Pick<Product, 'id' | 'organizationId'>,
+    options: InventorySyncOptions & { trigger: InventorySyncTrigger }
+  ): Promise<InventorySyncAction[]> {
+    const { id: productId } = product;
+    const trigger = options.trigger;
+
+    const listings = await channelListingService.getListings(productId);
+    const actions: InventorySyncAction[] = [];
+
+    for (const listing of listings) {
+      if (listing.status === 'ended' || listing.status === 'pending_removal' || !isSalesChannel(listing.channel)) continue;
+
+      const channel = listing.channel;
+      let outcome: ChannelActionOutcome;
+
+      try {
+        outcome = channel === options.sourceChannel
+          ? { action: 'none', message: `Sold on ${channel}`, ended: true }
+          : await this.endListing(channel, listing, product.organizationId);
+      } catch (error) {
+        await channelListingService.recordFailure(productId, channel, error);
+        actions.push(await this.recordAction(productId, channel, trigger, options.sourceChannel, {
+          action: channel === 'ebay' ? 'withdraw_offer' : 'zero_quantity',
+          status: 'failed',
+          message: error instanceof Error ? error.message : String(error),
+        }));
+        continue;
+      }
+
+      // Listings that still need a manual step keep the reason as their note
+      if (outcome.ended) {
+        await channelListingService.markEnded(productId, channel);
+      } else {
+        await channelListingService.markPendingRemoval(productId, channel, outcome.message);
+      }
+
+      actions.push(await this.recordAction(productId, channel, trigger, options.sourceChannel, {
+        action: outcome.action,
+        status: outcome.ended ? 'completed' : 'skipped',
+        message: outcome.message,
+      }));
+    }
+
+    return actions;
+  }
+
+  /**
+   * Record a sale reported by a channel and take the item off every other one.
+   * Repeat notifications for a recorded sale leave the original sale details alone.
+   */
+  async recordSale(productId: string, sale: ChannelSale): Promise<InventorySyncAction[]> {
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      throw new Error(`Product ${productId} not found`);
+    }
+
+    if (!product.soldOrderId) {
+      await prisma.product.update({
+        where: { id: productId },
+        data: {
+          soldPrice: sale.price,
+          soldAt: sale.soldAt,
+          soldChannel: sale.channel,
+          soldOrderId: sale.orderId,
+          saleFees: sale.fees,
+          buyerShipping: sale.buyerShipping ? JSON.stringify(sale.buyerShipping) : undefined,
+        },
+      });
+    }
+
+    return this.markSold(productId, { trigger: 'sold', sourceChannel: sale.channel });
+  }
+
+  /**
+   * Handle a quantity reported by a sales channel - a one-of-a-kind item that
+   * reaches zero anywhere has sold and must come off every other channel
+   */
+  async handleQuantityChange(
+    productId: string,
+    sourceChannel: SalesChannel,
+    quantity: number
+  ): Promise<InventorySyncAction[]> {
+    if (quantity > 0) return [];
+
+    return this.markSold(productId, { trigger: 'quantity_zero', sourceChannel });
+  }
+
+  /**
+   * Get the sync actions recorded for a product, newest first
+   */
+  async getActions(productId: string): Promise<InventorySyncAction[]> {
+    return prisma.inventorySyncAction.findMany({
+      where: { productId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async endListing(
+    channel: SalesChannel,
+    listing: ChannelListing,
+    organizationId: string | null
+  ): Promise<ChannelActionOutcome> {
+    switch (channel) {
+      case 'shopify':
+        return this.zeroShopifyInventory(listing, organizationId);
+      case 'ebay':
+        return this.withdrawEbayOffer(listing, organizationId);
+      case 'facebook':
+        // Marketplace has no listing API, so someone has to remove it by hand
+        return {
+          action: 'manual_removal',
+          message: 'Facebook Marketplace listings must be removed manually',
+          ended: false,
+        };
+    }
+  }
+
+  private async zeroShopifyInventory(listing: ChannelListing, organizationId: string | null): Promise<ChannelActionOutcome> {
+    if (!listing.externalId) {
+      return { action: 'none', message: 'No Shopify product to update', ended: true };
+    }
+
+    const store = await channelConnectionService.getShopify(organizationId);
+    if (!store) {
+      throw new Error('Shopify is not connected');
+    }
+    const { shopify: shopifyInventory } = store;
+
+    const shopifyProduct = await shopifyInventory.getProduct(Number(listing.externalId));
+    let zeroed = 0;
+
+    for (const variant of shopifyProduct.variants) {
+      if (!variant.inventory_item_id) continue;
+
+      const levels = await shopifyInventory.getInventoryLevels(variant.inventory_item_id);
+      for (const level of levels) {
+        if (level.available > 0) {
+          await shopifyInventory.setInventoryLevel(level.inventory_item_id, level.location_id, 0);
+          zeroed++;
+        }
+      }
+    }
+
+    return {
+      action: 'zero_quantity',
+      message: zeroed > 0
+        ? `Set quantity to 0 at ${zeroed} location(s)`
+        : 'Quantity was already 0',
+      ended: true,
+    };
+  }
+
+  private async withdrawEbayOffer(listing: ChannelListing, organizationId: string | null): Promise<ChannelActionOutcome> {
+    const seller = await channelConnectionService.getEbay(organizationId);
+    if (!seller) {
+      throw new Error('eBay is not connected');
+    }
+    const { api: ebayApi } = seller;
+
+    const offer = listing.offerId
+      ? await ebayApi.getOffer(listing.offerId)
+      : (await ebayApi.getOffersBySku(getProductSku({ id: listing.productId })))[0];
+
+    if (!offer?.offerId) {
+      return { action: 'none', message: 'No eBay offer to withdraw', ended: true };
+    }
+
+    if (offer.status !== 'PUBLISHED') {
+      return { action: 'withdraw_offer', message: 'Offer was already withdrawn', ended: true };
+    }
+
+    await ebayApi.withdrawOffer(offer.offerId);
+
+    return { action: 'withdraw_offer', message: `Withdrew offer ${offer.offerId}`, ended: true };
+  }
+
+  private async recordAction(
+    productId: string,
+    channel: SalesChannel,
+    trigger: InventorySyncTrigger,
+    sourceChannel: SalesChannel | undefined,
+    result: { action: InventorySyncActionType; status: 'completed' | 'skipped' | 'failed'; message: string }
+  ): Promise<InventorySyncAction> {
+    return prisma.inventorySyncAction.create({
+      data: {
+        productId,
+        channel,
+        trigger,
+        sourceChannel,
+        ...result,
+      },
+    });
+  }
+}
+
+export const inventorySyncService = new InventorySyncService();
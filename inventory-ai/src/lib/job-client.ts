@@ -0,0 +1,96 @@
+import type { JobEvent, JobView } from './jobs';
+
+const DEFAULT_POLL_INTERVAL_MS = 1500;
+
+export interface JobListeners {
+  // Each progress event, once, in order
+  onEvent?: (event: JobEvent) => void;
+  // The job's state whenever it changes
+  onUpdate?: (job: JobView) => void;
+}
+
+function isFinished(job: JobView): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+/**
+ * Poll a background job from the browser until it completes or fails.
+ * Resolves with the finished job either way.
+ */
+export async function waitForJob(
+  jobId: string,
+  options: JobListeners & { intervalMs?: number } = {}
+): Promise<JobView> {
+  let lastEventId = 0;
+
+  for (;;) {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch job');
+    }
+
+    const job: JobView = data.job;
+    for (const event of job.events.filter(event => event.id > lastEventId)) {
+      options.onEvent?.(event);
+      lastEventId = event.id;
+    }
+    options.onUpdate?.(job);
+
+    if (isFinished(job)) {
+      return job;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Follow a background job live over Server-Sent Events, falling back to
+ * polling when the stream cannot be opened. Resolves with the finished job.
+ */
+export function followJob(jobId: string, listeners: JobListeners = {}): Promise<JobView> {
+  if (typeof EventSource === 'undefined') {
+    return waitForJob(jobId, listeners);
+  }
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let lastEventId = 0;
+
+    source.addEventListener('progress', (message) => {
+      const event: JobEvent = JSON.parse((message as MessageEvent).data);
+      // A reconnect resumes after the last id, but never report one twice
+      if (event.id <= lastEventId) return;
+      lastEventId = event.id;
+      listeners.onEvent?.(event);
+    });
+
+    source.addEventListener('job', (message) => {
+      listeners.onUpdate?.(JSON.parse((message as MessageEvent).data));
+    });
+
+    source.addEventListener('done', (message) => {
+      source.close();
+      const job: JobView = JSON.parse((message as MessageEvent).data);
+      listeners.onUpdate?.(job);
+      resolve(job);
+    });
+
+    // EventSource reconnects by itself after a dropped connection - it only
+    // closes when the server refused the stream, so poll instead
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+
+      waitForJob(jobId, {
+        ...listeners,
+        onEvent: (event) => {
+          if (event.id <= lastEventId) return;
+          lastEventId = event.id;
+          listeners.onEvent?.(event);
+        },
+      }).then(resolve, reject);
+    };
+  });
+}
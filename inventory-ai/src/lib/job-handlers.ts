@@ -0,0 +1,231 @@
+import { prisma } from './prisma';
+import { enhancedAIService } from './enhanced-ai';
+import { ANALYSIS_STEPS, type AnalysisProgressEvent } from './analysis-progress';
+import { dynamicPricingService } from './dynamic-pricing';
+import { pricingService } from './pricing';
+import { apifyService } from './apify';
+import { CacheStats } from './response-cache';
+import { channelSyncService } from './channel-sync';
+import { priceHistoryService } from './price-history';
+import { repricingService, REPRICING_STEPS, type RepricePayload } from './repricing';
+import { NonRetryableJobError, type JobContext, type JobHandler, type JobType } from './jobs';
+
+export interface AnalyzeProductPayload {
+  productId: string;
+  userId: string;
+  imageUrl: string;
+  additionalContext?: {
+    userTitle?: string;
+    userDescription?: string;
+    userCategory?: string;
+    condition?: string;
+  };
+}
+
+export interface ProductJobPayload {
+  productId: string;
+}
+
+// Record the pipeline's progress events against the job's steps
+function recordAnalysisProgress(context: JobContext, event: AnalysisProgressEvent): Promise<void> {
+  switch (event.status) {
+    case 'started':
+      return context.startStep(event.step, event.message);
+    case 'progress':
+      return context.reportProgress(event.message || '', event.counts);
+    case 'completed':
+      return context.completeStep(event.message, event.counts);
+  }
+}
+
+const analyzeProduct: JobHandler<AnalyzeProductPayload> = {
+  steps: [...ANALYSIS_STEPS, 'save'],
+
+  async run({ productId, userId, imageUrl, additionalContext }, context) {
+    const before = await prisma.product.update({
+      where: { id: productId },
+      data: { status: 'analyzing' },
+    });
+
+    const analysis = await enhancedAIService.analyzeProduct(
+      imageUrl,
+      productId,
+      userId,
+      additionalContext,
+      event => recordAnalysisProgress(context, event)
+    );
+
+    // Update product with basic info from analysis
+    await context.startStep('save');
+    await prisma.product.update({
+      where: { id: productId },
+      data: {
+        title: analysis.enhancement.optimizedTitle,
+        description: analysis.enhancement.description,
+        tags: JSON.stringify(analysis.enhancement.tags),
+        category: analysis.identification.category,
+        brand: analysis.identification.brand,
+        model: analysis.identification.model,
+        recommendedPrice: analysis.marketAnalysis.recommendedPrice,
+        currentMarketPrice: analysis.marketAnalysis.averagePrice,
+        status: 'ready',
+      },
+    });
+    await priceHistoryService.recordChanges(
+      productId,
+      before,
+      { recommendedPrice: analysis.marketAnalysis.recommendedPrice },
+      { source: 'ai_recommendation', reason: 'Product analysis', userId, jobId: context.job.id, analysis: analysis.marketAnalysis }
+    );
+    await context.completeStep('Product updated with the analysis');
+
+    return analysis;
+  },
+
+  // Let the product be analyzed again
+  async onFailed({ productId }) {
+    await prisma.product.updateMany({
+      where: { id: productId, status: 'analyzing' },
+      data: { status: 'draft' },
+    });
+  },
+};
+
+const priceProduct: JobHandler<ProductJobPayload> = {
+  steps: ['market_data', 'pricing', 'save'],
+
+  async run({ productId }, context) {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product) {
+      throw new NonRetryableJobError(`Product ${productId} no longer exists`);
+    }
+
+    // Gather market data
+    await context.startStep('market_data');
+    const cacheStats = new CacheStats();
+    const searchQueries = [
+      product.title,
+      `${product.brand} ${product.model}`.trim(),
+      `${product.category} ${product.brand}`.trim(),
+    ].filter((query) => query.length > 0);
+
+    const marketData = await apifyService.getMarketData(searchQueries[0], {
+      maxItemsPerPlatform: 20,
+      cacheStats,
+      onPlatformComplete: ({ platform, count, error }) => {
+        void context.reportProgress(
+          error ? `${platform} scrape failed: ${error}` : `${platform}: ${count} listings`,
+          { [platform]: count }
+        );
+      },
+    });
+    await context.completeStep(
+      `Found ${marketData.summary.totalListings} priced listings, ${marketData.summary.soldListings} of them sold`,
+      {
+        listings: marketData.summary.totalListings,
+        sold: marketData.summary.soldListings,
+      }
+    );
+
+    // Prepare product data for pricing analysis
+    await context.startStep('pricing');
+    const productData = {
+      title: product.title,
+      category: product.category || 'general',
+      brand: product.brand || 'unknown',
+      condition: {
+        grade: product.condition || 'used',
+        score: 0.7, // Default score, could be enhanced with AI analysis
+      },
+      costBasis: product.costBasis,
+    };
+
+    const pricingAnalysis = await dynamicPricingService.analyzePricing(
+      productData,
+      marketData,
+      {
+        strategy: 'balanced',
+        competitivePosition: 'competitive',
+        cacheStats,
+        rules: await pricingService.getRules(product.organizationId),
+      }
+    );
+
+    // No priced comparables means no evidence for a price - keep the old one
+    if (!(pricingAnalysis.recommendedPrice > 0)) {
+      throw new NonRetryableJobError('No priced comparable listings found - the price was left unchanged');
+    }
+
+    const cache = cacheStats.report();
+    await context.completeStep(`Recommended price $${pricingAnalysis.recommendedPrice.toFixed(2)}`, {
+      cache_hits: cache.hits,
+      cache_misses: cache.misses,
+      cache_shared: cache.shared,
+    });
+
+    // Store pricing analysis in database
+    await context.startStep('save');
+    await prisma.product.update({
+      where: { id: productId },
+      data: {
+        recommendedPrice: pricingAnalysis.recommendedPrice,
+        marketAnalysis: JSON.stringify(pricingAnalysis),
+      },
+    });
+    await priceHistoryService.recordChanges(
+      productId,
+      product,
+      { recommendedPrice: pricingAnalysis.recommendedPrice },
+      {
+        source: 'ai_recommendation',
+        reason: 'Pricing analysis',
+        userId: context.job.userId,
+        jobId: context.job.id,
+        analysis: pricingAnalysis,
+      }
+    );
+
+    return { ...pricingAnalysis, cache };
+  },
+};
+
+const syncShopify: JobHandler<ProductJobPayload> = {
+  steps: ['sync'],
+
+  async run({ productId }, context) {
+    await context.startStep('sync');
+    const result = await channelSyncService.syncShopify(productId);
+    await context.completeStep(`Shopify product ${result.shopifyId} is ${result.shopifyStatus}`);
+    return result;
+  },
+};
+
+const syncEbay: JobHandler<ProductJobPayload> = {
+  steps: ['sync'],
+
+  async run({ productId }, context) {
+    await context.startStep('sync');
+    const result = await channelSyncService.syncEbay(productId);
+    await context.completeStep(`eBay listing ${result.listingId} is live`);
+    return result;
+  },
+};
+
+const repriceProducts: JobHandler<RepricePayload> = {
+  steps: REPRICING_STEPS,
+
+  async run(payload, context) {
+    return repricingService.run(payload, context);
+  },
+};
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  analyze_product: analyzeProduct,
+  price_product: priceProduct,
+  sync_shopify: syncShopify,
+  sync_ebay: syncEbay,
+  reprice_products: repriceProducts,
+};
@@ -0,0 +1,102 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { Job } from '@prisma/client';
+import { jobQueue, isJobType, NonRetryableJobError } from './jobs';
+import { jobHandlers } from './job-handlers';
+import { parseJsonField } from './product-data';
+import { responseCache } from './response-cache';
+import { repricingService } from './repricing';
+import { ebayOrderSyncService } from './ebay-orders';
+
+const POLL_INTERVAL_MS = 2000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Polls the jobs table and runs one job at a time. Jobs live in the
+ * database, so anything queued or interrupted is picked up again after a
+ * restart.
+ */
+export class JobWorker {
+  readonly id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private lastStaleCheck = 0;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`Job worker ${this.id} started`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and run the next due job. Returns false when the queue is empty.
+   */
+  async runNext(): Promise<boolean> {
+    const job = await jobQueue.claimNext(this.id);
+    if (!job) return false;
+
+    if (!isJobType(job.type)) {
+      await jobQueue.runJob(job, {
+        run: async () => {
+          throw new NonRetryableJobError(`Unknown job type: ${job.type}`);
+        },
+      });
+      return true;
+    }
+
+    await jobQueue.runJob(job, jobHandlers[job.type]);
+    return true;
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    let processed = false;
+
+    try {
+      if (Date.now() - this.lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now();
+        const exhausted = await jobQueue.recoverStaleJobs();
+        await Promise.all(exhausted.map(job => this.notifyFailed(job)));
+        // Housekeeping rides along with the stale check
+        await responseCache.pruneExpired().catch(error => console.error('Error pruning response cache:', error));
+        await repricingService.enqueueDueRules().catch(error => console.error('Error scheduling repricing:', error));
+        await ebayOrderSyncService.pollAllSellersIfDue().catch(error => console.error('Error polling eBay orders:', error));
+      }
+
+      processed = await this.runNext();
+    } catch (error) {
+      console.error('Job worker error:', error);
+    }
+
+    // Keep draining while there is work, otherwise wait before polling again
+    this.schedule(processed ? 0 : POLL_INTERVAL_MS);
+  }
+
+  private async notifyFailed(job: Job): Promise<void> {
+    if (!isJobType(job.type)) return;
+
+    try {
+      await jobHandlers[job.type].onFailed?.(
+        parseJsonField<unknown>(job.payload),
+        new Error('Job was interrupted before it finished')
+      );
+    } catch (error) {
+      console.error(`Error cleaning up after job ${job.id}:`, error);
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
@@ -0,0 +1,81 @@
+import type { Job } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { jobQueue, NonRetryableJobError } from './jobs';
+
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+function claimedJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    type: 'price_product',
+    status: 'running',
+    userId: 'user-1',
+    organizationId: 'org-a',
+    productId: 'product-a',
+    payload: JSON.stringify({ productId: 'product-a' }),
+    steps: null,
+    events: null,
+    result: null,
+    error: null,
+    attempts: 1,
+    maxAttempts: 1,
+    runAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: 'worker-1',
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('runJob', () => {
+  beforeEach(() => {
+    prisma.job.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('only writes progress and the result while the worker holds the lock', async () => {
+    await jobQueue.runJob(claimedJob(), { run: async () => ({ price: 45 }) });
+
+    const writes = prisma.job.updateMany.mock.calls.map(([args]) => args);
+    expect(writes.length).toBeGreaterThan(1);
+    for (const write of writes) {
+      expect(write.where).toEqual({ id: 'job-1', lockedBy: 'worker-1' });
+    }
+    expect(writes.at(-1).data).toMatchObject({ status: 'completed', result: '{"price":45}', lockedBy: null });
+    expect(prisma.job.update).not.toHaveBeenCalled();
+  });
+
+  it('does not report a failure for a job another worker has taken over', async () => {
+    const onFailed = vi.fn();
+    prisma.job.updateMany.mockResolvedValue({ count: 0 });
+
+    await jobQueue.runJob(claimedJob(), {
+      run: async () => {
+        throw new NonRetryableJobError('Product not found');
+      },
+      onFailed,
+    });
+
+    expect(prisma.job.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { id: 'job-1', status: 'running', lockedBy: 'worker-1' },
+      data: expect.objectContaining({ status: 'failed' }),
+    }));
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+});
+
+describe('recoverStaleJobs', () => {
+  it('leaves out jobs another worker recovered first', async () => {
+    prisma.job.findMany.mockResolvedValue([
+      claimedJob({ id: 'job-1', lockedBy: 'worker-1' }),
+      claimedJob({ id: 'job-2', lockedBy: 'worker-2' }),
+    ]);
+    prisma.job.updateMany.mockImplementation(async ({ where }) => ({ count: where.id === 'job-1' ? 1 : 0 }));
+
+    const exhausted = await jobQueue.recoverStaleJobs();
+
+    expect(exhausted.map(job => job.id)).toEqual(['job-1']);
+  });
+});
@@ -0,0 +1,434 @@
+import type { Job } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseJsonField } from './product-data';
+import { usageService, getBudgetExceededError } from './usage';
+
+export const JOB_TYPES = ['analyze_product', 'price_product', 'sync_shopify', 'sync_ebay', 'reprice_products'] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type JobStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface JobStep {
+  name: string;
+  status: JobStepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  // Latest progress message, and counts such as listings found
+  message?: string;
+  counts?: Record<string, number>;
+  error?: string;
+}
+
+export type JobEventType =
+  | 'attempt_started'
+  | 'step_started'
+  | 'step_progress'
+  | 'step_completed'
+  | 'step_failed'
+  | 'retry_scheduled'
+  | 'completed'
+  | 'failed';
+
+export interface JobEvent {
+  // Position in the job's event log, starting at 1 - used as the SSE event id
+  id: number;
+  type: JobEventType;
+  at: string;
+  step?: string;
+  message?: string;
+  counts?: Record<string, number>;
+}
+
+// What the API and UI see of a job - JSON columns parsed, internals left out
+export interface JobView {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  productId: string | null;
+  steps: JobStep[];
+  events: JobEvent[];
+  result: unknown;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobContext {
+  job: Job;
+  // Mark a step running, completing the one before it
+  startStep(name: string, message?: string): Promise<void>;
+  // Report progress within the running step
+  reportProgress(message: string, counts?: Record<string, number>): Promise<void>;
+  // Complete the running step with a summary of what it did
+  completeStep(message?: string, counts?: Record<string, number>): Promise<void>;
+}
+
+export interface JobHandler<TPayload = unknown> {
+  // Steps listed as pending before the handler reaches them
+  steps?: readonly string[];
+  run(payload: TPayload, context: JobContext): Promise<unknown>;
+  // Called once, after the last attempt has failed
+  onFailed?(payload: TPayload, error: unknown): Promise<void>;
+}
+
+/**
+ * Thrown for failures retrying cannot fix, such as missing configuration -
+ * the job fails straight away instead of using up its attempts
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Retries wait 30s, 1m, 2m, ... capped at 15 minutes
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// A running job whose lock is older than this was abandoned by a worker that
+// stopped, e.g. on a server restart. Every step refreshes the lock, and a
+// worker only writes to a job while it still holds the lock.
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function isJobType(type: string): type is JobType {
+  return (JOB_TYPES as readonly string[]).includes(type);
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+function addJobEvent(events: JobEvent[], event: Omit<JobEvent, 'id' | 'at'>): void {
+  events.push({ id: events.length + 1, at: new Date().toISOString(), ...event });
+}
+
+export function serializeJob(job: Job): JobView {
+  return {
+    id: job.id,
+    type: job.type as JobType,
+    status: job.status as JobStatus,
+    productId: job.productId,
+    steps: parseJsonField<JobStep[]>(job.steps) || [],
+    events: parseJsonField<JobEvent[]>(job.events) || [],
+    result: parseJsonField<unknown>(job.result),
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAt: job.runAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+export class JobQueueService {
+  /**
+   * Queue a job. A product only has one active job of each type, so asking
+   * again while one is queued or running returns that job - to any member of
+   * the product's organization.
+   */
+  async enqueue(
+    type: JobType,
+    payload: object,
+    options: { userId: string; organizationId: string; productId?: string; maxAttempts?: number }
+  ): Promise<Job> {
+    if (options.productId) {
+      const active = await this.findActiveJob(type, options.productId);
+      if (active) return active;
+    }
+
+    return prisma.job.create({
+      data: {
+        type,
+        payload: JSON.stringify(payload),
+        userId: options.userId,
+        organizationId: options.organizationId,
+        productId: options.productId,
+        maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      },
+    });
+  }
+
+  /**
+   * Get a job, scoped to the organization it works for
+   */
+  async getJob(id: string, organizationId: string): Promise<Job | null> {
+    return prisma.job.findFirst({
+      where: { id, organizationId },
+    });
+  }
+
+  /**
+   * Recent jobs of an organization, newest first
+   */
+  async getJobs(organizationId: string, filters: { productId?: string; limit?: number } = {}): Promise<Job[]> {
+    return prisma.job.findMany({
+      where: { organizationId, productId: filters.productId },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 20,
+    });
+  }
+
+  async findActiveJob(type: JobType, productId: string): Promise<Job | null> {
+    return prisma.job.findFirst({
+      where: { type, productId, status: { in: ['queued', 'running'] } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Lock the next due job for a worker. The status check in the update makes
+   * the claim safe when several workers poll the same table.
+   */
+  async claimNext(workerId: string): Promise<Job | null> {
+    for (;;) {
+      const now = new Date();
+      const candidate = await prisma.job.findFirst({
+        where: { status: 'queued', runAt: { lte: now } },
+        orderBy: { runAt: 'asc' },
+        select: { id: true },
+      });
+      if (!candidate) return null;
+
+      const { count } = await prisma.job.updateMany({
+        where: { id: candidate.id, status: 'queued' },
+        data: {
+          status: 'running',
+          lockedAt: now,
+          lockedBy: workerId,
+          attempts: { increment: 1 },
+        },
+      });
+
+      // Another worker got there first - look again
+      if (count === 1) {
+        return prisma.job.findUnique({ where: { id: candidate.id } });
+      }
+    }
+  }
+
+  /**
+   * Run a claimed job with its handler, recording each step and progress
+   * event, and then complete it, schedule a retry or fail it
+   */
+  async runJob(job: Job, handler: JobHandler): Promise<void> {
+    // Set by claimNext - once the job is reclaimed it names another worker
+    const workerId = job.lockedBy;
+    const steps: JobStep[] = (handler.steps || []).map(name => ({ name, status: 'pending' }));
+    const events = parseJsonField<JobEvent[]>(job.events) || [];
+    const payload = parseJsonField<unknown>(job.payload);
+
+    // Saves are chained so a slow write never lands after a newer one
+    let saving = Promise.resolve();
+    const save = () => {
+      saving = saving
+        .then(async () => {
+          await prisma.job.updateMany({
+            where: { id: job.id, lockedBy: workerId },
+            data: {
+              steps: JSON.stringify(steps),
+              events: JSON.stringify(events),
+              lockedAt: new Date(),
+            },
+          });
+        })
+        .catch(error => console.error(`Error saving progress of job ${job.id}:`, error));
+      return saving;
+    };
+
+    const getRunningStep = () => steps.find(step => step.status === 'running');
+
+    const finishRunningStep = (status: 'completed' | 'failed', details: { message?: string; counts?: Record<string, number>; error?: string } = {}) => {
+      const current = getRunningStep();
+      if (!current) return;
+
+      current.status = status;
+      current.finishedAt = new Date().toISOString();
+      if (details.message) current.message = details.message;
+      if (details.counts) current.counts = { ...current.counts, ...details.counts };
+      if (details.error) current.error = details.error;
+
+      addJobEvent(events, {
+        type: status === 'completed' ? 'step_completed' : 'step_failed',
+        step: current.name,
+        message: details.error || details.message,
+        counts: details.counts,
+      });
+    };
+
+    const context: JobContext = {
+      job,
+      startStep: async (name, message) => {
+        finishRunningStep('completed');
+
+        let step = steps.find(existing => existing.name === name);
+        if (!step) {
+          step = { name, status: 'pending' };
+          steps.push(step);
+        }
+        Object.assign(step, { status: 'running', startedAt: new Date().toISOString(), message });
+        delete step.finishedAt;
+        delete step.counts;
+        delete step.error;
+
+        addJobEvent(events, { type: 'step_started', step: name, message });
+        await save();
+      },
+      reportProgress: async (message, counts) => {
+        const current = getRunningStep();
+        if (current) {
+          current.message = message;
+          if (counts) current.counts = { ...current.counts, ...counts };
+        }
+
+        addJobEvent(events, { type: 'step_progress', step: current?.name, message, counts });
+        await save();
+      },
+      completeStep: async (message, counts) => {
+        finishRunningStep('completed', { message, counts });
+        await save();
+      },
+    };
+
+    addJobEvent(events, {
+      type: 'attempt_started',
+      message: `Attempt ${job.attempts} of ${job.maxAttempts}`,
+    });
+    await save();
+
+    try {
+      // Paid calls the handler makes are charged to the job's user and product
+      const result = await usageService.run(
+        { userId: job.userId, productId: job.productId ?? undefined },
+        () => handler.run(payload, context)
+      );
+      await saving;
+
+      finishRunningStep('completed');
+      steps.filter(step => step.status === 'pending').forEach(step => { step.status = 'skipped'; });
+      addJobEvent(events, { type: 'completed' });
+
+      const { count } = await prisma.job.updateMany({
+        where: { id: job.id, lockedBy: workerId },
+        data: {
+          status: 'completed',
+          result: result === undefined ? null : JSON.stringify(result),
+          steps: JSON.stringify(steps),
+          events: JSON.stringify(events),
+          error: null,
+          lockedAt: null,
+          lockedBy: null,
+          finishedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        console.warn(`Job ${job.id} was reclaimed by another worker; its result from this attempt was dropped`);
+      }
+    } catch (error) {
+      await saving;
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+      // Retrying cannot get past a spent budget either
+      const retryable = !(error instanceof NonRetryableJobError || getBudgetExceededError(error));
+
+      finishRunningStep('failed', { error: message });
+      const recorded = await this.failAttempt(job, message, {
+        steps,
+        events,
+        retry: retryable,
+      });
+
+      if (recorded && (!retryable || job.attempts >= job.maxAttempts)) {
+        await handler.onFailed?.(payload, error);
+      }
+    }
+  }
+
+  /**
+   * Put jobs abandoned mid-run back in the queue - or fail them when they
+   * have no attempts left. Returns the jobs that ran out of attempts.
+   */
+  async recoverStaleJobs(): Promise<Job[]> {
+    const stale = await prisma.job.findMany({
+      where: {
+        status: 'running',
+        lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) },
+      },
+    });
+
+    const exhausted: Job[] = [];
+    for (const job of stale) {
+      const steps = parseJsonField<JobStep[]>(job.steps) || [];
+      const events = parseJsonField<JobEvent[]>(job.events) || [];
+
+      const interrupted = steps.find(step => step.status === 'running');
+      if (interrupted) {
+        interrupted.status = 'failed';
+        interrupted.error = 'Interrupted';
+        addJobEvent(events, { type: 'step_failed', step: interrupted.name, message: 'Interrupted' });
+      }
+
+      const recorded = await this.failAttempt(job, 'Job was interrupted before it finished', { steps, events, retry: true });
+      if (recorded && job.attempts >= job.maxAttempts) {
+        exhausted.push(job);
+      }
+    }
+
+    return exhausted;
+  }
+
+  /**
+   * Record a failed attempt, as long as the job is still locked by the worker
+   * it was read with. Returns false when another worker has taken it over.
+   */
+  private async failAttempt(
+    job: Job,
+    message: string,
+    options: { steps: JobStep[]; events: JobEvent[]; retry: boolean }
+  ): Promise<boolean> {
+    const willRetry = options.retry && job.attempts < job.maxAttempts;
+    const retryDelay = getRetryDelay(job.attempts);
+
+    addJobEvent(options.events, willRetry
+      ? { type: 'retry_scheduled', message: `Retrying in ${Math.round(retryDelay / 1000)}s: ${message}` }
+      : { type: 'failed', message });
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: 'running', lockedBy: job.lockedBy },
+      data: willRetry
+        ? {
+            status: 'queued',
+            runAt: new Date(Date.now() + retryDelay),
+            steps: JSON.stringify(options.steps),
+            events: JSON.stringify(options.events),
+            error: message,
+            lockedAt: null,
+            lockedBy: null,
+          }
+        : {
+            status: 'failed',
+            steps: JSON.stringify(options.steps),
+            events: JSON.stringify(options.events),
+            error: message,
+            lockedAt: null,
+            lockedBy: null,
+            finishedAt: new Date(),
+          },
+    });
+    return count === 1;
+  }
+}
+
+export const jobQueue = new JobQueueService();
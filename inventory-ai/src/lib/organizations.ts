@@ -0,0 +1,347 @@
+import { randomBytes } from 'crypto';
+import type { Invitation, Membership, Organization } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const ORGANIZATION_ROLES = ['owner', 'lister', 'photographer', 'viewer'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export const PERMISSIONS = [
+  'view_products',
+  'create_products',
+  'edit_products',
+  'delete_products',
+  'manage_images',
+  'analyze_products',
+  // Setting a product's price or cost, or running a pricing analysis
+  'set_prices',
+  // Listing on, syncing with or ending listings on sales channels
+  'publish_listings',
+  'manage_members',
+  // Connecting the organization's own Shopify store and eBay seller account
+  'manage_channels',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  view_products: 'view products',
+  create_products: 'add products',
+  edit_products: 'edit products',
+  delete_products: 'delete products',
+  manage_images: 'manage product photos',
+  analyze_products: 'run product analyses',
+  set_prices: 'change prices',
+  publish_listings: 'publish to sales channels',
+  manage_members: 'manage members and invitations',
+  manage_channels: 'connect sales channel accounts',
+};
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  lister: PERMISSIONS.filter(permission => permission !== 'manage_members' && permission !== 'manage_channels'),
+  photographer: ['view_products', 'edit_products', 'manage_images'],
+  viewer: ['view_products'],
+};
+
+const INVITATION_TTL_DAYS = 14;
+
+export type ActiveMembership = Membership & { role: OrganizationRole; organization: Organization };
+
+export interface OrganizationMember {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export function isOrganizationRole(role: unknown): role is OrganizationRole {
+  return typeof role === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: OrganizationRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function getPermissionDeniedMessage(role: OrganizationRole, permission: Permission): string {
+  return `The ${role} role cannot ${PERMISSION_LABELS[permission]}`;
+}
+
+export function getInvitationUrl(invitation: Pick<Invitation, 'token'>): string {
+  const baseUrl = (process.env.NEXTAUTH_URL || '').replace(/\/$/, '');
+  return `${baseUrl}/team?invitation=${encodeURIComponent(invitation.token)}`;
+}
+
+/**
+ * Thrown when a membership or invitation change is not allowed - the message
+ * is safe to show the user
+ */
+export class OrganizationError extends Error {
+  constructor(message: string, readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+/**
+ * Workspaces that own products. Every user works in one organization at a
+ * time; users who have none get a personal one on their first request.
+ */
+export class OrganizationService {
+  /**
+   * The organization the user is working in, with their role in it
+   */
+  async getActiveMembership(userId: string): Promise<ActiveMembership> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true, activeOrganizationId: true },
+    });
+
+    if (user.activeOrganizationId) {
+      const active = await prisma.membership.findUnique({
+        where: { organizationId_userId: { organizationId: user.activeOrganizationId, userId } },
+        include: { organization: true },
+      });
+      if (active) return active as ActiveMembership;
+    }
+
+    // Removed from the active organization, or never chose one
+    const membership = await prisma.membership.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { organization: true },
+    }) ?? await this.createPersonalOrganization(userId, user);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { activeOrganizationId: membership.organizationId },
+    });
+
+    return membership as ActiveMembership;
+  }
+
+  async getMemberships(userId: string): Promise<ActiveMembership[]> {
+    const memberships = await prisma.membership.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { organization: true },
+    });
+    return memberships as ActiveMembership[];
+  }
+
+  async setActiveOrganization(userId: string, organizationId: string): Promise<ActiveMembership | null> {
+    const membership = await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      include: { organization: true },
+    });
+    if (!membership) return null;
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { activeOrganizationId: organizationId },
+    });
+    return membership as ActiveMembership;
+  }
+
+  /**
+   * Start a new organization owned by the user and switch them to it
+   */
+  async createOrganization(userId: string, name: string): Promise<ActiveMembership> {
+    const membership = await prisma.membership.create({
+      data: {
+        role: 'owner',
+        user: { connect: { id: userId } },
+        organization: { create: { name } },
+      },
+      include: { organization: true },
+    });
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { activeOrganizationId: membership.organizationId },
+    });
+    return membership as ActiveMembership;
+  }
+
+  async getMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const memberships = await prisma.membership.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: { name: true, email: true } } },
+    });
+
+    return memberships.map(membership => ({
+      userId: membership.userId,
+      name: membership.user.name,
+      email: membership.user.email,
+      role: membership.role as OrganizationRole,
+      joinedAt: membership.createdAt,
+    }));
+  }
+
+  async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<void> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (membership.role === 'owner' && role !== 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await prisma.membership.update({
+      where: { id: membership.id },
+      data: { role },
+    });
+  }
+
+  /**
+   * Remove a member, or let a member leave. Products they added stay with
+   * the organization.
+   */
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (membership.role === 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await prisma.membership.delete({ where: { id: membership.id } });
+  }
+
+  /**
+   * Invite someone by email. Inviting the same address again replaces the
+   * pending invitation, so only the newest link works.
+   */
+  async createInvitation(
+    organizationId: string,
+    invitedById: string,
+    email: string,
+    role: OrganizationRole
+  ): Promise<Invitation> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const existingMember = await prisma.membership.findFirst({
+      where: { organizationId, user: { email: { equals: normalizedEmail, mode: 'insensitive' } } },
+    });
+    if (existingMember) {
+      throw new OrganizationError(`${normalizedEmail} is already a member`, 409);
+    }
+
+    await prisma.invitation.deleteMany({
+      where: { organizationId, email: normalizedEmail, acceptedAt: null },
+    });
+
+    return prisma.invitation.create({
+      data: {
+        organizationId,
+        invitedById,
+        email: normalizedEmail,
+        role,
+        token: randomBytes(32).toString('base64url'),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+  }
+
+  async getPendingInvitations(organizationId: string): Promise<Invitation[]> {
+    return prisma.invitation.findMany({
+      where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeInvitation(organizationId: string, invitationId: string): Promise<boolean> {
+    const { count } = await prisma.invitation.deleteMany({
+      where: { id: invitationId, organizationId, acceptedAt: null },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Join the invitation's organization with its role and switch to it. Only
+   * the user signed in with the invited email can accept.
+   */
+  async acceptInvitation(token: string, userId: string): Promise<ActiveMembership> {
+    const invitation = await prisma.invitation.findUnique({ where: { token } });
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+      throw new OrganizationError('This invitation is invalid or has expired', 404);
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+    if (user.email?.toLowerCase() !== invitation.email) {
+      throw new OrganizationError(`This invitation is for ${invitation.email}`, 403);
+    }
+
+    // Products added before workspaces move to the user's personal one first
+    await this.getActiveMembership(userId);
+
+    const membership = await prisma.$transaction(async tx => {
+      const joined = await tx.membership.upsert({
+        where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+        create: { organizationId: invitation.organizationId, userId, role: invitation.role },
+        update: {},
+        include: { organization: true },
+      });
+      await tx.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { activeOrganizationId: invitation.organizationId },
+      });
+      return joined;
+    });
+
+    return membership as ActiveMembership;
+  }
+
+  private async getMembership(organizationId: string, userId: string): Promise<Membership> {
+    const membership = await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+    if (!membership) {
+      throw new OrganizationError('Member not found', 404);
+    }
+    return membership;
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const owners = await prisma.membership.count({ where: { organizationId, role: 'owner' } });
+    if (owners <= 1) {
+      throw new OrganizationError('An organization needs at least one owner', 409);
+    }
+  }
+
+  /**
+   * A workspace of the user's own, taking over the products, pricing rules
+   * and repricing rules they added before organizations existed
+   */
+  private async createPersonalOrganization(
+    userId: string,
+    user: { name: string | null }
+  ) {
+    const membership = await prisma.membership.create({
+      data: {
+        role: 'owner',
+        user: { connect: { id: userId } },
+        organization: { create: { name: user.name ? `${user.name}'s workspace` : 'My workspace' } },
+      },
+      include: { organization: true },
+    });
+
+    await prisma.product.updateMany({
+      where: { userId, organizationId: null },
+      data: { organizationId: membership.organizationId },
+    });
+    await prisma.pricingRules.updateMany({
+      where: { userId, organizationId: null },
+      data: { organizationId: membership.organizationId },
+    });
+    await prisma.repricingRule.updateMany({
+      where: { userId, organizationId: null },
+      data: { organizationId: membership.organizationId },
+    });
+
+    return membership;
+  }
+}
+
+export const organizationService = new OrganizationService();
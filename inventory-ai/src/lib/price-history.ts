@@ -0,0 +1,120 @@
+import type { PriceChange, Product } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseJsonField } from './product-data';
+
+export const PRICE_CHANGE_SOURCES = ['manual', 'ai_recommendation', 'repricer', 'channel_import'] as const;
+
+export type PriceChangeSource = typeof PRICE_CHANGE_SOURCES[number];
+
+// The asking price, or the price the last analysis recommended
+export const PRICE_FIELDS = ['price', 'recommendedPrice'] as const;
+
+export type PriceField = typeof PRICE_FIELDS[number];
+
+export interface PriceChangeDetails {
+  source: PriceChangeSource;
+  reason?: string;
+  userId?: string | null;
+  ruleId?: string;
+  jobId?: string;
+  // Market analysis the price came from; stored as a snapshot
+  analysis?: unknown;
+}
+
+export interface PriceChangeView {
+  id: string;
+  field: PriceField;
+  oldPrice: number | null;
+  newPrice: number | null;
+  source: PriceChangeSource;
+  reason: string | null;
+  user: { id: string; name: string | null; email: string | null } | null;
+  rule: { id: string; name: string } | null;
+  jobId: string | null;
+  hasAnalysis: boolean;
+  createdAt: string;
+}
+
+type PriceValues = Partial<Pick<Product, PriceField>>;
+
+/**
+ * Keeps a log of every change to a product's price and recommended price -
+ * who or what made it, and the analysis behind it
+ */
+export class PriceHistoryService {
+  /**
+   * Log each price field that differs between two versions of a product.
+   * Fields missing from `after` were not touched.
+   */
+  async recordChanges(
+    productId: string,
+    before: PriceValues,
+    after: PriceValues,
+    details: PriceChangeDetails
+  ): Promise<PriceChange[]> {
+    const analysis = details.analysis === undefined ? undefined : JSON.stringify(details.analysis);
+    const changed = PRICE_FIELDS.filter(field =>
+      after[field] !== undefined && (after[field] ?? null) !== (before[field] ?? null)
+    );
+
+    return Promise.all(changed.map(field =>
+      prisma.priceChange.create({
+        data: {
+          productId,
+          field,
+          oldPrice: before[field] ?? null,
+          newPrice: after[field] ?? null,
+          source: details.source,
+          reason: details.reason,
+          userId: details.userId,
+          ruleId: details.ruleId,
+          jobId: details.jobId,
+          analysis,
+        },
+      })
+    ));
+  }
+
+  /**
+   * A product's price changes, newest first
+   */
+  async getHistory(productId: string, options: { field?: PriceField; limit?: number } = {}): Promise<PriceChangeView[]> {
+    const changes = await prisma.priceChange.findMany({
+      where: { productId, field: options.field },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 100,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        rule: { select: { id: true, name: true } },
+      },
+    });
+
+    return changes.map(change => ({
+      id: change.id,
+      field: change.field as PriceField,
+      oldPrice: change.oldPrice,
+      newPrice: change.newPrice,
+      source: change.source as PriceChangeSource,
+      reason: change.reason,
+      user: change.user,
+      rule: change.rule,
+      jobId: change.jobId,
+      hasAnalysis: change.analysis !== null,
+      createdAt: change.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * The market analysis a change was based on, as it stood at the time
+   */
+  async getAnalysis(productId: string, changeId: string): Promise<unknown | null> {
+    const change = await prisma.priceChange.findFirst({
+      where: { id: changeId, productId },
+      select: { analysis: true },
+    });
+
+    return parseJsonField<unknown>(change?.analysis);
+  }
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,181 @@
+import { prisma } from './prisma';
+import { parseJsonField } from './product-data';
+import { DEFAULT_CONDITION_SCORES, getConditionScore, type ConditionGrade } from './comp-pricing';
+import { DEFAULT_CHANNEL_FEES, getMinimumPriceForMargin, type ChannelFees } from './profit';
+
+export const ROUNDING_RULES = ['none', 'whole', 'ninety_nine', 'ninety_five', 'nearest_five'] as const;
+
+export type RoundingRule = typeof ROUNDING_RULES[number];
+
+/**
+ * A store's pricing economics. Comparables already reflect what a category
+ * or brand sells for, so category and brand multipliers are the store's own
+ * adjustment on top of the market and default to 1.
+ */
+export interface PricingRules {
+  // Value of each condition relative to new
+  conditionMultipliers: Record<ConditionGrade, number>;
+  // Keyed by lowercase category
+  categoryMultipliers: Record<string, number>;
+  // Keyed by lowercase brand; used instead of the category's multiplier
+  brandOverrides: Record<string, number>;
+  // No price is suggested below this
+  minimumPrice: number;
+  rounding: RoundingRule;
+  // Fraction of the sale price to keep over cost
+  targetMargin: number | null;
+  channelFees: ChannelFees;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  conditionMultipliers: DEFAULT_CONDITION_SCORES,
+  categoryMultipliers: {},
+  brandOverrides: {},
+  minimumPrice: 0,
+  rounding: 'none',
+  targetMargin: null,
+  channelFees: DEFAULT_CHANNEL_FEES,
+};
+
+export interface StoreAdjustment {
+  category: number;
+  brand: number | null;
+  // What the market price is multiplied by - the brand's when set
+  multiplier: number;
+}
+
+export interface PriceFloor {
+  price: number;
+  // Why the target margin was left out of the floor, when one was set
+  reason: string | null;
+}
+
+function normalizeKeys(values: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key.trim().toLowerCase(), value])
+  );
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Loads each organization's pricing rules and applies them. Every price the
+ * app suggests goes through here, so all pricing paths agree.
+ */
+export class PricingService {
+  // Products not yet claimed by a workspace are priced with the defaults
+  async getRules(organizationId: string | null): Promise<PricingRules> {
+    if (!organizationId) return DEFAULT_PRICING_RULES;
+
+    const stored = await prisma.pricingRules.findUnique({ where: { organizationId } });
+    if (!stored) return DEFAULT_PRICING_RULES;
+
+    return {
+      conditionMultipliers: {
+        ...DEFAULT_CONDITION_SCORES,
+        ...parseJsonField<Partial<Record<ConditionGrade, number>>>(stored.conditionMultipliers),
+      },
+      categoryMultipliers: parseJsonField<Record<string, number>>(stored.categoryMultipliers) ?? {},
+      brandOverrides: parseJsonField<Record<string, number>>(stored.brandOverrides) ?? {},
+      minimumPrice: stored.minimumPrice,
+      rounding: (ROUNDING_RULES as readonly string[]).includes(stored.rounding)
+        ? stored.rounding as RoundingRule
+        : 'none',
+      targetMargin: stored.targetMargin,
+      channelFees: {
+        ...DEFAULT_CHANNEL_FEES,
+        ...parseJsonField<Partial<ChannelFees>>(stored.channelFees),
+      },
+    };
+  }
+
+  async saveRules(organizationId: string, userId: string, rules: PricingRules): Promise<PricingRules> {
+    const data = {
+      conditionMultipliers: JSON.stringify(rules.conditionMultipliers),
+      categoryMultipliers: JSON.stringify(normalizeKeys(rules.categoryMultipliers)),
+      brandOverrides: JSON.stringify(normalizeKeys(rules.brandOverrides)),
+      minimumPrice: rules.minimumPrice,
+      rounding: rules.rounding,
+      targetMargin: rules.targetMargin,
+      channelFees: JSON.stringify(rules.channelFees),
+    };
+
+    await prisma.pricingRules.upsert({
+      where: { organizationId },
+      create: { organizationId, userId, ...data },
+      update: { userId, ...data },
+    });
+
+    return this.getRules(organizationId);
+  }
+
+  async resetRules(organizationId: string): Promise<PricingRules> {
+    await prisma.pricingRules.deleteMany({ where: { organizationId } });
+    return DEFAULT_PRICING_RULES;
+  }
+
+  /**
+   * Value of a condition relative to new; unrecognised conditions are not adjusted
+   */
+  getConditionMultiplier(rules: PricingRules, condition?: string | null): number {
+    return getConditionScore(condition, rules.conditionMultipliers) ?? 1;
+  }
+
+  getStoreAdjustment(rules: PricingRules, item: { category?: string | null; brand?: string | null }): StoreAdjustment {
+    const category = rules.categoryMultipliers[item.category?.trim().toLowerCase() ?? ''] ?? 1;
+    const brand = rules.brandOverrides[item.brand?.trim().toLowerCase() ?? ''] ?? null;
+
+    return { category, brand, multiplier: brand ?? category };
+  }
+
+  roundPrice(price: number, rule: RoundingRule): number {
+    switch (rule) {
+      case 'whole':
+        return Math.max(1, Math.round(price));
+      case 'ninety_nine':
+        return Math.max(0.99, Math.round(price) - 0.01);
+      case 'ninety_five':
+        return Math.max(0.95, Math.round(price) - 0.05);
+      case 'nearest_five':
+        return Math.max(5, Math.round(price / 5) * 5);
+      case 'none':
+      default:
+        return roundCents(price);
+    }
+  }
+
+  /**
+   * Lowest price the rules allow for an item - the minimum price, raised to
+   * keep the target margin over its cost after every channel's fees
+   */
+  getPriceFloor(rules: PricingRules, costBasis?: number | null, targetMargin = rules.targetMargin): PriceFloor {
+    if (costBasis == null || targetMargin == null) return { price: rules.minimumPrice, reason: null };
+
+    const marginFloor = getMinimumPriceForMargin(costBasis, targetMargin, rules.channelFees);
+    if (marginFloor === null) {
+      return {
+        price: rules.minimumPrice,
+        reason: `Channel fees leave no room for a ${Math.round(targetMargin * 100)}% margin - only the minimum price applies`,
+      };
+    }
+    return { price: Math.max(rules.minimumPrice, marginFloor), reason: null };
+  }
+
+  /**
+   * Round a suggested price and hold it at the floor. A zero price means
+   * there was no evidence for one and is left alone.
+   */
+  finalizePrice(price: number, rules: PricingRules, floor = rules.minimumPrice): { price: number; floored: boolean } {
+    if (!(price > 0)) return { price: 0, floored: false };
+
+    const rounded = this.roundPrice(price, rules.rounding);
+    if (rounded < floor) {
+      return { price: roundCents(floor), floored: true };
+    }
+    return { price: rounded, floored: false };
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/test/prisma-mock';
+import { ORG_A, ORG_B, seedProducts, signInAs, signOut } from '@/test/workspaces';
+import { getOwnedProductOrThrow, ProductAccessError } from './product-access';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+describe('getOwnedProductOrThrow', () => {
+  beforeEach(() => {
+    seedProducts(
+      { id: 'product-a', organizationId: ORG_A, title: 'Ours' },
+      { id: 'product-b', organizationId: ORG_B, title: 'Theirs' }
+    );
+  });
+
+  it('returns a product of the active organization', async () => {
+    signInAs('viewer');
+
+    const { product, membership } = await getOwnedProductOrThrow('product-a', 'view_products');
+
+    expect(product).toMatchObject({ id: 'product-a', title: 'Ours' });
+    expect(membership.organizationId).toBe(ORG_A);
+  });
+
+  it('reports a product of another organization as missing', async () => {
+    signInAs('owner');
+
+    const error = await getOwnedProductOrThrow('product-b', 'view_products').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ProductAccessError);
+    expect(error.status).toBe(404);
+    expect(prisma.product.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'product-b', organizationId: ORG_A } })
+    );
+  });
+
+  it('answers the same for products that do not exist', async () => {
+    signInAs('owner');
+
+    await expect(getOwnedProductOrThrow('missing', 'view_products')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('finds the other organization\'s product once the user switches to it', async () => {
+    signInAs('viewer', ORG_B);
+
+    const { product } = await getOwnedProductOrThrow('product-b', 'view_products');
+
+    expect(product.id).toBe('product-b');
+  });
+
+  it('refuses a role without the permission before loading the product', async () => {
+    signInAs('photographer');
+
+    await expect(getOwnedProductOrThrow('product-a', 'set_prices')).rejects.toMatchObject({ status: 403 });
+    expect(prisma.product.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('refuses signed-out requests', async () => {
+    signOut();
+
+    await expect(getOwnedProductOrThrow('product-a', 'view_products')).rejects.toMatchObject({ status: 401 });
+  });
+});
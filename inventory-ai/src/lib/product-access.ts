@@ -0,0 +1,75 @@
+import type { Prisma } from '@prisma/client';
+import { auth } from './auth';
+import { prisma } from './prisma';
+import {
+  organizationService,
+  hasPermission,
+  getPermissionDeniedMessage,
+  type ActiveMembership,
+  type Permission,
+} from './organizations';
+
+/**
+ * Thrown when a product route refuses a request. `status` is what to answer
+ * with: 401 signed out, 403 the role lacks the permission, 404 no such
+ * product in the user's organization.
+ */
+export class ProductAccessError extends Error {
+  constructor(message: string, readonly status: 401 | 403 | 404) {
+    super(message);
+    this.name = 'ProductAccessError';
+  }
+}
+
+export interface ProductAccess {
+  userId: string;
+  membership: ActiveMembership;
+}
+
+type ProductQuery = Omit<Prisma.ProductFindFirstArgs, 'where'>;
+
+export function assertPermission(membership: ActiveMembership, permission: Permission): void {
+  if (!hasPermission(membership.role, permission)) {
+    throw new ProductAccessError(getPermissionDeniedMessage(membership.role, permission), 403);
+  }
+}
+
+/**
+ * The signed-in user and their membership of the organization they are
+ * working in, provided their role has the permission
+ */
+export async function requireProductPermission(permission: Permission): Promise<ProductAccess> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new ProductAccessError('Unauthorized', 401);
+  }
+
+  const membership = await organizationService.getActiveMembership(session.user.id);
+  assertPermission(membership, permission);
+
+  return { userId: session.user.id, membership };
+}
+
+/**
+ * Load a product for a route that needs the permission. Every product route
+ * goes through here so that products of other organizations are reported
+ * missing, whether or not they exist.
+ */
+export async function getOwnedProductOrThrow<Q extends ProductQuery = Record<string, never>>(
+  productId: string,
+  permission: Permission,
+  query?: Prisma.SelectSubset<Q, ProductQuery>
+): Promise<ProductAccess & { product: Prisma.ProductGetPayload<Q> }> {
+  const access = await requireProductPermission(permission);
+
+  const product = await prisma.product.findFirst({
+    ...(query as ProductQuery | undefined),
+    where: { id: productId, organizationId: access.membership.organizationId },
+  });
+
+  if (!product) {
+    throw new ProductAccessError('Product not found', 404);
+  }
+
+  return { ...access, product: product as Prisma.ProductGetPayload<Q> };
+}
@@ -0,0 +1,177 @@
+import type { Product, ProductImage } from '@prisma/client';
+import type { GeminiAnalysis } from './gemini';
+import { parseStoredGeminiAnalysis } from './ai-schemas';
+
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+  unit: 'in' | 'cm';
+}
+
+export type ProductWithImages = Product & { images?: ProductImage[] };
+
+export interface GalleryImage {
+  url: string;
+  alt: string;
+}
+
+export type ListingCondition = 'new' | 'used' | 'refurbished' | 'open_box' | 'for_parts';
+
+interface StoredIdentification {
+  condition?: { grade?: string; indicators?: string[] };
+  authenticity?: { confidence?: number };
+}
+
+export interface ListingAnalysisData {
+  condition?: { grade?: string; notes: string };
+  authenticity?: { verified: boolean };
+  dimensions?: ProductDimensions | GeminiAnalysis['dimensions'];
+  ebayCategory?: string;
+  facebookCategory?: string;
+  seoKeywords?: string[];
+  seoTitle?: string;
+  seoDescription?: string;
+  marketingCopy?: string;
+  productType?: string;
+  marketAnalysis?: unknown;
+}
+
+/**
+ * Safely parse one of the JSON string columns on Product
+ */
+export function parseJsonField<T = unknown>(value: string | null | undefined): T | null {
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tags are stored either as a JSON array or as a comma-separated string
+ */
+export function parseProductTags(tags: string | null | undefined): string[] {
+  if (!tags) return [];
+
+  const parsed = parseJsonField<unknown>(tags);
+  if (Array.isArray(parsed)) {
+    return parsed.map(tag => String(tag).trim()).filter(Boolean);
+  }
+
+  return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Dimensions are stored either as JSON ({ length, width, height, unit })
+ * or as free text from the product form ("12 x 8 x 3 in")
+ */
+export function parseProductDimensions(dimensions: string | null | undefined): ProductDimensions | null {
+  if (!dimensions) return null;
+
+  const parsed = parseJsonField<Record<string, unknown>>(dimensions);
+  if (parsed && typeof parsed === 'object') {
+    const length = Number(parsed.length);
+    const width = Number(parsed.width);
+    const height = Number(parsed.height);
+    if ([length, width, height].every(value => value > 0)) {
+      return {
+        length,
+        width,
+        height,
+        unit: /^c/i.test(String(parsed.unit || '')) ? 'cm' : 'in',
+      };
+    }
+  }
+
+  const match = /(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*(cm|in|inches)?/i.exec(dimensions);
+  if (!match) return null;
+
+  return {
+    length: parseFloat(match[1]),
+    width: parseFloat(match[2]),
+    height: parseFloat(match[3]),
+    unit: match[4]?.toLowerCase() === 'cm' ? 'cm' : 'in',
+  };
+}
+
+/**
+ * Map the free-form condition stored on a product to a marketplace condition
+ */
+export function mapListingCondition(condition: string | null | undefined): ListingCondition {
+  const normalized = (condition || '').toLowerCase().replace(/[\s_]+/g, '-');
+
+  if (normalized === 'new' || normalized === 'new-in-package') return 'new';
+  if (normalized === 'open-box') return 'open_box';
+  if (normalized.includes('refurb')) return 'refurbished';
+  if (normalized === 'for-parts' || normalized === 'poor') return 'for_parts';
+  return 'used';
+}
+
+/**
+ * Uploaded images are stored as site-relative paths, but marketplaces need
+ * an absolute URL they can fetch
+ */
+export function toPublicUrl(url: string): string {
+  if (/^https?:\/\//i.test(url)) return url;
+
+  const baseUrl = (process.env.NEXTAUTH_URL || '').replace(/\/$/, '');
+  return `${baseUrl}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Ordered gallery for listings: the hero shot first, then the rest by position.
+ * Products saved before galleries existed fall back to their single imageUrl.
+ */
+export function getProductGallery(product: ProductWithImages): GalleryImage[] {
+  const images = [...(product.images || [])].sort((a, b) => {
+    if ((a.role === 'hero') !== (b.role === 'hero')) return a.role === 'hero' ? -1 : 1;
+    return a.position - b.position;
+  });
+
+  if (images.length === 0) {
+    return product.imageUrl ? [{ url: product.imageUrl, alt: product.title }] : [];
+  }
+
+  return images.map(image => ({ url: image.url, alt: image.altText || product.title }));
+}
+
+/**
+ * The product id doubles as the SKU on every sales channel so that orders
+ * and inventory updates can be matched back to a product
+ */
+export function getProductSku(product: Pick<Product, 'id'>): string {
+  return product.id;
+}
+
+/**
+ * Collect the stored AI analysis fields into one object for listing metadata
+ */
+export function getProductAnalysisData(product: Product): ListingAnalysisData {
+  const identification = parseJsonField<StoredIdentification>(product.aiIdentification) || {};
+  const analysis = parseStoredGeminiAnalysis(parseJsonField(product.aiAnalysis));
+  const marketAnalysis = parseJsonField(product.marketAnalysis);
+
+  return {
+    condition: identification.condition
+      ? {
+          grade: identification.condition.grade,
+          notes: (identification.condition.indicators || []).join('\n'),
+        }
+      : undefined,
+    authenticity: identification.authenticity
+      ? { verified: (identification.authenticity.confidence || 0) >= 0.8 }
+      : undefined,
+    dimensions: parseProductDimensions(product.dimensions) || analysis.dimensions || undefined,
+    ebayCategory: analysis.platformCategories?.ebay?.primaryCategory,
+    facebookCategory: analysis.platformCategories?.facebook?.category,
+    seoKeywords: analysis.seoKeywords?.primary,
+    seoTitle: analysis.seoTitle,
+    seoDescription: analysis.seoDescription,
+    marketingCopy: analysis.marketingCopy,
+    productType: analysis.platformCategories?.shopify?.productType,
+    marketAnalysis: marketAnalysis || undefined,
+  };
+}
@@ -0,0 +1,229 @@
+import type { ProductImage } from '@prisma/client';
+import { prisma } from './prisma';
+import { getProductGallery, parseJsonField } from './product-data';
+import { deleteStoredFiles } from './storage';
+
+export const PRODUCT_IMAGE_ROLES = ['hero', 'detail', 'defect', 'label'] as const;
+
+export type ProductImageRole = typeof PRODUCT_IMAGE_ROLES[number];
+
+export interface ProductImageInput {
+  url: string;
+  thumbnailUrl?: string | null;
+  // Keys of the stored files behind this image, by variant
+  storageKeys?: Record<string, string> | null;
+  role?: ProductImageRole;
+  width?: number | null;
+  height?: number | null;
+  altText?: string | null;
+}
+
+export function isProductImageRole(role: string): role is ProductImageRole {
+  return (PRODUCT_IMAGE_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Uploads are stored under the uploader's id - only accept keys a user owns,
+ * since they decide which files are deleted along with the image
+ */
+export function isOwnedStorageKeys(storageKeys: unknown, userId: string): storageKeys is Record<string, string> {
+  if (!storageKeys || typeof storageKeys !== 'object' || Array.isArray(storageKeys)) return false;
+
+  return Object.values(storageKeys).every(key =>
+    typeof key === 'string' &&
+    (key.startsWith(`public/${userId}/`) || key.startsWith(`private/${userId}/`))
+  );
+}
+
+export function getImageStorageKeys(image: Pick<ProductImage, 'storageKeys'>): Record<string, string> {
+  return parseJsonField<Record<string, string>>(image.storageKeys) || {};
+}
+
+export class ProductImageService {
+  /**
+   * Get a product's images in gallery order
+   */
+  async getImages(productId: string): Promise<ProductImage[]> {
+    return prisma.productImage.findMany({
+      where: { productId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Get one image, scoped to its product
+   */
+  async getImage(productId: string, imageId: string): Promise<ProductImage | null> {
+    return prisma.productImage.findFirst({
+      where: { id: imageId, productId },
+    });
+  }
+
+  /**
+   * Append an image to the end of a product's gallery
+   */
+  async addImage(productId: string, input: ProductImageInput): Promise<ProductImage> {
+    await this.adoptLegacyImage(productId);
+
+    const last = await prisma.productImage.findFirst({
+      where: { productId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    // The first photo of a product leads the gallery unless told otherwise
+    const role = input.role || (last ? 'detail' : 'hero');
+
+    const image = await prisma.$transaction(async (tx) => {
+      if (role === 'hero') {
+        await tx.productImage.updateMany({
+          where: { productId, role: 'hero' },
+          data: { role: 'detail' },
+        });
+      }
+
+      return tx.productImage.create({
+        data: {
+          productId,
+          url: input.url,
+          thumbnailUrl: input.thumbnailUrl,
+          storageKeys: input.storageKeys ? JSON.stringify(input.storageKeys) : undefined,
+          position: last ? last.position + 1 : 0,
+          role,
+          width: input.width,
+          height: input.height,
+          altText: input.altText,
+        },
+      });
+    });
+
+    await this.syncPrimaryImage(productId);
+    return image;
+  }
+
+  /**
+   * Update an image's role or metadata - a product has at most one hero
+   */
+  async updateImage(
+    productId: string,
+    imageId: string,
+    input: Partial<Omit<ProductImageInput, 'url' | 'thumbnailUrl' | 'storageKeys'>>
+  ): Promise<ProductImage> {
+    const image = await prisma.$transaction(async (tx) => {
+      if (input.role === 'hero') {
+        await tx.productImage.updateMany({
+          where: { productId, role: 'hero', NOT: { id: imageId } },
+          data: { role: 'detail' },
+        });
+      }
+
+      return tx.productImage.update({
+        where: { id: imageId },
+        data: {
+          role: input.role,
+          width: input.width,
+          height: input.height,
+          altText: input.altText,
+        },
+      });
+    });
+
+    await this.syncPrimaryImage(productId);
+    return image;
+  }
+
+  /**
+   * Remove an image and its stored files, closing the gap in the ordering
+   */
+  async deleteImage(productId: string, imageId: string): Promise<void> {
+    const image = await prisma.productImage.delete({ where: { id: imageId } });
+    await deleteStoredFiles(Object.values(getImageStorageKeys(image)));
+
+    const remaining = await this.getImages(productId);
+    await this.writePositions(remaining.map(image => image.id));
+    await this.syncPrimaryImage(productId);
+  }
+
+  /**
+   * Remove every image of a product along with the stored files
+   */
+  async deleteAllImages(productId: string): Promise<void> {
+    const images = await this.getImages(productId);
+
+    await prisma.productImage.deleteMany({ where: { productId } });
+    await deleteStoredFiles(images.flatMap(image => Object.values(getImageStorageKeys(image))));
+  }
+
+  /**
+   * Reorder a product's gallery. Returns null unless the ids are exactly the
+   * product's images.
+   */
+  async reorder(productId: string, imageIds: string[]): Promise<ProductImage[] | null> {
+    const images = await this.getImages(productId);
+    const known = new Set(images.map(image => image.id));
+
+    if (
+      imageIds.length !== known.size ||
+      new Set(imageIds).size !== imageIds.length ||
+      !imageIds.every(id => known.has(id))
+    ) {
+      return null;
+    }
+
+    await this.writePositions(imageIds);
+    await this.syncPrimaryImage(productId);
+    return this.getImages(productId);
+  }
+
+  private async writePositions(imageIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      imageIds.map((id, position) => prisma.productImage.update({
+        where: { id },
+        data: { position },
+      }))
+    );
+  }
+
+  // Product.imageUrl and imagePublicId mirror the lead gallery image for
+  // the views that show one photo
+  private async syncPrimaryImage(productId: string): Promise<void> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      include: { images: true },
+    });
+    if (!product) return;
+
+    const [lead] = product.images.length > 0 ? getProductGallery(product) : [];
+    const leadImage = product.images.find(image => image.url === lead?.url);
+    const imageUrl = lead?.url ?? null;
+    const imagePublicId = leadImage ? getImageStorageKeys(leadImage).web ?? null : null;
+
+    if (imageUrl !== product.imageUrl || imagePublicId !== product.imagePublicId) {
+      await prisma.product.update({
+        where: { id: productId },
+        data: { imageUrl, imagePublicId },
+      });
+    }
+  }
+
+  // Products saved before galleries existed only have imageUrl - keep it as
+  // the hero so adding a second photo does not replace the first
+  private async adoptLegacyImage(productId: string): Promise<void> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { imageUrl: true, _count: { select: { images: true } } },
+    });
+    if (!product?.imageUrl || product._count.images > 0) return;
+
+    await prisma.productImage.create({
+      data: {
+        productId,
+        url: product.imageUrl,
+        position: 0,
+        role: 'hero',
+      },
+    });
+  }
+}
+
+export const productImageService = new ProductImageService();
@@ -0,0 +1,105 @@
+import type { SalesChannel } from './channel-listings';
+
+export const ACQUISITION_SOURCES = [
+  'thrift',
+  'estate_sale',
+  'garage_sale',
+  'auction',
+  'wholesale',
+  'retail_arbitrage',
+  'consignment',
+  'donation',
+  'other',
+] as const;
+
+export type AcquisitionSource = typeof ACQUISITION_SOURCES[number];
+
+// What one sale on a channel costs the seller
+export interface ChannelFee {
+  // Share of the sale price - eBay's final value fee, Shopify's payment fee
+  percent: number;
+  // Per-order fee in USD
+  fixed: number;
+  // Label the seller buys to ship the item, in USD
+  shippingLabel: number;
+}
+
+export type ChannelFees = Record<SalesChannel, ChannelFee>;
+
+export const DEFAULT_CHANNEL_FEES: ChannelFees = {
+  // Final value fee for most categories plus the per-order fee
+  ebay: { percent: 0.1325, fixed: 0.4, shippingLabel: 0 },
+  // Shopify Payments online card rate on the Basic plan
+  shopify: { percent: 0.029, fixed: 0.3, shippingLabel: 0 },
+  // Local pickup with cash
+  facebook: { percent: 0, fixed: 0, shippingLabel: 0 },
+};
+
+export interface ProfitBreakdown {
+  channel: SalesChannel;
+  price: number;
+  fees: {
+    percent: number;
+    fixed: number;
+    shippingLabel: number;
+    total: number;
+  };
+  // What the seller keeps after fees and shipping
+  netProceeds: number;
+  // Net proceeds less cost basis; null when the cost is unknown
+  netProfit: number | null;
+  // Net profit as a share of the price
+  margin: number | null;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function calculateProfit(
+  channel: SalesChannel,
+  price: number,
+  costBasis: number | null | undefined,
+  fees: ChannelFees
+): ProfitBreakdown {
+  const fee = fees[channel];
+  const percentFee = roundCents(price * fee.percent);
+  const totalFees = roundCents(percentFee + fee.fixed + fee.shippingLabel);
+  const netProceeds = roundCents(price - totalFees);
+  const netProfit = costBasis == null ? null : roundCents(netProceeds - costBasis);
+
+  return {
+    channel,
+    price,
+    fees: {
+      percent: percentFee,
+      fixed: fee.fixed,
+      shippingLabel: fee.shippingLabel,
+      total: totalFees,
+    },
+    netProceeds,
+    netProfit,
+    margin: netProfit === null || price <= 0 ? null : Math.round((netProfit / price) * 1000) / 1000,
+  };
+}
+
+/**
+ * Lowest price that keeps the target margin on every channel, or null when
+ * fees alone exceed it
+ */
+export function getMinimumPriceForMargin(
+  costBasis: number,
+  targetMargin: number,
+  fees: ChannelFees
+): number | null {
+  let minimum = 0;
+
+  for (const fee of Object.values(fees)) {
+    const keptShare = 1 - fee.percent - targetMargin;
+    if (keptShare <= 0) return null;
+
+    minimum = Math.max(minimum, (costBasis + fee.fixed + fee.shippingLabel) / keptShare);
+  }
+
+  return Math.ceil(minimum * 100) / 100;
+}
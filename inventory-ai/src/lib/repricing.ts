@@ -0,0 +1,382 @@
+import { z } from 'zod';
+import type { Product, RepricingRule } from '@prisma/client';
+import { prisma } from './prisma';
+import { apifyService } from './apify';
+import { compPricingEngine } from './comp-pricing';
+import { dynamicPricingService } from './dynamic-pricing';
+import { pricingService, type PricingRules } from './pricing';
+import { channelSyncService, type ChannelPriceUpdate } from './channel-sync';
+import { priceHistoryService } from './price-history';
+import { CacheStats } from './response-cache';
+import { jobQueue, NonRetryableJobError, type JobContext } from './jobs';
+
+export const REPRICING_RULE_TYPES = ['markdown', 'follow_market'] as const;
+
+// markdown drops the price of items that sit unsold; follow_market keeps the
+// price within a tolerance of the median comparable
+export type RepricingRuleType = typeof REPRICING_RULE_TYPES[number];
+
+export const REPRICING_STEPS = ['select', 'evaluate', 'apply'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Markdown rules look for items due a drop every day, so each item is marked
+// down as soon as its interval is up
+const MARKDOWN_CHECK_INTERVAL_DAYS = 1;
+
+export const RepricingRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: z.enum(REPRICING_RULE_TYPES),
+  enabled: z.boolean().default(true),
+  // New rules only report what they would change until switched over
+  dryRun: z.boolean().default(true),
+  // Limits the rule to one category; null covers every listed product
+  category: z.string().trim().min(1).nullable().default(null),
+  // Fraction of the price taken off each interval
+  markdownPercent: z.number().positive().max(0.9).nullable().default(null),
+  intervalDays: z.number().int().min(1).max(365).default(14),
+  // Allowed distance from the market price as a fraction of it
+  tolerancePercent: z.number().min(0).max(1).nullable().default(null),
+}).refine(rule => rule.type !== 'markdown' || rule.markdownPercent !== null, {
+  message: 'Markdown rules need a markdown percentage',
+  path: ['markdownPercent'],
+}).refine(rule => rule.type !== 'follow_market' || rule.tolerancePercent !== null, {
+  message: 'Market rules need a tolerance',
+  path: ['tolerancePercent'],
+});
+
+export type RepricingRuleInput = z.infer<typeof RepricingRuleSchema>;
+
+export interface RepricePayload {
+  ruleId: string;
+  // Overrides the rule's own setting for this run
+  dryRun?: boolean;
+}
+
+export interface RepricingChange {
+  productId: string;
+  title: string;
+  oldPrice: number;
+  newPrice: number;
+  reason: string;
+  // Held up by the minimum price, target margin or cost
+  floored: boolean;
+  applied: boolean;
+  channels: ChannelPriceUpdate[];
+}
+
+export interface RepricingSkip {
+  productId: string;
+  title: string;
+  reason: string;
+}
+
+export interface RepricingRunResult {
+  ruleId: string;
+  ruleName: string;
+  dryRun: boolean;
+  evaluated: number;
+  changes: RepricingChange[];
+  skipped: RepricingSkip[];
+}
+
+type Proposal = { newPrice: number; reason: string } | { skip: string };
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 1000) / 10}%`;
+}
+
+/**
+ * Revisits the prices of listed products on a schedule. Each rule runs as a
+ * background job that proposes changes and, unless it is a dry run, applies
+ * them, logs them and pushes them to every live channel.
+ */
+export class RepricingService {
+  async getRules(organizationId: string): Promise<RepricingRule[]> {
+    return prisma.repricingRule.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getRule(id: string, organizationId: string): Promise<RepricingRule | null> {
+    return prisma.repricingRule.findFirst({ where: { id, organizationId } });
+  }
+
+  async createRule(organizationId: string, userId: string, input: RepricingRuleInput): Promise<RepricingRule> {
+    return prisma.repricingRule.create({
+      data: { organizationId, userId, ...input },
+    });
+  }
+
+  async updateRule(id: string, organizationId: string, input: RepricingRuleInput): Promise<RepricingRule | null> {
+    const rule = await this.getRule(id, organizationId);
+    if (!rule) return null;
+
+    return prisma.repricingRule.update({
+      where: { id },
+      data: input,
+    });
+  }
+
+  async deleteRule(id: string, organizationId: string): Promise<boolean> {
+    const { count } = await prisma.repricingRule.deleteMany({ where: { id, organizationId } });
+    return count > 0;
+  }
+
+  getNextRunAt(rule: Pick<RepricingRule, 'type' | 'intervalDays'>, from = new Date()): Date {
+    const days = rule.type === 'markdown' ? MARKDOWN_CHECK_INTERVAL_DAYS : rule.intervalDays;
+    return new Date(from.getTime() + days * DAY_MS);
+  }
+
+  async enqueueRun(rule: RepricingRule, dryRun?: boolean) {
+    if (!rule.organizationId) {
+      throw new Error(`Repricing rule ${rule.id} does not belong to a workspace`);
+    }
+
+    return jobQueue.enqueue(
+      'reprice_products',
+      { ruleId: rule.id, dryRun } satisfies RepricePayload,
+      // Every change is checked against the current price, so a retry never repeats one
+      { userId: rule.userId, organizationId: rule.organizationId }
+    );
+  }
+
+  /**
+   * Queue a run of every enabled rule that is due. Moving nextRunAt on before
+   * queueing means only one worker queues each run.
+   */
+  async enqueueDueRules(now = new Date()): Promise<number> {
+    const due = await prisma.repricingRule.findMany({
+      // Rules not yet claimed by a workspace have no products to reprice
+      where: { enabled: true, nextRunAt: { lte: now }, organizationId: { not: null } },
+    });
+
+    let queued = 0;
+    for (const rule of due) {
+      const { count } = await prisma.repricingRule.updateMany({
+        where: { id: rule.id, nextRunAt: rule.nextRunAt },
+        data: { nextRunAt: this.getNextRunAt(rule, now) },
+      });
+      if (count === 0) continue;
+
+      await this.enqueueRun(rule);
+      queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Job body for one run of a rule
+   */
+  async run(payload: RepricePayload, context: JobContext): Promise<RepricingRunResult> {
+    await context.startStep('select');
+    const rule = await prisma.repricingRule.findUnique({ where: { id: payload.ruleId } });
+    if (!rule) {
+      throw new NonRetryableJobError(`Repricing rule ${payload.ruleId} no longer exists`);
+    }
+    if (!rule.organizationId) {
+      throw new NonRetryableJobError(`Repricing rule ${payload.ruleId} does not belong to a workspace`);
+    }
+
+    const dryRun = payload.dryRun ?? rule.dryRun;
+    const rules = await pricingService.getRules(rule.organizationId);
+    const products = await prisma.product.findMany({
+      where: {
+        organizationId: rule.organizationId,
+        status: 'listed',
+        price: { gt: 0 },
+        ...(rule.category && { category: { equals: rule.category, mode: 'insensitive' as const } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    const lastChanges = rule.type === 'markdown' ? await this.getLastPriceChanges(products) : new Map<string, Date>();
+    await context.completeStep(
+      `${products.length} listed products${rule.category ? ` in ${rule.category}` : ''}${dryRun ? ' (dry run)' : ''}`,
+      { products: products.length }
+    );
+
+    await context.startStep('evaluate');
+    const result: RepricingRunResult = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      dryRun,
+      evaluated: products.length,
+      changes: [],
+      skipped: [],
+    };
+    const cacheStats = new CacheStats();
+
+    for (const product of products) {
+      const oldPrice = product.price as number;
+      let proposal: Proposal;
+
+      try {
+        proposal = rule.type === 'markdown'
+          ? this.proposeMarkdown(rule, oldPrice, lastChanges.get(product.id) ?? product.updatedAt)
+          : await this.proposeMarketPrice(rule, product, oldPrice, rules, cacheStats);
+      } catch (error) {
+        proposal = { skip: `Evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+
+      if ('skip' in proposal) {
+        result.skipped.push({ productId: product.id, title: product.title, reason: proposal.skip });
+        continue;
+      }
+
+      // Never below the minimum price, the target margin or what the item cost
+      const floor = Math.max(pricingService.getPriceFloor(rules, product.costBasis).price, product.costBasis ?? 0);
+      const { price: newPrice, floored } = pricingService.finalizePrice(proposal.newPrice, rules, floor);
+
+      // A markdown never raises a price that already sits below the floor
+      if (newPrice === oldPrice || (rule.type === 'markdown' && newPrice > oldPrice)) {
+        result.skipped.push({
+          productId: product.id,
+          title: product.title,
+          reason: floored ? `Already at its floor of ${formatPrice(floor)}` : 'No change once rounded',
+        });
+        continue;
+      }
+
+      result.changes.push({
+        productId: product.id,
+        title: product.title,
+        oldPrice,
+        newPrice,
+        reason: proposal.reason,
+        floored,
+        applied: false,
+        channels: [],
+      });
+      await context.reportProgress(`${product.title}: ${formatPrice(oldPrice)} -> ${formatPrice(newPrice)}`, {
+        proposed: result.changes.length,
+      });
+    }
+    await context.completeStep(`${result.changes.length} price changes proposed, ${result.skipped.length} products unchanged`, {
+      proposed: result.changes.length,
+      unchanged: result.skipped.length,
+    });
+
+    await context.startStep('apply');
+    if (dryRun) {
+      await context.completeStep('Dry run - no prices were changed');
+    } else {
+      for (const change of result.changes) {
+        await this.applyChange(rule, change, context.job.id);
+      }
+      await context.completeStep(`${result.changes.filter(change => change.applied).length} prices changed`, {
+        applied: result.changes.filter(change => change.applied).length,
+      });
+    }
+
+    await prisma.repricingRule.update({
+      where: { id: rule.id },
+      data: { lastRunAt: new Date() },
+    });
+
+    return result;
+  }
+
+  private proposeMarkdown(rule: RepricingRule, price: number, lastChangedAt: Date): Proposal {
+    const daysSinceChange = Math.floor((Date.now() - lastChangedAt.getTime()) / DAY_MS);
+    if (daysSinceChange < rule.intervalDays) {
+      return { skip: `Price changed ${daysSinceChange} days ago` };
+    }
+
+    const markdown = rule.markdownPercent ?? 0;
+    if (!(markdown > 0)) {
+      return { skip: 'Rule has no markdown percentage' };
+    }
+
+    return {
+      newPrice: price * (1 - markdown),
+      reason: `${formatPercent(markdown)} markdown after ${daysSinceChange} days without a price change`,
+    };
+  }
+
+  private async proposeMarketPrice(
+    rule: RepricingRule,
+    product: Product,
+    price: number,
+    rules: PricingRules,
+    cacheStats: CacheStats
+  ): Promise<Proposal> {
+    const marketData = await apifyService.getMarketData(product.title, { maxItemsPerPlatform: 20, cacheStats });
+    const estimate = compPricingEngine.estimate(
+      { title: product.title, condition: product.condition },
+      dynamicPricingService.collectComps(product.title, marketData),
+      { conditionScores: rules.conditionMultipliers }
+    );
+    if (!(estimate.price > 0)) {
+      return { skip: 'No priced comparables found' };
+    }
+
+    const target = estimate.price * pricingService.getStoreAdjustment(rules, product).multiplier;
+    const deviation = (price - target) / target;
+    const tolerance = rule.tolerancePercent ?? 0;
+
+    if (Math.abs(deviation) <= tolerance) {
+      return { skip: `Within ${formatPercent(tolerance)} of the market price ${formatPrice(target)}` };
+    }
+
+    return {
+      newPrice: target,
+      reason: `${formatPercent(Math.abs(deviation))} ${deviation > 0 ? 'above' : 'below'} the market price ` +
+        `${formatPrice(target)} from ${estimate.sampleSize} comparables`,
+    };
+  }
+
+  private async applyChange(rule: RepricingRule, change: RepricingChange, jobId: string): Promise<void> {
+    // Skip the product if its price moved since it was evaluated
+    const { count } = await prisma.product.updateMany({
+      where: { id: change.productId, price: change.oldPrice },
+      data: { price: change.newPrice },
+    });
+    if (count === 0) return;
+
+    await priceHistoryService.recordChanges(
+      change.productId,
+      { price: change.oldPrice },
+      { price: change.newPrice },
+      { source: 'repricer', reason: change.reason, userId: rule.userId, ruleId: rule.id, jobId }
+    );
+    change.applied = true;
+    change.channels = await channelSyncService.updatePrice(change.productId, change.newPrice);
+  }
+
+  /**
+   * When each product's price last changed - its latest logged change, or
+   * when it was first listed
+   */
+  private async getLastPriceChanges(products: Product[]): Promise<Map<string, Date>> {
+    const productIds = products.map(product => product.id);
+    const [changes, listings] = await Promise.all([
+      prisma.priceChange.groupBy({
+        by: ['productId'],
+        where: { productId: { in: productIds }, field: 'price' },
+        _max: { createdAt: true },
+      }),
+      prisma.channelListing.groupBy({
+        by: ['productId'],
+        where: { productId: { in: productIds }, status: 'active' },
+        _min: { createdAt: true },
+      }),
+    ]);
+
+    const lastChanges = new Map<string, Date>();
+    for (const listing of listings) {
+      if (listing._min.createdAt) lastChanges.set(listing.productId, listing._min.createdAt);
+    }
+    for (const change of changes) {
+      if (change._max.createdAt) lastChanges.set(change.productId, change._max.createdAt);
+    }
+    return lastChanges;
+  }
+}
+
+export const repricingService = new RepricingService();
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long each kind of response is served from the cache. Listings change
+// through the day, sales history more slowly; AI answers only change when
+// their prompt does.
+export const CACHE_TTL_MS = {
+  ebay: 6 * HOUR_MS,
+  ebay_sold: 12 * HOUR_MS,
+  google_shopping: 12 * HOUR_MS,
+  facebook_marketplace: 6 * HOUR_MS,
+  ai: 24 * HOUR_MS,
+} as const;
+
+// Longest query kept in the query column - the cache key covers all of it
+const MAX_STORED_QUERY_LENGTH = 500;
+
+export type CacheOutcome = 'hit' | 'miss' | 'shared';
+
+export interface CacheCounts {
+  hits: number;
+  misses: number;
+  // Requests that joined an identical one already in flight
+  shared: number;
+}
+
+export interface CacheReport extends CacheCounts {
+  sources: Record<string, CacheCounts>;
+}
+
+/**
+ * Counts cache outcomes for one piece of work, such as an analysis
+ */
+export class CacheStats {
+  private readonly sources: Record<string, CacheCounts> = {};
+
+  record(source: string, outcome: CacheOutcome): void {
+    const counts = (this.sources[source] ??= { hits: 0, misses: 0, shared: 0 });
+    if (outcome === 'hit') counts.hits++;
+    else if (outcome === 'miss') counts.misses++;
+    else counts.shared++;
+  }
+
+  report(): CacheReport {
+    const totals = Object.values(this.sources).reduce(
+      (sum, counts) => ({
+        hits: sum.hits + counts.hits,
+        misses: sum.misses + counts.misses,
+        shared: sum.shared + counts.shared,
+      }),
+      { hits: 0, misses: 0, shared: 0 }
+    );
+
+    return { ...totals, sources: { ...this.sources } };
+  }
+}
+
+export interface CacheRequest<T> {
+  // Where the response comes from, e.g. "ebay" or "ai:pricing"
+  platform: string;
+  query: string;
+  // Anything else that changes the response, such as result limits
+  options?: object;
+  ttlMs: number;
+  // Check a cached value is still usable - return undefined to reload it
+  parse?: (value: unknown) => T | undefined;
+  stats?: CacheStats;
+}
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// JSON with sorted keys, so option order never changes the key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function getCacheKey(platform: string, query: string, options: object = {}): string {
+  return createHash('sha256')
+    .update(`${platform}\n${normalizeQuery(query)}\n${stableStringify(options)}`)
+    .digest('hex');
+}
+
+/**
+ * Caches scrape and AI responses in the scraped_data table. Identical
+ * requests made while one is already running share its result instead of
+ * starting another.
+ */
+export class ResponseCacheService {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly enabled: boolean = process.env.RESPONSE_CACHE_ENABLED !== 'false') {}
+
+  async getOrLoad<T>(request: CacheRequest<T>, load: () => Promise<T>): Promise<T> {
+    if (!this.enabled) {
+      return load();
+    }
+
+    const cacheKey = getCacheKey(request.platform, request.query, request.options);
+
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      request.stats?.record(request.platform, 'shared');
+      return pending as Promise<T>;
+    }
+
+    const promise = this.lookupOrLoad(cacheKey, request, load);
+    this.inFlight.set(cacheKey, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.inFlight.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Delete expired entries that belong to no product
+   */
+  async pruneExpired(): Promise<number> {
+    const { count } = await prisma.scrapedData.deleteMany({
+      where: { productId: null, expiresAt: { lt: new Date() } },
+    });
+    return count;
+  }
+
+  private async lookupOrLoad<T>(cacheKey: string, request: CacheRequest<T>, load: () => Promise<T>): Promise<T> {
+    const cached = await this.lookup(cacheKey, request);
+    if (cached !== undefined) {
+      request.stats?.record(request.platform, 'hit');
+      return cached;
+    }
+
+    request.stats?.record(request.platform, 'miss');
+    // Failures are not cached, so the next request tries again
+    const value = await load();
+    await this.store(cacheKey, request, value);
+    return value;
+  }
+
+  private async lookup<T>(cacheKey: string, request: CacheRequest<T>): Promise<T | undefined> {
+    try {
+      const entry = await prisma.scrapedData.findFirst({
+        where: { cacheKey, status: 'completed', expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!entry) return undefined;
+
+      const value: unknown = JSON.parse(entry.rawData);
+      return request.parse ? request.parse(value) : (value as T);
+    } catch (error) {
+      // A cache that cannot be read is treated as empty, never as a failure
+      console.error(`Error reading ${request.platform} cache entry:`, error);
+      return undefined;
+    }
+  }
+
+  private async store<T>(cacheKey: string, request: CacheRequest<T>, value: T): Promise<void> {
+    try {
+      await prisma.scrapedData.create({
+        data: {
+          platform: request.platform,
+          query: normalizeQuery(request.query).slice(0, MAX_STORED_QUERY_LENGTH),
+          rawData: JSON.stringify(value),
+          status: 'completed',
+          cacheKey,
+          expiresAt: new Date(Date.now() + request.ttlMs),
+        },
+      });
+    } catch (error) {
+      console.error(`Error writing ${request.platform} cache entry:`, error);
+    }
+  }
+}
+
+export const responseCache = new ResponseCacheService();
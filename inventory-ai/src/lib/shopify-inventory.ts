@@ -1,4 +1,14 @@
 import { z } from 'zod';
+import {
+  getProductAnalysisData,
+  getProductGallery,
+  getProductSku,
+  mapListingCondition,
+  parseProductDimensions,
+  parseProductTags,
+  toPublicUrl,
+  type ProductWithImages,
+} from './product-data';
 
 // Shopify API Configuration
 const SHOPIFY_CONFIG = {
@@ -218,6 +228,9 @@ export interface InventoryProductData {
     locationId: number;
     quantity: number;
   }>;
+
+  // Publishing
+  status?: 'active' | 'archived' | 'draft';
 }
 
 export class ShopifyInventoryService {
@@ -231,6 +244,16 @@ export class ShopifyInventoryService {
     this.baseUrl = `https://${shopDomain}.myshopify.com`;
   }
 
+  // Whether a shop domain and access token have been provided
+  isConfigured(): boolean {
+    return Boolean(this.shopDomain && this.accessToken);
+  }
+
+  // Admin URL for a product in this shop
+  getProductAdminUrl(productId: number | string): string {
+    return `${this.baseUrl}/admin/products/${productId}`;
+  }
+
   private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
     const url = `${this.baseUrl}${endpoint}`;
     
@@ -264,7 +287,7 @@ export class ShopifyInventoryService {
       vendor: productData.vendor,
       product_type: productData.productType,
       tags: productData.tags.join(', '),
-      status: 'active',
+      status: productData.status || 'active',
       seo_title: productData.seoTitle,
       seo_description: productData.seoDescription,
       variants: [{
@@ -306,6 +329,12 @@ export class ShopifyInventoryService {
       await this.addProductMetafields(createdProduct.id, productData.metafields);
     }
 
+    // Unit cost lives on the inventory item, so Shopify can report margins
+    const createdInventoryItemId = createdProduct.variants[0]?.inventory_item_id;
+    if (productData.cost !== undefined && createdInventoryItemId) {
+      await this.setInventoryItemCost(createdInventoryItemId, productData.cost);
+    }
+
     // Set inventory levels if tracking quantity
     if (productData.trackQuantity && productData.locations.length > 0) {
       const variantId = createdProduct.variants[0].id;
@@ -330,6 +359,33 @@ export class ShopifyInventoryService {
     if (productData.tags) updatePayload.tags = productData.tags.join(', ');
     if (productData.seoTitle) updatePayload.seo_title = productData.seoTitle;
     if (productData.seoDescription) updatePayload.seo_description = productData.seoDescription;
+    if (productData.status) updatePayload.status = productData.status;
+
+    if (productData.images) {
+      updatePayload.images = productData.images.map((img, index) => ({
+        src: img.src,
+        alt: img.alt || productData.title,
+        position: img.position || index + 1,
+      }));
+    }
+
+    // Price lives on the variant and cost on its inventory item, so look up the default variant to update them
+    if (productData.price !== undefined || productData.compareAtPrice !== undefined || productData.cost !== undefined) {
+      const existing = await this.getProduct(productId);
+      const variant = existing.variants[0];
+
+      if (variant?.id && (productData.price !== undefined || productData.compareAtPrice !== undefined)) {
+        updatePayload.variants = [{
+          id: variant.id,
+          ...(productData.price !== undefined && { price: productData.price.toString() }),
+          ...(productData.compareAtPrice !== undefined && { compare_at_price: productData.compareAtPrice.toString() }),
+        }];
+      }
+
+      if (variant?.inventory_item_id && productData.cost !== undefined) {
+        await this.setInventoryItemCost(variant.inventory_item_id, productData.cost);
+      }
+    }
 
     const response = await this.makeRequest(`${SHOPIFY_CONFIG.ENDPOINTS.PRODUCTS}/${productId}`, {
       method: 'PUT',
@@ -372,6 +428,30 @@ export class ShopifyInventoryService {
     });
   }
 
+  // Set the unit cost Shopify uses for profit reports
+  async setInventoryItemCost(inventoryItemId: number, cost: number): Promise<void> {
+    await this.makeRequest(`${SHOPIFY_CONFIG.ENDPOINTS.INVENTORY_ITEMS}/${inventoryItemId}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        inventory_item: { id: inventoryItemId, cost: cost.toFixed(2) },
+      }),
+    });
+  }
+
+  // Get an inventory item (carries the SKU for inventory level events)
+  async getInventoryItem(inventoryItemId: number): Promise<ShopifyInventoryItem> {
+    const response = await this.makeRequest(`${SHOPIFY_CONFIG.ENDPOINTS.INVENTORY_ITEMS}/${inventoryItemId}`);
+    return response.inventory_item;
+  }
+
+  // Get the inventory levels of an item at every location that stocks it
+  async getInventoryLevels(inventoryItemId: number): Promise<ShopifyInventoryLevel[]> {
+    const response = await this.makeRequest(
+      `${SHOPIFY_CONFIG.ENDPOINTS.INVENTORY_LEVELS}?inventory_item_ids=${inventoryItemId}`
+    );
+    return response.inventory_levels;
+  }
+
   // Get all locations
   async getLocations(): Promise<ShopifyLocation[]> {
     const response = await this.makeRequest(SHOPIFY_CONFIG.ENDPOINTS.LOCATIONS);
@@ -452,6 +532,53 @@ export class ShopifyInventoryService {
     return 'USED_EXCELLENT';
   }
 
+  // Map a stored product into the data needed to create or update a Shopify listing
+  static mapProductToInventoryData(product: ProductWithImages, options: {
+    locationId?: number;
+    quantity?: number;
+    status?: 'active' | 'archived' | 'draft';
+  } = {}): InventoryProductData {
+    const analysisData = getProductAnalysisData(product);
+    const dimensions = parseProductDimensions(product.dimensions);
+
+    return {
+      title: product.title,
+      description: product.description || '',
+      brand: product.brand || '',
+      model: product.model || undefined,
+      sku: getProductSku(product),
+      price: product.price ?? product.recommendedPrice ?? 0,
+      compareAtPrice: product.originalPrice ?? undefined,
+      cost: product.costBasis ?? undefined,
+      weight: product.weight ?? 0,
+      weightUnit: 'g',
+      dimensions: dimensions || undefined,
+      trackQuantity: true,
+      continueSellingWhenOutOfStock: false,
+      requiresShipping: true,
+      condition: mapListingCondition(product.condition),
+      conditionNotes: analysisData.condition?.notes,
+      productType: analysisData.productType || product.category || 'General',
+      vendor: product.brand || '',
+      tags: parseProductTags(product.tags),
+      seoTitle: analysisData.seoTitle,
+      seoDescription: analysisData.seoDescription,
+      marketingCopy: analysisData.marketingCopy,
+      ebayCategory: analysisData.ebayCategory,
+      facebookCategory: analysisData.facebookCategory,
+      images: getProductGallery(product).map((image, index) => ({
+        src: toPublicUrl(image.url),
+        alt: image.alt,
+        position: index + 1,
+      })),
+      metafields: ShopifyInventoryService.generateInventoryMetafields(analysisData),
+      locations: options.locationId
+        ? [{ locationId: options.locationId, quantity: options.quantity ?? 1 }]
+        : [],
+      status: options.status,
+    };
+  }
+
   // Generate comprehensive metafields for inventory management
   static generateInventoryMetafields(analysisData: any): Array<{
     namespace: string;
@@ -541,10 +668,4 @@ export class ShopifyInventoryService {
 
     return metafields;
   }
-}
-
-// Export singleton instance
-export const shopifyInventory = new ShopifyInventoryService(
-  process.env.SHOPIFY_SHOP_DOMAIN || '',
-  process.env.SHOPIFY_ACCESS_TOKEN || ''
-);
\ No newline at end of file
+}
\ No newline at end of file
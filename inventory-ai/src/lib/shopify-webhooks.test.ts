@@ -0,0 +1,107 @@
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ORG_A, ORG_B, seedProducts } from '@/test/workspaces';
+import { inventorySyncService } from './inventory-sync';
+import type { ShopifyStore } from './channel-connections';
+import type { ShopifyInventoryService } from './shopify-inventory';
+import { shopifyWebhookHandler, verifyShopifyWebhook } from './shopify-webhooks';
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/prisma', () => import('@/test/prisma-mock'));
+
+const SECRET = 'shpss_test_webhook_secret';
+
+// Exactly as Shopify delivered it - the signature covers these bytes
+const ORDER_BODY = readFileSync(new URL('../test/fixtures/shopify/orders-create.json', import.meta.url), 'utf8');
+
+function sign(body: string, secret: string = SECRET): string {
+  return createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+}
+
+function storeOf(organizationId: string): ShopifyStore {
+  return { shopify: {} as ShopifyInventoryService, organizationId, webhookSecret: SECRET };
+}
+
+describe('verifyShopifyWebhook', () => {
+  it('accepts the body Shopify signed', () => {
+    expect(verifyShopifyWebhook(ORDER_BODY, sign(ORDER_BODY), SECRET)).toBe(true);
+  });
+
+  it('rejects a body that was parsed and serialized again', () => {
+    const reserialized = JSON.stringify(JSON.parse(ORDER_BODY));
+
+    expect(verifyShopifyWebhook(reserialized, sign(ORDER_BODY), SECRET)).toBe(false);
+  });
+
+  it('rejects a changed body', () => {
+    const tampered = ORDER_BODY.replace('"45.00"', '"4.50"');
+
+    expect(verifyShopifyWebhook(tampered, sign(ORDER_BODY), SECRET)).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyShopifyWebhook(ORDER_BODY, sign(ORDER_BODY, 'shpss_other_store'), SECRET)).toBe(false);
+  });
+
+  it('rejects a missing or malformed signature and a missing secret', () => {
+    expect(verifyShopifyWebhook(ORDER_BODY, null, SECRET)).toBe(false);
+    expect(verifyShopifyWebhook(ORDER_BODY, 'not-a-signature', SECRET)).toBe(false);
+    expect(verifyShopifyWebhook(ORDER_BODY, sign(ORDER_BODY), '')).toBe(false);
+  });
+});
+
+describe('orders/create', () => {
+  beforeEach(() => {
+    seedProducts(
+      { id: 'product-a', organizationId: ORG_A, title: 'Vintage Pyrex Mixing Bowl' },
+      { id: 'product-c', organizationId: ORG_A, title: 'Leather Weekender Bag', shopifyProductId: '7712345678901' },
+      { id: 'product-b', organizationId: ORG_B, title: 'Cast Iron Skillet' }
+    );
+    vi.spyOn(inventorySyncService, 'recordSale').mockResolvedValue([]);
+  });
+
+  it('records a sale for each line item matching a product of the store\'s organization', async () => {
+    const result = await shopifyWebhookHandler.handle('orders/create', JSON.parse(ORDER_BODY), storeOf(ORG_A));
+
+    expect(result).toMatchObject({ topic: 'orders/create', handled: true, productIds: ['product-a', 'product-c'] });
+    expect(inventorySyncService.recordSale).toHaveBeenCalledTimes(2);
+  });
+
+  it('records the price after the line item discount', async () => {
+    await shopifyWebhookHandler.handle('orders/create', JSON.parse(ORDER_BODY), storeOf(ORG_A));
+
+    expect(inventorySyncService.recordSale).toHaveBeenCalledWith('product-a', {
+      channel: 'shopify',
+      orderId: '5734218997845',
+      price: 40,
+      soldAt: new Date('2025-03-14T14:21:07Z'),
+    });
+  });
+
+  it('matches line items without a SKU by their Shopify product id', async () => {
+    await shopifyWebhookHandler.handle('orders/create', JSON.parse(ORDER_BODY), storeOf(ORG_A));
+
+    expect(inventorySyncService.recordSale).toHaveBeenCalledWith('product-c', expect.objectContaining({ price: 50 }));
+  });
+
+  it('never marks another organization\'s product sold, whatever the SKU says', async () => {
+    await shopifyWebhookHandler.handle('orders/create', JSON.parse(ORDER_BODY), storeOf(ORG_A));
+
+    expect(inventorySyncService.recordSale).not.toHaveBeenCalledWith('product-b', expect.anything());
+  });
+
+  it('reports an order with none of the organization\'s products as unhandled', async () => {
+    const result = await shopifyWebhookHandler.handle('orders/create', JSON.parse(ORDER_BODY), storeOf('org-without-products'));
+
+    expect(result).toMatchObject({ handled: false, productIds: [], message: 'No products matched order #1042' });
+    expect(inventorySyncService.recordSale).not.toHaveBeenCalled();
+  });
+
+  it('ignores topics it does not subscribe to', async () => {
+    const result = await shopifyWebhookHandler.handle('orders/cancelled', JSON.parse(ORDER_BODY), storeOf(ORG_A));
+
+    expect(result).toMatchObject({ handled: false, message: 'Ignored topic orders/cancelled' });
+    expect(inventorySyncService.recordSale).not.toHaveBeenCalled();
+  });
+});
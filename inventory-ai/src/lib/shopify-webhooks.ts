@@ -0,0 +1,223 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Product } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ShopifyProduct } from './shopify-inventory';
+import type { ShopifyStore } from './channel-connections';
+import { channelListingService, type ChannelListingStatus } from './channel-listings';
+import { inventorySyncService } from './inventory-sync';
+import { getListingPrice } from './channel-sync';
+import { priceHistoryService } from './price-history';
+
+export const SHOPIFY_WEBHOOK_TOPICS = [
+  'orders/create',
+  'products/update',
+  'inventory_levels/update',
+] as const;
+
+export type ShopifyWebhookTopic = typeof SHOPIFY_WEBHOOK_TOPICS[number];
+
+export interface ShopifyOrderLineItem {
+  id: number;
+  product_id: number | null;
+  variant_id: number | null;
+  sku: string | null;
+  title: string;
+  quantity: number;
+  price: string;
+  total_discount?: string;
+}
+
+export interface ShopifyOrderWebhook {
+  id: number;
+  name: string;
+  created_at: string;
+  currency: string;
+  line_items: ShopifyOrderLineItem[];
+}
+
+export interface ShopifyInventoryLevelWebhook {
+  inventory_item_id: number;
+  location_id: number;
+  available: number | null;
+  updated_at: string;
+}
+
+export interface ShopifyWebhookResult {
+  topic: string;
+  handled: boolean;
+  productIds: string[];
+  message?: string;
+}
+
+/**
+ * Verify the X-Shopify-Hmac-Sha256 header against the raw request body
+ */
+export function verifyShopifyWebhook(
+  rawBody: string,
+  hmacHeader: string | null,
+  secret: string
+): boolean {
+  if (!hmacHeader || !secret) return false;
+
+  const digest = createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+  const received = Buffer.from(hmacHeader, 'base64');
+
+  return received.length === digest.length && timingSafeEqual(received, digest);
+}
+
+export function isShopifyWebhookTopic(topic: string): topic is ShopifyWebhookTopic {
+  return (SHOPIFY_WEBHOOK_TOPICS as readonly string[]).includes(topic);
+}
+
+export class ShopifyWebhookHandler {
+  /**
+   * Apply a verified webhook payload to the products of the store it came from
+   */
+  async handle(topic: string, payload: unknown, store: ShopifyStore): Promise<ShopifyWebhookResult> {
+    if (!isShopifyWebhookTopic(topic)) {
+      return { topic, handled: false, productIds: [], message: `Ignored topic ${topic}` };
+    }
+
+    switch (topic) {
+      case 'orders/create':
+        return this.handleOrderCreated(payload as ShopifyOrderWebhook, store);
+      case 'products/update':
+        return this.handleProductUpdated(payload as ShopifyProduct, store);
+      case 'inventory_levels/update':
+        return this.handleInventoryLevelUpdated(payload as ShopifyInventoryLevelWebhook, store);
+    }
+  }
+
+  /**
+   * Match a Shopify line item or product to one of ours - the SKU is our
+   * product id, with the stored Shopify product id as a fallback. Only the
+   * store's own organization's products can match.
+   */
+  async findProduct(
+    organizationId: string,
+    match: { sku?: string | null; shopifyProductId?: number | null }
+  ): Promise<Product | null> {
+    if (match.sku) {
+      const product = await prisma.product.findFirst({ where: { id: match.sku, organizationId } });
+      if (product) return product;
+    }
+
+    if (match.shopifyProductId) {
+      return prisma.product.findFirst({
+        where: { shopifyProductId: String(match.shopifyProductId), organizationId },
+      });
+    }
+
+    return null;
+  }
+
+  private async handleOrderCreated(order: ShopifyOrderWebhook, store: ShopifyStore): Promise<ShopifyWebhookResult> {
+    const productIds: string[] = [];
+
+    for (const lineItem of order.line_items || []) {
+      const product = await this.findProduct(store.organizationId, {
+        sku: lineItem.sku,
+        shopifyProductId: lineItem.product_id,
+      });
+      if (!product) continue;
+
+      // Shopify reports the unit price before discounts
+      const quantity = Math.max(lineItem.quantity, 1);
+      const discount = Number(lineItem.total_discount || 0) / quantity;
+
+      await inventorySyncService.recordSale(product.id, {
+        channel: 'shopify',
+        orderId: String(order.id),
+        price: Number(lineItem.price) - discount,
+        soldAt: new Date(order.created_at),
+      });
+      productIds.push(product.id);
+    }
+
+    return {
+      topic: 'orders/create',
+      handled: productIds.length > 0,
+      productIds,
+      message: productIds.length === 0 ? `No products matched order ${order.name}` : undefined,
+    };
+  }
+
+  private async handleProductUpdated(shopifyProduct: ShopifyProduct, store: ShopifyStore): Promise<ShopifyWebhookResult> {
+    const product = await this.findProduct(store.organizationId, {
+      sku: shopifyProduct.variants?.find(variant => variant.sku)?.sku,
+      shopifyProductId: shopifyProduct.id,
+    });
+
+    if (!product) {
+      return { topic: 'products/update', handled: false, productIds: [] };
+    }
+
+    await prisma.product.update({
+      where: { id: product.id },
+      data: { shopifyStatus: shopifyProduct.status },
+    });
+
+    // A listing we ended after a sale stays ended whatever Shopify says
+    const listing = await channelListingService.getListing(product.id, 'shopify');
+    if (listing?.status !== 'ended') {
+      await channelListingService.recordSuccess(product.id, 'shopify', {
+        externalId: String(shopifyProduct.id),
+        status: this.mapProductStatus(shopifyProduct.status),
+      });
+      await this.importPrice(product, shopifyProduct);
+    }
+
+    return { topic: 'products/update', handled: true, productIds: [product.id] };
+  }
+
+  private async handleInventoryLevelUpdated(
+    level: ShopifyInventoryLevelWebhook,
+    store: ShopifyStore
+  ): Promise<ShopifyWebhookResult> {
+    const inventoryItem = await store.shopify.getInventoryItem(level.inventory_item_id);
+    const product = await this.findProduct(store.organizationId, { sku: inventoryItem.sku });
+
+    // Only live listings can sell out - stock is set to zero while a product is being created
+    if (!product || product.status !== 'listed') {
+      return { topic: 'inventory_levels/update', handled: false, productIds: [] };
+    }
+
+    const levels = await store.shopify.getInventoryLevels(level.inventory_item_id);
+    const available = levels.reduce((total, current) => total + (current.available || 0), 0);
+
+    await inventorySyncService.handleQuantityChange(product.id, 'shopify', available);
+
+    return { topic: 'inventory_levels/update', handled: true, productIds: [product.id] };
+  }
+
+  /**
+   * A price edited in the Shopify admin becomes the product's price. Prices we
+   * pushed ourselves already match and are left alone.
+   */
+  private async importPrice(product: Product, shopifyProduct: ShopifyProduct): Promise<void> {
+    const shopifyPrice = Number(shopifyProduct.variants?.[0]?.price);
+    if (!(shopifyPrice > 0) || shopifyPrice === getListingPrice(product)) return;
+
+    await prisma.product.update({
+      where: { id: product.id },
+      data: { price: shopifyPrice },
+    });
+    await priceHistoryService.recordChanges(
+      product.id,
+      product,
+      { price: shopifyPrice },
+      { source: 'channel_import', reason: 'Changed in Shopify' }
+    );
+  }
+
+  private mapProductStatus(status: ShopifyProduct['status']): ChannelListingStatus {
+    switch (status) {
+      case 'active': return 'active';
+      case 'archived': return 'ended';
+      case 'draft':
+      default: return 'pending';
+    }
+  }
+}
+
+export const shopifyWebhookHandler = new ShopifyWebhookHandler();
@@ -0,0 +1,334 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, normalize } from 'path';
+
+export type StorageVisibility = 'public' | 'private';
+
+export interface StoredFile {
+  key: string;
+  // Private files have no lasting URL - ask for a signed one when needed
+  url: string | null;
+  size: number;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  put(path: string, body: Buffer, options: { contentType: string; visibility: StorageVisibility }): Promise<StoredFile>;
+  delete(key: string): Promise<void>;
+  // Stable URL for a public file - what marketplaces are given
+  getPublicUrl(key: string): string;
+  // Time-limited URL for a private file
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+const DEFAULT_SIGNED_URL_TTL = 15 * 60;
+
+/**
+ * Keys are "<visibility>/<path>" so a key alone says where the file lives
+ */
+export function buildStorageKey(visibility: StorageVisibility, path: string): string {
+  return `${visibility}/${path.replace(/^\/+/, '')}`;
+}
+
+export function getKeyVisibility(key: string): StorageVisibility {
+  return key.startsWith('private/') ? 'private' : 'public';
+}
+
+// Reject keys that could escape the storage root
+function assertSafeKey(key: string): void {
+  if (!/^(public|private)\//.test(key) || key.split('/').some(part => part === '..' || part === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+// Signatures for local private URLs, checked by /api/files
+function signLocalUrl(key: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${key}:${expires}`).digest('hex');
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private publicRoot: string;
+  private privateRoot: string;
+  private signingSecret: string;
+
+  constructor(options: { publicRoot?: string; privateRoot?: string; signingSecret?: string } = {}) {
+    // Public files are served by Next.js from public/uploads; private ones live outside public/
+    this.publicRoot = options.publicRoot || join(process.cwd(), 'public', 'uploads');
+    this.privateRoot = options.privateRoot || join(process.cwd(), 'storage', 'private');
+    this.signingSecret = options.signingSecret || '';
+  }
+
+  async put(path: string, body: Buffer, options: { contentType: string; visibility: StorageVisibility }): Promise<StoredFile> {
+    const key = buildStorageKey(options.visibility, path);
+    const filePath = this.resolvePath(key);
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+
+    return {
+      key,
+      url: options.visibility === 'public' ? this.getPublicUrl(key) : null,
+      size: body.length,
+      contentType: options.contentType,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  getPublicUrl(key: string): string {
+    assertSafeKey(key);
+    return `/uploads/${key.slice('public/'.length)}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_TTL): Promise<string> {
+    assertSafeKey(key);
+    if (!this.signingSecret) {
+      throw new Error('A storage signing secret is required for private files');
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = signLocalUrl(key, expires, this.signingSecret);
+    return `/api/files/${key}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Check a signed URL issued by getSignedUrl
+   */
+  verifySignedUrl(key: string, expires: number, signature: string): boolean {
+    if (!this.signingSecret || !Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(signLocalUrl(key, expires, this.signingSecret), 'hex');
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(this.resolvePath(key));
+  }
+
+  private resolvePath(key: string): string {
+    assertSafeKey(key);
+
+    const [visibility, ...rest] = key.split('/');
+    const root = visibility === 'private' ? this.privateRoot : this.publicRoot;
+    return normalize(join(root, ...rest));
+  }
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Base URL public objects are served from, e.g. a CDN in front of the bucket
+  publicUrl?: string;
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2, ...) using path-style
+ * requests signed with AWS Signature Version 4
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private config: S3StorageConfig;
+
+  constructor(config: S3StorageConfig) {
+    this.config = { ...config, endpoint: config.endpoint.replace(/\/$/, '') };
+  }
+
+  async put(path: string, body: Buffer, options: { contentType: string; visibility: StorageVisibility }): Promise<StoredFile> {
+    const key = buildStorageKey(options.visibility, path);
+
+    await this.request('PUT', key, body, { 'content-type': options.contentType });
+
+    return {
+      key,
+      url: options.visibility === 'public' ? this.getPublicUrl(key) : null,
+      size: body.length,
+      contentType: options.contentType,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  getPublicUrl(key: string): string {
+    assertSafeKey(key);
+    const base = this.config.publicUrl?.replace(/\/$/, '') || `${this.config.endpoint}/${this.config.bucket}`;
+    return `${base}/${this.encodeKey(key)}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_TTL): Promise<string> {
+    assertSafeKey(key);
+
+    const url = new URL(`${this.config.endpoint}${this.getObjectPath(key)}`);
+    const { amzDate, dateStamp } = this.getTimestamps();
+    const scope = this.getCredentialScope(dateStamp);
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host',
+    };
+
+    const canonicalQuery = this.canonicalQuery(query);
+    const canonicalRequest = [
+      'GET',
+      this.getObjectPath(key),
+      canonicalQuery,
+      `host:${url.host}\n`,
+      'host',
+      'UNSIGNED-PAYLOAD',
+    ].join('\n');
+
+    const signature = this.sign(canonicalRequest, amzDate, dateStamp);
+    return `${url.origin}${this.getObjectPath(key)}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private async request(
+    method: 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<void> {
+    assertSafeKey(key);
+
+    const url = new URL(`${this.config.endpoint}${this.getObjectPath(key)}`);
+    const { amzDate, dateStamp } = this.getTimestamps();
+    const payloadHash = createHash('sha256').update(body || '').digest('hex');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      this.getObjectPath(key),
+      '',
+      signedHeaderNames.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const signature = this.sign(canonicalRequest, amzDate, dateStamp);
+    const authorization = `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.getCredentialScope(dateStamp)}, ` +
+      `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`;
+
+    // fetch sets Host itself
+    const requestHeaders = Object.fromEntries(
+      Object.entries(headers).filter(([name]) => name !== 'host')
+    );
+
+    const response = await fetch(url, {
+      method,
+      headers: { ...requestHeaders, Authorization: authorization },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+
+    // Deleting a missing object is not an error
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      const errorText = await response.text();
+      throw new Error(`Storage API Error: ${response.status} - ${errorText}`);
+    }
+  }
+
+  private sign(canonicalRequest: string, amzDate: string, dateStamp: string): string {
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      this.getCredentialScope(dateStamp),
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'),
+      'aws4_request'
+    );
+
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private getTimestamps(): { amzDate: string; dateStamp: string } {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    return { amzDate, dateStamp: amzDate.slice(0, 8) };
+  }
+
+  private getCredentialScope(dateStamp: string): string {
+    return `${dateStamp}/${this.config.region}/s3/aws4_request`;
+  }
+
+  private getObjectPath(key: string): string {
+    return `/${this.config.bucket}/${this.encodeKey(key)}`;
+  }
+
+  // RFC 3986 encoding per path segment, as SigV4 requires
+  private encodeKey(key: string): string {
+    return key.split('/').map(part => this.encode(part)).join('/');
+  }
+
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${this.encode(name)}=${this.encode(query[name])}`)
+      .join('&');
+  }
+}
+
+/**
+ * Pick the storage driver from STORAGE_DRIVER ("local" by default, or "s3")
+ */
+export function createStorageDriver(env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  if (env.STORAGE_DRIVER === 's3') {
+    const missing = ['S3_ENDPOINT', 'S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY']
+      .filter(name => !env[name]);
+    if (missing.length > 0) {
+      throw new Error(`S3 storage is missing configuration: ${missing.join(', ')}`);
+    }
+
+    return new S3StorageDriver({
+      endpoint: env.S3_ENDPOINT!,
+      region: env.S3_REGION || 'us-east-1',
+      bucket: env.S3_BUCKET!,
+      accessKeyId: env.S3_ACCESS_KEY_ID!,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+      publicUrl: env.S3_PUBLIC_URL,
+    });
+  }
+
+  return new LocalStorageDriver({
+    signingSecret: env.STORAGE_SIGNING_SECRET || env.NEXTAUTH_SECRET,
+  });
+}
+
+export const storage = createStorageDriver();
+
+/**
+ * Delete several stored files, logging rather than throwing so a missing
+ * file never blocks deleting the record that pointed at it
+ */
+export async function deleteStoredFiles(keys: string[]): Promise<void> {
+  await Promise.all(keys.map(async (key) => {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Error deleting stored file ${key}:`, error);
+    }
+  }));
+}
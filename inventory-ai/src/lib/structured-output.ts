@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+// A response that failed validation gets one repair pass, then the whole
+// request is retried
+const MAX_GENERATION_ATTEMPTS = 2;
+
+/**
+ * Thrown when a model keeps returning JSON that does not match the schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(label: string, readonly issues: string) {
+    super(`${label} response failed validation: ${issues}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Pull the JSON value out of a model response - the whole text in JSON
+ * mode, otherwise the first object or array, ignoring code fences
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const match = /[[{][\s\S]*[\]}]/.exec(trimmed);
+    if (!match) return undefined;
+
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export function parseStructuredResponse<T extends z.ZodType>(text: string, schema: T): ParseResult<z.output<T>> {
+  const json = extractJson(text);
+  if (json === undefined) {
+    return { success: false, error: 'Response contained no valid JSON' };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: z.prettifyError(result.error) };
+}
+
+export function buildRepairPrompt(text: string, schema: z.ZodType, error: string): string {
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+
+  return `
+The following response was supposed to be JSON matching a schema, but it failed validation.
+
+Validation errors:
+${error}
+
+Required JSON schema:
+${JSON.stringify(jsonSchema, null, 2)}
+
+Response to fix:
+${text}
+
+Return only the corrected JSON. Keep every value that is already valid and fill in missing required fields with your best estimate.`;
+}
+
+/**
+ * Generate a response and validate it against a schema. Invalid JSON is
+ * sent back once for repair before the request is retried.
+ */
+export async function generateValidated<T extends z.ZodType>(options: {
+  schema: T;
+  label: string;
+  generate: () => Promise<string>;
+  repair: (prompt: string) => Promise<string>;
+}): Promise<z.output<T>> {
+  const { schema, label } = options;
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const text = await options.generate();
+
+    const parsed = parseStructuredResponse(text, schema);
+    if (parsed.success) return parsed.data;
+
+    console.warn(`${label} response failed validation (attempt ${attempt}):`, parsed.error);
+    lastError = parsed.error;
+
+    try {
+      const repaired = parseStructuredResponse(await options.repair(buildRepairPrompt(text, schema, parsed.error)), schema);
+      if (repaired.success) return repaired.data;
+      lastError = repaired.error;
+    } catch (repairError) {
+      console.error(`Error repairing ${label} response:`, repairError);
+    }
+  }
+
+  throw new StructuredOutputError(label, lastError);
+}
@@ -0,0 +1,308 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { prisma } from './prisma';
+
+export type UsageProvider = 'openai' | 'gemini' | 'apify';
+
+export const BUDGET_ACTIONS = ['degrade', 'block'] as const;
+
+// degrade skips optional calls such as Facebook scraping and web-grounded
+// AI; block also refuses every other paid call
+export type BudgetAction = typeof BUDGET_ACTIONS[number];
+
+// Who paid calls made inside usageService.run() are charged to
+export interface UsageScope {
+  userId: string;
+  productId?: string;
+}
+
+export interface UsageEntry {
+  provider: UsageProvider;
+  operation: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  computeUnits?: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  monthlyLimitUsd: number | null;
+  onExceeded: BudgetAction;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  computeUnits: number;
+}
+
+export interface UsageSummary {
+  // YYYY-MM, in UTC
+  month: string;
+  totals: UsageTotals;
+  byProvider: Array<UsageTotals & { provider: string }>;
+  byOperation: Array<UsageTotals & { provider: string; operation: string }>;
+  byProduct: Array<UsageTotals & { productId: string; title: string }>;
+  daily: Array<{ date: string; calls: number; costUsd: number }>;
+  budget: BudgetStatus;
+}
+
+// USD per million tokens, from the providers' published prices
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gemini-flash-latest': { input: 0.3, output: 2.5 },
+};
+
+// Unknown models are charged like the dearest one, so budgets err on the safe side
+const FALLBACK_MODEL_PRICE = { input: 2.5, output: 10 };
+
+// Gemini bills each request grounded with Google Search on top of its tokens
+export const GEMINI_GROUNDED_REQUEST_USD = 0.035;
+
+const APIFY_COMPUTE_UNIT_USD = Number(process.env.APIFY_COMPUTE_UNIT_USD) || 0.4;
+
+const TOP_PRODUCTS = 10;
+
+export function estimateTokenCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = MODEL_PRICES[model]
+    ?? Object.entries(MODEL_PRICES).find(([name]) => model.startsWith(name))?.[1]
+    ?? FALLBACK_MODEL_PRICE;
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Cost of an Apify actor run - the platform's own figure when it reports
+ * one, otherwise its compute units at the plan's price
+ */
+export function estimateApifyCost(run: { usageTotalUsd?: number; stats?: { computeUnits?: number } }): number {
+  return run.usageTotalUsd ?? (run.stats?.computeUnits ?? 0) * APIFY_COMPUTE_UNIT_USD;
+}
+
+export function getMonthStart(month?: string): Date {
+  if (month && /^\d{4}-\d{2}$/.test(month)) {
+    return new Date(`${month}-01T00:00:00.000Z`);
+  }
+
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Thrown before a paid call when the user's budget is spent and set to block
+ */
+export class BudgetExceededError extends Error {
+  constructor(readonly status: BudgetStatus) {
+    super(
+      `Monthly usage budget of $${status.monthlyLimitUsd?.toFixed(2)} reached ($${status.spentUsd.toFixed(2)} spent this month)`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * The budget error behind a failure - services often wrap it as the cause
+ * of their own error
+ */
+export function getBudgetExceededError(error: unknown): BudgetExceededError | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof BudgetExceededError) return current;
+  }
+  return undefined;
+}
+
+function toTotals(group: {
+  _count: { _all: number };
+  _sum: { costUsd: number | null; inputTokens: number | null; outputTokens: number | null; computeUnits: number | null };
+}): UsageTotals {
+  return {
+    calls: group._count._all,
+    costUsd: group._sum.costUsd ?? 0,
+    inputTokens: group._sum.inputTokens ?? 0,
+    outputTokens: group._sum.outputTokens ?? 0,
+    computeUnits: group._sum.computeUnits ?? 0,
+  };
+}
+
+const USAGE_SUMS = { costUsd: true, inputTokens: true, outputTokens: true, computeUnits: true } as const;
+
+/**
+ * Records what each AI and scraping call costs against the user and product
+ * it was made for, and enforces monthly budgets
+ */
+export class UsageService {
+  private readonly scope = new AsyncLocalStorage<UsageScope>();
+
+  /**
+   * Charge every paid call made inside fn to a user and, optionally, a product
+   */
+  run<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+    return this.scope.run(scope, fn);
+  }
+
+  getScope(): UsageScope | undefined {
+    return this.scope.getStore();
+  }
+
+  async record(entry: UsageEntry): Promise<void> {
+    const scope = this.getScope();
+    if (!scope) {
+      console.warn(`Unattributed ${entry.provider} ${entry.operation} call cost $${entry.costUsd.toFixed(4)}`);
+      return;
+    }
+
+    try {
+      await prisma.usageRecord.create({
+        data: {
+          userId: scope.userId,
+          productId: scope.productId,
+          provider: entry.provider,
+          operation: entry.operation,
+          model: entry.model,
+          inputTokens: entry.inputTokens ?? 0,
+          outputTokens: entry.outputTokens ?? 0,
+          computeUnits: entry.computeUnits ?? 0,
+          costUsd: entry.costUsd,
+        },
+      });
+    } catch (error) {
+      // Accounting must never fail the call it accounts for
+      console.error('Error recording usage:', error);
+    }
+  }
+
+  async getMonthToDateSpend(userId: string): Promise<number> {
+    const { _sum } = await prisma.usageRecord.aggregate({
+      where: { userId, createdAt: { gte: getMonthStart() } },
+      _sum: { costUsd: true },
+    });
+    return _sum.costUsd ?? 0;
+  }
+
+  async getBudgetStatus(userId: string): Promise<BudgetStatus> {
+    const [budget, spentUsd] = await Promise.all([
+      prisma.usageBudget.findUnique({ where: { userId } }),
+      this.getMonthToDateSpend(userId),
+    ]);
+
+    const monthlyLimitUsd = budget?.monthlyLimitUsd ?? (Number(process.env.DEFAULT_MONTHLY_BUDGET_USD) || null);
+    const onExceeded: BudgetAction = budget?.onExceeded === 'block' ? 'block' : 'degrade';
+
+    return {
+      monthlyLimitUsd,
+      onExceeded,
+      spentUsd,
+      remainingUsd: monthlyLimitUsd === null ? null : Math.max(0, monthlyLimitUsd - spentUsd),
+      exceeded: monthlyLimitUsd !== null && spentUsd >= monthlyLimitUsd,
+    };
+  }
+
+  async setBudget(userId: string, monthlyLimitUsd: number | null, onExceeded: BudgetAction): Promise<BudgetStatus> {
+    if (monthlyLimitUsd === null) {
+      await prisma.usageBudget.deleteMany({ where: { userId } });
+    } else {
+      await prisma.usageBudget.upsert({
+        where: { userId },
+        create: { userId, monthlyLimitUsd, onExceeded },
+        update: { monthlyLimitUsd, onExceeded },
+      });
+    }
+
+    return this.getBudgetStatus(userId);
+  }
+
+  /**
+   * Call before a paid request - throws when the budget is spent and blocks
+   */
+  async assertWithinBudget(): Promise<void> {
+    const status = await this.getScopedBudgetStatus();
+    if (status?.exceeded && status.onExceeded === 'block') {
+      throw new BudgetExceededError(status);
+    }
+  }
+
+  /**
+   * Whether optional paid work should be skipped because the budget is spent
+   */
+  async shouldDegrade(): Promise<boolean> {
+    const status = await this.getScopedBudgetStatus();
+    return Boolean(status?.exceeded);
+  }
+
+  async getSummary(userId: string, month?: string): Promise<UsageSummary> {
+    const start = getMonthStart(month);
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    const where = { userId, createdAt: { gte: start, lt: end } };
+
+    const [totals, byProvider, byOperation, byProduct, records, budget] = await Promise.all([
+      prisma.usageRecord.aggregate({ where, _count: { _all: true }, _sum: USAGE_SUMS }),
+      prisma.usageRecord.groupBy({ by: ['provider'], where, _count: { _all: true }, _sum: USAGE_SUMS }),
+      prisma.usageRecord.groupBy({ by: ['provider', 'operation'], where, _count: { _all: true }, _sum: USAGE_SUMS }),
+      prisma.usageRecord.groupBy({
+        by: ['productId'],
+        where: { ...where, productId: { not: null } },
+        _count: { _all: true },
+        _sum: USAGE_SUMS,
+        orderBy: { _sum: { costUsd: 'desc' } },
+        take: TOP_PRODUCTS,
+      }),
+      prisma.usageRecord.findMany({ where, select: { createdAt: true, costUsd: true } }),
+      this.getBudgetStatus(userId),
+    ]);
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: byProduct.map(group => group.productId).filter((id): id is string => id !== null) } },
+      select: { id: true, title: true },
+    });
+    const titles = new Map(products.map(product => [product.id, product.title]));
+
+    const daily = new Map<string, { date: string; calls: number; costUsd: number }>();
+    for (const record of records) {
+      const date = record.createdAt.toISOString().slice(0, 10);
+      const day = daily.get(date) ?? { date, calls: 0, costUsd: 0 };
+      day.calls++;
+      day.costUsd += record.costUsd;
+      daily.set(date, day);
+    }
+
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+    return {
+      month: start.toISOString().slice(0, 7),
+      totals: toTotals(totals),
+      byProvider: byProvider.map(group => ({ provider: group.provider, ...toTotals(group) })).sort(byCost),
+      byOperation: byOperation
+        .map(group => ({ provider: group.provider, operation: group.operation, ...toTotals(group) }))
+        .sort(byCost),
+      byProduct: byProduct.map(group => ({
+        productId: group.productId as string,
+        title: titles.get(group.productId as string) ?? 'Deleted product',
+        ...toTotals(group),
+      })),
+      daily: [...daily.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      budget,
+    };
+  }
+
+  // Calls made outside a scope belong to nobody, so no budget applies
+  private async getScopedBudgetStatus(): Promise<BudgetStatus | null> {
+    const scope = this.getScope();
+    if (!scope) return null;
+
+    try {
+      return await this.getBudgetStatus(scope.userId);
+    } catch (error) {
+      // An unreadable budget never stops work
+      console.error('Error checking usage budget:', error);
+      return null;
+    }
+  }
+}
+
+export const usageService = new UsageService();
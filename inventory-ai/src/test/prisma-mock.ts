@@ -0,0 +1,19 @@
+import { vi, type Mock } from 'vitest';
+
+type ModelMock = Record<string, Mock>;
+
+/**
+ * Stands in for the Prisma client in tests that mock '@/lib/prisma'. Every
+ * model method is a vi.fn() made on first use, resolving to undefined until
+ * the test gives it an implementation.
+ */
+export const prisma = new Proxy({} as Record<string, ModelMock>, {
+  get(models, model: string) {
+    models[model] ??= new Proxy({} as ModelMock, {
+      get(methods, method: string) {
+        return (methods[method] ??= vi.fn());
+      },
+    });
+    return models[model];
+  },
+});
@@ -0,0 +1,72 @@
+import type { Mock } from 'vitest';
+import { auth } from '@/lib/auth';
+import type { OrganizationRole } from '@/lib/organizations';
+import { prisma } from './prisma-mock';
+
+export const ORG_A = 'org-a';
+export const ORG_B = 'org-b';
+
+export interface TestProduct {
+  id: string;
+  organizationId: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Sign in as a member of the organization with the role. Needs '@/lib/auth'
+ * and '@/lib/prisma' mocked by the test file.
+ */
+export function signInAs(role: OrganizationRole, organizationId: string = ORG_A, userId: string = `user-${role}`) {
+  (auth as unknown as Mock).mockResolvedValue({ user: { id: userId } });
+  prisma.user.findUniqueOrThrow.mockResolvedValue({ name: null, activeOrganizationId: organizationId });
+  prisma.membership.findUnique.mockResolvedValue({
+    id: `membership-${userId}`,
+    organizationId,
+    userId,
+    role,
+    organization: { id: organizationId, name: organizationId },
+  });
+}
+
+export function signOut() {
+  (auth as unknown as Mock).mockResolvedValue(null);
+}
+
+// Products findFirst can see, matched on the id and organization it is asked for
+export function seedProducts(...products: TestProduct[]) {
+  prisma.product.findFirst.mockImplementation(async ({ where }: { where: Partial<TestProduct> }) =>
+    products.find(product =>
+      Object.entries(where).every(([field, value]) => product[field] === value)
+    ) ?? null
+  );
+}
+
+export interface TestListing {
+  productId: string;
+  channel: string;
+  status: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Channel listings as an in-memory table - what the code under test writes
+ * is what it reads back. Returns the table for assertions.
+ */
+export function seedChannelListings(...listings: TestListing[]): TestListing[] {
+  const table = listings.map(listing => ({ externalId: null, offerId: null, lastError: null, ...listing }));
+  const find = ({ productId, channel }: { productId: string; channel: string }) =>
+    table.find(listing => listing.productId === productId && listing.channel === channel);
+
+  prisma.channelListing.findMany.mockImplementation(async ({ where }) =>
+    table.filter(listing =>
+      listing.productId === where.productId && (!where.status?.not || listing.status !== where.status.not)
+    )
+  );
+  prisma.channelListing.findUnique.mockImplementation(async ({ where }) => find(where.productId_channel) ?? null);
+  prisma.channelListing.update.mockImplementation(async ({ where, data }) =>
+    Object.assign(find(where.productId_channel)!, data)
+  );
+  prisma.inventorySyncAction.create.mockImplementation(async ({ data }) => ({ id: `action-${data.channel}`, ...data }));
+
+  return table;
+}